@@ -5,6 +5,7 @@ import { NavigationProvider, useNavigation, Page } from "./lib/navigation";
 import { AudioProvider } from "./hooks/useAudio";
 import { DemoModeProvider } from "./hooks/useDemoMode";
 import { usePushNotifications } from "./hooks/usePushNotifications";
+import { getPendingInvite } from "./lib/pendingInvite";
 import Layout from "./components/Layout";
 import BootScreen from "./components/BootScreen";
 import LoginPage from "./pages/LoginPage";
@@ -13,6 +14,7 @@ import IncidentDetailPage from "./pages/IncidentDetailPage";
 import SchedulePage from "./pages/SchedulePage";
 import TeamPage from "./pages/TeamPage";
 import SettingsPage from "./pages/SettingsPage";
+import SilencesPage from "./pages/SilencesPage";
 
 function PageContainer({ isVisible, children }: { page: Page; isVisible: boolean; children: React.ReactNode }) {
   return (
@@ -59,10 +61,10 @@ function AppContent() {
     }
   }, [isLoading, isAuthenticated, state.currentPage, navigate]);
 
-  // Redirect to incidents after login
+  // Redirect to incidents after login, or to the team page to accept an invite
   useEffect(() => {
     if (isAuthenticated && state.currentPage === "login") {
-      navigate("incidents");
+      navigate(getPendingInvite() ? "team" : "incidents");
     }
   }, [isAuthenticated, state.currentPage, navigate]);
 
@@ -102,6 +104,11 @@ function AppContent() {
             <PageContainer page="incident-detail" isVisible={state.currentPage === "incident-detail"}>
               <IncidentDetailPage incidentId={state.incidentId} />
             </PageContainer>
+
+            {/* Team silences overlay */}
+            <PageContainer page="silences" isVisible={state.currentPage === "silences"}>
+              <SilencesPage teamId={state.teamId} />
+            </PageContainer>
           </div>
         </Layout>
       )}
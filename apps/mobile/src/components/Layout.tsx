@@ -1,14 +1,28 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useNavigation, Page } from "../lib/navigation";
 import { useAudio } from "../hooks/useAudio";
+import { useAuth } from "../lib/auth";
+import { useDemoMode } from "../hooks/useDemoMode";
+import { usersApi } from "../lib/api";
 
 interface LayoutProps {
   children: React.ReactNode;
 }
 
 export default function Layout({ children }: LayoutProps) {
+  const { isAuthenticated } = useAuth();
+  const { isEnabled: demoEnabled } = useDemoMode();
+  // Do-not-disturb lives on the backend profile, which demo mode doesn't use
+  const showHeader = isAuthenticated && !demoEnabled;
+
   return (
     <div className="flex flex-col h-screen bg-zinc-900 crt-effect">
-      <main className="flex-1 overflow-hidden safe-area-top relative">{children}</main>
+      {showHeader && (
+        <header className="flex justify-end px-2 bg-zinc-900 safe-area-top">
+          <DndToggle />
+        </header>
+      )}
+      <main className={`flex-1 overflow-hidden relative ${showHeader ? "" : "safe-area-top"}`}>{children}</main>
 
       <nav className="flex border-t-2 border-amber-500/30 bg-zinc-800 safe-area-bottom border-glow">
         <TabLink page="incidents" icon={<AlertIcon />} label="ALERTS" />
@@ -20,6 +34,47 @@ export default function Layout({ children }: LayoutProps) {
   );
 }
 
+const HOUR = 60 * 60 * 1000;
+
+// Each tap moves OFF → 1H → 8H → OFF; warning and info pushes wait for a digest meanwhile
+function DndToggle() {
+  const queryClient = useQueryClient();
+  const { playUISound } = useAudio();
+
+  const { data } = useQuery({
+    queryKey: ["me"],
+    queryFn: () => usersApi.me(),
+    // Keeps the countdown current and notices when it runs out
+    refetchInterval: 60 * 1000,
+  });
+
+  const mutation = useMutation({
+    mutationFn: (until: number | null) => usersApi.updateMe({ dnd_until: until }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["me"] }),
+    onError: () => playUISound("error"),
+  });
+
+  const dndUntil: number | undefined = data?.user?.dnd_until;
+  const remaining = dndUntil ? Math.max(dndUntil - Date.now(), 0) : 0;
+  const next = remaining === 0 ? Date.now() + HOUR : remaining <= HOUR ? Date.now() + 8 * HOUR : null;
+  const label = remaining === 0 ? "OFF" : remaining < HOUR ? `${Math.ceil(remaining / 60000)}M` : `${Math.ceil(remaining / HOUR)}H`;
+
+  return (
+    <button
+      onClick={() => {
+        playUISound("click");
+        mutation.mutate(next);
+      }}
+      disabled={!data || mutation.isPending}
+      className={`text-xs font-mono font-bold px-2 py-1 active:scale-95 active:bg-amber-500/20 rounded transition-all disabled:opacity-50 ${
+        remaining > 0 ? "text-amber-500 text-glow" : "text-amber-500/40"
+      }`}
+    >
+      [DND {label}]
+    </button>
+  );
+}
+
 interface TabLinkProps {
   page: Page;
   icon: React.ReactNode;
@@ -29,7 +84,10 @@ interface TabLinkProps {
 function TabLink({ page, icon, label }: TabLinkProps) {
   const { state, navigate } = useNavigation();
   const { playUISound, initialize, isInitialized } = useAudio();
-  const isActive = state.currentPage === page || (page === "incidents" && state.currentPage === "incident-detail");
+  const isActive =
+    state.currentPage === page ||
+    (page === "incidents" && state.currentPage === "incident-detail") ||
+    (page === "team" && state.currentPage === "silences");
 
   const handleClick = async () => {
     // Auto-initialize audio on first interaction
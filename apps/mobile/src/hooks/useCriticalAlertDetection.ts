@@ -6,7 +6,7 @@ import { useEffect, useRef, useCallback } from "react";
 interface DetectableIncident {
   incident_id: string;
   severity: "critical" | "warning" | "info";
-  state: "triggered" | "acked" | "resolved";
+  state: "triggered" | "acked" | "resolved" | "suppressed";
 }
 
 interface UseCriticalAlertDetectionOptions<T extends DetectableIncident> {
@@ -0,0 +1,40 @@
+import { useQuery } from "@tanstack/react-query";
+import { teamsApi } from "../lib/api";
+
+export type TeamRole = "owner" | "admin" | "responder" | "observer";
+
+const ROLE_RANK: Record<TeamRole, number> = {
+  observer: 0,
+  responder: 1,
+  admin: 2,
+  owner: 3,
+};
+
+export const ROLE_LABELS: Record<TeamRole, string> = {
+  owner: "[OWNER]",
+  admin: "[ADMIN]",
+  responder: "[RESPONDER]",
+  observer: "[OBSERVER]",
+};
+
+/**
+ * Whether a control needing `required` should be shown. An unknown role
+ * (demo mode, game incidents, teams not loaded yet) keeps controls visible;
+ * the API enforces roles either way.
+ */
+export function allows(role: TeamRole | null | undefined, required: TeamRole): boolean {
+  return !role || ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/**
+ * The signed-in user's role on a team, from the team list
+ */
+export function useTeamRole(teamId: string | null | undefined): TeamRole | null {
+  const { data } = useQuery({
+    queryKey: ["teams"],
+    queryFn: () => teamsApi.list(),
+    enabled: !!teamId,
+  });
+  const teams: { team_id: string; role?: TeamRole }[] = data?.teams || [];
+  return teams.find((team) => team.team_id === teamId)?.role ?? null;
+}
@@ -0,0 +1,29 @@
+import { useQuery } from "@tanstack/react-query";
+import { usersApi } from "../lib/api";
+
+interface UserSummary {
+  user_id: string;
+  name: string;
+  email: string;
+}
+
+/**
+ * Resolves user IDs (Cognito subs) to display names in one batch lookup.
+ * Anything the directory doesn't know - "system", demo actors, users
+ * outside your teams - is shown as is.
+ */
+export function useUserNames(userIds: (string | null | undefined)[]): (userId: string | null | undefined) => string {
+  const ids = [...new Set(userIds.filter((id): id is string => !!id))].sort();
+
+  const { data } = useQuery({
+    queryKey: ["users", ids],
+    queryFn: () => usersApi.lookup(ids),
+    enabled: ids.length > 0,
+    // Names rarely change; don't refetch on every incident poll
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const users: UserSummary[] = data?.users || [];
+  const names = new Map(users.map((user) => [user.user_id, user.name]));
+  return (userId) => (userId ? names.get(userId) ?? userId : "");
+}
@@ -52,21 +52,24 @@ export const devicesApi = {
 
 // Incidents - intercepts demo mode
 export const incidentsApi = {
-  list: (params?: { state?: string; team_id?: string }) => {
+  // Pages newest first; pass the previous page's next_cursor to continue
+  list: (params?: { state?: string; team_id?: string; limit?: number; cursor?: string }) => {
     if (isDemoMode()) return demoIncidentsApi.list(params);
-    const query = new URLSearchParams(params as Record<string, string>).toString();
+    const query = new URLSearchParams(
+      Object.entries(params || {})
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => [key, String(value)])
+    ).toString();
     return fetchWithAuth(`/incidents${query ? `?${query}` : ""}`);
   },
   get: (id: string) => {
     if (isDemoMode()) return demoIncidentsApi.get(id);
     return fetchWithAuth(`/incidents/${id}`);
   },
-  ack: (id: string, ackedByName?: string) => {
+  // The backend names the acker from their profile
+  ack: (id: string) => {
     if (isDemoMode()) return demoIncidentsApi.ack(id);
-    return fetchWithAuth(`/incidents/${id}/ack`, {
-      method: "POST",
-      body: JSON.stringify({ acked_by_name: ackedByName }),
-    });
+    return fetchWithAuth(`/incidents/${id}/ack`, { method: "POST" });
   },
   unack: (id: string) => {
     if (isDemoMode()) return demoIncidentsApi.unack(id);
@@ -88,6 +91,15 @@ export const incidentsApi = {
   },
 };
 
+// Alerts that matched no team or found nobody on call
+export const alertsApi = {
+  // Only the caller's teams and accounts; pass the previous page's next_cursor to continue
+  listUnrouted: (cursor?: string) =>
+    fetchWithAuth(`/alerts/unrouted${cursor ? `?cursor=${encodeURIComponent(cursor)}` : ""}`),
+  replay: (alertId: string) =>
+    fetchWithAuth(`/alerts/unrouted/${alertId}/replay`, { method: "POST" }),
+};
+
 // Teams
 export const teamsApi = {
   list: () => fetchWithAuth("/teams"),
@@ -97,23 +109,148 @@ export const teamsApi = {
       method: "POST",
       body: JSON.stringify({ name, aws_account_ids: awsAccountIds }),
     }),
-  update: (id: string, data: { name?: string; aws_account_ids?: string[]; escalation_policy?: unknown }) =>
+  update: (
+    id: string,
+    data: {
+      name?: string;
+      aws_account_ids?: string[];
+      escalation_policy?: unknown;
+      ok_action?: "resolve" | "annotate";
+      no_on_call_fallback?: "all_members" | "owner" | "unassigned" | null;
+      grouping?: { key: "account_region" | "dimension" | "routing_rule"; dimension?: string; window_minutes: number } | null;
+    }
+  ) =>
     fetchWithAuth(`/teams/${id}`, {
       method: "PUT",
       body: JSON.stringify(data),
     }),
-  addMember: (teamId: string, userId: string) =>
+  listMembers: (teamId: string) => fetchWithAuth(`/teams/${teamId}/members`),
+  addMember: (teamId: string, userId: string, role?: "owner" | "admin" | "responder" | "observer") =>
     fetchWithAuth(`/teams/${teamId}/members`, {
       method: "POST",
-      body: JSON.stringify({ user_id: userId }),
+      body: JSON.stringify({ user_id: userId, role }),
+    }),
+  // fyi: observers get a heads-up push when an incident triggers
+  updateMember: (teamId: string, userId: string, data: { role?: "owner" | "admin" | "responder" | "observer"; fyi?: boolean }) =>
+    fetchWithAuth(`/teams/${teamId}/members/${userId}`, {
+      method: "PUT",
+      body: JSON.stringify(data),
     }),
   removeMember: (teamId: string, userId: string) =>
     fetchWithAuth(`/teams/${teamId}/members/${userId}`, { method: "DELETE" }),
 };
 
-// Users (account management)
+// Team invitations
+export const invitesApi = {
+  list: (teamId: string) => fetchWithAuth(`/teams/${teamId}/invites`),
+  create: (teamId: string, email: string, role?: "owner" | "admin" | "responder" | "observer") =>
+    fetchWithAuth(`/teams/${teamId}/invites`, {
+      method: "POST",
+      body: JSON.stringify({ email, role }),
+    }),
+  revoke: (teamId: string, code: string) =>
+    fetchWithAuth(`/teams/${teamId}/invites/${code}`, { method: "DELETE" }),
+  // Only works for the email address the invite was sent to
+  accept: (code: string) =>
+    fetchWithAuth(`/invites/${encodeURIComponent(code)}/accept`, { method: "POST" }),
+};
+
+// Member AWS account onboarding
+export const onboardingApi = {
+  listAccounts: (teamId: string) => fetchWithAuth(`/teams/${teamId}/onboarding`),
+  getAccount: (teamId: string, accountId: string) => fetchWithAuth(`/teams/${teamId}/onboarding/${accountId}`),
+  verify: (teamId: string, accountId: string, method: "sns" | "eventbridge" = "eventbridge") =>
+    fetchWithAuth(`/teams/${teamId}/onboarding/${accountId}/verify`, {
+      method: "POST",
+      body: JSON.stringify({ method }),
+    }),
+};
+
+// Silences (maintenance windows)
+interface SilenceInput {
+  starts_at?: number;
+  ends_at?: number;
+  match?: { aws_account_id?: string; alarm_name?: string; severity?: "critical" | "warning" | "info" };
+  mode?: "skip" | "suppress";
+  comment?: string | null;
+}
+
+export const silencesApi = {
+  list: (teamId: string) => fetchWithAuth(`/teams/${teamId}/silences`),
+  create: (teamId: string, data: SilenceInput) =>
+    fetchWithAuth(`/teams/${teamId}/silences`, {
+      method: "POST",
+      body: JSON.stringify(data),
+    }),
+  update: (teamId: string, silenceId: string, data: SilenceInput) =>
+    fetchWithAuth(`/teams/${teamId}/silences/${silenceId}`, {
+      method: "PUT",
+      body: JSON.stringify(data),
+    }),
+  expire: (teamId: string, silenceId: string) =>
+    fetchWithAuth(`/teams/${teamId}/silences/${silenceId}/expire`, { method: "POST" }),
+};
+
+// Users (directory and account management)
+// What deleting an account changed on the user's teams
+export interface AccountDeletionSummary {
+  teams_left: string[];
+  teams_deleted: string[];
+  slots_removed: { team_id: string; slot_id: string; start: number; end: number; ended_early?: boolean }[];
+  coverage_gaps: { team_id: string; start: number; end: number }[];
+  incidents_reassigned: { incident_id: string; team_id: string; assigned_to: string | null }[];
+  devices_removed: number;
+  contact_methods_removed: number;
+}
+
 export const usersApi = {
-  deleteAccount: () => fetchWithAuth("/users/me", { method: "DELETE" }),
+  // Names and emails of teammates; unknown IDs are left out of the response
+  lookup: (ids: string[]) => {
+    if (isDemoMode()) return Promise.resolve({ users: [] });
+    return fetchWithAuth(`/users?ids=${ids.map(encodeURIComponent).join(",")}`);
+  },
+  me: () => fetchWithAuth("/users/me"),
+  // null clears a field
+  updateMe: (profile: {
+    name?: string;
+    time_zone?: string | null;
+    phone_number?: string | null;
+    locale?: string | null;
+    // Replaces the whole list; rules without a rule_id get one
+    notification_rules?: {
+      rule_id?: string;
+      severity: string;
+      contact_method_id?: string;
+      delay_minutes: number;
+      working_hours_only?: boolean;
+    }[];
+    quiet_hours?: { start: string; end: string } | null; // "HH:MM" in the profile's time zone
+    dnd_until?: number | null;
+  }) =>
+    fetchWithAuth("/users/me", {
+      method: "PUT",
+      body: JSON.stringify(profile),
+    }),
+  addContactMethod: (type: "email" | "sms" | "webhook", address: string) =>
+    fetchWithAuth("/users/me/contact-methods", {
+      method: "POST",
+      body: JSON.stringify({ type, address }),
+    }),
+  // Email methods take no code: they verify once the link in the email is followed
+  verifyContactMethod: (methodId: string, code?: string) =>
+    fetchWithAuth(`/users/me/contact-methods/${methodId}/verify`, {
+      method: "POST",
+      body: JSON.stringify({ code }),
+    }),
+  resendVerification: (methodId: string) =>
+    fetchWithAuth(`/users/me/contact-methods/${methodId}/resend`, { method: "POST" }),
+  removeContactMethod: (methodId: string) =>
+    fetchWithAuth(`/users/me/contact-methods/${methodId}`, { method: "DELETE" }),
+  // Profile, redacted devices, memberships, slots, incidents and game score as one JSON document
+  exportData: () => fetchWithAuth("/users/me/export"),
+  // 409 while the user is the last owner of a team with other members
+  deleteAccount: (): Promise<{ message: string; summary: AccountDeletionSummary }> =>
+    fetchWithAuth("/users/me", { method: "DELETE" }),
 };
 
 // Schedules
@@ -46,7 +46,7 @@ export const demoIncidentsApi = {
   /**
    * List all demo incidents
    */
-  list: async (_params?: { state?: string; team_id?: string }) => {
+  list: async (_params?: { state?: string; team_id?: string; limit?: number; cursor?: string }) => {
     // Simulate network delay
     await delay(100);
 
@@ -59,7 +59,8 @@ export const demoIncidentsApi = {
     // Sort by triggered_at descending (newest first)
     incidents.sort((a, b) => b.triggered_at - a.triggered_at);
 
-    return { incidents };
+    // The demo store always fits on one page
+    return { incidents, next_cursor: null };
   },
 
   /**
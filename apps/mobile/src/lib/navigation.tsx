@@ -1,16 +1,17 @@
 import { createContext, useContext, useState, useCallback, ReactNode } from "react";
 
-export type Page = "incidents" | "schedule" | "team" | "settings" | "login" | "incident-detail";
+export type Page = "incidents" | "schedule" | "team" | "settings" | "login" | "incident-detail" | "silences";
 
 interface NavigationState {
   currentPage: Page;
   incidentId: string | null;
+  teamId: string | null;
   previousPage: Page | null;
 }
 
 interface NavigationContextType {
   state: NavigationState;
-  navigate: (page: Page, params?: { incidentId?: string }) => void;
+  navigate: (page: Page, params?: { incidentId?: string; teamId?: string }) => void;
   goBack: () => void;
 }
 
@@ -20,13 +21,15 @@ export function NavigationProvider({ children }: { children: ReactNode }) {
   const [state, setState] = useState<NavigationState>({
     currentPage: "incidents",
     incidentId: null,
+    teamId: null,
     previousPage: null,
   });
 
-  const navigate = useCallback((page: Page, params?: { incidentId?: string }) => {
+  const navigate = useCallback((page: Page, params?: { incidentId?: string; teamId?: string }) => {
     setState((prev) => ({
       currentPage: page,
       incidentId: params?.incidentId ?? null,
+      teamId: params?.teamId ?? null,
       previousPage: prev.currentPage,
     }));
   }, []);
@@ -35,6 +38,7 @@ export function NavigationProvider({ children }: { children: ReactNode }) {
     setState((prev) => ({
       currentPage: prev.previousPage ?? "incidents",
       incidentId: null,
+      teamId: null,
       previousPage: null,
     }));
   }, []);
@@ -0,0 +1,15 @@
+// Invite code entered on the login screen, accepted once the user is signed in
+
+const PENDING_INVITE_KEY = "pipalert-pending-invite";
+
+export function getPendingInvite(): string | null {
+  return localStorage.getItem(PENDING_INVITE_KEY);
+}
+
+export function setPendingInvite(code: string): void {
+  localStorage.setItem(PENDING_INVITE_KEY, code.trim().toUpperCase());
+}
+
+export function clearPendingInvite(): void {
+  localStorage.removeItem(PENDING_INVITE_KEY);
+}
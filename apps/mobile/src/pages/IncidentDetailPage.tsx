@@ -1,7 +1,11 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient, QueryClient } from "@tanstack/react-query";
-import { incidentsApi, gameApi } from "../lib/api";
+import { openUrl } from "@tauri-apps/plugin-opener";
+import { incidentsApi, gameApi, teamsApi } from "../lib/api";
 import { useNavigation } from "../lib/navigation";
+import { allows, useTeamRole, TeamRole } from "../hooks/useTeamRole";
+import { useUserNames } from "../hooks/useUserNames";
+import { useDemoMode } from "../hooks/useDemoMode";
 import { useAudio } from "../hooks/useAudio";
 import { useAuth } from "../lib/auth";
 
@@ -17,12 +21,62 @@ interface TimelineEntry {
   note?: string;
 }
 
+interface AlarmContext {
+  region: string;
+  description?: string;
+  old_state?: string;
+  state_change_time: string;
+  metric_name?: string;
+  namespace?: string;
+  dimensions?: { name: string; value: string }[];
+  statistic?: string;
+  unit?: string;
+  threshold?: number;
+  comparison_operator?: string;
+  period?: number;
+  evaluation_periods?: number;
+  datapoints_to_alarm?: number;
+  treat_missing_data?: string;
+  expression?: string;
+  alarm_rule?: string;
+  annotations?: { service?: string; urgency?: string; team?: string };
+  console_url: string;
+}
+
+// CloudWatch operator names read better as symbols
+const comparisonSymbols: Record<string, string> = {
+  GreaterThanOrEqualToThreshold: ">=",
+  GreaterThanThreshold: ">",
+  LessThanThreshold: "<",
+  LessThanOrEqualToThreshold: "<=",
+  LessThanLowerOrGreaterThanUpperThreshold: "outside band",
+  LessThanLowerThreshold: "< lower band",
+  GreaterThanUpperThreshold: "> upper band",
+};
+
+function formatCondition(context: AlarmContext): string | null {
+  if (context.threshold === undefined || !context.comparison_operator) return null;
+  const operator = comparisonSymbols[context.comparison_operator] || context.comparison_operator;
+  const datapoints = context.evaluation_periods
+    ? ` for ${context.datapoints_to_alarm ?? context.evaluation_periods}/${context.evaluation_periods} × ${context.period ?? "?"}s`
+    : "";
+  return `${context.statistic ?? "value"} ${operator} ${context.threshold}${context.unit ? ` ${context.unit}` : ""}${datapoints}`;
+}
+
+interface GroupedAlert {
+  dedup_key: string;
+  summary: string;
+  triggered_at: number;
+  resolved_at?: number;
+}
+
 interface Incident {
   incident_id: string;
   alarm_name: string;
-  alarm_arn: string;
-  state: "triggered" | "acked" | "resolved";
+  alarm_arn?: string;
+  state: "triggered" | "acked" | "resolved" | "suppressed";
   severity: "critical" | "warning" | "info";
+  team_id: string;
   assigned_to: string;
   triggered_at: number;
   acked_at?: number;
@@ -33,6 +87,16 @@ interface Incident {
   game?: boolean;
   triggered_by_name?: string;
   point_multiplier?: number;
+  alarm_context?: AlarmContext;
+  runbook_url?: string;
+  alerts?: GroupedAlert[];
+  flapping?: boolean;
+}
+
+interface Member {
+  user_id: string;
+  name?: string;
+  role: TeamRole;
 }
 
 interface IncidentDetailPageProps {
@@ -46,6 +110,8 @@ export default function IncidentDetailPage({ incidentId }: IncidentDetailPagePro
   const { user } = useAuth();
   const username = user?.getUsername() || undefined;
   const [gameAckResult, setGameAckResult] = useState<{ success: boolean; points: number; message: string } | null>(null);
+  const [showReassign, setShowReassign] = useState(false);
+  const { isEnabled: demoEnabled } = useDemoMode();
 
   const { data, isLoading } = useQuery({
     queryKey: ["incident", incidentId],
@@ -61,10 +127,24 @@ export default function IncidentDetailPage({ incidentId }: IncidentDetailPagePro
 
   const incident: Incident | undefined = data?.incident;
   const isGameIncident = incident?.game === true;
+  // Observers follow along but can't ack
+  const role = useTeamRole(incident?.team_id);
+  const canRespond = isGameIncident || allows(role, "responder");
+  const nameOf = useUserNames([incident?.assigned_to, ...(incident?.timeline || []).map((entry) => entry.actor)]);
+
+  // Only the team's responders (and up) can take an incident over
+  const { data: membersData } = useQuery({
+    queryKey: ["team-members", incident?.team_id],
+    queryFn: () => teamsApi.listMembers(incident!.team_id),
+    enabled: showReassign && !!incident?.team_id,
+  });
+  const assignees: Member[] = ((membersData?.members || []) as Member[]).filter(
+    (member) => member.role !== "observer" && member.user_id !== incident?.assigned_to
+  );
 
   // Regular ack mutation for non-game incidents
   const ackMutation = useMutation({
-    mutationFn: () => incidentsApi.ack(incidentId!, username),
+    mutationFn: () => incidentsApi.ack(incidentId!),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["incident", incidentId] });
       queryClient.invalidateQueries({ queryKey: ["incidents"] });
@@ -82,6 +162,15 @@ export default function IncidentDetailPage({ incidentId }: IncidentDetailPagePro
     },
   });
 
+  const reassignMutation = useMutation({
+    mutationFn: (userId: string) => incidentsApi.reassign(incidentId!, userId),
+    onSuccess: () => {
+      setShowReassign(false);
+      queryClient.invalidateQueries({ queryKey: ["incident", incidentId] });
+      queryClient.invalidateQueries({ queryKey: ["incidents"] });
+    },
+  });
+
   const unackMutation = useMutation({
     mutationFn: () => incidentsApi.unack(incidentId!),
     onSuccess: () => {
@@ -132,6 +221,11 @@ export default function IncidentDetailPage({ incidentId }: IncidentDetailPagePro
         >
           {incident.severity.toUpperCase()}
         </span>
+        {incident.flapping && (
+          <span className="inline-block ml-2 px-2 py-1 rounded text-sm font-bold font-mono mb-2 bg-amber-500/20 text-amber-500 border border-amber-500/50">
+            🔁 FLAPPING
+          </span>
+        )}
         <h1 className="text-xl font-bold text-amber-500 font-mono text-glow">{incident.alarm_name}</h1>
         <p className="text-sm text-amber-500/50 mt-1 break-all font-mono">{incident.alarm_arn}</p>
       </div>
@@ -150,7 +244,7 @@ export default function IncidentDetailPage({ incidentId }: IncidentDetailPagePro
         </div>
         <div className="flex items-center justify-between mb-4">
           <span className="text-amber-500/70 font-mono">ASSIGNED</span>
-          <span className="font-bold text-amber-500 font-mono">{incident.assigned_to || "—"}</span>
+          <span className="font-bold text-amber-500 font-mono">{nameOf(incident.assigned_to) || "—"}</span>
         </div>
         <div className="flex items-center justify-between">
           <span className="text-amber-500/70 font-mono">TRIGGERED</span>
@@ -161,8 +255,64 @@ export default function IncidentDetailPage({ incidentId }: IncidentDetailPagePro
         <p className="text-xs text-amber-500/40 font-mono text-center mt-3">TAP TO GO BACK</p>
       </div>
 
+      {/* Hand the incident to another responder */}
+      {canRespond && !isGameIncident && !demoEnabled && incident.state !== "resolved" && incident.state !== "suppressed" && (
+        <div className="mb-6">
+          <button
+            onClick={() => {
+              playUISound("click");
+              setShowReassign(!showReassign);
+            }}
+            className="w-full py-2 bg-zinc-800 text-amber-500/70 rounded border border-amber-500/30 font-mono text-sm active:scale-[0.98] active:bg-zinc-700 transition-all"
+          >
+            {showReassign ? "[CANCEL]" : "[REASSIGN]"}
+          </button>
+          {showReassign && (
+            <div className="mt-2 bg-zinc-800 rounded border border-amber-500/30 divide-y divide-amber-500/20">
+              {assignees.map((member) => (
+                <button
+                  key={member.user_id}
+                  onClick={() => {
+                    playUISound("click");
+                    reassignMutation.mutate(member.user_id);
+                  }}
+                  disabled={reassignMutation.isPending}
+                  className="w-full p-3 text-left text-amber-500 font-mono text-sm disabled:opacity-50 active:bg-zinc-700 transition-all"
+                >
+                  {member.name || member.user_id}
+                </button>
+              ))}
+              {membersData && assignees.length === 0 && (
+                <p className="p-3 text-amber-500/50 font-mono text-sm">NO OTHER RESPONDERS</p>
+              )}
+            </div>
+          )}
+          {reassignMutation.error && (
+            <p className="text-xs text-red-500 font-mono mt-1">{(reassignMutation.error as Error).message}</p>
+          )}
+        </div>
+      )}
+
+      {/* Runbook declared in the alarm description */}
+      {incident.runbook_url && (
+        <button
+          onClick={() => {
+            playUISound("click");
+            openUrl(incident.runbook_url!);
+          }}
+          className="w-full mb-6 py-3 bg-zinc-800 text-amber-500 rounded border-2 border-amber-500/50 font-mono font-bold active:scale-[0.98] active:bg-zinc-700 transition-all"
+        >
+          [OPEN RUNBOOK]
+        </button>
+      )}
+
       {/* Action button - only acknowledge, resolve happens automatically */}
-      {incident.state === "triggered" && (
+      {incident.state === "triggered" && !canRespond && (
+        <div className="mb-6 p-3 bg-zinc-800 rounded border border-amber-500/30">
+          <p className="text-amber-500/60 font-mono text-sm text-center">OBSERVING — RESPONDERS ACK THIS ONE</p>
+        </div>
+      )}
+      {incident.state === "triggered" && canRespond && (
         <div className="mb-6">
           {/* Game mode indicator */}
           {isGameIncident && (
@@ -215,21 +365,23 @@ export default function IncidentDetailPage({ incidentId }: IncidentDetailPagePro
       {/* Status info and unack button for acked incidents */}
       {incident.state === "acked" && (
         <div className="mb-6">
-          <div className="p-3 bg-amber-500/10 rounded-t border border-amber-500/30 border-b-0">
+          <div className={`p-3 bg-amber-500/10 border border-amber-500/30 ${canRespond ? "rounded-t border-b-0" : "rounded"}`}>
             <p className="text-amber-500/80 font-mono text-sm text-center">
               ✓ ACKNOWLEDGED — WAITING FOR AUTO-RESOLVE
             </p>
           </div>
-          <button
-            onClick={() => {
-              playUISound("click");
-              unackMutation.mutate();
-            }}
-            disabled={unackMutation.isPending}
-            className="w-full py-2 bg-zinc-800 text-amber-500/70 rounded-b border border-amber-500/30 font-mono text-sm disabled:opacity-50 active:scale-[0.98] active:bg-zinc-700 transition-all"
-          >
-            {unackMutation.isPending ? "..." : "UNACKNOWLEDGE"}
-          </button>
+          {canRespond && (
+            <button
+              onClick={() => {
+                playUISound("click");
+                unackMutation.mutate();
+              }}
+              disabled={unackMutation.isPending}
+              className="w-full py-2 bg-zinc-800 text-amber-500/70 rounded-b border border-amber-500/30 font-mono text-sm disabled:opacity-50 active:scale-[0.98] active:bg-zinc-700 transition-all"
+            >
+              {unackMutation.isPending ? "..." : "UNACKNOWLEDGE"}
+            </button>
+          )}
         </div>
       )}
 
@@ -242,6 +394,104 @@ export default function IncidentDetailPage({ incidentId }: IncidentDetailPagePro
         </div>
       )}
 
+      {/* Alarms bundled into this incident; only the first one paged */}
+      {incident.alerts && incident.alerts.length > 1 && (
+        <div className="mb-6">
+          <h2 className="font-bold text-amber-500 font-mono mb-3">
+            {">"} ALERTS ({incident.alerts.filter((alert) => !alert.resolved_at).length}/{incident.alerts.length} FIRING)
+          </h2>
+          <div className="bg-zinc-800 rounded border border-amber-500/30 divide-y divide-amber-500/20">
+            {incident.alerts.map((alert) => (
+              <div key={alert.dedup_key} className="p-3 flex items-center justify-between gap-3 text-sm font-mono">
+                <div className="min-w-0">
+                  <p className={`truncate ${alert.resolved_at ? "text-amber-500/40 line-through" : "text-amber-500"}`}>{alert.summary}</p>
+                  <p className="text-xs text-amber-500/50">{new Date(alert.triggered_at).toLocaleTimeString()}</p>
+                </div>
+                <span className={`text-xs font-bold ${alert.resolved_at ? "text-green-500" : "text-red-500"}`}>
+                  {alert.resolved_at ? "OK" : "ALARM"}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* CloudWatch alarm configuration captured at trigger time */}
+      {incident.alarm_context && (
+        <div className="mb-6">
+          <h2 className="font-bold text-amber-500 font-mono mb-3">{">"} ALARM CONTEXT</h2>
+          <div className="bg-zinc-800 rounded border border-amber-500/30 p-3 space-y-2 text-sm font-mono">
+            {incident.alarm_context.description && (
+              <p className="text-amber-500/80 whitespace-pre-wrap">{incident.alarm_context.description}</p>
+            )}
+            {incident.alarm_context.annotations?.service && (
+              <div className="flex justify-between gap-3">
+                <span className="text-amber-500/70">SERVICE</span>
+                <span className="text-amber-500 text-right break-all">{incident.alarm_context.annotations.service}</span>
+              </div>
+            )}
+            {incident.alarm_context.metric_name && (
+              <div className="flex justify-between gap-3">
+                <span className="text-amber-500/70">METRIC</span>
+                <span className="text-amber-500 text-right break-all">
+                  {incident.alarm_context.namespace ? `${incident.alarm_context.namespace} / ` : ""}
+                  {incident.alarm_context.metric_name}
+                </span>
+              </div>
+            )}
+            {incident.alarm_context.expression && (
+              <div className="flex justify-between gap-3">
+                <span className="text-amber-500/70">EXPRESSION</span>
+                <span className="text-amber-500 text-right break-all">{incident.alarm_context.expression}</span>
+              </div>
+            )}
+            {incident.alarm_context.alarm_rule && (
+              <div>
+                <span className="text-amber-500/70">RULE</span>
+                <p className="text-amber-500 break-all mt-1">{incident.alarm_context.alarm_rule}</p>
+              </div>
+            )}
+            {incident.alarm_context.dimensions?.map((dimension) => (
+              <div key={dimension.name} className="flex justify-between gap-3">
+                <span className="text-amber-500/70">{dimension.name}</span>
+                <span className="text-amber-500 text-right break-all">{dimension.value}</span>
+              </div>
+            ))}
+            {formatCondition(incident.alarm_context) && (
+              <div className="flex justify-between gap-3">
+                <span className="text-amber-500/70">CONDITION</span>
+                <span className="text-amber-500 text-right">{formatCondition(incident.alarm_context)}</span>
+              </div>
+            )}
+            {incident.alarm_context.treat_missing_data && (
+              <div className="flex justify-between gap-3">
+                <span className="text-amber-500/70">MISSING DATA</span>
+                <span className="text-amber-500 text-right">{incident.alarm_context.treat_missing_data}</span>
+              </div>
+            )}
+            <div className="flex justify-between gap-3">
+              <span className="text-amber-500/70">STATE</span>
+              <span className="text-amber-500 text-right">
+                {incident.alarm_context.old_state ? `${incident.alarm_context.old_state} → ` : ""}ALARM
+              </span>
+            </div>
+            <div className="flex justify-between gap-3">
+              <span className="text-amber-500/70">REGION</span>
+              <span className="text-amber-500 text-right">{incident.alarm_context.region}</span>
+            </div>
+          </div>
+          <button
+            onClick={() => {
+              playUISound("click");
+              openUrl(incident.alarm_context!.console_url);
+            }}
+            className="w-full mt-2 py-2 bg-zinc-800 text-amber-500 rounded border border-amber-500/50 font-mono text-sm active:scale-[0.98] active:bg-zinc-700 transition-all"
+          >
+            [OPEN IN AWS CONSOLE]
+          </button>
+        </div>
+      )}
+
       {/* Timeline */}
       <div>
         <h2 className="font-bold text-amber-500 font-mono mb-3">{">"} TIMELINE</h2>
@@ -252,7 +502,7 @@ export default function IncidentDetailPage({ incidentId }: IncidentDetailPagePro
               <div>
                 <p className="font-bold text-amber-500 uppercase">{entry.event}</p>
                 <p className="text-amber-500/60">
-                  {new Date(entry.timestamp).toLocaleString()} · {entry.actor}
+                  {new Date(entry.timestamp).toLocaleString()} · {nameOf(entry.actor)}
                 </p>
                 {entry.note && (
                   <p className="text-amber-500/80 mt-1">{entry.note}</p>
@@ -1,18 +1,29 @@
 import { useState, useMemo, useRef, useEffect, useCallback } from "react";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { motion, AnimatePresence } from "framer-motion";
-import { incidentsApi } from "../lib/api";
+import { incidentsApi, alertsApi } from "../lib/api";
 import { useNavigation } from "../lib/navigation";
 import { useAudio } from "../hooks/useAudio";
 import { useCriticalAlertDetection } from "../hooks/useCriticalAlertDetection";
 import { useDemoMode } from "../hooks/useDemoMode";
+import { useUserNames } from "../hooks/useUserNames";
 
 // How long resolved incidents stay visible in ALARMS tab (ms)
 const RESOLVED_VISIBILITY_DURATION = 5000;
 
-type IncidentState = "triggered" | "acked" | "resolved";
+type IncidentState = "triggered" | "acked" | "resolved" | "suppressed";
 type Severity = "critical" | "warning" | "info";
 
+interface UnroutedAlert {
+  alert_id: string;
+  reason: "no_team" | "no_on_call";
+  detail: string;
+  alarm_name: string;
+  aws_account_id?: string;
+  source?: "cloudwatch" | "integration";
+  received_at: number;
+}
+
 interface Incident {
   incident_id: string;
   alarm_name: string;
@@ -57,7 +68,8 @@ type TabKey = "alarms" | "unacked" | "history";
 const FILTER_TABS: { key: TabKey; label: string; states: IncidentState[] }[] = [
   { key: "alarms", label: "ALARMS", states: ["triggered", "acked"] },
   { key: "unacked", label: "UNACKED", states: ["triggered"] },
-  { key: "history", label: "HISTORY", states: ["resolved"] },
+  // Silenced incidents never paged, so they only show up in the history
+  { key: "history", label: "HISTORY", states: ["resolved", "suppressed"] },
 ];
 
 function relativeTime(timestamp: number): string {
@@ -91,12 +103,18 @@ export default function IncidentsPage() {
 
   const currentTab = FILTER_TABS.find(t => t.key === activeTab)!;
 
-  // Fetch all incidents and filter client-side for tabs with multiple states
-  const { data, isLoading, refetch } = useQuery({
+  // Page through the team incidents (newest first) and filter client-side for tabs with multiple states
+  const { data: pages, isLoading, refetch, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
     queryKey: ["incidents"],
-    queryFn: () => incidentsApi.list(),
+    queryFn: ({ pageParam }) => incidentsApi.list({ cursor: pageParam }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.next_cursor ?? undefined,
     refetchInterval: 5000, // Refresh every 5 seconds
   });
+  const data = useMemo(
+    () => (pages ? { incidents: pages.pages.flatMap((page) => page.incidents as Incident[]) } : undefined),
+    [pages]
+  );
 
   // Listen for push-triggered refresh events
   useEffect(() => {
@@ -134,7 +152,7 @@ export default function IncidentsPage() {
       if (curr.state !== "resolved") return false;
       const prev = prevIncidents.find((p) => p.incident_id === curr.incident_id);
       // Was either acked or triggered before, now resolved
-      return prev && prev.state !== "resolved";
+      return prev && (prev.state === "triggered" || prev.state === "acked");
     });
 
     if (newlyResolved.length > 0) {
@@ -208,6 +226,8 @@ export default function IncidentsPage() {
       });
   }, [data?.incidents, currentTab.states, currentTab.key, recentlyResolved]);
 
+  const nameOf = useUserNames(incidents.flatMap((incident) => [incident.acked_by, incident.assigned_to]));
+
   // Count unacked critical for badge (from all data, not filtered)
   const unackedCriticalCount = useMemo(() => {
     const items: Incident[] = data?.incidents || [];
@@ -354,6 +374,9 @@ export default function IncidentsPage() {
         </div>
       </div>
 
+      {/* Alarms nobody was paged for */}
+      {!demoEnabled && <UnroutedAlertsBanner />}
+
       {/* Loading */}
       {isLoading && (
         <div className="text-center text-amber-500 font-mono py-8">{">"} LOADING INCIDENTS...</div>
@@ -366,6 +389,7 @@ export default function IncidentsPage() {
             <IncidentCard
               key={incident.incident_id}
               incident={incident}
+              ackedBy={nameOf(incident.acked_by || incident.assigned_to)}
               isFadingOut={recentlyResolved.has(incident.incident_id)}
               onClick={() => {
                 playUISound("click");
@@ -376,6 +400,21 @@ export default function IncidentsPage() {
         </AnimatePresence>
       </div>
 
+      {hasNextPage && (
+        <div className="px-3 pb-2">
+          <button
+            onClick={() => {
+              playUISound("click");
+              fetchNextPage();
+            }}
+            disabled={isFetchingNextPage}
+            className="w-full py-2 text-sm font-mono font-bold text-amber-500 border border-amber-500/30 rounded hover:border-amber-500/50 disabled:opacity-50"
+          >
+            {isFetchingNextPage ? "> LOADING..." : "[LOAD MORE]"}
+          </button>
+        </div>
+      )}
+
       {incidents.length === 0 && !isLoading && (
         <div className="text-center py-12">
           {activeTab === "alarms" ? (
@@ -407,18 +446,86 @@ export default function IncidentsPage() {
   );
 }
 
+function UnroutedAlertsBanner() {
+  const [expanded, setExpanded] = useState(false);
+  const queryClient = useQueryClient();
+  const { playUISound } = useAudio();
+
+  const { data } = useQuery({
+    queryKey: ["unrouted-alerts"],
+    queryFn: () => alertsApi.listUnrouted(),
+    refetchInterval: 30000,
+  });
+
+  const replayMutation = useMutation({
+    mutationFn: (alertId: string) => alertsApi.replay(alertId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["unrouted-alerts"] });
+      queryClient.invalidateQueries({ queryKey: ["incidents"] });
+    },
+  });
+
+  const alerts: UnroutedAlert[] = data?.alerts || [];
+  if (alerts.length === 0) return null;
+  // The banner shows the first page; a full one means there are more
+  const count = data?.next_cursor ? `${alerts.length}+` : `${alerts.length}`;
+
+  return (
+    <div className="mx-3 mt-3 bg-red-500/10 border border-red-500/50 rounded">
+      <button
+        onClick={() => {
+          playUISound("click");
+          setExpanded(!expanded);
+        }}
+        className="w-full flex items-center justify-between px-3 py-2 text-red-500 font-mono font-bold text-sm"
+      >
+        <span>⚠ {count} UNROUTED {alerts.length === 1 && !data?.next_cursor ? "ALARM" : "ALARMS"}</span>
+        <span>{expanded ? "[-]" : "[+]"}</span>
+      </button>
+      {expanded && (
+        <div className="border-t border-red-500/30 divide-y divide-red-500/20">
+          {alerts.map((alert) => (
+            <div key={alert.alert_id} className="px-3 py-2 flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <div className="text-amber-500 font-mono text-sm truncate">{alert.alarm_name}</div>
+                <div className="text-red-500/80 font-mono text-xs">{alert.detail}</div>
+                <div className="text-amber-500/40 font-mono text-xs">
+                  {alert.aws_account_id ?? "INTEGRATION"} · {relativeTime(alert.received_at)}
+                </div>
+              </div>
+              <button
+                onClick={() => {
+                  playUISound("click");
+                  replayMutation.mutate(alert.alert_id);
+                }}
+                disabled={replayMutation.isPending}
+                className="shrink-0 px-2 py-1 text-xs font-mono font-bold text-amber-500 border border-amber-500/50 rounded hover:bg-amber-500/10 disabled:opacity-50"
+              >
+                {replayMutation.isPending && replayMutation.variables === alert.alert_id ? "..." : "[REPLAY]"}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 function IncidentCard({
   incident,
+  ackedBy,
   isFadingOut,
   onClick
 }: {
   incident: Incident;
+  ackedBy: string;
   isFadingOut?: boolean;
   onClick: () => void;
 }) {
   const config = severityConfig[incident.severity];
   const isAcked = incident.state === "acked";
-  const isResolved = incident.state === "resolved";
+  const isResolved = incident.state === "resolved" || incident.state === "suppressed";
+  const isSuppressed = incident.state === "suppressed";
   const isCriticalTriggered = incident.severity === "critical" && incident.state === "triggered";
 
   // Card styling based on state
@@ -451,11 +558,16 @@ function IncidentCard({
                 <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={3}>
                   <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
                 </svg>
-                {incident.acked_by || incident.assigned_to || "ACK"}
+                {ackedBy || "ACK"}
+              </span>
+            )}
+            {isSuppressed && (
+              <span className="text-xs font-mono px-1.5 py-0.5 rounded border text-amber-500/70 bg-amber-500/10 border-amber-500/30">
+                SILENCED
               </span>
             )}
             {/* Resolved badge - show "RESOLVED" when fading out in ALARMS tab */}
-            {isResolved && (
+            {isResolved && !isSuppressed && (
               <span className={`flex items-center gap-1 text-xs font-mono px-1.5 py-0.5 rounded border ${isFadingOut ? "text-green-500 bg-green-500/20 border-green-500/50 animate-pulse" : "text-green-500/70 bg-green-500/10 border-green-500/30"}`}>
                 <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={3}>
                   <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
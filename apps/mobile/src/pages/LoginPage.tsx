@@ -2,6 +2,7 @@ import { useState, useEffect } from "react";
 import { useAuth } from "../lib/auth";
 import { useNavigation } from "../lib/navigation";
 import { getBackends, getActiveBackendId, setActiveBackendId, CloudBackend } from "../lib/backends";
+import { getPendingInvite, setPendingInvite } from "../lib/pendingInvite";
 
 export default function LoginPage() {
   const [isSignUp, setIsSignUp] = useState(false);
@@ -10,6 +11,8 @@ export default function LoginPage() {
   const [password, setPassword] = useState("");
   const [name, setName] = useState("");
   const [confirmCode, setConfirmCode] = useState("");
+  const [inviteCode, setInviteCode] = useState(() => getPendingInvite() || "");
+  const [showInviteCode, setShowInviteCode] = useState(() => !!getPendingInvite());
   const [error, setError] = useState("");
   const [success, setSuccess] = useState("");
   const [isLoading, setIsLoading] = useState(false);
@@ -52,7 +55,7 @@ export default function LoginPage() {
     try {
       const success = await signInWithBiometric();
       if (success) {
-        navigate("incidents");
+        navigate(getPendingInvite() ? "team" : "incidents");
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : "Biometric login failed");
@@ -67,6 +70,11 @@ export default function LoginPage() {
     setSuccess("");
     setIsLoading(true);
 
+    // Kept through sign-up and confirmation; the team page accepts it after login
+    if (inviteCode.trim()) {
+      setPendingInvite(inviteCode);
+    }
+
     try {
       if (isConfirming) {
         await confirmSignUp(email, confirmCode);
@@ -78,7 +86,7 @@ export default function LoginPage() {
         setIsConfirming(true);
       } else {
         await signIn(email, password);
-        navigate("incidents");
+        navigate(getPendingInvite() ? "team" : "incidents");
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : "An error occurred");
@@ -236,6 +244,20 @@ export default function LoginPage() {
               </>
             )}
 
+            {!isConfirming && showInviteCode && (
+              <div>
+                <label className="block text-amber-500/70 font-mono text-xs mb-1">{">"} INVITE CODE</label>
+                <input
+                  type="text"
+                  placeholder="Code from your team's invite"
+                  value={inviteCode}
+                  onChange={(e) => setInviteCode(e.target.value)}
+                  autoCapitalize="characters"
+                  className="w-full px-4 py-3 rounded bg-zinc-800 border-2 border-amber-500/30 text-amber-500 font-mono uppercase placeholder-amber-500/30 placeholder:normal-case focus:outline-none focus:border-amber-500 text-base"
+                />
+              </div>
+            )}
+
             {isConfirming && (
               <div>
                 <label className="block text-amber-500/70 font-mono text-xs mb-1">{">"} CONFIRMATION CODE</label>
@@ -288,6 +310,15 @@ export default function LoginPage() {
               {isSignUp ? "< BACK TO LOGIN" : "> CREATE NEW ACCOUNT"}
             </button>
           )}
+
+          {!isConfirming && !showInviteCode && (
+            <button
+              onClick={() => setShowInviteCode(true)}
+              className="w-full mt-2 text-amber-500/70 text-sm font-mono hover:text-amber-500 active:scale-95 active:text-amber-400 transition-all"
+            >
+              {">"} I HAVE AN INVITE CODE
+            </button>
+          )}
         </div>
 
         {/* Footer */}
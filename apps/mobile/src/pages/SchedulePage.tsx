@@ -1,5 +1,6 @@
 import { useQuery } from "@tanstack/react-query";
 import { schedulesApi, teamsApi } from "../lib/api";
+import { useUserNames } from "../hooks/useUserNames";
 
 interface OnCallEntry {
   user_id: string;
@@ -27,6 +28,7 @@ export default function SchedulePage() {
 
   const teams: Team[] = teamsData?.teams || [];
   const onCall: Record<string, OnCallEntry | null> = currentData?.on_call || {};
+  const nameOf = useUserNames(Object.values(onCall).map((entry) => entry?.user_id));
 
   return (
     <div className="h-full bg-zinc-900 p-4 overflow-auto">
@@ -46,7 +48,7 @@ export default function SchedulePage() {
               {entry ? (
                 <div className="mt-2">
                   <p className="text-green-500 font-bold font-mono">
-                    [ACTIVE] {entry.user_id}
+                    [ACTIVE] {nameOf(entry.user_id)}
                   </p>
                   <p className="text-sm text-amber-500/60 font-mono">
                     UNTIL {new Date(entry.slot.end).toLocaleString().toUpperCase()}
@@ -1,11 +1,12 @@
 import { useState, useEffect, useRef } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "../lib/auth";
 import { useNavigation } from "../lib/navigation";
 import { useAudio } from "../hooks/useAudio";
 import { useDemoMode } from "../hooks/useDemoMode";
 import { usePushNotifications } from "../hooks/usePushNotifications";
 import { startDemoSequence, stopDemoSequence, resetDemoCounter } from "../lib/demo";
-import { cloudDemoApi, devicesApi, gameApi, usersApi } from "../lib/api";
+import { cloudDemoApi, devicesApi, gameApi, usersApi, type AccountDeletionSummary } from "../lib/api";
 import {
   CloudBackend,
   getBackends,
@@ -59,6 +60,395 @@ function ConfirmDialog({ isOpen, title, message, onConfirm, onCancel }: ConfirmD
   );
 }
 
+interface Profile {
+  user_id: string;
+  email: string;
+  name: string;
+  time_zone?: string;
+  phone_number?: string;
+  locale?: string;
+  notification_rules?: NotificationRule[];
+  quiet_hours?: { start: string; end: string };
+  dnd_until?: number;
+}
+
+type Severity = "critical" | "warning" | "info";
+
+interface NotificationRule {
+  rule_id?: string;
+  severity: Severity;
+  contact_method_id?: string; // Unset: push to every device
+  delay_minutes: number;
+  working_hours_only?: boolean;
+}
+
+const SEVERITY_CYCLE: Severity[] = ["critical", "warning", "info"];
+const DELAY_CYCLE = [0, 5, 15, 30, 60];
+
+type ContactMethodType = "email" | "sms" | "webhook";
+
+interface ContactMethod {
+  method_id: string;
+  type: ContactMethodType | "push";
+  address: string;
+  verified: boolean;
+  created_at: number;
+}
+
+const CONTACT_TYPE_CYCLE: ContactMethodType[] = ["email", "sms", "webhook"];
+
+const CONTACT_PLACEHOLDERS: Record<ContactMethodType, string> = {
+  email: "Email",
+  sms: "+4915112345678",
+  webhook: "https://...",
+};
+
+const inputClassName =
+  "w-full px-3 py-2 bg-zinc-900 border-2 border-amber-500/30 rounded text-amber-500 font-mono placeholder-amber-500/30 focus:outline-none focus:border-amber-500 text-base";
+
+// Display name, time zone, phone and locale; the name is what teammates see as the acker
+function ProfileSettings() {
+  const queryClient = useQueryClient();
+  const { playUISound } = useAudio();
+  const [form, setForm] = useState({ name: "", time_zone: "", phone_number: "", locale: "", quiet_start: "", quiet_end: "" });
+
+  const { data } = useQuery({
+    queryKey: ["me"],
+    queryFn: () => usersApi.me(),
+  });
+  const profile: Profile | undefined = data?.user;
+
+  useEffect(() => {
+    if (!profile) return;
+    setForm({
+      name: profile.name,
+      time_zone: profile.time_zone || "",
+      phone_number: profile.phone_number || "",
+      locale: profile.locale || "",
+      quiet_start: profile.quiet_hours?.start || "",
+      quiet_end: profile.quiet_hours?.end || "",
+    });
+  }, [profile]);
+
+  const saveMutation = useMutation({
+    // Blank optional fields are cleared
+    mutationFn: () =>
+      usersApi.updateMe({
+        name: form.name,
+        time_zone: form.time_zone || null,
+        phone_number: form.phone_number || null,
+        locale: form.locale || null,
+        quiet_hours: form.quiet_start && form.quiet_end ? { start: form.quiet_start, end: form.quiet_end } : null,
+      }),
+    onSuccess: () => {
+      playUISound("success");
+      queryClient.invalidateQueries({ queryKey: ["me"] });
+      queryClient.invalidateQueries({ queryKey: ["users"] });
+    },
+    onError: () => playUISound("error"),
+  });
+
+  if (!profile) return null;
+
+  const fields: { key: keyof typeof form; label: string; placeholder: string; type?: string }[] = [
+    { key: "name", label: "DISPLAY NAME", placeholder: profile.email.split("@")[0] },
+    { key: "time_zone", label: "TIME ZONE", placeholder: Intl.DateTimeFormat().resolvedOptions().timeZone },
+    { key: "phone_number", label: "PHONE", placeholder: "+4915112345678" },
+    { key: "locale", label: "LOCALE", placeholder: navigator.language },
+    // Warning and info pushes wait for a digest; critical ones still come through
+    { key: "quiet_start", label: "QUIET HOURS FROM", placeholder: "22:00", type: "time" },
+    { key: "quiet_end", label: "QUIET HOURS UNTIL", placeholder: "07:00", type: "time" },
+  ];
+
+  return (
+    <div className="mb-3">
+      <p className="text-xs text-amber-500/50 font-mono mb-2">{profile.email}</p>
+      <div className="space-y-2">
+        {fields.map((field) => (
+          <div key={field.key}>
+            <label className="block text-xs text-amber-500/70 font-mono mb-1">{field.label}</label>
+            <input
+              type={field.type || "text"}
+              placeholder={field.placeholder}
+              value={form[field.key]}
+              onChange={(e) => setForm({ ...form, [field.key]: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+        ))}
+      </div>
+      {saveMutation.error && <p className="text-xs text-red-500 font-mono mt-2">{(saveMutation.error as Error).message}</p>}
+      <button
+        onClick={() => {
+          playUISound("click");
+          saveMutation.mutate();
+        }}
+        disabled={!form.name.trim() || saveMutation.isPending}
+        className="w-full mt-3 py-2 bg-amber-500/20 text-amber-500 rounded border border-amber-500/50 font-mono text-sm font-bold disabled:opacity-50 active:scale-95 transition-transform"
+      >
+        {saveMutation.isPending ? "SAVING..." : "SAVE PROFILE"}
+      </button>
+      <ContactMethods methods={data?.contact_methods || []} />
+      <NotificationRules rules={profile.notification_rules || []} methods={data?.contact_methods || []} />
+    </div>
+  );
+}
+
+/**
+ * How you get paged per severity, e.g. push now and email after 5 minutes.
+ * Severities without a rule push every device right away.
+ */
+function NotificationRules({ rules, methods }: { rules: NotificationRule[]; methods: ContactMethod[] }) {
+  const queryClient = useQueryClient();
+  const { playUISound } = useAudio();
+  const [draft, setDraft] = useState<NotificationRule | null>(null);
+
+  // Push covers every device; other targets must be verified first
+  const targets = [undefined, ...methods.filter((method) => method.type !== "push" && method.verified).map((method) => method.method_id)];
+  const targetLabel = (methodId?: string) => {
+    const method = methods.find((candidate) => candidate.method_id === methodId);
+    return method ? `${method.type.toUpperCase()} ${method.address}` : "PUSH";
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (next: NotificationRule[]) => usersApi.updateMe({ notification_rules: next }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["me"] });
+      setDraft(null);
+    },
+    onError: () => playUISound("error"),
+  });
+
+  const cycle = <T,>(options: T[], current: T) => options[(options.indexOf(current) + 1) % options.length];
+  const buttonClassName =
+    "text-xs text-amber-500 font-mono font-bold px-2 py-1 active:scale-95 active:bg-amber-500/20 rounded transition-all disabled:opacity-50 shrink-0";
+
+  return (
+    <div className="mt-4">
+      <div className="flex items-center justify-between mb-1">
+        <p className="text-xs text-amber-500/70 font-mono">NOTIFICATION RULES</p>
+        <button
+          onClick={() => {
+            playUISound("click");
+            setDraft(draft ? null : { severity: "critical", delay_minutes: 0 });
+          }}
+          className={buttonClassName}
+        >
+          {draft ? "[CANCEL]" : "[+ ADD]"}
+        </button>
+      </div>
+      {draft && (
+        <div className="flex flex-wrap items-center gap-1 mb-2">
+          <button onClick={() => setDraft({ ...draft, severity: cycle(SEVERITY_CYCLE, draft.severity) })} className={buttonClassName}>
+            {draft.severity.toUpperCase()}
+          </button>
+          <button
+            onClick={() => setDraft({ ...draft, contact_method_id: cycle(targets, draft.contact_method_id) })}
+            className={`${buttonClassName} truncate max-w-[12rem]`}
+          >
+            {targetLabel(draft.contact_method_id)}
+          </button>
+          <button onClick={() => setDraft({ ...draft, delay_minutes: cycle(DELAY_CYCLE, draft.delay_minutes) })} className={buttonClassName}>
+            {draft.delay_minutes === 0 ? "NOW" : `AFTER ${draft.delay_minutes}M`}
+          </button>
+          <button onClick={() => setDraft({ ...draft, working_hours_only: !draft.working_hours_only })} className={buttonClassName}>
+            {draft.working_hours_only ? "WORK HOURS" : "ANYTIME"}
+          </button>
+          <button
+            onClick={() => {
+              playUISound("click");
+              saveMutation.mutate([...rules, draft]);
+            }}
+            disabled={saveMutation.isPending}
+            className={buttonClassName}
+          >
+            [SAVE]
+          </button>
+        </div>
+      )}
+      {rules.length === 0 && !draft && <p className="text-xs text-amber-500/40 font-mono">NO RULES · EVERY PAGE PUSHES RIGHT AWAY</p>}
+      {SEVERITY_CYCLE.flatMap((severity) =>
+        rules
+          .filter((rule) => rule.severity === severity)
+          .sort((a, b) => a.delay_minutes - b.delay_minutes)
+          .map((rule) => (
+            <div key={rule.rule_id} className="flex items-center justify-between">
+              <p className="text-sm text-amber-500/60 font-mono truncate min-w-0">
+                {severity.toUpperCase()} · {targetLabel(rule.contact_method_id)} ·{" "}
+                {rule.delay_minutes === 0 ? "NOW" : `AFTER ${rule.delay_minutes}M IF UNACKED`}
+                {rule.working_hours_only ? " · WORK HOURS" : ""}
+              </p>
+              <button
+                onClick={() => {
+                  playUISound("click");
+                  saveMutation.mutate(rules.filter((candidate) => candidate.rule_id !== rule.rule_id));
+                }}
+                disabled={saveMutation.isPending}
+                className="text-xs text-red-500 font-mono font-bold px-2 py-1 active:scale-95 active:bg-red-500/20 rounded transition-all disabled:opacity-50"
+              >
+                [X]
+              </button>
+            </div>
+          ))
+      )}
+      {saveMutation.error && <p className="text-xs text-red-500 font-mono mt-1">{(saveMutation.error as Error).message}</p>}
+    </div>
+  );
+}
+
+// Where notifications can reach you; each address has to be verified before it's used
+function ContactMethods({ methods }: { methods: ContactMethod[] }) {
+  const queryClient = useQueryClient();
+  const { playUISound } = useAudio();
+  const [showAdd, setShowAdd] = useState(false);
+  const [type, setType] = useState<ContactMethodType>("email");
+  const [address, setAddress] = useState("");
+  const [codes, setCodes] = useState<Record<string, string>>({});
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["me"] });
+
+  const addMutation = useMutation({
+    mutationFn: () => usersApi.addContactMethod(type, address),
+    onSuccess: () => {
+      refresh();
+      setShowAdd(false);
+      setAddress("");
+    },
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: (methodId: string) => usersApi.verifyContactMethod(methodId, codes[methodId]),
+    onSuccess: () => {
+      playUISound("success");
+      refresh();
+    },
+    onError: () => playUISound("error"),
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: (methodId: string) => usersApi.resendVerification(methodId),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (methodId: string) => usersApi.removeContactMethod(methodId),
+    onSuccess: refresh,
+  });
+
+  const error = (addMutation.error || verifyMutation.error || resendMutation.error || removeMutation.error) as Error | null;
+  const buttonClassName =
+    "text-xs text-amber-500 font-mono font-bold px-2 py-1 active:scale-95 active:bg-amber-500/20 rounded transition-all disabled:opacity-50 shrink-0";
+
+  return (
+    <div className="mt-4">
+      <div className="flex items-center justify-between mb-1">
+        <p className="text-xs text-amber-500/70 font-mono">CONTACT METHODS</p>
+        <button
+          onClick={() => {
+            playUISound("click");
+            setShowAdd(!showAdd);
+          }}
+          className={buttonClassName}
+        >
+          {showAdd ? "[CANCEL]" : "[+ ADD]"}
+        </button>
+      </div>
+      {showAdd && (
+        <div className="flex items-center gap-2 mb-2">
+          <button
+            onClick={() => {
+              playUISound("click");
+              setType(CONTACT_TYPE_CYCLE[(CONTACT_TYPE_CYCLE.indexOf(type) + 1) % CONTACT_TYPE_CYCLE.length]);
+            }}
+            className={buttonClassName}
+          >
+            {type.toUpperCase()}
+          </button>
+          <input
+            type="text"
+            placeholder={CONTACT_PLACEHOLDERS[type]}
+            value={address}
+            onChange={(e) => setAddress(e.target.value)}
+            className={`flex-1 min-w-0 ${inputClassName}`}
+          />
+          <button
+            onClick={() => {
+              playUISound("click");
+              addMutation.mutate();
+            }}
+            disabled={!address || addMutation.isPending}
+            className={buttonClassName}
+          >
+            [ADD]
+          </button>
+        </div>
+      )}
+      {methods.map((method) => (
+        <div key={method.method_id} className="py-1">
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-amber-500/60 font-mono truncate min-w-0">
+              {method.type.toUpperCase()} · {method.address}
+            </p>
+            <div className="flex items-center">
+              <span className={`text-xs font-mono font-bold px-2 py-1 ${method.verified ? "text-green-500" : "text-amber-500/50"}`}>
+                {method.verified ? "[VERIFIED]" : "[PENDING]"}
+              </span>
+              {method.type !== "push" && (
+                <button
+                  onClick={() => {
+                    playUISound("click");
+                    removeMutation.mutate(method.method_id);
+                  }}
+                  disabled={removeMutation.isPending}
+                  className="text-xs text-red-500 font-mono font-bold px-2 py-1 active:scale-95 active:bg-red-500/20 rounded transition-all disabled:opacity-50"
+                >
+                  [X]
+                </button>
+              )}
+            </div>
+          </div>
+          {!method.verified && method.type !== "push" && (
+            <div className="flex items-center gap-2 mt-1">
+              {method.type === "email" ? (
+                <p className="flex-1 text-xs text-amber-500/40 font-mono">FOLLOW THE LINK IN THE EMAIL, THEN CHECK</p>
+              ) : (
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  placeholder="Code"
+                  value={codes[method.method_id] || ""}
+                  onChange={(e) => setCodes({ ...codes, [method.method_id]: e.target.value })}
+                  className={`flex-1 min-w-0 ${inputClassName}`}
+                />
+              )}
+              <button
+                onClick={() => {
+                  playUISound("click");
+                  verifyMutation.mutate(method.method_id);
+                }}
+                disabled={verifyMutation.isPending}
+                className={buttonClassName}
+              >
+                {method.type === "email" ? "[CHECK]" : "[VERIFY]"}
+              </button>
+              <button
+                onClick={() => {
+                  playUISound("click");
+                  resendMutation.mutate(method.method_id);
+                }}
+                disabled={resendMutation.isPending}
+                className={buttonClassName}
+              >
+                [RESEND]
+              </button>
+            </div>
+          )}
+        </div>
+      ))}
+      {error && <p className="text-xs text-red-500 font-mono mt-1">{error.message}</p>}
+    </div>
+  );
+}
+
 interface BackendFormData {
   name: string;
   apiUrl: string;
@@ -125,6 +515,11 @@ export default function SettingsPage() {
   const [deleteAccountConfirm, setDeleteAccountConfirm] = useState(false);
   const [deleteAccountLoading, setDeleteAccountLoading] = useState(false);
   const [deleteAccountError, setDeleteAccountError] = useState<string | null>(null);
+  const [deleteAccountSummary, setDeleteAccountSummary] = useState<AccountDeletionSummary | null>(null);
+
+  // Data export state
+  const [exportLoading, setExportLoading] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
 
   // Demo mode
   const {
@@ -474,19 +869,41 @@ export default function SettingsPage() {
     }
   };
 
+  const handleExportData = async () => {
+    playUISound("click");
+    setExportLoading(true);
+    setExportError(null);
+
+    try {
+      const data = await usersApi.exportData();
+      // Save through a temporary download link; the web view hands it to the system's file saver
+      const url = URL.createObjectURL(new Blob([JSON.stringify(data, null, 2)], { type: "application/json" }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `pip-alert-data-${new Date().toISOString().slice(0, 10)}.json`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+      playUISound("success");
+    } catch (error) {
+      setExportError(error instanceof Error ? error.message : "Failed to export data");
+      playUISound("error");
+    } finally {
+      setExportLoading(false);
+    }
+  };
+
   const handleDeleteAccount = async () => {
     playUISound("click");
     setDeleteAccountLoading(true);
     setDeleteAccountError(null);
 
     try {
-      await usersApi.deleteAccount();
+      const { summary } = await usersApi.deleteAccount();
       playUISound("success");
       // Clear biometric credentials
       await clearStoredCredentials();
-      // Sign out and navigate to login
-      await signOut();
-      navigate("login");
+      // Show what changed on the user's teams; signing out waits for the dialog
+      setDeleteAccountSummary(summary);
     } catch (error) {
       setDeleteAccountError(error instanceof Error ? error.message : "Failed to delete account");
       playUISound("error");
@@ -496,6 +913,13 @@ export default function SettingsPage() {
     }
   };
 
+  const handleDeleteAccountDone = async () => {
+    playUISound("click");
+    setDeleteAccountSummary(null);
+    await signOut();
+    navigate("login");
+  };
+
   return (
     <div className="h-full bg-zinc-900 p-4 overflow-auto">
       <h1 className="text-xl font-bold text-amber-500 font-mono tracking-wider mb-4">CONFIG</h1>
@@ -1294,6 +1718,27 @@ export default function SettingsPage() {
           <h2 className="text-sm font-bold text-amber-500/70 font-mono mb-2">{">"} ACCOUNT</h2>
           <p className="font-bold text-amber-500 font-mono mb-3">{user?.getUsername() || "NOT SIGNED IN"}</p>
 
+          {/* Profile and contact methods live on the backend, which demo mode doesn't use */}
+          {!demoEnabled && <ProfileSettings />}
+
+          {/* Export My Data */}
+          {!demoEnabled && (
+            <>
+              {exportError && (
+                <div className="p-2 bg-red-500/10 border border-red-500/30 rounded mb-3">
+                  <p className="text-xs text-red-500 font-mono text-center">{exportError}</p>
+                </div>
+              )}
+              <button
+                onClick={handleExportData}
+                disabled={exportLoading}
+                className="w-full py-2 mb-3 bg-amber-500/10 text-amber-500 rounded border border-amber-500/30 font-mono text-sm font-bold disabled:opacity-50 active:scale-95 active:bg-amber-500/20 transition-all"
+              >
+                {exportLoading ? "EXPORTING..." : "EXPORT MY DATA"}
+              </button>
+            </>
+          )}
+
           {/* Delete Account Error */}
           {deleteAccountError && (
             <div className="p-2 bg-red-500/10 border border-red-500/30 rounded mb-3">
@@ -1361,7 +1806,9 @@ export default function SettingsPage() {
           <div className="bg-zinc-800 rounded-lg border-2 border-red-500/50 max-w-sm w-full p-4">
             <h3 className="text-lg font-bold text-red-500 font-mono mb-2">[WARNING] Delete Account</h3>
             <p className="text-amber-500/80 text-sm font-mono mb-4">
-              This will permanently delete your account and all associated data. This action cannot be undone.
+              This will permanently delete your account and all associated data. You'll leave your teams, your
+              upcoming on-call slots are removed and your open incidents go to whoever is on call. This action
+              cannot be undone.
             </p>
             <div className="flex gap-3">
               <button
@@ -1382,6 +1829,34 @@ export default function SettingsPage() {
           </div>
         </div>
       )}
+
+      {/* Account Deletion Summary */}
+      {deleteAccountSummary && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70">
+          <div className="bg-zinc-800 rounded-lg border-2 border-amber-500/50 max-w-sm w-full p-4">
+            <h3 className="text-lg font-bold text-amber-500 font-mono mb-2">[DONE] Account Deleted</h3>
+            <ul className="text-amber-500/80 text-sm font-mono mb-4 space-y-1">
+              <li>{">"} Left {deleteAccountSummary.teams_left.length} team(s)</li>
+              {deleteAccountSummary.teams_deleted.length > 0 && (
+                <li>{">"} Deleted {deleteAccountSummary.teams_deleted.length} team(s) you were alone in</li>
+              )}
+              <li>{">"} Removed {deleteAccountSummary.slots_removed.length} on-call slot(s)</li>
+              <li>{">"} Reassigned {deleteAccountSummary.incidents_reassigned.length} open incident(s)</li>
+              {deleteAccountSummary.coverage_gaps.length > 0 && (
+                <li className="text-red-400">
+                  {">"} {deleteAccountSummary.coverage_gaps.length} schedule gap(s) left; team admins were notified
+                </li>
+              )}
+            </ul>
+            <button
+              onClick={handleDeleteAccountDone}
+              className="w-full py-2 px-4 bg-amber-500 text-zinc-900 rounded font-mono font-bold active:scale-95 active:bg-amber-400 transition-all"
+            >
+              OK
+            </button>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,283 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { silencesApi, teamsApi } from "../lib/api";
+import { useNavigation } from "../lib/navigation";
+import { allows, useTeamRole } from "../hooks/useTeamRole";
+import { useAudio } from "../hooks/useAudio";
+
+type Severity = "critical" | "warning" | "info";
+type SilenceMode = "skip" | "suppress";
+
+interface Silence {
+  team_id: string;
+  silence_id: string;
+  starts_at: number;
+  ends_at: number;
+  match: { aws_account_id?: string; alarm_name?: string; severity?: Severity };
+  mode: SilenceMode;
+  comment?: string;
+  created_by: string;
+  created_at: number;
+}
+
+const HOUR = 60 * 60 * 1000;
+
+const DURATIONS: { label: string; ms: number }[] = [
+  { label: "30M", ms: HOUR / 2 },
+  { label: "1H", ms: HOUR },
+  { label: "2H", ms: 2 * HOUR },
+  { label: "4H", ms: 4 * HOUR },
+  { label: "8H", ms: 8 * HOUR },
+];
+
+// Tapping cycles through the options; null matches every severity
+const SEVERITY_CYCLE: (Severity | null)[] = [null, "critical", "warning", "info"];
+
+const MODE_LABELS: Record<SilenceMode, string> = {
+  suppress: "[RECORD QUIETLY]",
+  skip: "[DROP ALERTS]",
+};
+
+function remaining(until: number): string {
+  const minutes = Math.max(1, Math.round((until - Date.now()) / 60000));
+  if (minutes < 60) return `${minutes}M`;
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 ? `${hours}H ${minutes % 60}M` : `${hours}H`;
+}
+
+function matchSummary(silence: Silence): string {
+  const parts = [
+    silence.match.alarm_name,
+    silence.match.severity?.toUpperCase(),
+    silence.match.aws_account_id,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(" • ") : "ALL ALERTS";
+}
+
+interface SilencesPageProps {
+  teamId: string | null;
+}
+
+export default function SilencesPage({ teamId }: SilencesPageProps) {
+  const { goBack } = useNavigation();
+  const queryClient = useQueryClient();
+  const { playUISound } = useAudio();
+  const [duration, setDuration] = useState(HOUR);
+  const [alarmName, setAlarmName] = useState("");
+  const [severity, setSeverity] = useState<Severity | null>(null);
+  const [mode, setMode] = useState<SilenceMode>("suppress");
+  const [comment, setComment] = useState("");
+  // Silences are team setup, so only admins and owners change them
+  const canEdit = allows(useTeamRole(teamId), "admin");
+
+  const { data: teamData } = useQuery({
+    queryKey: ["team", teamId],
+    queryFn: () => teamsApi.get(teamId!),
+    enabled: !!teamId,
+  });
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["silences", teamId],
+    queryFn: () => silencesApi.list(teamId!),
+    enabled: !!teamId,
+    refetchInterval: 60000, // Keep remaining times current
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["silences", teamId] });
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      silencesApi.create(teamId!, {
+        ends_at: Date.now() + duration,
+        match: {
+          ...(alarmName.trim() ? { alarm_name: alarmName.trim() } : {}),
+          ...(severity ? { severity } : {}),
+        },
+        mode,
+        ...(comment.trim() ? { comment: comment.trim() } : {}),
+      }),
+    onSuccess: () => {
+      invalidate();
+      setAlarmName("");
+      setComment("");
+    },
+  });
+
+  const extendMutation = useMutation({
+    mutationFn: (silence: Silence) =>
+      silencesApi.update(teamId!, silence.silence_id, { ends_at: Math.max(silence.ends_at, Date.now()) + HOUR }),
+    onSuccess: invalidate,
+  });
+
+  const expireMutation = useMutation({
+    mutationFn: (silence: Silence) => silencesApi.expire(teamId!, silence.silence_id),
+    onSuccess: invalidate,
+  });
+
+  const now = Date.now();
+  const silences: Silence[] = data?.silences || [];
+  const current = silences.filter((silence) => silence.ends_at > now);
+  const expired = silences.filter((silence) => silence.ends_at <= now);
+
+  return (
+    <div className="h-full bg-zinc-900 p-4 overflow-auto">
+      <button
+        onClick={() => {
+          playUISound("click");
+          goBack();
+        }}
+        className="text-amber-500 font-mono font-bold mb-4 flex items-center gap-1 active:scale-95 active:opacity-70 transition-all"
+      >
+        {"<"} BACK
+      </button>
+
+      <h1 className="text-xl font-bold text-amber-500 font-mono tracking-wider">SILENCES</h1>
+      {teamData?.team && <p className="text-sm text-amber-500/60 font-mono mb-4">{teamData.team.name}</p>}
+
+      {/* New silence */}
+      {canEdit && (
+        <div className="bg-zinc-800 rounded border-2 border-amber-500/30 p-4 mb-6 mt-2">
+          <p className="text-xs text-amber-500/70 font-mono mb-2">SILENCE FOR</p>
+          <div className="flex gap-2 mb-3">
+            {DURATIONS.map((option) => (
+              <button
+                key={option.label}
+                onClick={() => {
+                  playUISound("click");
+                  setDuration(option.ms);
+                }}
+                className={`flex-1 py-1 rounded border-2 font-mono text-sm font-bold active:scale-95 transition-all ${
+                  duration === option.ms
+                    ? "bg-amber-500 text-zinc-900 border-amber-500"
+                    : "text-amber-500 border-amber-500/30"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <input
+            type="text"
+            placeholder="Alarm name pattern, e.g. orders-db-* (optional)"
+            value={alarmName}
+            onChange={(e) => setAlarmName(e.target.value)}
+            className="w-full px-3 py-2 bg-zinc-900 border-2 border-amber-500/30 rounded text-amber-500 font-mono placeholder-amber-500/30 focus:outline-none focus:border-amber-500 mb-3 text-base"
+          />
+          <input
+            type="text"
+            placeholder="Comment (optional)"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            className="w-full px-3 py-2 bg-zinc-900 border-2 border-amber-500/30 rounded text-amber-500 font-mono placeholder-amber-500/30 focus:outline-none focus:border-amber-500 mb-3 text-base"
+          />
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-amber-500/70 font-mono">SEVERITY</span>
+            <button
+              onClick={() => {
+                playUISound("click");
+                setSeverity(SEVERITY_CYCLE[(SEVERITY_CYCLE.indexOf(severity) + 1) % SEVERITY_CYCLE.length]);
+              }}
+              className="text-xs text-amber-500 font-mono font-bold px-2 py-1 active:scale-95 active:bg-amber-500/20 rounded transition-all"
+            >
+              [{severity ? severity.toUpperCase() : "ANY"}]
+            </button>
+          </div>
+          <div className="flex items-center justify-between mt-1 mb-3">
+            <span className="text-xs text-amber-500/70 font-mono">MATCHING ALERTS</span>
+            <button
+              onClick={() => {
+                playUISound("click");
+                setMode(mode === "suppress" ? "skip" : "suppress");
+              }}
+              className="text-xs text-amber-500 font-mono font-bold px-2 py-1 active:scale-95 active:bg-amber-500/20 rounded transition-all"
+            >
+              {MODE_LABELS[mode]}
+            </button>
+          </div>
+          <button
+            onClick={() => {
+              playUISound("click");
+              createMutation.mutate();
+            }}
+            disabled={!teamId || createMutation.isPending}
+            className="w-full py-2 bg-amber-500 text-zinc-900 rounded font-mono font-bold disabled:opacity-50"
+          >
+            {createMutation.isPending ? "SILENCING..." : "START SILENCE"}
+          </button>
+          {createMutation.isError && (
+            <p className="text-xs text-red-500 font-mono mt-2">{(createMutation.error as Error).message}</p>
+          )}
+        </div>
+      )}
+
+      {isLoading && <div className="text-center text-amber-500 font-mono py-4">{">"} LOADING...</div>}
+
+      {/* Active and scheduled silences */}
+      <div className="space-y-3">
+        {current.map((silence) => (
+          <div key={silence.silence_id} className="bg-zinc-800 rounded border-2 border-amber-500/50 p-4">
+            <div className="flex items-center justify-between">
+              <span className="font-bold text-amber-500 font-mono">{matchSummary(silence)}</span>
+              <span className="text-xs text-amber-500/70 font-mono">
+                {silence.starts_at > now ? `STARTS IN ${remaining(silence.starts_at)}` : `${remaining(silence.ends_at)} LEFT`}
+              </span>
+            </div>
+            <p className="text-xs text-amber-500/50 font-mono mt-1">
+              {silence.mode === "skip" ? "DROPPED" : "RECORDED QUIETLY"} • UNTIL {new Date(silence.ends_at).toLocaleTimeString()}
+            </p>
+            {silence.comment && <p className="text-sm text-amber-500/70 font-mono mt-1">{silence.comment}</p>}
+            {canEdit && (
+              <div className="flex gap-2 mt-3">
+                <button
+                  onClick={() => {
+                    playUISound("click");
+                    extendMutation.mutate(silence);
+                  }}
+                  disabled={extendMutation.isPending}
+                  className="flex-1 py-1 border-2 border-amber-500/50 rounded text-amber-500 font-mono text-sm font-bold active:scale-95 active:bg-amber-500/20 transition-all disabled:opacity-50"
+                >
+                  [+1H]
+                </button>
+                <button
+                  onClick={() => {
+                    playUISound("click");
+                    expireMutation.mutate(silence);
+                  }}
+                  disabled={expireMutation.isPending}
+                  className="flex-1 py-1 border-2 border-red-500/50 rounded text-red-500 font-mono text-sm font-bold active:scale-95 active:bg-red-500/20 transition-all disabled:opacity-50"
+                >
+                  [EXPIRE]
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+
+        {current.length === 0 && !isLoading && (
+          <div className="text-center text-amber-500/60 py-4 font-mono">
+            <p>NO ACTIVE SILENCES</p>
+            <p className="text-sm mt-2 text-amber-500/40">ALERTS PAGE AS USUAL</p>
+          </div>
+        )}
+      </div>
+
+      {/* Recently ended, kept for a week */}
+      {expired.length > 0 && (
+        <div className="mt-6">
+          <p className="text-xs text-amber-500/50 font-mono mb-2">ENDED</p>
+          <div className="space-y-2">
+            {expired.map((silence) => (
+              <div key={silence.silence_id} className="bg-zinc-800/60 rounded border border-amber-500/20 p-3 opacity-75">
+                <p className="text-sm text-amber-500/60 font-mono">{matchSummary(silence)}</p>
+                <p className="text-xs text-amber-500/40 font-mono mt-1">
+                  ENDED {new Date(silence.ends_at).toLocaleString()}
+                  {silence.comment ? ` • ${silence.comment}` : ""}
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
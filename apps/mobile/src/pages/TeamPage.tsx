@@ -1,13 +1,436 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { teamsApi, gameApi } from "../lib/api";
+import { teamsApi, gameApi, onboardingApi, invitesApi } from "../lib/api";
 import { useAudio } from "../hooks/useAudio";
 import { useAuth } from "../lib/auth";
+import { useNavigation } from "../lib/navigation";
+import { allows, ROLE_LABELS, TeamRole } from "../hooks/useTeamRole";
+import { getPendingInvite, clearPendingInvite } from "../lib/pendingInvite";
 
 interface Team {
   team_id: string;
   name: string;
   aws_account_ids: string[];
+  ok_action?: "resolve" | "annotate";
+  no_on_call_fallback?: NoOnCallFallback;
+  grouping?: AlertGrouping;
+  role?: TeamRole; // The signed-in user's role
+}
+
+interface AlertGrouping {
+  key: "account_region" | "dimension" | "routing_rule";
+  dimension?: string;
+  window_minutes: number;
+}
+
+// Dimension grouping needs a dimension name, so it is only set through the API
+const GROUPING_CYCLE: (AlertGrouping["key"] | null)[] = [null, "account_region", "routing_rule"];
+const DEFAULT_GROUPING_WINDOW_MINUTES = 5;
+
+function groupingLabel(grouping?: AlertGrouping): string {
+  if (!grouping) return "[OFF]";
+  const window = `${grouping.window_minutes}M`;
+  switch (grouping.key) {
+    case "account_region":
+      return `[ACCOUNT+REGION ${window}]`;
+    case "routing_rule":
+      return `[RULE GROUP ${window}]`;
+    default:
+      return `[${grouping.dimension?.toUpperCase()} ${window}]`;
+  }
+}
+
+type NoOnCallFallback = "all_members" | "owner" | "unassigned";
+
+// Tapping cycles through the options; null leaves gaps to the unrouted inbox
+const FALLBACK_CYCLE: (NoOnCallFallback | null)[] = [null, "all_members", "owner", "unassigned"];
+const FALLBACK_LABELS: Record<NoOnCallFallback | "none", string> = {
+  none: "[INBOX ONLY]",
+  all_members: "[PAGE ALL]",
+  owner: "[PAGE OWNER]",
+  unassigned: "[UNASSIGNED]",
+};
+
+interface AccountStatus {
+  aws_account_id: string;
+  status: "pending" | "verified";
+  verified_at?: number;
+  last_alarm_at?: number;
+  last_alarm_name?: string;
+}
+
+interface Verification {
+  alarm_name: string;
+  expires_at: number;
+  commands: string[];
+}
+
+function ago(timestamp: number): string {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return "JUST NOW";
+  if (minutes < 60) return `${minutes}M AGO`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}H AGO`;
+  return `${Math.floor(minutes / (24 * 60))}D AGO`;
+}
+
+// Per-account delivery status; verifying shows the CLI steps that raise the nonce alarm
+function TeamAccounts({ team, canVerify }: { team: Team; canVerify: boolean }) {
+  const { playUISound } = useAudio();
+  const [verification, setVerification] = useState<Record<string, Verification>>({});
+
+  const { data, refetch } = useQuery({
+    queryKey: ["onboarding", team.team_id],
+    queryFn: () => onboardingApi.listAccounts(team.team_id),
+    enabled: team.aws_account_ids.length > 0,
+    // Poll while a verification is waiting for its alarm
+    refetchInterval: (query) => {
+      const accounts: AccountStatus[] = query.state.data?.accounts || [];
+      const waiting = accounts.some((account) => account.status === "pending" && verification[account.aws_account_id]);
+      return waiting ? 10000 : false;
+    },
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: (accountId: string) => onboardingApi.verify(team.team_id, accountId),
+    onSuccess: (result: Verification, accountId) => {
+      setVerification((current) => ({ ...current, [accountId]: result }));
+      refetch();
+    },
+  });
+
+  const accounts: AccountStatus[] = data?.accounts || team.aws_account_ids.map((id) => ({ aws_account_id: id, status: "pending" }));
+
+  return (
+    <div className="mt-1 space-y-1">
+      {accounts.map((account) => (
+        <div key={account.aws_account_id}>
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-amber-500/60 font-mono">AWS {account.aws_account_id}</span>
+            {account.status === "verified" ? (
+              <span className="text-xs text-green-500 font-mono font-bold px-2 py-1">[VERIFIED]</span>
+            ) : !canVerify ? (
+              <span className="text-xs text-amber-500/50 font-mono font-bold px-2 py-1">[PENDING]</span>
+            ) : (
+              <button
+                onClick={() => {
+                  playUISound("click");
+                  verifyMutation.mutate(account.aws_account_id);
+                }}
+                disabled={verifyMutation.isPending}
+                className="text-xs text-amber-500 font-mono font-bold px-2 py-1 active:scale-95 active:bg-amber-500/20 rounded transition-all disabled:opacity-50"
+              >
+                [PENDING · VERIFY]
+              </button>
+            )}
+          </div>
+          <p className="text-xs text-amber-500/40 font-mono">
+            {account.last_alarm_at ? `LAST ALARM ${ago(account.last_alarm_at)} · ${account.last_alarm_name}` : "NO ALARMS SEEN YET"}
+          </p>
+          {account.status === "pending" && verification[account.aws_account_id] && (
+            <div className="mt-2 p-2 bg-zinc-900 rounded border border-amber-500/30">
+              <p className="text-xs text-amber-500/70 font-mono mb-1">
+                RUN IN ACCOUNT {account.aws_account_id} BEFORE {new Date(verification[account.aws_account_id].expires_at).toLocaleTimeString()}:
+              </p>
+              {verification[account.aws_account_id].commands.map((command) => (
+                <pre key={command} className="text-xs text-amber-500 font-mono whitespace-pre-wrap break-all select-text mb-1">
+                  {command}
+                </pre>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Team settings are visible to every member; only admins and owners get the toggle
+function SettingButton({
+  label,
+  editable,
+  disabled,
+  onClick,
+}: {
+  label: string;
+  editable: boolean;
+  disabled?: boolean;
+  onClick: () => void;
+}) {
+  if (!editable) {
+    return <span className="text-xs text-amber-500/50 font-mono font-bold px-2 py-1">{label}</span>;
+  }
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className="text-xs text-amber-500 font-mono font-bold px-2 py-1 active:scale-95 active:bg-amber-500/20 rounded transition-all disabled:opacity-50"
+    >
+      {label}
+    </button>
+  );
+}
+
+interface Member {
+  user_id: string;
+  name?: string; // Unset until the user has synced a profile
+  email?: string;
+  role: TeamRole;
+  fyi?: boolean;
+}
+
+// Tapping a role moves to the next one; only owners hand out (or take away) the owner role
+const ROLE_CYCLE: TeamRole[] = ["responder", "observer", "admin", "owner"];
+
+function TeamMembers({ team, currentUserId }: { team: Team; currentUserId?: string }) {
+  const queryClient = useQueryClient();
+  const { playUISound } = useAudio();
+  const isOwner = team.role === "owner";
+  const canManage = allows(team.role, "admin");
+  const roles = isOwner ? ROLE_CYCLE : ROLE_CYCLE.filter((role) => role !== "owner");
+
+  const { data } = useQuery({
+    queryKey: ["team-members", team.team_id],
+    queryFn: () => teamsApi.listMembers(team.team_id),
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["team-members", team.team_id] });
+    queryClient.invalidateQueries({ queryKey: ["teams"] });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: ({ userId, update }: { userId: string; update: { role?: TeamRole; fyi?: boolean } }) =>
+      teamsApi.updateMember(team.team_id, userId, update),
+    onSuccess: invalidate,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (userId: string) => teamsApi.removeMember(team.team_id, userId),
+    onSuccess: invalidate,
+  });
+
+  const members: Member[] = data?.members || [];
+  const error = (updateMutation.error || removeMutation.error) as Error | null;
+
+  return (
+    <div className="mt-3">
+      <p className="text-xs text-amber-500/70 font-mono mb-1">MEMBERS</p>
+      {members.map((member) => {
+        const isSelf = member.user_id === currentUserId;
+        const editable = canManage && (isOwner || member.role !== "owner");
+        return (
+          <div key={member.user_id} className="flex items-center justify-between">
+            <span className="text-sm text-amber-500/60 font-mono truncate">
+              {member.name || member.email || member.user_id}
+              {isSelf && " (YOU)"}
+            </span>
+            <div className="flex items-center shrink-0">
+              {isSelf && member.role === "observer" && (
+                <button
+                  onClick={() => {
+                    playUISound("click");
+                    updateMutation.mutate({ userId: member.user_id, update: { fyi: !member.fyi } });
+                  }}
+                  disabled={updateMutation.isPending}
+                  className="text-xs text-amber-500 font-mono font-bold px-2 py-1 active:scale-95 active:bg-amber-500/20 rounded transition-all disabled:opacity-50"
+                >
+                  {member.fyi ? "[FYI ON]" : "[FYI OFF]"}
+                </button>
+              )}
+              <SettingButton
+                label={ROLE_LABELS[member.role]}
+                editable={editable}
+                disabled={updateMutation.isPending}
+                onClick={() => {
+                  playUISound("click");
+                  updateMutation.mutate({
+                    userId: member.user_id,
+                    update: { role: roles[(roles.indexOf(member.role) + 1) % roles.length] },
+                  });
+                }}
+              />
+              {editable && !isSelf && (
+                <button
+                  onClick={() => {
+                    playUISound("click");
+                    removeMutation.mutate(member.user_id);
+                  }}
+                  disabled={removeMutation.isPending}
+                  className="text-xs text-red-500 font-mono font-bold px-2 py-1 active:scale-95 active:bg-red-500/20 rounded transition-all disabled:opacity-50"
+                >
+                  [X]
+                </button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+      {error && <p className="text-xs text-red-500 font-mono mt-1">{error.message}</p>}
+    </div>
+  );
+}
+
+interface Invite {
+  code: string;
+  email: string;
+  role: TeamRole;
+  expires_at: number;
+}
+
+// Invitees enter the code after signing up with the invited email address
+function TeamInvites({ team }: { team: Team }) {
+  const queryClient = useQueryClient();
+  const { playUISound } = useAudio();
+  const [showInvite, setShowInvite] = useState(false);
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<TeamRole>("responder");
+  const roles = team.role === "owner" ? ROLE_CYCLE : ROLE_CYCLE.filter((option) => option !== "owner");
+
+  const { data } = useQuery({
+    queryKey: ["invites", team.team_id],
+    queryFn: () => invitesApi.list(team.team_id),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () => invitesApi.create(team.team_id, email, role),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["invites", team.team_id] });
+      setShowInvite(false);
+      setEmail("");
+      setRole("responder");
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (code: string) => invitesApi.revoke(team.team_id, code),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["invites", team.team_id] });
+    },
+  });
+
+  const invites: Invite[] = data?.invites || [];
+  const error = (createMutation.error || revokeMutation.error) as Error | null;
+
+  return (
+    <div className="mt-3">
+      <div className="flex items-center justify-between mb-1">
+        <p className="text-xs text-amber-500/70 font-mono">INVITES</p>
+        <button
+          onClick={() => {
+            playUISound("click");
+            setShowInvite(!showInvite);
+          }}
+          className="text-xs text-amber-500 font-mono font-bold px-2 py-1 active:scale-95 active:bg-amber-500/20 rounded transition-all"
+        >
+          {showInvite ? "[CANCEL]" : "[+ INVITE]"}
+        </button>
+      </div>
+      {showInvite && (
+        <div className="flex items-center gap-2 mb-2">
+          <input
+            type="email"
+            placeholder="Email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="flex-1 min-w-0 px-3 py-2 bg-zinc-900 border-2 border-amber-500/30 rounded text-amber-500 font-mono placeholder-amber-500/30 focus:outline-none focus:border-amber-500 text-base"
+          />
+          <button
+            onClick={() => {
+              playUISound("click");
+              setRole(roles[(roles.indexOf(role) + 1) % roles.length]);
+            }}
+            className="text-xs text-amber-500 font-mono font-bold px-2 py-1 active:scale-95 active:bg-amber-500/20 rounded transition-all"
+          >
+            {ROLE_LABELS[role]}
+          </button>
+          <button
+            onClick={() => {
+              playUISound("click");
+              createMutation.mutate();
+            }}
+            disabled={!email || createMutation.isPending}
+            className="text-xs text-amber-500 font-mono font-bold px-2 py-1 active:scale-95 active:bg-amber-500/20 rounded transition-all disabled:opacity-50"
+          >
+            [SEND]
+          </button>
+        </div>
+      )}
+      {invites.map((invite) => (
+        <div key={invite.code} className="flex items-center justify-between">
+          <div className="min-w-0">
+            <p className="text-sm text-amber-500/60 font-mono truncate">{invite.email}</p>
+            <p className="text-xs text-amber-500/40 font-mono">
+              CODE <span className="text-amber-500 select-text">{invite.code}</span> · {ROLE_LABELS[invite.role]} · UNTIL{" "}
+              {new Date(invite.expires_at).toLocaleDateString()}
+            </p>
+          </div>
+          <button
+            onClick={() => {
+              playUISound("click");
+              revokeMutation.mutate(invite.code);
+            }}
+            disabled={revokeMutation.isPending}
+            className="text-xs text-red-500 font-mono font-bold px-2 py-1 active:scale-95 active:bg-red-500/20 rounded transition-all disabled:opacity-50 shrink-0"
+          >
+            [REVOKE]
+          </button>
+        </div>
+      ))}
+      {error && <p className="text-xs text-red-500 font-mono mt-1">{error.message}</p>}
+    </div>
+  );
+}
+
+// Join a team with an invite code; picks up a code entered on the login screen
+function JoinTeam({ onJoined }: { onJoined: () => void }) {
+  const queryClient = useQueryClient();
+  const { playUISound } = useAudio();
+  const { isAuthenticated } = useAuth();
+  const [code, setCode] = useState("");
+
+  const joinMutation = useMutation({
+    mutationFn: (inviteCode: string) => invitesApi.accept(inviteCode),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["teams"] });
+      setCode("");
+      onJoined();
+    },
+  });
+
+  useEffect(() => {
+    const pending = getPendingInvite();
+    if (isAuthenticated && pending) {
+      clearPendingInvite();
+      setCode(pending);
+      joinMutation.mutate(pending);
+    }
+  }, [isAuthenticated]);
+
+  return (
+    <div className="bg-zinc-800 rounded border-2 border-amber-500/30 p-4 mb-4">
+      <input
+        type="text"
+        placeholder="Invite code"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        autoCapitalize="characters"
+        className="w-full px-3 py-2 bg-zinc-900 border-2 border-amber-500/30 rounded text-amber-500 font-mono uppercase placeholder-amber-500/30 placeholder:normal-case focus:outline-none focus:border-amber-500 mb-3 text-base"
+      />
+      {joinMutation.error && (
+        <p className="text-xs text-red-500 font-mono mb-3">[ERROR] {(joinMutation.error as Error).message}</p>
+      )}
+      <button
+        onClick={() => {
+          playUISound("click");
+          joinMutation.mutate(code.trim());
+        }}
+        disabled={!code.trim() || joinMutation.isPending}
+        className="w-full py-2 bg-amber-500 text-zinc-900 rounded font-mono font-bold disabled:opacity-50"
+      >
+        {joinMutation.isPending ? "JOINING..." : "JOIN TEAM"}
+      </button>
+    </div>
+  );
 }
 
 interface LeaderboardEntry {
@@ -21,12 +444,14 @@ interface LeaderboardEntry {
 
 export default function TeamPage() {
   const [showCreate, setShowCreate] = useState(false);
+  const [showJoin, setShowJoin] = useState(false);
   const [newTeamName, setNewTeamName] = useState("");
   const [newAwsAccounts, setNewAwsAccounts] = useState("");
   const [gameEnabled, setGameEnabled] = useState(false);
   const queryClient = useQueryClient();
   const { playUISound } = useAudio();
   const { user, isAuthenticated } = useAuth();
+  const { navigate } = useNavigation();
 
   // Check if game mode is enabled
   useEffect(() => {
@@ -43,6 +468,13 @@ export default function TeamPage() {
     }
   }, [isAuthenticated]);
 
+  // A code entered on the login screen opens the join form, which accepts it
+  useEffect(() => {
+    if (isAuthenticated && getPendingInvite()) {
+      setShowJoin(true);
+    }
+  }, [isAuthenticated]);
+
   // Leaderboard query
   const { data: leaderboardData, isLoading: leaderboardLoading } = useQuery({
     queryKey: ["leaderboard"],
@@ -73,6 +505,33 @@ export default function TeamPage() {
     },
   });
 
+  // What a CloudWatch OK transition does to the team's open incident
+  const okActionMutation = useMutation({
+    mutationFn: ({ teamId, okAction }: { teamId: string; okAction: "resolve" | "annotate" }) =>
+      teamsApi.update(teamId, { ok_action: okAction }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["teams"] });
+    },
+  });
+
+  // What happens to alarms when no schedule slot covers "now"
+  const fallbackMutation = useMutation({
+    mutationFn: ({ teamId, fallback }: { teamId: string; fallback: NoOnCallFallback | null }) =>
+      teamsApi.update(teamId, { no_on_call_fallback: fallback }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["teams"] });
+    },
+  });
+
+  // Bundle related alarms into one incident during alarm storms
+  const groupingMutation = useMutation({
+    mutationFn: ({ teamId, grouping }: { teamId: string; grouping: AlertGrouping | null }) =>
+      teamsApi.update(teamId, { grouping }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["teams"] });
+    },
+  });
+
   const teams: Team[] = teamsData?.teams || [];
   const leaderboard: LeaderboardEntry[] = leaderboardData?.leaderboard || [];
   const userScore = leaderboardData?.user;
@@ -167,17 +626,31 @@ export default function TeamPage() {
       <div>
         <div className="flex items-center justify-between mb-4">
           <h1 className="text-xl font-bold text-amber-500 font-mono tracking-wider">TEAMS</h1>
-          <button
-            onClick={() => {
-              playUISound("click");
-              setShowCreate(!showCreate);
-            }}
-            className="text-amber-500 font-mono font-bold"
-          >
-            {showCreate ? "[CANCEL]" : "[+ NEW]"}
-          </button>
+          <div className="flex gap-3">
+            <button
+              onClick={() => {
+                playUISound("click");
+                setShowJoin(!showJoin);
+              }}
+              className="text-amber-500 font-mono font-bold"
+            >
+              {showJoin ? "[CANCEL]" : "[JOIN]"}
+            </button>
+            <button
+              onClick={() => {
+                playUISound("click");
+                setShowCreate(!showCreate);
+              }}
+              className="text-amber-500 font-mono font-bold"
+            >
+              {showCreate ? "[CANCEL]" : "[+ NEW]"}
+            </button>
+          </div>
         </div>
 
+        {/* Join with an invite code */}
+        {showJoin && <JoinTeam onJoined={() => setShowJoin(false)} />}
+
         {/* Create team form */}
         {showCreate && (
           <div className="bg-zinc-800 rounded border-2 border-amber-500/30 p-4 mb-4">
@@ -216,12 +689,74 @@ export default function TeamPage() {
         <div className="space-y-3">
           {teams.map((team) => (
             <div key={team.team_id} className="bg-zinc-800 rounded border-2 border-amber-500/30 p-4">
-              <h3 className="font-bold text-amber-500 font-mono">{team.name}</h3>
-              {team.aws_account_ids.length > 0 && (
-                <p className="text-sm text-amber-500/60 mt-1 font-mono">
-                  AWS: {team.aws_account_ids.join(", ")}
-                </p>
-              )}
+              <div className="flex items-center justify-between">
+                <h3 className="font-bold text-amber-500 font-mono">{team.name}</h3>
+                {team.role && <span className="text-xs text-amber-500/60 font-mono font-bold">{ROLE_LABELS[team.role]}</span>}
+              </div>
+              {team.aws_account_ids.length > 0 && <TeamAccounts team={team} canVerify={allows(team.role, "admin")} />}
+              <div className="flex items-center justify-between mt-3">
+                <span className="text-xs text-amber-500/70 font-mono">ON ALARM OK</span>
+                <SettingButton
+                  label={(team.ok_action ?? "resolve") === "resolve" ? "[AUTO-RESOLVE]" : "[ANNOTATE ONLY]"}
+                  editable={allows(team.role, "admin")}
+                  disabled={okActionMutation.isPending}
+                  onClick={() => {
+                    playUISound("click");
+                    okActionMutation.mutate({
+                      teamId: team.team_id,
+                      okAction: (team.ok_action ?? "resolve") === "resolve" ? "annotate" : "resolve",
+                    });
+                  }}
+                />
+              </div>
+              <div className="flex items-center justify-between mt-1">
+                <span className="text-xs text-amber-500/70 font-mono">NO ONE ON CALL</span>
+                <SettingButton
+                  label={FALLBACK_LABELS[team.no_on_call_fallback ?? "none"]}
+                  editable={allows(team.role, "admin")}
+                  disabled={fallbackMutation.isPending}
+                  onClick={() => {
+                    playUISound("click");
+                    const current = FALLBACK_CYCLE.indexOf(team.no_on_call_fallback ?? null);
+                    fallbackMutation.mutate({
+                      teamId: team.team_id,
+                      fallback: FALLBACK_CYCLE[(current + 1) % FALLBACK_CYCLE.length],
+                    });
+                  }}
+                />
+              </div>
+              <div className="flex items-center justify-between mt-1">
+                <span className="text-xs text-amber-500/70 font-mono">GROUP ALARMS</span>
+                <SettingButton
+                  label={groupingLabel(team.grouping)}
+                  editable={allows(team.role, "admin")}
+                  disabled={groupingMutation.isPending}
+                  onClick={() => {
+                    playUISound("click");
+                    // Unknown keys (dimension) are at index -1, so the next tap turns grouping off
+                    const current = GROUPING_CYCLE.indexOf(team.grouping?.key ?? null);
+                    const next = current < 0 ? null : GROUPING_CYCLE[(current + 1) % GROUPING_CYCLE.length];
+                    groupingMutation.mutate({
+                      teamId: team.team_id,
+                      grouping: next ? { key: next, window_minutes: team.grouping?.window_minutes ?? DEFAULT_GROUPING_WINDOW_MINUTES } : null,
+                    });
+                  }}
+                />
+              </div>
+              <div className="flex items-center justify-between mt-1">
+                <span className="text-xs text-amber-500/70 font-mono">MAINTENANCE</span>
+                <button
+                  onClick={() => {
+                    playUISound("click");
+                    navigate("silences", { teamId: team.team_id });
+                  }}
+                  className="text-xs text-amber-500 font-mono font-bold px-2 py-1 active:scale-95 active:bg-amber-500/20 rounded transition-all"
+                >
+                  [SILENCES]
+                </button>
+              </div>
+              <TeamMembers team={team} currentUserId={currentUserId} />
+              {allows(team.role, "admin") && <TeamInvites team={team} />}
             </div>
           ))}
         </div>
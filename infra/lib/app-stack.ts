@@ -1,6 +1,8 @@
 import * as cdk from "aws-cdk-lib";
 import * as cognito from "aws-cdk-lib/aws-cognito";
 import * as dynamodb from "aws-cdk-lib/aws-dynamodb";
+import * as events from "aws-cdk-lib/aws-events";
+import * as eventsTargets from "aws-cdk-lib/aws-events-targets";
 import * as apigateway from "aws-cdk-lib/aws-apigatewayv2";
 import * as apigatewayAuthorizers from "aws-cdk-lib/aws-apigatewayv2-authorizers";
 import * as apigatewayIntegrations from "aws-cdk-lib/aws-apigatewayv2-integrations";
@@ -10,6 +12,7 @@ import * as nodejs from "aws-cdk-lib/aws-lambda-nodejs";
 import * as sns from "aws-cdk-lib/aws-sns";
 import * as snsSubscriptions from "aws-cdk-lib/aws-sns-subscriptions";
 import * as secretsmanager from "aws-cdk-lib/aws-secretsmanager";
+import * as triggers from "aws-cdk-lib/triggers";
 import { Construct } from "constructs";
 import * as path from "path";
 
@@ -66,6 +69,57 @@ export class AppStack extends cdk.Stack {
       removalPolicy: cdk.RemovalPolicy.DESTROY,
     });
 
+    // Team membership and role, one item per user per team
+    const membershipsTable = new dynamodb.Table(this, "MembershipsTable", {
+      tableName: "cw-alarms-memberships",
+      partitionKey: { name: "team_id", type: dynamodb.AttributeType.STRING },
+      sortKey: { name: "user_id", type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+
+    // GSI for listing a user's teams
+    membershipsTable.addGlobalSecondaryIndex({
+      indexName: "user-index",
+      partitionKey: { name: "user_id", type: dynamodb.AttributeType.STRING },
+      sortKey: { name: "team_id", type: dynamodb.AttributeType.STRING },
+    });
+
+    // One-time team invitations, keyed by the code the invitee enters
+    const invitesTable = new dynamodb.Table(this, "InvitesTable", {
+      tableName: "cw-alarms-invites",
+      partitionKey: { name: "code", type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      timeToLiveAttribute: "ttl",
+    });
+
+    // GSI for listing a team's invites, newest first
+    invitesTable.addGlobalSecondaryIndex({
+      indexName: "team-index",
+      partitionKey: { name: "team_id", type: dynamodb.AttributeType.STRING },
+      sortKey: { name: "created_at", type: dynamodb.AttributeType.NUMBER },
+    });
+
+    // Verified email/SMS/webhook addresses, one item per user per method
+    const contactMethodsTable = new dynamodb.Table(this, "ContactMethodsTable", {
+      tableName: "cw-alarms-contact-methods",
+      partitionKey: { name: "user_id", type: dynamodb.AttributeType.STRING },
+      sortKey: { name: "method_id", type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+
+    // Warning/info pushes held during quiet hours or do-not-disturb until the digest
+    const heldNotificationsTable = new dynamodb.Table(this, "HeldNotificationsTable", {
+      tableName: "cw-alarms-held-notifications",
+      partitionKey: { name: "user_id", type: dynamodb.AttributeType.STRING },
+      sortKey: { name: "held_id", type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      timeToLiveAttribute: "ttl",
+    });
+
     const teamsTable = new dynamodb.Table(this, "TeamsTable", {
       tableName: "cw-alarms-teams",
       partitionKey: { name: "team_id", type: dynamodb.AttributeType.STRING },
@@ -97,6 +151,37 @@ export class AppStack extends cdk.Stack {
       sortKey: { name: "state", type: dynamodb.AttributeType.STRING },
     });
 
+    // CloudFormation adds at most one GSI per update of an existing table, so
+    // a stack from before these indexes is upgraded in stages: deploy with
+    // -c incidentIndexes=1, then -c incidentIndexes=2, then without the flag,
+    // waiting for each index to become ACTIVE in between. New stacks create
+    // them all at once.
+    const incidentIndexes: dynamodb.GlobalSecondaryIndexProps[] = [
+      // Finding the open incident of an alarm (OK transitions, dedup)
+      {
+        indexName: "dedup-key-index",
+        partitionKey: { name: "dedup_key", type: dynamodb.AttributeType.STRING },
+        sortKey: { name: "triggered_at", type: dynamodb.AttributeType.NUMBER },
+      },
+      // Finding a team's open incident to group related alarms into
+      {
+        indexName: "group-key-index",
+        partitionKey: { name: "group_key", type: dynamodb.AttributeType.STRING },
+        sortKey: { name: "triggered_at", type: dynamodb.AttributeType.NUMBER },
+      },
+      // Listing a team's incidents newest first
+      {
+        indexName: "team-triggered-index",
+        partitionKey: { name: "team_id", type: dynamodb.AttributeType.STRING },
+        sortKey: { name: "triggered_at", type: dynamodb.AttributeType.NUMBER },
+      },
+    ];
+    const incidentIndexCount = Number(this.node.tryGetContext("incidentIndexes") ?? incidentIndexes.length);
+    if (!Number.isInteger(incidentIndexCount) || incidentIndexCount < 0 || incidentIndexCount > incidentIndexes.length) {
+      throw new Error(`incidentIndexes must be a whole number from 0 to ${incidentIndexes.length}`);
+    }
+    incidentIndexes.slice(0, incidentIndexCount).forEach((index) => incidentsTable.addGlobalSecondaryIndex(index));
+
     const devicesTable = new dynamodb.Table(this, "DevicesTable", {
       tableName: "cw-alarms-devices",
       partitionKey: { name: "user_id", type: dynamodb.AttributeType.STRING },
@@ -119,27 +204,186 @@ export class AppStack extends cdk.Stack {
       sortKey: { name: "high_score", type: dynamodb.AttributeType.NUMBER },
     });
 
+    // Per-team alarm routing rules, evaluated in priority order
+    const routingRulesTable = new dynamodb.Table(this, "RoutingRulesTable", {
+      tableName: "cw-alarms-routing-rules",
+      partitionKey: { name: "team_id", type: dynamodb.AttributeType.STRING },
+      sortKey: { name: "rule_id", type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+
+    // Alarms that matched no team or found nobody on call, kept for replay
+    const unroutedAlertsTable = new dynamodb.Table(this, "UnroutedAlertsTable", {
+      tableName: "cw-alarms-unrouted-alerts",
+      partitionKey: { name: "alert_id", type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      timeToLiveAttribute: "ttl",
+    });
+
+    // Recent state changes per CloudWatch alarm, for flap detection
+    const alarmHistoryTable = new dynamodb.Table(this, "AlarmHistoryTable", {
+      tableName: "cw-alarms-alarm-history",
+      partitionKey: { name: "alarm_arn", type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      timeToLiveAttribute: "ttl",
+    });
+
+    // GSI for listing a team's flapping alarms
+    alarmHistoryTable.addGlobalSecondaryIndex({
+      indexName: "team-index",
+      partitionKey: { name: "team_id", type: dynamodb.AttributeType.STRING },
+    });
+
+    // Per-team maintenance windows that skip or suppress matching alerts
+    const silencesTable = new dynamodb.Table(this, "SilencesTable", {
+      tableName: "cw-alarms-silences",
+      partitionKey: { name: "team_id", type: dynamodb.AttributeType.STRING },
+      sortKey: { name: "silence_id", type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      timeToLiveAttribute: "ttl",
+    });
+
+    // Alarm delivery status per member AWS account (verification, last alarm seen)
+    const awsAccountsTable = new dynamodb.Table(this, "AwsAccountsTable", {
+      tableName: "cw-alarms-aws-accounts",
+      partitionKey: { name: "aws_account_id", type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+
+    // Inbound webhook integrations, one secret key each
+    const integrationsTable = new dynamodb.Table(this, "IntegrationsTable", {
+      tableName: "cw-alarms-integrations",
+      partitionKey: { name: "team_id", type: dynamodb.AttributeType.STRING },
+      sortKey: { name: "integration_id", type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+
+    // GSI for resolving an inbound event's integration key
+    integrationsTable.addGlobalSecondaryIndex({
+      indexName: "integration-key-index",
+      partitionKey: { name: "integration_key", type: dynamodb.AttributeType.STRING },
+    });
+
+    // SNS MessageIds already turned into incidents (idempotent alarm processing)
+    const processedMessagesTable = new dynamodb.Table(this, "ProcessedMessagesTable", {
+      tableName: "cw-alarms-processed-messages",
+      partitionKey: { name: "message_id", type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      timeToLiveAttribute: "ttl",
+    });
+
     // ==================== SNS TOPIC FOR ALARMS ====================
     const alarmsTopic = new sns.Topic(this, "AlarmsTopic", {
       topicName: "cw-alarms-topic",
     });
 
+    // Email contact methods subscribe here; the subscription confirmation is
+    // their verification and notifications are filtered to them by method_id
+    const contactEmailTopic = new sns.Topic(this, "ContactEmailTopic", {
+      topicName: "cw-alarms-contact-email",
+    });
+
+    // ==================== EVENT BUS FOR ALARMS ====================
+    // Source accounts forward "CloudWatch Alarm State Change" events here with
+    // one rule on their default bus instead of an SNS action per alarm.
+    // Deploy with -c alarmSourceAccountIds=111111111111,222222222222 to open the
+    // bus and the alarms topic to those accounts
+    const alarmEventBus = new events.EventBus(this, "AlarmEventBus", {
+      eventBusName: "cw-alarms-alarm-events",
+    });
+    const alarmSourceAccountIds = ((this.node.tryGetContext("alarmSourceAccountIds") as string | undefined) || "")
+      .split(",")
+      .map((id) => id.trim())
+      .filter(Boolean);
+    alarmSourceAccountIds.forEach((accountId) => {
+      // Alarm actions in the account may publish to the central topic
+      alarmsTopic.addToResourcePolicy(
+        new cdk.aws_iam.PolicyStatement({
+          sid: `AllowAlarmsFrom${accountId}`,
+          principals: [new cdk.aws_iam.ServicePrincipal("cloudwatch.amazonaws.com")],
+          actions: ["sns:Publish"],
+          resources: [alarmsTopic.topicArn],
+          conditions: { ArnLike: { "aws:SourceArn": `arn:aws:cloudwatch:*:${accountId}:alarm:*` } },
+        })
+      );
+      alarmEventBus.addToResourcePolicy(
+        new cdk.aws_iam.PolicyStatement({
+          sid: `AllowAlarmEventsFrom${accountId}`,
+          principals: [new cdk.aws_iam.AccountPrincipal(accountId)],
+          actions: ["events:PutEvents"],
+          resources: [alarmEventBus.eventBusArn],
+        })
+      );
+    });
+
     // ==================== SECRETS FOR PUSH CREDENTIALS ====================
     const apnsSecret = new secretsmanager.Secret(this, "ApnsSecret", {
       secretName: "cw-alarms/apns-key",
       description: "APNs .p8 key for push notifications",
     });
 
+    // ==================== ESCALATION SCHEDULER ====================
+    // EventBridge Scheduler assumes this role to invoke the escalation handler
+    const schedulerRole = new cdk.aws_iam.Role(this, "EscalationSchedulerRole", {
+      assumedBy: new cdk.aws_iam.ServicePrincipal("scheduler.amazonaws.com"),
+    });
+
+    // Lets a Lambda create/cancel one-time escalation schedules
+    const escalationSchedulerPolicy = [
+      new cdk.aws_iam.PolicyStatement({
+        actions: ["scheduler:CreateSchedule", "scheduler:DeleteSchedule"],
+        resources: [`arn:aws:scheduler:${this.region}:${this.account}:schedule/default/esc-*`],
+      }),
+      new cdk.aws_iam.PolicyStatement({
+        actions: ["iam:PassRole"],
+        resources: [schedulerRole.roleArn],
+      }),
+    ];
+
+    // Lets a Lambda schedule delayed notification rule steps and quiet-hours digests
+    const notificationSchedulerPolicy = [
+      new cdk.aws_iam.PolicyStatement({
+        actions: ["scheduler:CreateSchedule"],
+        resources: [
+          `arn:aws:scheduler:${this.region}:${this.account}:schedule/default/ntf-*`,
+          `arn:aws:scheduler:${this.region}:${this.account}:schedule/default/dig-*`,
+        ],
+      }),
+      new cdk.aws_iam.PolicyStatement({
+        actions: ["iam:PassRole"],
+        resources: [schedulerRole.roleArn],
+      }),
+    ];
+
     // ==================== LAMBDA FUNCTIONS ====================
     const functionsPath = path.join(__dirname, "../../packages/functions/src");
 
     const commonEnv = {
       USERS_TABLE: usersTable.tableName,
+      MEMBERSHIPS_TABLE: membershipsTable.tableName,
+      INVITES_TABLE: invitesTable.tableName,
+      CONTACT_METHODS_TABLE: contactMethodsTable.tableName,
+      CONTACT_EMAIL_TOPIC_ARN: contactEmailTopic.topicArn,
+      HELD_NOTIFICATIONS_TABLE: heldNotificationsTable.tableName,
       TEAMS_TABLE: teamsTable.tableName,
       SCHEDULES_TABLE: schedulesTable.tableName,
       INCIDENTS_TABLE: incidentsTable.tableName,
       DEVICES_TABLE: devicesTable.tableName,
       SCORES_TABLE: scoresTable.tableName,
+      PROCESSED_MESSAGES_TABLE: processedMessagesTable.tableName,
+      ROUTING_RULES_TABLE: routingRulesTable.tableName,
+      UNROUTED_ALERTS_TABLE: unroutedAlertsTable.tableName,
+      INTEGRATIONS_TABLE: integrationsTable.tableName,
+      ALARM_HISTORY_TABLE: alarmHistoryTable.tableName,
+      SILENCES_TABLE: silencesTable.tableName,
+      AWS_ACCOUNTS_TABLE: awsAccountsTable.tableName,
       APNS_SECRET_ARN: apnsSecret.secretArn,
       GAME_MODE_ENABLED: "true", // Set to "false" in production
     };
@@ -155,20 +399,67 @@ export class AppStack extends cdk.Stack {
       bundling: bundlingOptions,
     });
     devicesTable.grantReadWriteData(devicesHandler);
+    usersTable.grantReadWriteData(devicesHandler);
     apnsSecret.grantRead(devicesHandler);
 
+    // Cognito post-confirmation trigger: creates the user's directory entry
+    const postConfirmationHandler = new nodejs.NodejsFunction(this, "PostConfirmationHandler", {
+      functionName: "cw-alarms-post-confirmation",
+      runtime: lambda.Runtime.NODEJS_22_X,
+      handler: "handler",
+      entry: path.join(functionsPath, "handlers/post-confirmation.ts"),
+      environment: {
+        USERS_TABLE: usersTable.tableName,
+      },
+      timeout: cdk.Duration.seconds(10),
+      bundling: bundlingOptions,
+    });
+    usersTable.grantReadWriteData(postConfirmationHandler);
+    userPool.addTrigger(cognito.UserPoolOperation.POST_CONFIRMATION, postConfirmationHandler);
+
+    // Escalation handler (invoked by EventBridge Scheduler per escalation level)
+    const escalationHandler = new nodejs.NodejsFunction(this, "EscalationHandler", {
+      functionName: "cw-alarms-escalation",
+      runtime: lambda.Runtime.NODEJS_22_X,
+      handler: "handler",
+      entry: path.join(functionsPath, "handlers/escalation.ts"),
+      environment: {
+        ...commonEnv,
+        SCHEDULER_ROLE_ARN: schedulerRole.roleArn,
+      },
+      timeout: cdk.Duration.seconds(30),
+      bundling: bundlingOptions,
+    });
+    incidentsTable.grantReadWriteData(escalationHandler);
+    teamsTable.grantReadData(escalationHandler);
+    schedulesTable.grantReadData(escalationHandler);
+    membershipsTable.grantReadData(escalationHandler);
+    escalationSchedulerPolicy.forEach((statement) => escalationHandler.addToRolePolicy(statement));
+    escalationHandler.grantInvoke(schedulerRole);
+
+    const escalationEnv = {
+      ESCALATION_FUNCTION_ARN: escalationHandler.functionArn,
+      SCHEDULER_ROLE_ARN: schedulerRole.roleArn,
+    };
+
     // Incidents handler
     const incidentsHandler = new nodejs.NodejsFunction(this, "IncidentsHandler", {
       functionName: "cw-alarms-incidents",
       runtime: lambda.Runtime.NODEJS_22_X,
       handler: "handler",
       entry: path.join(functionsPath, "handlers/incidents.ts"),
-      environment: commonEnv,
+      environment: {
+        ...commonEnv,
+        ...escalationEnv,
+      },
       timeout: cdk.Duration.seconds(10),
       bundling: bundlingOptions,
     });
     incidentsTable.grantReadWriteData(incidentsHandler);
     teamsTable.grantReadData(incidentsHandler);
+    membershipsTable.grantReadData(incidentsHandler);
+    usersTable.grantReadData(incidentsHandler);
+    escalationSchedulerPolicy.forEach((statement) => incidentsHandler.addToRolePolicy(statement));
 
     // Teams handler
     const teamsHandler = new nodejs.NodejsFunction(this, "TeamsHandler", {
@@ -181,7 +472,95 @@ export class AppStack extends cdk.Stack {
       bundling: bundlingOptions,
     });
     teamsTable.grantReadWriteData(teamsHandler);
-    usersTable.grantReadWriteData(teamsHandler);
+    membershipsTable.grantReadWriteData(teamsHandler);
+    usersTable.grantReadData(teamsHandler);
+
+    // Routing rules handler
+    const routingHandler = new nodejs.NodejsFunction(this, "RoutingHandler", {
+      functionName: "cw-alarms-routing",
+      runtime: lambda.Runtime.NODEJS_22_X,
+      handler: "handler",
+      entry: path.join(functionsPath, "handlers/routing.ts"),
+      environment: commonEnv,
+      timeout: cdk.Duration.seconds(10),
+      bundling: bundlingOptions,
+    });
+    routingRulesTable.grantReadWriteData(routingHandler);
+    teamsTable.grantReadData(routingHandler);
+    membershipsTable.grantReadData(routingHandler);
+
+    // Onboarding handler (member account setup snippets and verification)
+    const onboardingHandler = new nodejs.NodejsFunction(this, "OnboardingHandler", {
+      functionName: "cw-alarms-onboarding",
+      runtime: lambda.Runtime.NODEJS_22_X,
+      handler: "handler",
+      entry: path.join(functionsPath, "handlers/onboarding.ts"),
+      environment: {
+        ...commonEnv,
+        ALARMS_TOPIC_ARN: alarmsTopic.topicArn,
+        ALARM_EVENT_BUS_ARN: alarmEventBus.eventBusArn,
+      },
+      timeout: cdk.Duration.seconds(10),
+      bundling: bundlingOptions,
+    });
+    awsAccountsTable.grantReadWriteData(onboardingHandler);
+    teamsTable.grantReadData(onboardingHandler);
+    membershipsTable.grantReadData(onboardingHandler);
+
+    // Silences handler (maintenance windows)
+    const silencesHandler = new nodejs.NodejsFunction(this, "SilencesHandler", {
+      functionName: "cw-alarms-silences",
+      runtime: lambda.Runtime.NODEJS_22_X,
+      handler: "handler",
+      entry: path.join(functionsPath, "handlers/silences.ts"),
+      environment: commonEnv,
+      timeout: cdk.Duration.seconds(10),
+      bundling: bundlingOptions,
+    });
+    silencesTable.grantReadWriteData(silencesHandler);
+    teamsTable.grantReadData(silencesHandler);
+    membershipsTable.grantReadData(silencesHandler);
+
+    // Invites handler (team invitations)
+    const invitesHandler = new nodejs.NodejsFunction(this, "InvitesHandler", {
+      functionName: "cw-alarms-invites",
+      runtime: lambda.Runtime.NODEJS_22_X,
+      handler: "handler",
+      entry: path.join(functionsPath, "handlers/invites.ts"),
+      environment: commonEnv,
+      timeout: cdk.Duration.seconds(10),
+      bundling: bundlingOptions,
+    });
+    invitesTable.grantReadWriteData(invitesHandler);
+    teamsTable.grantReadData(invitesHandler);
+    membershipsTable.grantReadWriteData(invitesHandler);
+    usersTable.grantReadWriteData(invitesHandler);
+
+    // Notification digest handler (invoked by EventBridge Scheduler when quiet hours or do-not-disturb end)
+    const notificationDigestHandler = new nodejs.NodejsFunction(this, "NotificationDigestHandler", {
+      functionName: "cw-alarms-notification-digest",
+      runtime: lambda.Runtime.NODEJS_22_X,
+      handler: "handler",
+      entry: path.join(functionsPath, "handlers/notification-digest.ts"),
+      environment: {
+        ...commonEnv,
+        SCHEDULER_ROLE_ARN: schedulerRole.roleArn,
+      },
+      timeout: cdk.Duration.seconds(30),
+      bundling: bundlingOptions,
+    });
+    usersTable.grantReadData(notificationDigestHandler);
+    devicesTable.grantReadData(notificationDigestHandler);
+    incidentsTable.grantReadData(notificationDigestHandler); // Badge count
+    heldNotificationsTable.grantReadWriteData(notificationDigestHandler);
+    apnsSecret.grantRead(notificationDigestHandler);
+    notificationSchedulerPolicy.forEach((statement) => notificationDigestHandler.addToRolePolicy(statement));
+    notificationDigestHandler.grantInvoke(schedulerRole);
+
+    const notificationEnv = {
+      NOTIFICATION_DIGEST_FUNCTION_ARN: notificationDigestHandler.functionArn,
+      SCHEDULER_ROLE_ARN: schedulerRole.roleArn,
+    };
 
     // Users handler (account management)
     const usersHandler = new nodejs.NodejsFunction(this, "UsersHandler", {
@@ -191,6 +570,7 @@ export class AppStack extends cdk.Stack {
       entry: path.join(functionsPath, "handlers/users.ts"),
       environment: {
         ...commonEnv,
+        ...notificationEnv,
         USER_POOL_ID: userPool.userPoolId,
       },
       timeout: cdk.Duration.seconds(30),
@@ -198,6 +578,34 @@ export class AppStack extends cdk.Stack {
     });
     usersTable.grantReadWriteData(usersHandler);
     devicesTable.grantReadWriteData(usersHandler);
+    contactMethodsTable.grantReadWriteData(usersHandler);
+    // Account deletion leaves teams (deleting those nobody else is in), clears schedule slots, reassigns incidents and tells admins about gaps
+    membershipsTable.grantReadWriteData(usersHandler);
+    teamsTable.grantReadWriteData(usersHandler);
+    schedulesTable.grantReadWriteData(usersHandler);
+    incidentsTable.grantReadWriteData(usersHandler);
+    routingRulesTable.grantReadWriteData(usersHandler);
+    silencesTable.grantReadWriteData(usersHandler);
+    integrationsTable.grantReadWriteData(usersHandler);
+    invitesTable.grantReadWriteData(usersHandler);
+    heldNotificationsTable.grantReadWriteData(usersHandler);
+    apnsSecret.grantRead(usersHandler);
+    scoresTable.grantReadData(usersHandler); // Data export
+    notificationSchedulerPolicy.forEach((statement) => usersHandler.addToRolePolicy(statement)); // Digest when DND ends early
+    // Contact method verification: email subscriptions and SMS codes
+    usersHandler.addToRolePolicy(
+      new cdk.aws_iam.PolicyStatement({
+        actions: ["sns:Subscribe", "sns:Unsubscribe", "sns:GetSubscriptionAttributes"],
+        resources: [contactEmailTopic.topicArn],
+      })
+    );
+    usersHandler.addToRolePolicy(
+      new cdk.aws_iam.PolicyStatement({
+        actions: ["sns:Publish"],
+        // Direct SMS publishes have no topic to scope to
+        resources: ["*"],
+      })
+    );
     // Grant Cognito admin permissions for user deletion
     usersHandler.addToRolePolicy(
       new cdk.aws_iam.PolicyStatement({
@@ -218,6 +626,7 @@ export class AppStack extends cdk.Stack {
     });
     schedulesTable.grantReadWriteData(schedulesHandler);
     teamsTable.grantReadData(schedulesHandler);
+    membershipsTable.grantReadData(schedulesHandler);
 
     // Alarm handler (SNS triggered) - writes to DynamoDB only
     const alarmHandler = new nodejs.NodejsFunction(this, "AlarmHandler", {
@@ -225,16 +634,150 @@ export class AppStack extends cdk.Stack {
       runtime: lambda.Runtime.NODEJS_22_X,
       handler: "handler",
       entry: path.join(functionsPath, "handlers/alarm-handler.ts"),
-      environment: commonEnv,
+      environment: {
+        ...commonEnv,
+        ...escalationEnv,
+      },
       timeout: cdk.Duration.seconds(30),
       bundling: bundlingOptions,
     });
     incidentsTable.grantReadWriteData(alarmHandler);
     teamsTable.grantReadData(alarmHandler);
     schedulesTable.grantReadData(alarmHandler);
+    membershipsTable.grantReadData(alarmHandler); // Team members for no-on-call fallback
+    processedMessagesTable.grantReadWriteData(alarmHandler);
+    routingRulesTable.grantReadData(alarmHandler);
+    unroutedAlertsTable.grantWriteData(alarmHandler);
+    alarmHistoryTable.grantReadWriteData(alarmHandler);
+    awsAccountsTable.grantReadWriteData(alarmHandler);
+    silencesTable.grantReadData(alarmHandler);
+    escalationSchedulerPolicy.forEach((statement) => alarmHandler.addToRolePolicy(statement));
     alarmsTopic.addSubscription(new snsSubscriptions.LambdaSubscription(alarmHandler));
 
+    // Alarm events handler (EventBridge) - same processing as the alarm handler
+    const alarmEventsHandler = new nodejs.NodejsFunction(this, "AlarmEventsHandler", {
+      functionName: "cw-alarms-alarm-events",
+      runtime: lambda.Runtime.NODEJS_22_X,
+      handler: "handler",
+      entry: path.join(functionsPath, "handlers/alarm-events.ts"),
+      environment: {
+        ...commonEnv,
+        ...escalationEnv,
+      },
+      timeout: cdk.Duration.seconds(30),
+      bundling: bundlingOptions,
+    });
+    incidentsTable.grantReadWriteData(alarmEventsHandler);
+    teamsTable.grantReadData(alarmEventsHandler);
+    schedulesTable.grantReadData(alarmEventsHandler);
+    membershipsTable.grantReadData(alarmEventsHandler); // Team members for no-on-call fallback
+    processedMessagesTable.grantReadWriteData(alarmEventsHandler);
+    routingRulesTable.grantReadData(alarmEventsHandler);
+    unroutedAlertsTable.grantWriteData(alarmEventsHandler);
+    alarmHistoryTable.grantReadWriteData(alarmEventsHandler);
+    awsAccountsTable.grantReadWriteData(alarmEventsHandler);
+    silencesTable.grantReadData(alarmEventsHandler);
+    escalationSchedulerPolicy.forEach((statement) => alarmEventsHandler.addToRolePolicy(statement));
+    new events.Rule(this, "AlarmStateChangeRule", {
+      eventBus: alarmEventBus,
+      eventPattern: {
+        source: ["aws.cloudwatch"],
+        detailType: ["CloudWatch Alarm State Change"],
+      },
+      targets: [new eventsTargets.LambdaFunction(alarmEventsHandler)],
+    });
+
+    // Alerts handler - unrouted inbox; replays run the same processing as the alarm handler
+    const alertsHandler = new nodejs.NodejsFunction(this, "AlertsHandler", {
+      functionName: "cw-alarms-alerts",
+      runtime: lambda.Runtime.NODEJS_22_X,
+      handler: "handler",
+      entry: path.join(functionsPath, "handlers/alerts.ts"),
+      environment: {
+        ...commonEnv,
+        ...escalationEnv,
+      },
+      timeout: cdk.Duration.seconds(30),
+      bundling: bundlingOptions,
+    });
+    unroutedAlertsTable.grantReadWriteData(alertsHandler);
+    incidentsTable.grantReadWriteData(alertsHandler);
+    teamsTable.grantReadData(alertsHandler);
+    schedulesTable.grantReadData(alertsHandler);
+    membershipsTable.grantReadData(alertsHandler); // Team members for no-on-call fallback
+    routingRulesTable.grantReadData(alertsHandler);
+    integrationsTable.grantReadData(alertsHandler);
+    alarmHistoryTable.grantReadWriteData(alertsHandler);
+    awsAccountsTable.grantReadWriteData(alertsHandler);
+    silencesTable.grantReadData(alertsHandler);
+    escalationSchedulerPolicy.forEach((statement) => alertsHandler.addToRolePolicy(statement));
+
+    // Integrations handler (CRUD for team webhook integrations)
+    const integrationsHandler = new nodejs.NodejsFunction(this, "IntegrationsHandler", {
+      functionName: "cw-alarms-integrations",
+      runtime: lambda.Runtime.NODEJS_22_X,
+      handler: "handler",
+      entry: path.join(functionsPath, "handlers/integrations.ts"),
+      environment: commonEnv,
+      timeout: cdk.Duration.seconds(10),
+      bundling: bundlingOptions,
+    });
+    integrationsTable.grantReadWriteData(integrationsHandler);
+    teamsTable.grantReadData(integrationsHandler);
+    membershipsTable.grantReadData(integrationsHandler);
+
+    // Integration events handler (public webhook) - same incident pipeline as the alarm handler
+    const integrationEventsHandler = new nodejs.NodejsFunction(this, "IntegrationEventsHandler", {
+      functionName: "cw-alarms-integration-events",
+      runtime: lambda.Runtime.NODEJS_22_X,
+      handler: "handler",
+      entry: path.join(functionsPath, "handlers/integration-events.ts"),
+      environment: {
+        ...commonEnv,
+        ...escalationEnv,
+      },
+      timeout: cdk.Duration.seconds(30),
+      bundling: bundlingOptions,
+    });
+    integrationsTable.grantReadData(integrationEventsHandler);
+    incidentsTable.grantReadWriteData(integrationEventsHandler);
+    teamsTable.grantReadData(integrationEventsHandler);
+    schedulesTable.grantReadData(integrationEventsHandler);
+    membershipsTable.grantReadData(integrationEventsHandler); // Team members for no-on-call fallback
+    unroutedAlertsTable.grantWriteData(integrationEventsHandler);
+    silencesTable.grantReadData(integrationEventsHandler);
+    escalationSchedulerPolicy.forEach((statement) => integrationEventsHandler.addToRolePolicy(statement));
+
     // Incident streams handler - sends ALL push notifications
+    // Email, SMS and webhook pages; direct SMS publishes have no topic to scope to
+    const contactDeliveryPolicy = new cdk.aws_iam.PolicyStatement({
+      actions: ["sns:Publish"],
+      resources: ["*"],
+    });
+
+    // Notification steps handler (invoked by EventBridge Scheduler for delayed notification rules)
+    const notificationStepsHandler = new nodejs.NodejsFunction(this, "NotificationStepsHandler", {
+      functionName: "cw-alarms-notification-steps",
+      runtime: lambda.Runtime.NODEJS_22_X,
+      handler: "handler",
+      entry: path.join(functionsPath, "handlers/notification-steps.ts"),
+      environment: {
+        ...commonEnv,
+        ...notificationEnv,
+      },
+      timeout: cdk.Duration.seconds(30),
+      bundling: bundlingOptions,
+    });
+    incidentsTable.grantReadData(notificationStepsHandler);
+    usersTable.grantReadData(notificationStepsHandler);
+    devicesTable.grantReadData(notificationStepsHandler);
+    contactMethodsTable.grantReadData(notificationStepsHandler);
+    heldNotificationsTable.grantReadWriteData(notificationStepsHandler);
+    notificationSchedulerPolicy.forEach((statement) => notificationStepsHandler.addToRolePolicy(statement));
+    apnsSecret.grantRead(notificationStepsHandler);
+    notificationStepsHandler.addToRolePolicy(contactDeliveryPolicy);
+    notificationStepsHandler.grantInvoke(schedulerRole);
+
     const incidentStreamsHandler = new nodejs.NodejsFunction(this, "IncidentStreamsHandler", {
       functionName: "cw-alarms-incident-streams",
       runtime: lambda.Runtime.NODEJS_22_X,
@@ -243,6 +786,13 @@ export class AppStack extends cdk.Stack {
       environment: {
         DEVICES_TABLE: devicesTable.tableName,
         INCIDENTS_TABLE: incidentsTable.tableName,
+        MEMBERSHIPS_TABLE: membershipsTable.tableName,
+        USERS_TABLE: usersTable.tableName,
+        CONTACT_METHODS_TABLE: contactMethodsTable.tableName,
+        CONTACT_EMAIL_TOPIC_ARN: contactEmailTopic.topicArn,
+        HELD_NOTIFICATIONS_TABLE: heldNotificationsTable.tableName,
+        NOTIFICATION_STEP_FUNCTION_ARN: notificationStepsHandler.functionArn,
+        ...notificationEnv,
         APNS_SECRET_ARN: apnsSecret.secretArn,
       },
       timeout: cdk.Duration.seconds(30),
@@ -250,7 +800,13 @@ export class AppStack extends cdk.Stack {
     });
     devicesTable.grantReadData(incidentStreamsHandler);
     incidentsTable.grantReadData(incidentStreamsHandler);
+    membershipsTable.grantReadData(incidentStreamsHandler); // Observers with FYI pushes
+    usersTable.grantReadData(incidentStreamsHandler); // Notification rules and acker names
+    contactMethodsTable.grantReadData(incidentStreamsHandler);
+    heldNotificationsTable.grantReadWriteData(incidentStreamsHandler);
     apnsSecret.grantRead(incidentStreamsHandler);
+    incidentStreamsHandler.addToRolePolicy(contactDeliveryPolicy);
+    notificationSchedulerPolicy.forEach((statement) => incidentStreamsHandler.addToRolePolicy(statement));
 
     // Connect streams to Lambda
     incidentStreamsHandler.addEventSource(
@@ -261,6 +817,25 @@ export class AppStack extends cdk.Stack {
       })
     );
 
+    // Membership migration (runs once, on the deploy that adds it; moves legacy User.team_ids into memberships)
+    const migrateMembershipsHandler = new nodejs.NodejsFunction(this, "MigrateMembershipsHandler", {
+      functionName: "cw-alarms-migrate-memberships",
+      runtime: lambda.Runtime.NODEJS_22_X,
+      handler: "handler",
+      entry: path.join(functionsPath, "handlers/migrate-memberships.ts"),
+      environment: commonEnv,
+      timeout: cdk.Duration.minutes(5),
+      bundling: bundlingOptions,
+    });
+    usersTable.grantReadWriteData(migrateMembershipsHandler);
+    teamsTable.grantReadWriteData(migrateMembershipsHandler);
+    membershipsTable.grantReadWriteData(migrateMembershipsHandler);
+    new triggers.Trigger(this, "MigrateMembershipsTrigger", {
+      handler: migrateMembershipsHandler,
+      executeAfter: [usersTable, teamsTable, membershipsTable],
+      executeOnHandlerChange: false,
+    });
+
     // Demo handler (for cloud demo mode)
     const demoHandler = new nodejs.NodejsFunction(this, "DemoHandler", {
       functionName: "cw-alarms-demo",
@@ -277,6 +852,7 @@ export class AppStack extends cdk.Stack {
     incidentsTable.grantReadWriteData(demoHandler);
     teamsTable.grantReadWriteData(demoHandler);
     schedulesTable.grantReadWriteData(demoHandler);
+    membershipsTable.grantReadWriteData(demoHandler);
     alarmsTopic.grantPublish(demoHandler);
 
     // Game handler (for game mode)
@@ -390,22 +966,178 @@ export class AppStack extends cdk.Stack {
     });
     httpApi.addRoutes({
       path: "/teams/{id}/members",
-      methods: [apigateway.HttpMethod.POST],
-      integration: new apigatewayIntegrations.HttpLambdaIntegration("TeamsMembersAdd", teamsHandler),
+      methods: [apigateway.HttpMethod.GET, apigateway.HttpMethod.POST],
+      integration: new apigatewayIntegrations.HttpLambdaIntegration("TeamsMembers", teamsHandler),
       authorizer,
     });
     httpApi.addRoutes({
       path: "/teams/{id}/members/{uid}",
+      methods: [apigateway.HttpMethod.PUT, apigateway.HttpMethod.DELETE],
+      integration: new apigatewayIntegrations.HttpLambdaIntegration("TeamsMember", teamsHandler),
+      authorizer,
+    });
+
+    // Routing rules routes
+    httpApi.addRoutes({
+      path: "/teams/{id}/routing-rules",
+      methods: [apigateway.HttpMethod.GET, apigateway.HttpMethod.POST],
+      integration: new apigatewayIntegrations.HttpLambdaIntegration("RoutingRules", routingHandler),
+      authorizer,
+    });
+    httpApi.addRoutes({
+      path: "/teams/{id}/routing-rules/{rule_id}",
+      methods: [apigateway.HttpMethod.PUT, apigateway.HttpMethod.DELETE],
+      integration: new apigatewayIntegrations.HttpLambdaIntegration("RoutingRulesById", routingHandler),
+      authorizer,
+    });
+    httpApi.addRoutes({
+      path: "/routing/test",
+      methods: [apigateway.HttpMethod.POST],
+      integration: new apigatewayIntegrations.HttpLambdaIntegration("RoutingTest", routingHandler),
+      authorizer,
+    });
+
+    // Onboarding routes
+    httpApi.addRoutes({
+      path: "/teams/{id}/onboarding",
+      methods: [apigateway.HttpMethod.GET],
+      integration: new apigatewayIntegrations.HttpLambdaIntegration("Onboarding", onboardingHandler),
+      authorizer,
+    });
+    httpApi.addRoutes({
+      path: "/teams/{id}/onboarding/{account_id}",
+      methods: [apigateway.HttpMethod.GET],
+      integration: new apigatewayIntegrations.HttpLambdaIntegration("OnboardingAccount", onboardingHandler),
+      authorizer,
+    });
+    httpApi.addRoutes({
+      path: "/teams/{id}/onboarding/{account_id}/verify",
+      methods: [apigateway.HttpMethod.POST],
+      integration: new apigatewayIntegrations.HttpLambdaIntegration("OnboardingVerify", onboardingHandler),
+      authorizer,
+    });
+
+    // Silences routes
+    httpApi.addRoutes({
+      path: "/teams/{id}/silences",
+      methods: [apigateway.HttpMethod.GET, apigateway.HttpMethod.POST],
+      integration: new apigatewayIntegrations.HttpLambdaIntegration("Silences", silencesHandler),
+      authorizer,
+    });
+    httpApi.addRoutes({
+      path: "/teams/{id}/silences/{silence_id}",
+      methods: [apigateway.HttpMethod.PUT],
+      integration: new apigatewayIntegrations.HttpLambdaIntegration("SilencesById", silencesHandler),
+      authorizer,
+    });
+    httpApi.addRoutes({
+      path: "/teams/{id}/silences/{silence_id}/expire",
+      methods: [apigateway.HttpMethod.POST],
+      integration: new apigatewayIntegrations.HttpLambdaIntegration("SilencesExpire", silencesHandler),
+      authorizer,
+    });
+
+    // Invites routes
+    httpApi.addRoutes({
+      path: "/teams/{id}/invites",
+      methods: [apigateway.HttpMethod.GET, apigateway.HttpMethod.POST],
+      integration: new apigatewayIntegrations.HttpLambdaIntegration("Invites", invitesHandler),
+      authorizer,
+    });
+    httpApi.addRoutes({
+      path: "/teams/{id}/invites/{code}",
       methods: [apigateway.HttpMethod.DELETE],
-      integration: new apigatewayIntegrations.HttpLambdaIntegration("TeamsMembersRemove", teamsHandler),
+      integration: new apigatewayIntegrations.HttpLambdaIntegration("InvitesRevoke", invitesHandler),
+      authorizer,
+    });
+    httpApi.addRoutes({
+      path: "/invites/{code}/accept",
+      methods: [apigateway.HttpMethod.POST],
+      integration: new apigatewayIntegrations.HttpLambdaIntegration("InvitesAccept", invitesHandler),
+      authorizer,
+    });
+
+    // Alerts routes
+    httpApi.addRoutes({
+      path: "/alerts/unrouted",
+      methods: [apigateway.HttpMethod.GET],
+      integration: new apigatewayIntegrations.HttpLambdaIntegration("AlertsUnrouted", alertsHandler),
+      authorizer,
+    });
+    httpApi.addRoutes({
+      path: "/alerts/unrouted/{id}/replay",
+      methods: [apigateway.HttpMethod.POST],
+      integration: new apigatewayIntegrations.HttpLambdaIntegration("AlertsUnroutedReplay", alertsHandler),
+      authorizer,
+    });
+    httpApi.addRoutes({
+      path: "/teams/{id}/flapping-alarms",
+      methods: [apigateway.HttpMethod.GET],
+      integration: new apigatewayIntegrations.HttpLambdaIntegration("TeamFlappingAlarms", alertsHandler),
+      authorizer,
+    });
+
+    // Integrations routes
+    httpApi.addRoutes({
+      path: "/teams/{id}/integrations",
+      methods: [apigateway.HttpMethod.GET, apigateway.HttpMethod.POST],
+      integration: new apigatewayIntegrations.HttpLambdaIntegration("Integrations", integrationsHandler),
+      authorizer,
+    });
+    httpApi.addRoutes({
+      path: "/teams/{id}/integrations/{integration_id}",
+      methods: [apigateway.HttpMethod.PUT, apigateway.HttpMethod.DELETE],
+      integration: new apigatewayIntegrations.HttpLambdaIntegration("IntegrationsById", integrationsHandler),
       authorizer,
     });
+    // No JWT: external monitors authenticate with the integration key in the path
+    httpApi.addRoutes({
+      path: "/integrations/{integration_key}/events",
+      methods: [apigateway.HttpMethod.POST],
+      integration: new apigatewayIntegrations.HttpLambdaIntegration("IntegrationEvents", integrationEventsHandler),
+    });
 
-    // Users routes (account management)
+    // Users routes (directory and account management)
+    httpApi.addRoutes({
+      path: "/users",
+      methods: [apigateway.HttpMethod.GET],
+      integration: new apigatewayIntegrations.HttpLambdaIntegration("UsersLookup", usersHandler),
+      authorizer,
+    });
     httpApi.addRoutes({
       path: "/users/me",
+      methods: [apigateway.HttpMethod.GET, apigateway.HttpMethod.PUT, apigateway.HttpMethod.DELETE],
+      integration: new apigatewayIntegrations.HttpLambdaIntegration("UsersMe", usersHandler),
+      authorizer,
+    });
+    httpApi.addRoutes({
+      path: "/users/me/export",
+      methods: [apigateway.HttpMethod.GET],
+      integration: new apigatewayIntegrations.HttpLambdaIntegration("UsersMeExport", usersHandler),
+      authorizer,
+    });
+    httpApi.addRoutes({
+      path: "/users/me/contact-methods",
+      methods: [apigateway.HttpMethod.POST],
+      integration: new apigatewayIntegrations.HttpLambdaIntegration("UsersContactMethodsCreate", usersHandler),
+      authorizer,
+    });
+    httpApi.addRoutes({
+      path: "/users/me/contact-methods/{id}",
       methods: [apigateway.HttpMethod.DELETE],
-      integration: new apigatewayIntegrations.HttpLambdaIntegration("UsersDeleteMe", usersHandler),
+      integration: new apigatewayIntegrations.HttpLambdaIntegration("UsersContactMethodsDelete", usersHandler),
+      authorizer,
+    });
+    httpApi.addRoutes({
+      path: "/users/me/contact-methods/{id}/verify",
+      methods: [apigateway.HttpMethod.POST],
+      integration: new apigatewayIntegrations.HttpLambdaIntegration("UsersContactMethodsVerify", usersHandler),
+      authorizer,
+    });
+    httpApi.addRoutes({
+      path: "/users/me/contact-methods/{id}/resend",
+      methods: [apigateway.HttpMethod.POST],
+      integration: new apigatewayIntegrations.HttpLambdaIntegration("UsersContactMethodsResend", usersHandler),
       authorizer,
     });
 
@@ -520,6 +1252,11 @@ export class AppStack extends cdk.Stack {
       description: "SNS Topic ARN for CloudWatch Alarms",
     });
 
+    new cdk.CfnOutput(this, "AlarmEventBusArn", {
+      value: alarmEventBus.eventBusArn,
+      description: "EventBridge bus that source accounts forward alarm state changes to",
+    });
+
     new cdk.CfnOutput(this, "Region", {
       value: this.region,
       description: "AWS Region",
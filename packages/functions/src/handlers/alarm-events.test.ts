@@ -0,0 +1,227 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { createDynamoFake } from "../test/dynamo-fake.js";
+import type { AlarmStateChangeEvent } from "../lib/alarm-events.js";
+
+// Table names are read at import time
+vi.hoisted(() => {
+  process.env.INCIDENTS_TABLE = "incidents";
+  process.env.TEAMS_TABLE = "teams";
+  process.env.SCHEDULES_TABLE = "schedules";
+  process.env.USERS_TABLE = "users";
+  process.env.ROUTING_RULES_TABLE = "routing";
+  process.env.PROCESSED_MESSAGES_TABLE = "processed";
+  process.env.UNROUTED_ALERTS_TABLE = "unrouted";
+  process.env.ALARM_HISTORY_TABLE = "history";
+  process.env.SILENCES_TABLE = "silences";
+  process.env.AWS_ACCOUNTS_TABLE = "accounts";
+});
+
+// Local DynamoDB stand-in so the whole pipeline runs against real state
+vi.mock("../lib/dynamo.js", async () => {
+  const { createDynamoFake, fakeCommands } = await import("../test/dynamo-fake.js");
+  const docClient = createDynamoFake({
+    incidents: ["incident_id"],
+    teams: ["team_id"],
+    schedules: ["team_id", "slot_id"],
+    users: ["user_id"],
+    routing: ["team_id", "rule_id"],
+    processed: ["message_id"],
+    unrouted: ["alert_id"],
+    history: ["alarm_arn"],
+    silences: ["team_id", "silence_id"],
+    accounts: ["aws_account_id"],
+  });
+  return { docClient, ...fakeCommands };
+});
+
+vi.mock("../lib/escalation.js", () => ({
+  scheduleEscalation: vi.fn().mockResolvedValue(null),
+  cancelEscalation: vi.fn().mockResolvedValue(undefined),
+}));
+
+import { handler } from "./alarm-events.js";
+import { docClient } from "../lib/dynamo.js";
+
+const db = docClient as unknown as ReturnType<typeof createDynamoFake>;
+
+const ACCOUNT = "123456789012";
+const REGION = "eu-west-1";
+
+let eventCount = 0;
+
+function stateChange(alarmName: string, value: "ALARM" | "OK", configuration: AlarmStateChangeEvent["detail"]["configuration"], account = ACCOUNT): AlarmStateChangeEvent {
+  eventCount++;
+  return {
+    version: "0",
+    id: `event-${eventCount}`,
+    "detail-type": "CloudWatch Alarm State Change",
+    source: "aws.cloudwatch",
+    account,
+    time: "2026-10-18T09:00:00Z",
+    region: REGION,
+    resources: [`arn:aws:cloudwatch:${REGION}:${account}:alarm:${alarmName}`],
+    detail: {
+      alarmName,
+      state: { value, reason: `Threshold ${value === "ALARM" ? "crossed" : "no longer crossed"}`, timestamp: "2026-10-18T09:00:00.000+0000" },
+      previousState: { value: value === "ALARM" ? "OK" : "ALARM", reason: "", timestamp: "2026-10-18T08:55:00.000+0000" },
+      configuration,
+    },
+  };
+}
+
+const metricAlarm = (value: "ALARM" | "OK" = "ALARM") =>
+  stateChange("orders-api-p99-latency", value, {
+    description: "severity: critical\nrunbook: https://wiki.example.com/runbooks/orders-latency",
+    metrics: [
+      {
+        id: "m1",
+        metricStat: {
+          metric: { namespace: "AWS/ApplicationELB", name: "TargetResponseTime", dimensions: { LoadBalancer: "app/orders/123" } },
+          period: 60,
+          stat: "p99",
+        },
+        returnData: true,
+      },
+    ],
+  });
+
+const mathAlarm = () =>
+  stateChange("orders-api-error-rate", "ALARM", {
+    metrics: [
+      { id: "e1", expression: "100 * errors / requests", label: "Error rate", returnData: true },
+      {
+        id: "errors",
+        metricStat: { metric: { namespace: "AWS/ApplicationELB", name: "HTTPCode_Target_5XX_Count" }, period: 60, stat: "Sum" },
+        returnData: false,
+      },
+      {
+        id: "requests",
+        metricStat: { metric: { namespace: "AWS/ApplicationELB", name: "RequestCount" }, period: 60, stat: "Sum" },
+        returnData: false,
+      },
+    ],
+  });
+
+const compositeAlarm = (value: "ALARM" | "OK" = "ALARM") =>
+  stateChange("orders-degraded", value, {
+    description: "Orders API slow and failing",
+    alarmRule: "ALARM(orders-api-p99-latency) AND ALARM(orders-api-error-rate)",
+  });
+
+const incidents = () => db.table("incidents") as Record<string, any>[];
+
+describe("alarm events handler", () => {
+  beforeEach(() => {
+    db.reset();
+    db.table("teams").push({
+      team_id: "team-ops",
+      name: "Ops",
+      aws_account_ids: [ACCOUNT],
+      escalation_policy: { levels: [] },
+      created_at: 1,
+    });
+    db.table("schedules").push({
+      team_id: "team-ops",
+      slot_id: "slot-1",
+      user_id: "user-oncall",
+      start: Date.now() - 60_000,
+      end: Date.now() + 60 * 60_000,
+    });
+  });
+
+  it("creates an incident from a metric alarm", async () => {
+    await handler(metricAlarm());
+
+    expect(incidents()).toHaveLength(1);
+    expect(incidents()[0]).toMatchObject({
+      alarm_name: "orders-api-p99-latency",
+      alarm_arn: `arn:aws:cloudwatch:${REGION}:${ACCOUNT}:alarm:orders-api-p99-latency`,
+      team_id: "team-ops",
+      severity: "critical",
+      assigned_to: "user-oncall",
+      runbook_url: "https://wiki.example.com/runbooks/orders-latency",
+      alarm_context: {
+        region: REGION,
+        old_state: "OK",
+        namespace: "AWS/ApplicationELB",
+        metric_name: "TargetResponseTime",
+        statistic: "p99",
+        period: 60,
+        dimensions: [{ name: "LoadBalancer", value: "app/orders/123" }],
+      },
+    });
+  });
+
+  it("resolves the incident when the alarm returns to OK", async () => {
+    await handler(metricAlarm());
+    await handler(metricAlarm("OK"));
+
+    expect(incidents()[0].state).toBe("resolved");
+  });
+
+  it("keeps the expression of a metric math alarm", async () => {
+    await handler(mathAlarm());
+
+    const context = incidents()[0].alarm_context;
+    expect(context.expression).toBe("100 * errors / requests");
+    expect(context.metric_name).toBeUndefined();
+  });
+
+  it("routes metric math alarms on the metrics they read", async () => {
+    db.table("teams").push({ team_id: "team-web", name: "Web", aws_account_ids: [ACCOUNT], escalation_policy: { levels: [] }, created_at: 2 });
+    db.table("routing").push({
+      team_id: "team-web",
+      rule_id: "rule-elb",
+      name: "Load balancers",
+      priority: 1,
+      match: { namespace: "AWS/ApplicationELB" },
+      created_at: 1,
+    });
+    db.table("schedules").push({ team_id: "team-web", slot_id: "slot-1", user_id: "user-web", start: Date.now() - 60_000, end: Date.now() + 60 * 60_000 });
+    db.table("accounts").push({ aws_account_id: ACCOUNT, verified_at: 1, verified_team_id: "team-web" });
+
+    await handler(mathAlarm());
+
+    expect(incidents()[0].team_id).toBe("team-web");
+  });
+
+  it("creates and resolves incidents for composite alarms", async () => {
+    await handler(compositeAlarm());
+
+    expect(incidents()[0]).toMatchObject({
+      alarm_name: "orders-degraded",
+      alarm_context: { alarm_rule: "ALARM(orders-api-p99-latency) AND ALARM(orders-api-error-rate)", description: "Orders API slow and failing" },
+    });
+
+    await handler(compositeAlarm("OK"));
+    expect(incidents()[0].state).toBe("resolved");
+  });
+
+  it("skips composite alarms whose actions are suppressed", async () => {
+    const event = compositeAlarm();
+    event.detail.state.actionsSuppressedBy = "WaitPeriod";
+
+    await handler(event);
+
+    expect(incidents()).toHaveLength(0);
+  });
+
+  it("processes a redelivered event once", async () => {
+    const event = metricAlarm();
+
+    await handler(event);
+    await handler(event);
+
+    expect(incidents()).toHaveLength(1);
+    expect(incidents()[0].alarm_count).toBe(1);
+  });
+
+  it("parks alarms from unknown accounts as replayable SNS messages", async () => {
+    await handler(stateChange("billing-alarm", "ALARM", {}, "999999999999"));
+
+    expect(incidents()).toHaveLength(0);
+    const [alert] = db.table("unrouted") as Record<string, any>[];
+    expect(alert).toMatchObject({ reason: "no_team", source: "cloudwatch", aws_account_id: "999999999999" });
+    expect(JSON.parse(alert.raw_message)).toMatchObject({ AlarmName: "billing-alarm", AWSAccountId: "999999999999", NewStateValue: "ALARM" });
+  });
+});
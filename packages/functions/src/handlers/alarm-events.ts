@@ -0,0 +1,37 @@
+import { processAlarm, cloudWatchAlertEvent, recordUnroutedAlert } from "../lib/alarms.js";
+import { alarmStateChangeMessage, AlarmStateChangeEvent } from "../lib/alarm-events.js";
+import { claimMessage, releaseMessage } from "../lib/idempotency.js";
+
+/**
+ * CloudWatch alarm state changes delivered by EventBridge, from the stack's
+ * alarm event bus. One bus rule per source account replaces SNS actions on
+ * every alarm and also covers composite and metric math alarms.
+ */
+export async function handler(event: AlarmStateChangeEvent): Promise<void> {
+  // A suppressor (e.g. a maintenance alarm) holds back the composite alarm's actions
+  if (event.detail.state.actionsSuppressedBy) {
+    console.log(`Skipping ${event.detail.alarmName}: actions suppressed by ${event.detail.state.actionsSuppressedBy}`);
+    return;
+  }
+
+  // Lambda and EventBridge retries reuse the event id
+  if (!(await claimMessage(event.id))) {
+    console.log(`Skipping already processed event: ${event.id}`);
+    return;
+  }
+
+  try {
+    const message = alarmStateChangeMessage(event);
+    const outcome = await processAlarm(message);
+    if (outcome.status === "unrouted") {
+      await recordUnroutedAlert(cloudWatchAlertEvent(message), outcome, JSON.stringify(message));
+    }
+  } catch (error) {
+    console.error("Error processing alarm event:", error);
+    await releaseMessage(event.id).catch((releaseError) => {
+      console.error(`Failed to release event ${event.id}:`, releaseError);
+    });
+    // Fail the invocation so Lambda retries the asynchronous delivery
+    throw error;
+  }
+}
@@ -0,0 +1,627 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { SNSEvent } from "aws-lambda";
+import type { createDynamoFake } from "../test/dynamo-fake.js";
+import type { AlertGrouping, CloudWatchAlarmMessage, FlapDetection } from "../types/index.js";
+
+// Table names are read at import time
+vi.hoisted(() => {
+  process.env.INCIDENTS_TABLE = "incidents";
+  process.env.TEAMS_TABLE = "teams";
+  process.env.SCHEDULES_TABLE = "schedules";
+  process.env.USERS_TABLE = "users";
+  process.env.ROUTING_RULES_TABLE = "routing";
+  process.env.PROCESSED_MESSAGES_TABLE = "processed";
+  process.env.UNROUTED_ALERTS_TABLE = "unrouted";
+  process.env.ALARM_HISTORY_TABLE = "history";
+  process.env.SILENCES_TABLE = "silences";
+  process.env.AWS_ACCOUNTS_TABLE = "accounts";
+  process.env.MEMBERSHIPS_TABLE = "memberships";
+});
+
+// Local DynamoDB stand-in so the whole pipeline runs against real state
+vi.mock("../lib/dynamo.js", async () => {
+  const { createDynamoFake, fakeCommands } = await import("../test/dynamo-fake.js");
+  const docClient = createDynamoFake({
+    incidents: ["incident_id"],
+    teams: ["team_id"],
+    schedules: ["team_id", "slot_id"],
+    users: ["user_id"],
+    routing: ["team_id", "rule_id"],
+    processed: ["message_id"],
+    unrouted: ["alert_id"],
+    history: ["alarm_arn"],
+    silences: ["team_id", "silence_id"],
+    accounts: ["aws_account_id"],
+    memberships: ["team_id", "user_id"],
+  });
+  return { docClient, ...fakeCommands };
+});
+
+vi.mock("../lib/escalation.js", () => ({
+  scheduleEscalation: vi.fn().mockResolvedValue(null),
+  cancelEscalation: vi.fn().mockResolvedValue(undefined),
+}));
+
+import { handler } from "./alarm-handler.js";
+import { DEMO_ALARMS, demoAlarmMessage } from "./demo.js";
+import { docClient } from "../lib/dynamo.js";
+
+const db = docClient as unknown as ReturnType<typeof createDynamoFake>;
+
+const ACCOUNT = "123456789012";
+
+let messageCount = 0;
+
+function snsEvent(message: CloudWatchAlarmMessage): SNSEvent {
+  messageCount++;
+  return {
+    Records: [{ Sns: { MessageId: `msg-${messageCount}`, Message: JSON.stringify(message) } }],
+  } as unknown as SNSEvent;
+}
+
+async function deliver(message: CloudWatchAlarmMessage) {
+  await handler(snsEvent(message));
+}
+
+function ok(message: CloudWatchAlarmMessage): CloudWatchAlarmMessage {
+  return { ...message, NewStateValue: "OK", NewStateReason: "Threshold no longer crossed" };
+}
+
+function withDimension(message: CloudWatchAlarmMessage, value: string): CloudWatchAlarmMessage {
+  return { ...message, Trigger: { Dimensions: [{ name: "DBInstanceIdentifier", value }] } };
+}
+
+function seed(grouping?: AlertGrouping, flapDetection?: FlapDetection) {
+  db.reset();
+  db.table("teams").push({
+    team_id: "team-ops",
+    name: "Ops",
+    aws_account_ids: [ACCOUNT],
+    escalation_policy: { levels: [] },
+    ...(grouping ? { grouping } : {}),
+    ...(flapDetection ? { flap_detection: flapDetection } : {}),
+    created_at: 1,
+  });
+  db.table("schedules").push({
+    team_id: "team-ops",
+    slot_id: "slot-1",
+    user_id: "user-oncall",
+    start: Date.now() - 60_000,
+    end: Date.now() + 60 * 60_000,
+  });
+}
+
+const incidents = () => db.table("incidents") as Record<string, any>[];
+
+const demoBurst = DEMO_ALARMS.map((alarm) => demoAlarmMessage(alarm, ACCOUNT));
+
+describe("alarm handler grouping", () => {
+  beforeEach(() => {
+    seed({ key: "account_region", window_minutes: 5 });
+  });
+
+  it("creates one incident per alarm when the team does not group", async () => {
+    seed();
+
+    for (const message of demoBurst) await deliver(message);
+
+    expect(incidents()).toHaveLength(DEMO_ALARMS.length);
+    expect(incidents().every((incident) => incident.alerts === undefined)).toBe(true);
+  });
+
+  it("bundles the demo alarm burst into the first incident", async () => {
+    for (const message of demoBurst) await deliver(message);
+
+    expect(incidents()).toHaveLength(1);
+    const [incident] = incidents();
+    expect(incident).toMatchObject({
+      alarm_name: DEMO_ALARMS[0].name,
+      group_key: `team-ops#account_region#${ACCOUNT}:eu-west-1`,
+      alarm_count: DEMO_ALARMS.length,
+      state: "triggered",
+    });
+    expect(incident.alerts.map((alert: { summary: string }) => alert.summary)).toEqual(DEMO_ALARMS.map((alarm) => alarm.name));
+    expect(incident.timeline.filter((entry: { event: string }) => entry.event === "grouped")).toHaveLength(DEMO_ALARMS.length - 1);
+  });
+
+  it("folds a repeat of a grouped alarm into the same incident", async () => {
+    await deliver(demoBurst[0]);
+    await deliver(demoBurst[1]);
+    await deliver(demoBurst[1]);
+
+    const [incident] = incidents();
+    expect(incident.alerts).toHaveLength(2);
+    expect(incident.timeline.map((entry: { event: string }) => entry.event)).toEqual(["triggered", "grouped", "retriggered"]);
+  });
+
+  it("resolves the incident only after every grouped alarm returns to OK", async () => {
+    await deliver(demoBurst[0]);
+    await deliver(demoBurst[1]);
+
+    await deliver(ok(demoBurst[0]));
+    expect(incidents()[0].state).toBe("triggered");
+    expect(incidents()[0].alerts[0].resolved_at).toEqual(expect.any(Number));
+
+    await deliver(ok(demoBurst[1]));
+    expect(incidents()[0].state).toBe("resolved");
+  });
+
+  it("counts a cleared alarm that fires again as firing", async () => {
+    await deliver(demoBurst[0]);
+    await deliver(demoBurst[1]);
+    await deliver(ok(demoBurst[1]));
+    await deliver(demoBurst[1]);
+
+    await deliver(ok(demoBurst[0]));
+    const [incident] = incidents();
+    expect(incident.state).toBe("triggered");
+    expect(incident.alerts[1].resolved_at).toBeUndefined();
+  });
+
+  it("opens a new incident once the window has passed", async () => {
+    await deliver(demoBurst[0]);
+    incidents()[0].triggered_at = Date.now() - 6 * 60_000;
+
+    await deliver(demoBurst[1]);
+
+    expect(incidents()).toHaveLength(2);
+    expect(incidents()[1].alerts).toHaveLength(1);
+  });
+
+  it("groups by a shared dimension value", async () => {
+    seed({ key: "dimension", dimension: "DBInstanceIdentifier", window_minutes: 5 });
+
+    await deliver(withDimension(demoBurst[0], "orders-db"));
+    await deliver(withDimension(demoBurst[4], "orders-db"));
+    await deliver(withDimension(demoBurst[3], "users-db"));
+    // No such dimension: never grouped
+    await deliver(demoBurst[5]);
+
+    expect(incidents().map((incident) => incident.alerts?.length ?? 0)).toEqual([2, 1, 0]);
+  });
+});
+
+describe("alarm handler flap detection", () => {
+  const alarm = demoBurst[0];
+
+  beforeEach(() => {
+    seed(undefined, { transitions: 4, window_minutes: 30 });
+  });
+
+  it("flags the incident once the alarm flaps and stops paging", async () => {
+    await deliver(alarm);
+    await deliver(ok(alarm));
+    await deliver(alarm);
+    await deliver(ok(alarm));
+    await deliver(alarm);
+    await deliver(ok(alarm));
+
+    expect(incidents()).toHaveLength(2);
+    const [first, second] = incidents();
+    expect(first.flapping).toBeUndefined();
+    expect(second).toMatchObject({ flapping: true, state: "resolved" });
+    expect(second.timeline.map((entry: { event: string }) => entry.event)).toEqual(["triggered", "flapping", "resolved"]);
+    expect(db.table("history")[0]).toMatchObject({ flapping: true, team_id: "team-ops", flapping_incident_id: second.incident_id });
+  });
+
+  it("creates a flagged incident when flapping is detected on a new alarm", async () => {
+    seed(undefined, { transitions: 3, window_minutes: 30 });
+
+    await deliver(alarm);
+    await deliver(ok(alarm));
+    await deliver(alarm);
+
+    const incident = incidents()[1];
+    expect(incident).toMatchObject({ flapping: true, state: "triggered" });
+    expect(incident.timeline[1]).toMatchObject({ event: "flapping", note: "3 state changes in 30 min; pages suppressed until it settles" });
+  });
+
+  it("pages normally again once the alarm settles", async () => {
+    for (const message of [alarm, ok(alarm), alarm, ok(alarm)]) await deliver(message);
+    const history = db.table("history")[0] as { transitions: { at: number }[] };
+    history.transitions.forEach((transition) => (transition.at -= 31 * 60_000));
+
+    await deliver(alarm);
+
+    expect(incidents()).toHaveLength(3);
+    expect(incidents()[2].flapping).toBeUndefined();
+    expect(db.table("history")[0]).toMatchObject({ flapping: false });
+  });
+});
+
+describe("alarm handler silences", () => {
+  beforeEach(() => {
+    seed({ key: "account_region", window_minutes: 5 });
+  });
+
+  function silence(mode: "skip" | "suppress", match: Record<string, string> = {}) {
+    db.table("silences").push({
+      team_id: "team-ops",
+      silence_id: `silence-${mode}`,
+      starts_at: Date.now() - 60_000,
+      ends_at: Date.now() + 60 * 60_000,
+      match,
+      mode,
+      comment: "DB upgrade",
+      created_by: "user-oncall",
+      created_at: Date.now(),
+    });
+  }
+
+  it("drops matching alerts in skip mode", async () => {
+    silence("skip", { alarm_name: `${DEMO_ALARMS[0].name}*` });
+
+    await deliver(demoBurst[0]);
+    await deliver(demoBurst[1]);
+
+    expect(incidents()).toHaveLength(1);
+    expect(incidents()[0].alarm_name).toBe(DEMO_ALARMS[1].name);
+  });
+
+  it("records suppressed incidents that never join a paging group", async () => {
+    silence("suppress", { aws_account_id: ACCOUNT });
+
+    await deliver(demoBurst[0]);
+    await deliver(demoBurst[1]);
+
+    expect(incidents()).toHaveLength(2);
+    expect(incidents().every((incident) => incident.state === "suppressed" && incident.silence_id === "silence-suppress")).toBe(true);
+    expect(incidents()[0].group_key).toBeUndefined();
+    expect(incidents()[0].timeline[1]).toMatchObject({ event: "suppressed", note: "Silenced: DB upgrade" });
+  });
+
+  it("resolves a suppressed incident when the alarm clears", async () => {
+    silence("suppress");
+
+    await deliver(demoBurst[0]);
+    await deliver(ok(demoBurst[0]));
+
+    expect(incidents()[0].state).toBe("resolved");
+  });
+
+  it("folds repeats into a suppressed incident only while the silence lasts", async () => {
+    silence("suppress");
+
+    await deliver(demoBurst[0]);
+    await deliver(demoBurst[0]);
+    expect(incidents()).toHaveLength(1);
+    expect(incidents()[0].alarm_count).toBe(2);
+
+    db.table("silences")[0].ends_at = Date.now() - 1;
+    await deliver(demoBurst[0]);
+    await deliver(demoBurst[0]);
+
+    expect(incidents().map((incident) => incident.state)).toEqual(["suppressed", "triggered"]);
+    expect(incidents()[1].alarm_count).toBe(2);
+  });
+
+  it("ignores silences that have ended", async () => {
+    silence("skip");
+    db.table("silences")[0].ends_at = Date.now() - 1;
+
+    await deliver(demoBurst[0]);
+
+    expect(incidents()[0].state).toBe("triggered");
+  });
+});
+
+describe("alarm handler account verification", () => {
+  const challenge = (expiresAt: number) => ({ nonce: "0123456789abcdef", team_id: "team-ops", issued_at: Date.now(), expires_at: expiresAt });
+  const verificationAlarm = { ...demoBurst[0], AlarmName: "cw-alarms-verify-0123456789abcdef" };
+
+  beforeEach(() => {
+    seed();
+  });
+
+  it("records the last alarm seen from the account", async () => {
+    await deliver(demoBurst[0]);
+
+    expect(db.table("accounts")[0]).toMatchObject({ aws_account_id: ACCOUNT, last_alarm_name: DEMO_ALARMS[0].name });
+  });
+
+  it("verifies the account when the nonce arrives, without an incident", async () => {
+    db.table("accounts").push({ aws_account_id: ACCOUNT, challenges: { "team-ops": challenge(Date.now() + 60_000) } });
+
+    await deliver(verificationAlarm);
+
+    expect(incidents()).toHaveLength(0);
+    const [account] = db.table("accounts") as Record<string, any>[];
+    expect(account).toMatchObject({ verified_at: expect.any(Number), verified_team_id: "team-ops" });
+    expect(account.challenges).toEqual({});
+  });
+
+  it("does not verify with an expired nonce", async () => {
+    db.table("accounts").push({ aws_account_id: ACCOUNT, challenges: { "team-ops": challenge(Date.now() - 1) } });
+
+    await deliver(verificationAlarm);
+
+    expect(incidents()).toHaveLength(0);
+    expect(db.table("accounts")[0].verified_at).toBeUndefined();
+  });
+});
+
+describe("alarm handler OK transition", () => {
+  beforeEach(() => {
+    seed();
+  });
+
+  it("resolves the incident by default", async () => {
+    await deliver(demoBurst[0]);
+    await deliver(ok(demoBurst[0]));
+
+    expect(incidents()[0]).toMatchObject({ state: "resolved", resolved_at: expect.any(Number) });
+    expect(incidents()[0].timeline.at(-1)).toMatchObject({ event: "resolved", actor: "CloudWatch" });
+  });
+
+  it("only notes the recovery on teams that resolve by hand", async () => {
+    db.table("teams")[0].ok_action = "annotate";
+
+    await deliver(demoBurst[0]);
+    await deliver(ok(demoBurst[0]));
+
+    expect(incidents()[0].state).toBe("triggered");
+    expect(incidents()[0].timeline.at(-1)).toMatchObject({
+      event: "annotated",
+      actor: "CloudWatch",
+      note: "Alarm returned to OK: Threshold no longer crossed",
+    });
+  });
+
+  it("ignores OK for an alarm without an open incident", async () => {
+    await deliver(ok(demoBurst[0]));
+
+    expect(incidents()).toHaveLength(0);
+  });
+});
+
+describe("alarm handler delivery", () => {
+  beforeEach(() => {
+    seed();
+  });
+
+  it("processes a redelivered SNS message once", async () => {
+    const event = snsEvent(demoBurst[0]);
+
+    await handler(event);
+    await handler(event);
+
+    expect(incidents()).toHaveLength(1);
+    expect(incidents()[0].timeline).toHaveLength(1);
+  });
+
+  it("folds a repeated ALARM notification into the open incident", async () => {
+    await deliver(demoBurst[0]);
+    await deliver(demoBurst[0]);
+
+    expect(incidents()).toHaveLength(1);
+    expect(incidents()[0].alarm_count).toBe(2);
+    expect(incidents()[0].timeline.at(-1)).toMatchObject({ event: "retriggered", actor: "CloudWatch" });
+  });
+
+  it("releases the message and fails the invocation so a retry processes it", async () => {
+    const event = snsEvent(demoBurst[0]);
+    const send = db.send;
+    vi.spyOn(db, "send")
+      .mockImplementationOnce(send) // The claim
+      .mockRejectedValueOnce(new Error("Throttled"));
+
+    await expect(handler(event)).rejects.toThrow("Throttled");
+    expect(db.table("processed")).toHaveLength(0);
+
+    vi.mocked(db.send).mockRestore();
+    await handler(event);
+
+    expect(incidents()).toHaveLength(1);
+  });
+});
+
+describe("alarm handler routing", () => {
+  beforeEach(() => {
+    seed();
+    db.table("routing").push({
+      team_id: "team-ops",
+      rule_id: "rule-db",
+      name: "Databases",
+      priority: 10,
+      match: { alarm_name: `${DEMO_ALARMS[0].name}*` },
+      severity: "info",
+      escalation_policy: { levels: [{ delay_minutes: 1, target: "all_team" }] },
+      created_at: 1,
+    });
+  });
+
+  it("takes severity and escalation policy from the matching rule", async () => {
+    await deliver(demoBurst[0]);
+
+    expect(incidents()[0]).toMatchObject({
+      severity: "info",
+      routing_rule_id: "rule-db",
+      escalation_policy: { levels: [{ delay_minutes: 1, target: "all_team" }] },
+    });
+  });
+
+  it("keeps the team policy for alarms no rule matches", async () => {
+    await deliver(demoBurst[1]);
+
+    expect(incidents()[0].routing_rule_id).toBeUndefined();
+    expect(incidents()[0].escalation_policy).toBeUndefined();
+  });
+});
+
+describe("alarm handler no-on-call fallback", () => {
+  beforeEach(() => {
+    seed();
+    db.table("schedules").length = 0;
+    db.table("teams")[0].owner_user_id = "user-owner";
+    db.table("memberships").push(
+      { team_id: "team-ops", user_id: "user-owner", role: "owner", created_at: 1 },
+      { team_id: "team-ops", user_id: "user-bob", role: "responder", created_at: 1 },
+      { team_id: "team-ops", user_id: "user-dave", role: "observer", created_at: 1 }
+    );
+  });
+
+  const useFallback = (fallback: string) => {
+    db.table("teams")[0].no_on_call_fallback = fallback;
+  };
+
+  it("parks the alarm in the unrouted inbox without a fallback", async () => {
+    await deliver(demoBurst[0]);
+
+    expect(incidents()).toHaveLength(0);
+    expect(db.table("unrouted")[0]).toMatchObject({ reason: "no_on_call", team_id: "team-ops" });
+  });
+
+  it("assigns the team owner", async () => {
+    useFallback("owner");
+
+    await deliver(demoBurst[0]);
+
+    expect(incidents()[0]).toMatchObject({ assigned_to: "user-owner", on_call_fallback: "owner" });
+    expect(incidents()[0].timeline.at(-1)).toMatchObject({ event: "fallback", note: "No one on call: assigned to team owner" });
+  });
+
+  it("pages every member who takes pages", async () => {
+    useFallback("all_members");
+
+    await deliver(demoBurst[0]);
+
+    expect(incidents()[0].assigned_to).toBeUndefined();
+    expect(incidents()[0]).toMatchObject({ on_call_fallback: "all_members", notify_user_ids: ["user-owner", "user-bob"] });
+  });
+
+  it("creates the incident unassigned and tells the team", async () => {
+    useFallback("unassigned");
+
+    await deliver(demoBurst[0]);
+
+    expect(incidents()[0].assigned_to).toBeUndefined();
+    expect(incidents()[0]).toMatchObject({ on_call_fallback: "unassigned", notify_user_ids: ["user-owner", "user-bob"] });
+  });
+
+  it("goes to the unrouted inbox when the fallback finds nobody", async () => {
+    useFallback("owner");
+    delete db.table("teams")[0].owner_user_id;
+
+    await deliver(demoBurst[0]);
+
+    expect(incidents()).toHaveLength(0);
+    expect(db.table("unrouted")).toHaveLength(1);
+  });
+});
+
+describe("alarm handler alarm context", () => {
+  beforeEach(() => {
+    seed();
+  });
+
+  it("keeps the alarm's metric configuration on the incident", async () => {
+    await deliver({
+      ...demoBurst[0],
+      AlarmDescription: "CPU above 90% on the API fleet",
+      OldStateValue: "OK",
+      Trigger: {
+        MetricName: "CPUUtilization",
+        Namespace: "AWS/EC2",
+        Statistic: "AVERAGE",
+        ExtendedStatistic: null,
+        Unit: null,
+        Dimensions: [{ name: "AutoScalingGroupName", value: "api" }],
+        Period: 60,
+        EvaluationPeriods: 3,
+        ComparisonOperator: "GreaterThanThreshold",
+        Threshold: 90,
+        TreatMissingData: "missing",
+      },
+    });
+
+    expect(incidents()[0].alarm_context).toEqual({
+      region: "eu-west-1",
+      description: "CPU above 90% on the API fleet",
+      old_state: "OK",
+      state_change_time: demoBurst[0].StateChangeTime,
+      metric_name: "CPUUtilization",
+      namespace: "AWS/EC2",
+      dimensions: [{ name: "AutoScalingGroupName", value: "api" }],
+      statistic: "AVERAGE",
+      threshold: 90,
+      comparison_operator: "GreaterThanThreshold",
+      period: 60,
+      evaluation_periods: 3,
+      treat_missing_data: "missing",
+      console_url: `https://eu-west-1.console.aws.amazon.com/cloudwatch/home?region=eu-west-1#alarmsV2:alarm/${DEMO_ALARMS[0].name}`,
+    });
+  });
+
+  it("prefers the percentile and the returned metric math expression", async () => {
+    await deliver({
+      ...demoBurst[3],
+      Trigger: {
+        Statistic: "",
+        ExtendedStatistic: "p99",
+        Metrics: [
+          { Id: "m1", ReturnData: false },
+          { Id: "e1", Expression: "m1 * 1000", ReturnData: true },
+        ],
+      },
+    });
+
+    expect(incidents()[0].alarm_context).toMatchObject({ statistic: "p99", expression: "m1 * 1000" });
+  });
+
+  it("records the rule of a composite alarm and escapes the console link", async () => {
+    await deliver({ ...demoBurst[0], AlarmName: "api down/eu", AlarmRule: 'ALARM("api-5xx") OR ALARM("api-latency")' });
+
+    expect(incidents()[0].alarm_context).toMatchObject({
+      alarm_rule: 'ALARM("api-5xx") OR ALARM("api-latency")',
+      console_url: "https://eu-west-1.console.aws.amazon.com/cloudwatch/home?region=eu-west-1#alarmsV2:alarm/api%20down%2Feu",
+    });
+    expect(incidents()[0].alarm_context.metric_name).toBeUndefined();
+  });
+});
+
+describe("alarm handler annotations", () => {
+  beforeEach(() => {
+    seed();
+  });
+
+  const annotated = (description: string) => ({ ...demoBurst[0], AlarmDescription: description });
+
+  it("takes severity and runbook from key: value lines", async () => {
+    await deliver(annotated("CPU is pinned\nseverity: info\nrunbook: https://wiki.example.com/runbooks/cpu"));
+
+    expect(incidents()[0]).toMatchObject({
+      severity: "info",
+      runbook_url: "https://wiki.example.com/runbooks/cpu",
+      alarm_context: { annotations: { severity: "info", runbook: "https://wiki.example.com/runbooks/cpu" } },
+    });
+  });
+
+  it("reads a JSON block and maps urgency onto a severity", async () => {
+    await deliver(annotated('Owned by payments {"Urgency": "low", "Service": "checkout"}'));
+
+    expect(incidents()[0].severity).toBe("info");
+    expect(incidents()[0].alarm_context.annotations).toEqual({ urgency: "low", service: "checkout" });
+  });
+
+  it("drops runbooks that are not http links", async () => {
+    await deliver(annotated("runbook: see the wiki"));
+
+    expect(incidents()[0].runbook_url).toBeUndefined();
+    expect(incidents()[0].alarm_context.annotations).toBeUndefined();
+  });
+
+  it("routes to the annotated team among the account's owners", async () => {
+    db.table("teams").push({ team_id: "team-db", name: "Databases", aws_account_ids: [ACCOUNT], escalation_policy: { levels: [] }, created_at: 2 });
+    db.table("schedules").push({ team_id: "team-db", slot_id: "slot-1", user_id: "user-dba", start: Date.now() - 60_000, end: Date.now() + 60 * 60_000 });
+
+    await deliver(annotated("team: databases"));
+
+    expect(incidents()[0]).toMatchObject({ team_id: "team-db", assigned_to: "user-dba" });
+  });
+
+  it("ignores a team annotation naming a team that does not own the account", async () => {
+    await deliver(annotated("team: team-elsewhere"));
+
+    expect(incidents()[0].team_id).toBe("team-ops");
+  });
+});
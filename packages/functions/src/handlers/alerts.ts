@@ -0,0 +1,237 @@
+import type { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from "aws-lambda";
+import { docClient, GetCommand, DeleteCommand, QueryCommand, ScanCommand, UpdateCommand } from "../lib/dynamo.js";
+import { jsonResponse, getUserIdFromEvent, AlarmHistory, CloudWatchAlarmMessage, UnroutedAlert } from "../types/index.js";
+import { processAlarm, AlarmOutcome } from "../lib/alarms.js";
+import { getIntegration, processIntegrationAlert, IntegrationAlert } from "../lib/integrations.js";
+import { flapDetection, transitionsInWindow } from "../lib/flapping.js";
+import { routeAlarm } from "../lib/routing.js";
+import { getTeam, listUserMemberships } from "../lib/teams.js";
+import { getAccountStatus } from "../lib/onboarding.js";
+import { authorizeTeam } from "../lib/authz.js";
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from "../lib/incidents.js";
+
+const UNROUTED_ALERTS_TABLE = process.env.UNROUTED_ALERTS_TABLE!;
+const ALARM_HISTORY_TABLE = process.env.ALARM_HISTORY_TABLE!;
+
+// Which parked alerts a user may see: those of their teams and of the AWS accounts their teams verified
+interface AlertScope {
+  teamIds: Set<string>;
+  accountIds: Set<string>;
+}
+
+export async function handler(event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> {
+  const userId = getUserIdFromEvent(event);
+  if (!userId) {
+    return jsonResponse(401, { error: "Unauthorized" });
+  }
+
+  const method = event.requestContext.http.method;
+  const path = event.rawPath;
+
+  try {
+    // GET /alerts/unrouted - Alarms for the caller's teams and accounts that reached no one
+    if (method === "GET" && path === "/alerts/unrouted") {
+      const params = event.queryStringParameters || {};
+
+      const limit = params.limit ? Number(params.limit) : DEFAULT_PAGE_SIZE;
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+        return jsonResponse(400, { error: `limit must be between 1 and ${MAX_PAGE_SIZE}` });
+      }
+
+      let startKey = params.cursor ? decodeAlertCursor(params.cursor) : undefined;
+      if (startKey === null) {
+        return jsonResponse(400, { error: "Invalid cursor" });
+      }
+
+      // The table is keyed by alert, so the scan is filtered here; a page resumes after its last alert
+      const scope = await getAlertScope(userId);
+      const alerts: UnroutedAlert[] = [];
+      do {
+        const result = await docClient.send(
+          new ScanCommand({
+            TableName: UNROUTED_ALERTS_TABLE,
+            Limit: limit,
+            ...(startKey ? { ExclusiveStartKey: startKey } : {}),
+          })
+        );
+        for (const alert of (result.Items as UnroutedAlert[]) || []) {
+          if (alerts.length < limit && inScope(alert, scope)) {
+            alerts.push(alert);
+          }
+        }
+        startKey = result.LastEvaluatedKey as { alert_id: string } | undefined;
+      } while (alerts.length < limit && startKey);
+
+      // A full page may be followed by an empty one
+      const last = alerts[alerts.length - 1];
+      return jsonResponse(200, {
+        // Newest first within the page
+        alerts: [...alerts].sort((a, b) => b.received_at - a.received_at),
+        next_cursor: alerts.length === limit ? encodeAlertCursor({ alert_id: last.alert_id }) : null,
+      });
+    }
+
+    // POST /alerts/unrouted/{id}/replay - Re-run routing for a parked alert
+    if (method === "POST" && path.match(/^\/alerts\/unrouted\/[^/]+\/replay$/)) {
+      const alertId = event.pathParameters?.id;
+      if (!alertId) {
+        return jsonResponse(400, { error: "Missing alert ID" });
+      }
+
+      const existing = await docClient.send(
+        new GetCommand({
+          TableName: UNROUTED_ALERTS_TABLE,
+          Key: { alert_id: alertId },
+        })
+      );
+      const alert = existing.Item as UnroutedAlert | undefined;
+      if (!alert || !inScope(alert, await getAlertScope(userId))) {
+        return jsonResponse(404, { error: "Alert not found" });
+      }
+
+      // Replaying opens an incident on the team it routes to, which takes a responder there
+      const targetTeamId =
+        alert.source === "integration"
+          ? alert.team_id
+          : (await routeAlarm(JSON.parse(alert.raw_message) as CloudWatchAlarmMessage))?.team.team_id;
+      if (targetTeamId) {
+        const denied = await authorizeTeam(userId, targetTeamId, "responder");
+        if (denied) {
+          return jsonResponse(403, { error: denied });
+        }
+      }
+
+      let outcome: AlarmOutcome;
+      if (alert.source === "integration") {
+        const integration = alert.team_id && alert.integration_id ? await getIntegration(alert.team_id, alert.integration_id) : null;
+        if (!integration) {
+          return jsonResponse(409, { error: "Integration no longer exists" });
+        }
+        outcome = await processIntegrationAlert(integration, JSON.parse(alert.raw_message) as Pick<IntegrationAlert, "event" | "severity">);
+      } else {
+        outcome = await processAlarm(JSON.parse(alert.raw_message) as CloudWatchAlarmMessage);
+      }
+
+      // Still nowhere to go: keep it in the inbox with the latest reason
+      if (outcome.status === "unrouted") {
+        // Integration alerts always belong to the integration's team
+        const teamId = outcome.team_id ?? (alert.source === "integration" ? alert.team_id : undefined);
+        const result = await docClient.send(
+          new UpdateCommand({
+            TableName: UNROUTED_ALERTS_TABLE,
+            Key: { alert_id: alertId },
+            UpdateExpression: teamId
+              ? "SET reason = :reason, detail = :detail, last_replayed_at = :now, team_id = :teamId"
+              : "SET reason = :reason, detail = :detail, last_replayed_at = :now REMOVE team_id",
+            ExpressionAttributeValues: {
+              ":reason": outcome.reason,
+              ":detail": outcome.detail,
+              ":now": Date.now(),
+              ...(teamId ? { ":teamId": teamId } : {}),
+            },
+            ReturnValues: "ALL_NEW",
+          })
+        );
+        return jsonResponse(200, { routed: false, alert: result.Attributes });
+      }
+
+      await docClient.send(
+        new DeleteCommand({
+          TableName: UNROUTED_ALERTS_TABLE,
+          Key: { alert_id: alertId },
+        })
+      );
+
+      const incident = "incident" in outcome ? outcome.incident : null;
+      return jsonResponse(200, { routed: true, status: outcome.status, incident });
+    }
+
+    // GET /teams/{id}/flapping-alarms - Team alarms currently over the flapping threshold
+    if (method === "GET" && path.match(/^\/teams\/[^/]+\/flapping-alarms$/)) {
+      const teamId = event.pathParameters?.id;
+      if (!teamId) {
+        return jsonResponse(400, { error: "Missing team ID" });
+      }
+
+      const denied = await authorizeTeam(userId, teamId);
+      if (denied) {
+        return jsonResponse(403, { error: denied });
+      }
+
+      const team = await getTeam(teamId);
+      if (!team) {
+        return jsonResponse(404, { error: "Team not found" });
+      }
+
+      const result = await docClient.send(
+        new QueryCommand({
+          TableName: ALARM_HISTORY_TABLE,
+          IndexName: "team-index",
+          KeyConditionExpression: "team_id = :tid",
+          ExpressionAttributeValues: { ":tid": teamId },
+        })
+      );
+
+      // Evaluated now rather than at the last transition, so quiet alarms drop off
+      const config = flapDetection(team);
+      const now = Date.now();
+      const alarms = ((result.Items as AlarmHistory[]) || [])
+        .map((history) => ({
+          alarm_arn: history.alarm_arn,
+          alarm_name: history.alarm_name,
+          ...(history.aws_account_id ? { aws_account_id: history.aws_account_id } : {}),
+          transitions: transitionsInWindow(history, config, now),
+          last_state: history.transitions[history.transitions.length - 1]?.state,
+          last_transition_at: history.last_transition_at,
+          ...(history.flapping_since ? { flapping_since: history.flapping_since } : {}),
+          ...(history.flapping_incident_id ? { incident_id: history.flapping_incident_id } : {}),
+        }))
+        .filter((alarm) => alarm.transitions >= config.transitions)
+        .sort((a, b) => b.transitions - a.transitions);
+
+      return jsonResponse(200, { alarms, flap_detection: config });
+    }
+
+    return jsonResponse(404, { error: "Not found" });
+  } catch (error) {
+    console.error("Error:", error);
+    return jsonResponse(500, { error: "Internal server error" });
+  }
+}
+
+async function getAlertScope(userId: string): Promise<AlertScope> {
+  const teamIds = (await listUserMemberships(userId)).map((membership) => membership.team_id);
+  const teams = await Promise.all(teamIds.map(getTeam));
+
+  // Any team can list any account, so raw payloads take the team's verification of it
+  const listed = teams.flatMap((team) => (team?.aws_account_ids ?? []).map((accountId) => ({ teamId: team!.team_id, accountId })));
+  const verified = await Promise.all(
+    listed.map(async ({ teamId, accountId }) => ((await getAccountStatus(accountId))?.verified_team_id === teamId ? accountId : null))
+  );
+
+  return {
+    teamIds: new Set(teamIds),
+    accountIds: new Set(verified.filter((accountId): accountId is string => accountId !== null)),
+  };
+}
+
+// Alerts for accounts no team owns yet show up once a team verifies the account
+function inScope(alert: UnroutedAlert, scope: AlertScope): boolean {
+  if (alert.team_id) {
+    return scope.teamIds.has(alert.team_id);
+  }
+  return alert.aws_account_id !== undefined && scope.accountIds.has(alert.aws_account_id);
+}
+
+function encodeAlertCursor(key: { alert_id: string }): string {
+  return Buffer.from(JSON.stringify(key)).toString("base64url");
+}
+
+function decodeAlertCursor(value: string): { alert_id: string } | null {
+  try {
+    const key = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    return typeof key?.alert_id === "string" ? { alert_id: key.alert_id } : null;
+  } catch {
+    return null;
+  }
+}
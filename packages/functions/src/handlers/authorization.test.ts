@@ -0,0 +1,698 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { APIGatewayProxyEventV2, APIGatewayProxyStructuredResultV2 } from "aws-lambda";
+import type { createDynamoFake } from "../test/dynamo-fake.js";
+
+// Table names are read at import time
+vi.hoisted(() => {
+  process.env.INCIDENTS_TABLE = "incidents";
+  process.env.TEAMS_TABLE = "teams";
+  process.env.SCHEDULES_TABLE = "schedules";
+  process.env.USERS_TABLE = "users";
+  process.env.MEMBERSHIPS_TABLE = "memberships";
+  process.env.INVITES_TABLE = "invites";
+  process.env.INTEGRATIONS_TABLE = "integrations";
+  process.env.UNROUTED_ALERTS_TABLE = "unrouted";
+  process.env.ALARM_HISTORY_TABLE = "history";
+  process.env.ROUTING_RULES_TABLE = "routing";
+  process.env.SILENCES_TABLE = "silences";
+  process.env.AWS_ACCOUNTS_TABLE = "accounts";
+});
+
+vi.mock("../lib/dynamo.js", async () => {
+  const { createDynamoFake, fakeCommands } = await import("../test/dynamo-fake.js");
+  const docClient = createDynamoFake({
+    incidents: ["incident_id"],
+    teams: ["team_id"],
+    schedules: ["team_id", "slot_id"],
+    users: ["user_id"],
+    memberships: ["team_id", "user_id"],
+    invites: ["code"],
+    integrations: ["team_id", "integration_id"],
+    unrouted: ["alert_id"],
+    history: ["alarm_arn"],
+    routing: ["team_id", "rule_id"],
+    silences: ["team_id", "silence_id"],
+    accounts: ["aws_account_id"],
+  });
+  return { docClient, ...fakeCommands };
+});
+
+vi.mock("../lib/escalation.js", () => ({
+  scheduleEscalation: vi.fn().mockResolvedValue(null),
+  cancelEscalation: vi.fn().mockResolvedValue(undefined),
+}));
+
+import { handler as incidentsHandler } from "./incidents.js";
+import { handler as teamsHandler } from "./teams.js";
+import { handler as schedulesHandler } from "./schedules.js";
+import { handler as usersHandler } from "./users.js";
+import { handler as invitesHandler } from "./invites.js";
+import { handler as integrationsHandler } from "./integrations.js";
+import { handler as alertsHandler } from "./alerts.js";
+import { handler as routingHandler } from "./routing.js";
+import { handler as onboardingHandler } from "./onboarding.js";
+import { handler as silencesHandler } from "./silences.js";
+import { docClient } from "../lib/dynamo.js";
+
+const db = docClient as unknown as ReturnType<typeof createDynamoFake>;
+
+type Handler = (event: APIGatewayProxyEventV2) => Promise<unknown>;
+
+// Alice owns team-a with Bob responding, Erin administering and Dave
+// observing; Carol owns team-b
+const ALICE = "user-alice";
+const BOB = "user-bob";
+const CAROL = "user-carol";
+const DAVE = "user-dave";
+const ERIN = "user-erin";
+
+function request(
+  userId: string,
+  method: string,
+  rawPath: string,
+  options: { pathParameters?: Record<string, string>; query?: Record<string, string>; body?: unknown; email?: string } = {}
+): APIGatewayProxyEventV2 {
+  return {
+    version: "2.0",
+    routeKey: "$default",
+    rawPath,
+    rawQueryString: "",
+    headers: {},
+    pathParameters: options.pathParameters,
+    queryStringParameters: options.query,
+    body: options.body === undefined ? undefined : JSON.stringify(options.body),
+    requestContext: {
+      http: { method, path: rawPath },
+      authorizer: { jwt: { claims: { sub: userId, ...(options.email ? { email: options.email } : {}) } } },
+    },
+    isBase64Encoded: false,
+  } as unknown as APIGatewayProxyEventV2;
+}
+
+async function call(handler: Handler, event: APIGatewayProxyEventV2) {
+  const response = (await handler(event)) as APIGatewayProxyStructuredResultV2;
+  return { status: response.statusCode, body: JSON.parse(response.body || "{}") };
+}
+
+const row = (table: string, key: string, value: string) =>
+  (db.table(table) as Record<string, unknown>[]).find((item) => item[key] === value)!;
+
+const membership = (teamId: string, userId: string) =>
+  (db.table("memberships") as Record<string, unknown>[]).find((item) => item.team_id === teamId && item.user_id === userId);
+
+describe("cross-team authorization", () => {
+  beforeEach(() => {
+    db.reset();
+    db.table("teams").push(
+      { team_id: "team-a", name: "A", aws_account_ids: [], escalation_policy: { levels: [] }, owner_user_id: ALICE, created_at: 1 },
+      { team_id: "team-b", name: "B", aws_account_ids: [], escalation_policy: { levels: [] }, owner_user_id: CAROL, created_at: 2 }
+    );
+    db.table("memberships").push(
+      { team_id: "team-a", user_id: ALICE, role: "owner", created_at: 1 },
+      { team_id: "team-a", user_id: BOB, role: "responder", created_at: 1 },
+      { team_id: "team-a", user_id: DAVE, role: "observer", created_at: 1 },
+      { team_id: "team-a", user_id: ERIN, role: "admin", created_at: 1 },
+      { team_id: "team-b", user_id: CAROL, role: "owner", created_at: 1 }
+    );
+    db.table("incidents").push(
+      { incident_id: "inc-a", team_id: "team-a", alarm_name: "a-alarm", state: "triggered", severity: "critical", triggered_at: 10, timeline: [] },
+      { incident_id: "inc-b", team_id: "team-b", alarm_name: "b-alarm", state: "triggered", severity: "critical", triggered_at: 20, timeline: [] }
+    );
+    db.table("schedules").push({ team_id: "team-b", slot_id: "slot-b", user_id: CAROL, start: 1, end: 2 });
+  });
+
+  describe("reads", () => {
+    it.each<[string, Handler, string, Record<string, string>]>([
+      ["an incident", incidentsHandler, "/incidents/inc-b", { id: "inc-b" }],
+      ["a team", teamsHandler, "/teams/team-b", { id: "team-b" }],
+      ["a schedule", schedulesHandler, "/schedules/team-b", { team_id: "team-b" }],
+      ["routing rules", routingHandler, "/teams/team-b/routing-rules", { id: "team-b" }],
+      ["onboarding status", onboardingHandler, "/teams/team-b/onboarding", { id: "team-b" }],
+      ["account setup", onboardingHandler, "/teams/team-b/onboarding/222222222222", { id: "team-b", account_id: "222222222222" }],
+      ["silences", silencesHandler, "/teams/team-b/silences", { id: "team-b" }],
+    ])("denies reading another team's %s", async (_, handler, rawPath, pathParameters) => {
+      row("teams", "team_id", "team-b").aws_account_ids = ["222222222222"];
+
+      const { status } = await call(handler, request(ALICE, "GET", rawPath, { pathParameters }));
+
+      expect(status).toBe(403);
+    });
+
+    it("only explains routes to members of the routed team", async () => {
+      row("teams", "team_id", "team-a").aws_account_ids = ["111111111111"];
+      row("teams", "team_id", "team-b").aws_account_ids = ["111111111111", "222222222222"];
+      db.table("routing").push(
+        { team_id: "team-b", rule_id: "rule-b", name: "b-other", priority: 1, match: { alarm_name: "other" }, created_at: 1 },
+        { team_id: "team-a", rule_id: "rule-a", name: "a-disk", priority: 2, match: { alarm_name: "disk" }, created_at: 1 }
+      );
+      db.table("accounts").push({ aws_account_id: "111111111111", verified_at: 1, verified_team_id: "team-a" });
+      const test = (account: string) =>
+        call(routingHandler, request(ALICE, "POST", "/routing/test", { body: { AWSAccountId: account, AlarmName: "disk" } }));
+
+      const denied = await test("222222222222");
+      const shared = await test("111111111111");
+
+      expect(denied.status).toBe(403);
+      expect(shared.status).toBe(200);
+      expect(shared.body.team_id).toBe("team-a");
+      expect(shared.body.evaluated.map((evaluation: { rule_id: string }) => evaluation.rule_id)).toEqual(["rule-a"]);
+    });
+
+    it("keeps each team's challenge for a shared account", async () => {
+      row("teams", "team_id", "team-a").aws_account_ids = ["111111111111"];
+      row("teams", "team_id", "team-b").aws_account_ids = ["111111111111"];
+      const verify = (userId: string, teamId: string) =>
+        call(
+          onboardingHandler,
+          request(userId, "POST", `/teams/${teamId}/onboarding/111111111111/verify`, { pathParameters: { id: teamId, account_id: "111111111111" } })
+        );
+
+      const mine = await verify(ALICE, "team-a");
+      const theirs = await verify(CAROL, "team-b");
+
+      expect(mine.status).toBe(201);
+      expect(theirs.status).toBe(201);
+      const challenges = row("accounts", "aws_account_id", "111111111111").challenges as Record<string, { nonce: string }>;
+      expect(challenges["team-a"].nonce).toBe(mine.body.nonce);
+      expect(challenges["team-b"].nonce).toBe(theirs.body.nonce);
+    });
+  });
+
+  describe("incidents", () => {
+    it.each(["ack", "unack", "resolve"])("denies %s on another team's incident", async (action) => {
+      const { status } = await call(
+        incidentsHandler,
+        request(ALICE, "POST", `/incidents/inc-b/${action}`, { pathParameters: { id: "inc-b" } })
+      );
+
+      expect(status).toBe(403);
+      expect(row("incidents", "incident_id", "inc-b")).toMatchObject({ state: "triggered", timeline: [] });
+    });
+
+    it("denies reassigning another team's incident", async () => {
+      const { status } = await call(
+        incidentsHandler,
+        request(ALICE, "POST", "/incidents/inc-b/reassign", { pathParameters: { id: "inc-b" }, body: { user_id: ALICE } })
+      );
+
+      expect(status).toBe(403);
+      expect(row("incidents", "incident_id", "inc-b").assigned_to).toBeUndefined();
+    });
+
+    it("lets team members ack their own incidents", async () => {
+      const { status } = await call(incidentsHandler, request(BOB, "POST", "/incidents/inc-a/ack", { pathParameters: { id: "inc-a" } }));
+
+      expect(status).toBe(200);
+      expect(row("incidents", "incident_id", "inc-a").state).toBe("acked");
+    });
+
+    it("rejects reassigning to someone outside the team", async () => {
+      const { status } = await call(
+        incidentsHandler,
+        request(ALICE, "POST", "/incidents/inc-a/reassign", { pathParameters: { id: "inc-a" }, body: { user_id: CAROL } })
+      );
+
+      expect(status).toBe(400);
+    });
+
+    it("only lists the caller's team incidents", async () => {
+      const own = await call(incidentsHandler, request(ALICE, "GET", "/incidents"));
+      expect(own.body.incidents.map((incident: { incident_id: string }) => incident.incident_id)).toEqual(["inc-a"]);
+
+      const other = await call(incidentsHandler, request(ALICE, "GET", "/incidents", { query: { team_id: "team-b" } }));
+      expect(other.status).toBe(403);
+    });
+  });
+
+  describe("teams", () => {
+    it("denies updating another team", async () => {
+      const { status } = await call(
+        teamsHandler,
+        request(ALICE, "PUT", "/teams/team-b", { pathParameters: { id: "team-b" }, body: { name: "Mine now" } })
+      );
+
+      expect(status).toBe(403);
+      expect(row("teams", "team_id", "team-b").name).toBe("B");
+    });
+
+    it("denies adding members to another team", async () => {
+      const { status } = await call(
+        teamsHandler,
+        request(ALICE, "POST", "/teams/team-b/members", { pathParameters: { id: "team-b" }, body: { user_id: ALICE } })
+      );
+
+      expect(status).toBe(403);
+      expect(membership("team-b", ALICE)).toBeUndefined();
+    });
+
+    it("denies removing members of another team", async () => {
+      const { status } = await call(
+        teamsHandler,
+        request(ALICE, "DELETE", `/teams/team-b/members/${CAROL}`, { pathParameters: { id: "team-b", uid: CAROL } })
+      );
+
+      expect(status).toBe(403);
+      expect(membership("team-b", CAROL)).toBeDefined();
+    });
+
+    it("keeps team settings and membership to admins", async () => {
+      const update = await call(
+        teamsHandler,
+        request(BOB, "PUT", "/teams/team-a", { pathParameters: { id: "team-a" }, body: { owner_user_id: BOB } })
+      );
+      const add = await call(
+        teamsHandler,
+        request(BOB, "POST", "/teams/team-a/members", { pathParameters: { id: "team-a" }, body: { user_id: CAROL } })
+      );
+      const remove = await call(
+        teamsHandler,
+        request(BOB, "DELETE", `/teams/team-a/members/${ALICE}`, { pathParameters: { id: "team-a", uid: ALICE } })
+      );
+
+      expect([update.status, add.status, remove.status]).toEqual([403, 403, 403]);
+      expect(row("teams", "team_id", "team-a").owner_user_id).toBe(ALICE);
+
+      const owner = await call(
+        teamsHandler,
+        request(ALICE, "PUT", "/teams/team-a", { pathParameters: { id: "team-a" }, body: { name: "Team A" } })
+      );
+      expect(owner.status).toBe(200);
+    });
+
+    it("lets members leave a team", async () => {
+      const { status } = await call(
+        teamsHandler,
+        request(BOB, "DELETE", `/teams/team-a/members/${BOB}`, { pathParameters: { id: "team-a", uid: BOB } })
+      );
+
+      expect(status).toBe(200);
+      expect(membership("team-a", BOB)).toBeUndefined();
+    });
+  });
+
+  describe("schedules", () => {
+    it("denies creating slots for another team", async () => {
+      const { status } = await call(
+        schedulesHandler,
+        request(ALICE, "POST", "/schedules/team-b", { pathParameters: { team_id: "team-b" }, body: { user_id: ALICE, start: 1, end: 2 } })
+      );
+
+      expect(status).toBe(403);
+      expect(db.table("schedules")).toHaveLength(1);
+    });
+
+    it("denies deleting another team's slots", async () => {
+      const { status } = await call(
+        schedulesHandler,
+        request(ALICE, "DELETE", "/schedules/team-b/slot-b", { pathParameters: { team_id: "team-b", slot_id: "slot-b" } })
+      );
+
+      expect(status).toBe(403);
+      expect(db.table("schedules")).toHaveLength(1);
+    });
+
+    it("only schedules team members", async () => {
+      const outsider = await call(
+        schedulesHandler,
+        request(ALICE, "POST", "/schedules/team-a", { pathParameters: { team_id: "team-a" }, body: { user_id: CAROL, start: 1, end: 2 } })
+      );
+      const member = await call(
+        schedulesHandler,
+        request(ALICE, "POST", "/schedules/team-a", { pathParameters: { team_id: "team-a" }, body: { user_id: BOB, start: 1, end: 2 } })
+      );
+
+      expect(outsider.status).toBe(400);
+      expect(member.status).toBe(201);
+    });
+  });
+
+  describe("integrations", () => {
+    beforeEach(() => {
+      db.table("integrations").push(
+        { team_id: "team-a", integration_id: "int-a", name: "Grafana", type: "generic", integration_key: "key-a", created_at: 1 },
+        { team_id: "team-b", integration_id: "int-b", name: "Grafana", type: "generic", integration_key: "key-b", created_at: 1 }
+      );
+    });
+
+    it("denies listing another team's integrations", async () => {
+      const { status, body } = await call(
+        integrationsHandler,
+        request(ALICE, "GET", "/teams/team-b/integrations", { pathParameters: { id: "team-b" } })
+      );
+
+      expect(status).toBe(403);
+      expect(JSON.stringify(body)).not.toContain("key-b");
+    });
+
+    it("lists integrations to admins without their keys", async () => {
+      const responder = await call(integrationsHandler, request(BOB, "GET", "/teams/team-a/integrations", { pathParameters: { id: "team-a" } }));
+      const admin = await call(integrationsHandler, request(ERIN, "GET", "/teams/team-a/integrations", { pathParameters: { id: "team-a" } }));
+
+      expect(responder.status).toBe(403);
+      expect(admin.body.integrations).toEqual([expect.objectContaining({ integration_id: "int-a" })]);
+      expect(admin.body.integrations[0].integration_key).toBeUndefined();
+    });
+  });
+
+  describe("unrouted alerts", () => {
+    const alarm = (account: string) => JSON.stringify({ AlarmName: "disk", AWSAccountId: account, NewStateValue: "ALARM" });
+
+    beforeEach(() => {
+      row("teams", "team_id", "team-a").aws_account_ids = ["111111111111"];
+      row("teams", "team_id", "team-b").aws_account_ids = ["222222222222"];
+      db.table("accounts").push(
+        { aws_account_id: "111111111111", verified_at: 1, verified_team_id: "team-a" },
+        { aws_account_id: "222222222222", verified_at: 1, verified_team_id: "team-b" }
+      );
+      db.table("unrouted").push(
+        { alert_id: "u-team-a", reason: "no_on_call", detail: "", team_id: "team-a", aws_account_id: "111111111111", alarm_name: "disk", raw_message: alarm("111111111111"), received_at: 1 },
+        { alert_id: "u-team-b", reason: "no_on_call", detail: "", team_id: "team-b", aws_account_id: "222222222222", alarm_name: "disk", raw_message: alarm("222222222222"), received_at: 2 },
+        { alert_id: "u-account-a", reason: "no_team", detail: "", aws_account_id: "111111111111", alarm_name: "disk", raw_message: alarm("111111111111"), received_at: 3 },
+        { alert_id: "u-unowned", reason: "no_team", detail: "", aws_account_id: "333333333333", alarm_name: "disk", raw_message: alarm("333333333333"), received_at: 4 }
+      );
+    });
+
+    it("only lists alerts of the caller's teams and accounts, page by page", async () => {
+      const first = await call(alertsHandler, request(ALICE, "GET", "/alerts/unrouted", { query: { limit: "1" } }));
+      const second = await call(alertsHandler, request(ALICE, "GET", "/alerts/unrouted", { query: { limit: "1", cursor: first.body.next_cursor } }));
+      const third = await call(alertsHandler, request(ALICE, "GET", "/alerts/unrouted", { query: { limit: "1", cursor: second.body.next_cursor } }));
+
+      expect([...first.body.alerts, ...second.body.alerts].map((alert: { alert_id: string }) => alert.alert_id)).toEqual(["u-team-a", "u-account-a"]);
+      expect(third.body).toEqual({ alerts: [], next_cursor: null });
+    });
+
+    it("hides alerts of accounts the caller's teams list without having verified them", async () => {
+      row("teams", "team_id", "team-a").aws_account_ids = ["111111111111", "222222222222", "333333333333"];
+
+      const list = await call(alertsHandler, request(ALICE, "GET", "/alerts/unrouted"));
+      const replay = await call(
+        alertsHandler,
+        request(ALICE, "POST", "/alerts/unrouted/u-unowned/replay", { pathParameters: { id: "u-unowned" } })
+      );
+
+      expect(list.body.alerts.map((alert: { alert_id: string }) => alert.alert_id)).toEqual(["u-account-a", "u-team-a"]);
+      expect(replay.status).toBe(404);
+      expect(db.table("incidents")).toHaveLength(2);
+    });
+
+    it("denies replaying another team's alert", async () => {
+      const { status } = await call(
+        alertsHandler,
+        request(ALICE, "POST", "/alerts/unrouted/u-team-b/replay", { pathParameters: { id: "u-team-b" } })
+      );
+
+      expect(status).toBe(404);
+      expect(row("unrouted", "alert_id", "u-team-b").last_replayed_at).toBeUndefined();
+    });
+
+    it("keeps replays to responders of the team the alert routes to", async () => {
+      const { status } = await call(
+        alertsHandler,
+        request(DAVE, "POST", "/alerts/unrouted/u-team-a/replay", { pathParameters: { id: "u-team-a" } })
+      );
+
+      expect(status).toBe(403);
+      expect(db.table("incidents")).toHaveLength(2);
+    });
+
+    it("denies reading another team's flapping alarms", async () => {
+      const { status } = await call(
+        alertsHandler,
+        request(ALICE, "GET", "/teams/team-b/flapping-alarms", { pathParameters: { id: "team-b" } })
+      );
+
+      expect(status).toBe(403);
+    });
+  });
+
+  describe("user directory", () => {
+    beforeEach(() => {
+      db.table("users").push(
+        { user_id: ALICE, email: "alice@example.com", name: "Alice", created_at: 1 },
+        { user_id: BOB, email: "bob@example.com", name: "Bob", created_at: 1 },
+        { user_id: CAROL, email: "carol@example.com", name: "Carol", created_at: 1 }
+      );
+    });
+
+    it("lists members with names and emails", async () => {
+      const { status, body } = await call(
+        teamsHandler,
+        request(BOB, "GET", "/teams/team-a/members", { pathParameters: { id: "team-a" } })
+      );
+
+      expect(status).toBe(200);
+      expect(body.members).toContainEqual(expect.objectContaining({ user_id: ALICE, role: "owner", name: "Alice", email: "alice@example.com" }));
+      // Members who never synced a profile are still listed
+      expect(body.members).toContainEqual(expect.objectContaining({ user_id: DAVE, role: "observer" }));
+    });
+
+    it("looks members up 100 at a time and asks again for unprocessed ones", async () => {
+      for (let i = 0; i < 150; i++) {
+        db.table("memberships").push({ team_id: "team-a", user_id: `user-${i}`, role: "responder", created_at: 2 });
+        db.table("users").push({ user_id: `user-${i}`, email: `user-${i}@example.com`, name: `User ${i}`, created_at: 2 });
+      }
+      const send = db.send;
+      const batchSizes: number[] = [];
+      vi.spyOn(db, "send").mockImplementation(async (command) => {
+        if (command.type !== "BatchGet") return send(command);
+        const keys = command.params.RequestItems!.users.Keys!;
+        batchSizes.push(keys.length);
+        if (batchSizes.length > 1) return send(command);
+        // The first batch comes back with one key unprocessed
+        const [unprocessed, ...rest] = keys;
+        const result = await send({ ...command, params: { RequestItems: { users: { Keys: rest } } } });
+        return { ...result, UnprocessedKeys: { users: { Keys: [unprocessed] } } };
+      });
+
+      const { body } = await call(teamsHandler, request(BOB, "GET", "/teams/team-a/members", { pathParameters: { id: "team-a" } }));
+      vi.mocked(db.send).mockRestore();
+
+      expect(batchSizes).toEqual([100, 1, 54]);
+      expect(body.members.filter((member: { name?: string }) => member.name)).toHaveLength(152);
+    });
+
+    it("denies listing another team's members", async () => {
+      const { status } = await call(
+        teamsHandler,
+        request(ALICE, "GET", "/teams/team-b/members", { pathParameters: { id: "team-b" } })
+      );
+
+      expect(status).toBe(403);
+    });
+
+    it("only looks up users who share a team with the caller", async () => {
+      const { status, body } = await call(
+        usersHandler,
+        request(ALICE, "GET", "/users", { query: { ids: `${BOB},${CAROL},user-unknown` } })
+      );
+
+      expect(status).toBe(200);
+      expect(body.users).toEqual([{ user_id: BOB, name: "Bob", email: "bob@example.com" }]);
+    });
+  });
+});
+
+describe("team roles", () => {
+  beforeEach(() => {
+    db.reset();
+    db.table("teams").push({
+      team_id: "team-a",
+      name: "A",
+      aws_account_ids: [],
+      escalation_policy: { levels: [] },
+      owner_user_id: ALICE,
+      created_at: 1,
+    });
+    db.table("memberships").push(
+      { team_id: "team-a", user_id: ALICE, role: "owner", created_at: 1 },
+      { team_id: "team-a", user_id: BOB, role: "responder", created_at: 1 },
+      { team_id: "team-a", user_id: DAVE, role: "observer", created_at: 1 },
+      { team_id: "team-a", user_id: ERIN, role: "admin", created_at: 1 }
+    );
+    db.table("incidents").push({
+      incident_id: "inc-a",
+      team_id: "team-a",
+      alarm_name: "a-alarm",
+      state: "triggered",
+      severity: "critical",
+      triggered_at: 10,
+      timeline: [],
+    });
+  });
+
+  it("lets observers read but not ack", async () => {
+    const list = await call(incidentsHandler, request(DAVE, "GET", "/incidents"));
+    const ack = await call(incidentsHandler, request(DAVE, "POST", "/incidents/inc-a/ack", { pathParameters: { id: "inc-a" } }));
+
+    expect(list.body.incidents).toHaveLength(1);
+    expect(ack.status).toBe(403);
+    expect(row("incidents", "incident_id", "inc-a").state).toBe("triggered");
+  });
+
+  it("keeps team setup away from responders", async () => {
+    const update = await call(teamsHandler, request(BOB, "PUT", "/teams/team-a", { pathParameters: { id: "team-a" }, body: { name: "B" } }));
+    const slot = await call(
+      schedulesHandler,
+      request(BOB, "POST", "/schedules/team-a", { pathParameters: { team_id: "team-a" }, body: { user_id: BOB, start: 1, end: 2 } })
+    );
+
+    expect([update.status, slot.status]).toEqual([403, 403]);
+  });
+
+  it.each([
+    ["a missing level list", {}],
+    ["a negative delay", { levels: [{ delay_minutes: -1, target: "on_call" }] }],
+    ["an unknown target", { levels: [{ delay_minutes: 5, target: "everyone" }] }],
+  ])("rejects an escalation policy with %s", async (_, policy) => {
+    const { status } = await call(
+      teamsHandler,
+      request(ALICE, "PUT", "/teams/team-a", { pathParameters: { id: "team-a" }, body: { escalation_policy: policy } })
+    );
+
+    expect(status).toBe(400);
+    expect(row("teams", "team_id", "team-a").escalation_policy).toEqual({ levels: [] });
+  });
+
+  it("does not schedule observers", async () => {
+    const { status } = await call(
+      schedulesHandler,
+      request(ERIN, "POST", "/schedules/team-a", { pathParameters: { team_id: "team-a" }, body: { user_id: DAVE, start: 1, end: 2 } })
+    );
+
+    expect(status).toBe(400);
+  });
+
+  it("lets admins manage members but not owners", async () => {
+    const promote = await call(
+      teamsHandler,
+      request(ERIN, "PUT", `/teams/team-a/members/${DAVE}`, { pathParameters: { id: "team-a", uid: DAVE }, body: { role: "responder" } })
+    );
+    const makeOwner = await call(
+      teamsHandler,
+      request(ERIN, "PUT", `/teams/team-a/members/${ERIN}`, { pathParameters: { id: "team-a", uid: ERIN }, body: { role: "owner" } })
+    );
+    const removeOwner = await call(
+      teamsHandler,
+      request(ERIN, "DELETE", `/teams/team-a/members/${ALICE}`, { pathParameters: { id: "team-a", uid: ALICE } })
+    );
+
+    expect(promote.status).toBe(200);
+    expect(membership("team-a", DAVE)!.role).toBe("responder");
+    expect([makeOwner.status, removeOwner.status]).toEqual([403, 403]);
+    expect(membership("team-a", ERIN)!.role).toBe("admin");
+  });
+
+  it("keeps at least one owner", async () => {
+    const leave = await call(
+      teamsHandler,
+      request(ALICE, "DELETE", `/teams/team-a/members/${ALICE}`, { pathParameters: { id: "team-a", uid: ALICE } })
+    );
+    expect(leave.status).toBe(400);
+
+    await call(
+      teamsHandler,
+      request(ALICE, "PUT", `/teams/team-a/members/${ERIN}`, { pathParameters: { id: "team-a", uid: ERIN }, body: { role: "owner" } })
+    );
+    const stepDown = await call(
+      teamsHandler,
+      request(ALICE, "PUT", `/teams/team-a/members/${ALICE}`, { pathParameters: { id: "team-a", uid: ALICE }, body: { role: "admin" } })
+    );
+
+    expect(stepDown.status).toBe(200);
+    expect(row("teams", "team_id", "team-a").owner_user_id).toBe(ERIN);
+  });
+
+  it("lets observers switch their own FYI pushes", async () => {
+    const own = await call(
+      teamsHandler,
+      request(DAVE, "PUT", `/teams/team-a/members/${DAVE}`, { pathParameters: { id: "team-a", uid: DAVE }, body: { fyi: true } })
+    );
+    const other = await call(
+      teamsHandler,
+      request(DAVE, "PUT", `/teams/team-a/members/${BOB}`, { pathParameters: { id: "team-a", uid: BOB }, body: { fyi: true } })
+    );
+
+    expect(own.status).toBe(200);
+    expect(membership("team-a", DAVE)!.fyi).toBe(true);
+    expect(other.status).toBe(403);
+  });
+});
+
+describe("team invites", () => {
+  const FRANK = "user-frank";
+
+  beforeEach(() => {
+    db.reset();
+    db.table("teams").push({ team_id: "team-a", name: "A", aws_account_ids: [], escalation_policy: { levels: [] }, created_at: 1 });
+    db.table("memberships").push(
+      { team_id: "team-a", user_id: ALICE, role: "owner", created_at: 1 },
+      { team_id: "team-a", user_id: BOB, role: "responder", created_at: 1 },
+      { team_id: "team-a", user_id: ERIN, role: "admin", created_at: 1 }
+    );
+  });
+
+  async function invite(userId: string, body: unknown) {
+    return call(invitesHandler, request(userId, "POST", "/teams/team-a/invites", { pathParameters: { id: "team-a" }, body }));
+  }
+
+  async function accept(userId: string, code: string, email: string) {
+    return call(invitesHandler, request(userId, "POST", `/invites/${code}/accept`, { pathParameters: { code }, email }));
+  }
+
+  it("adds the invitee with the invited role, once", async () => {
+    const created = await invite(ERIN, { email: "Frank@Example.com", role: "observer" });
+    expect(created.status).toBe(201);
+    const { code } = created.body.invite;
+    expect(code).toMatch(/^[A-Z2-9]{8}$/);
+
+    const joined = await accept(FRANK, code.toLowerCase(), "frank@example.com");
+    expect(joined.status).toBe(200);
+    expect(joined.body.team).toMatchObject({ team_id: "team-a", role: "observer" });
+    expect(membership("team-a", FRANK)).toMatchObject({ role: "observer" });
+
+    const again = await accept(FRANK, code, "frank@example.com");
+    expect(again.status).toBe(410);
+  });
+
+  it("rejects codes used from a different email address", async () => {
+    const { body } = await invite(ERIN, { email: "frank@example.com" });
+
+    const { status } = await accept(FRANK, body.invite.code, "mallory@example.com");
+
+    expect(status).toBe(403);
+    expect(membership("team-a", FRANK)).toBeUndefined();
+  });
+
+  it("rejects expired invites", async () => {
+    db.table("invites").push({
+      code: "EXPIRED2",
+      team_id: "team-a",
+      email: "frank@example.com",
+      role: "responder",
+      invited_by: ERIN,
+      created_at: 1,
+      expires_at: 2,
+      ttl: 3,
+    });
+
+    const { status } = await accept(FRANK, "EXPIRED2", "frank@example.com");
+
+    expect(status).toBe(410);
+  });
+
+  it("lets admins list and revoke invites, and only owners invite owners", async () => {
+    expect((await invite(BOB, { email: "frank@example.com" })).status).toBe(403);
+    expect((await invite(ERIN, { email: "frank@example.com", role: "owner" })).status).toBe(403);
+    const { body } = await invite(ALICE, { email: "frank@example.com", role: "owner" });
+
+    const listed = await call(invitesHandler, request(ERIN, "GET", "/teams/team-a/invites", { pathParameters: { id: "team-a" } }));
+    expect(listed.body.invites).toHaveLength(1);
+
+    const revoked = await call(
+      invitesHandler,
+      request(ERIN, "DELETE", `/teams/team-a/invites/${body.invite.code}`, { pathParameters: { id: "team-a", code: body.invite.code } })
+    );
+    expect(revoked.status).toBe(200);
+    expect((await accept(FRANK, body.invite.code, "frank@example.com")).status).toBe(404);
+  });
+});
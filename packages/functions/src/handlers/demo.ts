@@ -1,20 +1,22 @@
 import type { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from "aws-lambda";
 import { SNSClient, PublishCommand } from "@aws-sdk/client-sns";
 import { docClient, PutCommand, GetCommand, DeleteCommand, ScanCommand, QueryCommand } from "../lib/dynamo.js";
-import { jsonResponse, getUserIdFromEvent, Team, Schedule } from "../types/index.js";
+import { jsonResponse, getUserIdFromEvent, CloudWatchAlarmMessage, Team, Schedule, Membership } from "../types/index.js";
+import { getMembership } from "../lib/teams.js";
 import { randomUUID } from "crypto";
 
 const ALARMS_TOPIC_ARN = process.env.ALARMS_TOPIC_ARN!;
 const TEAMS_TABLE = process.env.TEAMS_TABLE!;
 const SCHEDULES_TABLE = process.env.SCHEDULES_TABLE!;
 const INCIDENTS_TABLE = process.env.INCIDENTS_TABLE!;
+const MEMBERSHIPS_TABLE = process.env.MEMBERSHIPS_TABLE!;
 const snsClient = new SNSClient({});
 
 const DEFAULT_TEAM_ID = "fault-tec-admins";
 const DEFAULT_AWS_ACCOUNT = "123456789012";
 
 // Demo alarm configurations - simulates CloudWatch alarms
-const DEMO_ALARMS = [
+export const DEMO_ALARMS = [
   { name: "CPU-Utilization-Critical", severity: "critical", delay: 0 },
   { name: "Memory-Pressure-Warning", severity: "warning", delay: 1500 },
   { name: "DiskSpace-Low-Warning", severity: "warning", delay: 3000 },
@@ -25,15 +27,17 @@ const DEMO_ALARMS = [
   { name: "Cache-Hit-Rate-Warning", severity: "warning", delay: 10500 },
 ];
 
-// CloudWatch Alarm SNS message format
-interface CloudWatchAlarmMessage {
-  AlarmName: string;
-  AlarmArn: string;
-  NewStateValue: "ALARM" | "OK";
-  NewStateReason: string;
-  StateChangeTime: string;
-  Region: string;
-  AWSAccountId: string;
+// CloudWatch Alarm SNS message for one of the demo alarms
+export function demoAlarmMessage(alarm: (typeof DEMO_ALARMS)[number], awsAccountId: string): CloudWatchAlarmMessage {
+  return {
+    AlarmName: alarm.name,
+    AlarmArn: `arn:aws:cloudwatch:eu-west-1:${awsAccountId}:alarm:${alarm.name}`,
+    NewStateValue: "ALARM",
+    NewStateReason: `Demo: ${alarm.name} threshold exceeded (simulated)`,
+    StateChangeTime: new Date().toISOString(),
+    Region: "eu-west-1",
+    AWSAccountId: awsAccountId,
+  };
 }
 
 export async function handler(event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> {
@@ -65,15 +69,7 @@ export async function handler(event: APIGatewayProxyEventV2): Promise<APIGateway
           await new Promise((resolve) => setTimeout(resolve, delay));
         }
 
-        const alarmMessage: CloudWatchAlarmMessage = {
-          AlarmName: alarm.name,
-          AlarmArn: `arn:aws:cloudwatch:eu-west-1:${awsAccountId}:alarm:${alarm.name}`,
-          NewStateValue: "ALARM",
-          NewStateReason: `Demo: ${alarm.name} threshold exceeded (simulated)`,
-          StateChangeTime: new Date().toISOString(),
-          Region: "eu-west-1",
-          AWSAccountId: awsAccountId,
-        };
+        const alarmMessage = demoAlarmMessage(alarm, awsAccountId);
 
         await snsClient.send(
           new PublishCommand({
@@ -137,6 +133,22 @@ export async function handler(event: APIGatewayProxyEventV2): Promise<APIGateway
         console.log(`[Demo] Created team: ${team.name}`);
       }
 
+      // Join the team so its incidents show up; whoever creates it owns it
+      if (!(await getMembership(DEFAULT_TEAM_ID, userId))) {
+        const membership: Membership = {
+          team_id: DEFAULT_TEAM_ID,
+          user_id: userId,
+          role: teamCreated ? "owner" : "responder",
+          created_at: Date.now(),
+        };
+        await docClient.send(
+          new PutCommand({
+            TableName: MEMBERSHIPS_TABLE,
+            Item: membership,
+          })
+        );
+      }
+
       // Create/update on-call schedule for current user (24h from now)
       const now = Date.now();
       const schedule: Schedule = {
@@ -214,6 +226,25 @@ export async function handler(event: APIGatewayProxyEventV2): Promise<APIGateway
         }
       }
 
+      // Delete the demo team's memberships
+      const membershipsResult = await docClient.send(
+        new QueryCommand({
+          TableName: MEMBERSHIPS_TABLE,
+          KeyConditionExpression: "team_id = :tid",
+          ExpressionAttributeValues: { ":tid": DEFAULT_TEAM_ID },
+          ProjectionExpression: "team_id, user_id",
+        })
+      );
+
+      for (const item of membershipsResult.Items || []) {
+        await docClient.send(
+          new DeleteCommand({
+            TableName: MEMBERSHIPS_TABLE,
+            Key: { team_id: item.team_id, user_id: item.user_id },
+          })
+        );
+      }
+
       // Delete the demo team
       await docClient.send(
         new DeleteCommand({
@@ -1,7 +1,8 @@
 import type { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from "aws-lambda";
 import { docClient, PutCommand, DeleteCommand, QueryCommand } from "../lib/dynamo.js";
-import { jsonResponse, getUserIdFromEvent, Device } from "../types/index.js";
+import { jsonResponse, getUserIdFromEvent, getProfileFromEvent, Device } from "../types/index.js";
 import { sendPushNotification } from "../lib/apns.js";
+import { saveUserProfile } from "../lib/users.js";
 
 const DEVICES_TABLE = process.env.DEVICES_TABLE!;
 
@@ -43,6 +44,12 @@ export async function handler(event: APIGatewayProxyEventV2): Promise<APIGateway
         })
       );
 
+      // The app registers on every launch, which keeps the user's directory entry current
+      const profile = getProfileFromEvent(event);
+      if (profile) {
+        await saveUserProfile(userId, profile.email, profile.name);
+      }
+
       return jsonResponse(201, { message: "Device registered", device });
     }
 
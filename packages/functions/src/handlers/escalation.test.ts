@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { APIGatewayProxyEventV2, Context } from "aws-lambda";
+import type { createDynamoFake } from "../test/dynamo-fake.js";
+
+// Table names are read at import time
+const { mockSchedulerSend } = vi.hoisted(() => {
+  process.env.INCIDENTS_TABLE = "incidents";
+  process.env.TEAMS_TABLE = "teams";
+  process.env.SCHEDULES_TABLE = "schedules";
+  process.env.USERS_TABLE = "users";
+  process.env.MEMBERSHIPS_TABLE = "memberships";
+  process.env.SCHEDULER_ROLE_ARN = "arn:aws:iam::123456789012:role/scheduler";
+  return { mockSchedulerSend: vi.fn() };
+});
+
+vi.mock("../lib/dynamo.js", async () => {
+  const { createDynamoFake, fakeCommands } = await import("../test/dynamo-fake.js");
+  const docClient = createDynamoFake({
+    incidents: ["incident_id"],
+    teams: ["team_id"],
+    schedules: ["team_id", "slot_id"],
+    users: ["user_id"],
+    memberships: ["team_id", "user_id"],
+  });
+  return { docClient, ...fakeCommands };
+});
+
+vi.mock("@aws-sdk/client-scheduler", () => {
+  const command = (name: string) =>
+    class {
+      readonly name = name;
+      constructor(readonly input: Record<string, unknown>) {}
+    };
+  return {
+    SchedulerClient: class {
+      send = mockSchedulerSend;
+    },
+    CreateScheduleCommand: command("CreateSchedule"),
+    DeleteScheduleCommand: command("DeleteSchedule"),
+  };
+});
+
+import { handler } from "./escalation.js";
+import { handler as incidentsHandler } from "./incidents.js";
+import { docClient } from "../lib/dynamo.js";
+
+const db = docClient as unknown as ReturnType<typeof createDynamoFake>;
+
+const FUNCTION_ARN = "arn:aws:lambda:us-east-1:123456789012:function:escalation";
+const context = { invokedFunctionArn: FUNCTION_ARN } as Context;
+
+const ONCALL = "user-oncall";
+const BOB = "user-bob";
+
+const incident = () => db.table("incidents")[0] as Record<string, unknown>;
+
+const schedulerCalls = (name: string) =>
+  mockSchedulerSend.mock.calls.map(([command]) => command).filter((command) => command.name === name);
+
+function ack(userId: string): APIGatewayProxyEventV2 {
+  return {
+    version: "2.0",
+    routeKey: "$default",
+    rawPath: "/incidents/inc-1/ack",
+    rawQueryString: "",
+    headers: {},
+    pathParameters: { id: "inc-1" },
+    requestContext: {
+      http: { method: "POST", path: "/incidents/inc-1/ack" },
+      authorizer: { jwt: { claims: { sub: userId } } },
+    },
+    isBase64Encoded: false,
+  } as unknown as APIGatewayProxyEventV2;
+}
+
+describe("escalation steps", () => {
+  beforeEach(() => {
+    db.reset();
+    mockSchedulerSend.mockReset().mockResolvedValue({});
+    db.table("teams").push({
+      team_id: "team-a",
+      name: "A",
+      aws_account_ids: [],
+      escalation_policy: { levels: [{ delay_minutes: 5, target: "on_call" }, { delay_minutes: 15, target: "all_team" }] },
+      created_at: 1,
+    });
+    db.table("memberships").push(
+      { team_id: "team-a", user_id: ONCALL, role: "responder", created_at: 1 },
+      { team_id: "team-a", user_id: BOB, role: "responder", created_at: 1 },
+      { team_id: "team-a", user_id: "user-dave", role: "observer", created_at: 1 }
+    );
+    db.table("schedules").push({ team_id: "team-a", slot_id: "slot-1", user_id: ONCALL, start: Date.now() - 60_000, end: Date.now() + 60 * 60_000 });
+    db.table("incidents").push({
+      incident_id: "inc-1",
+      team_id: "team-a",
+      alarm_name: "disk",
+      state: "triggered",
+      severity: "critical",
+      triggered_at: 1,
+      escalation_level: 0,
+      escalation_rule_id: "esc-inc-1-0",
+      timeline: [],
+    });
+  });
+
+  it("pages the level's target and schedules the next level", async () => {
+    await handler({ incident_id: "inc-1", level: 0 }, context);
+
+    expect(incident()).toMatchObject({
+      escalation_level: 1,
+      notify_user_ids: [ONCALL],
+      escalation_rule_id: "esc-inc-1-1",
+      timeline: [expect.objectContaining({ event: "escalated", actor: "system" })],
+    });
+    const [created] = schedulerCalls("CreateSchedule");
+    expect(created.input).toMatchObject({ Name: "esc-inc-1-1", Target: { Arn: FUNCTION_ARN } });
+    expect(JSON.parse(created.input.Target.Input)).toEqual({ incident_id: "inc-1", level: 1 });
+  });
+
+  it("pages every non-observer on the last all_team level and stops there", async () => {
+    incident().escalation_level = 1;
+
+    await handler({ incident_id: "inc-1", level: 1 }, context);
+
+    expect(incident().escalation_level).toBe(2);
+    expect(incident().notify_user_ids).toEqual([ONCALL, BOB]);
+    expect(incident().escalation_rule_id).toBeUndefined();
+    expect(schedulerCalls("CreateSchedule")).toHaveLength(0);
+  });
+
+  it("ignores a step that fires for an older level", async () => {
+    incident().escalation_level = 1;
+
+    await handler({ incident_id: "inc-1", level: 0 }, context);
+
+    expect(incident().timeline).toEqual([]);
+    expect(schedulerCalls("CreateSchedule")).toHaveLength(0);
+  });
+
+  it("stops escalating once the incident is acked", async () => {
+    await incidentsHandler(ack(BOB));
+    await handler({ incident_id: "inc-1", level: 0 }, context);
+
+    expect(schedulerCalls("DeleteSchedule").map((command) => command.input.Name)).toEqual(["esc-inc-1-0"]);
+    expect(incident()).toMatchObject({ state: "acked", escalation_level: 0 });
+    expect(incident().timeline).toEqual([expect.objectContaining({ event: "acked" })]);
+    expect(schedulerCalls("CreateSchedule")).toHaveLength(0);
+  });
+});
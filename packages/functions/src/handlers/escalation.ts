@@ -0,0 +1,101 @@
+import type { Context } from "aws-lambda";
+import { docClient, GetCommand, UpdateCommand } from "../lib/dynamo.js";
+import { Incident, TimelineEntry } from "../types/index.js";
+import { getTeam, findOnCallUser, getTeamMemberIds } from "../lib/teams.js";
+import { scheduleEscalation, cancelEscalation, EscalationStep } from "../lib/escalation.js";
+
+const INCIDENTS_TABLE = process.env.INCIDENTS_TABLE!;
+
+// Invoked by EventBridge Scheduler once per escalation level
+export async function handler(event: EscalationStep, context: Context): Promise<void> {
+  const { incident_id: incidentId, level } = event;
+  console.log(`[Escalation] Step ${level} for incident ${incidentId}`);
+
+  const result = await docClient.send(
+    new GetCommand({
+      TableName: INCIDENTS_TABLE,
+      Key: { incident_id: incidentId },
+    })
+  );
+  const incident = result.Item as Incident | undefined;
+
+  // Acked/resolved incidents (or a stale step) need no escalation
+  if (!incident || incident.state !== "triggered" || incident.escalation_level !== level) {
+    console.log(`[Escalation] Skipping ${incidentId}: ${incident ? `${incident.state} at level ${incident.escalation_level}` : "not found"}`);
+    return;
+  }
+
+  // Flapping incidents page once; a step scheduled before detection is dropped
+  if (incident.flapping) {
+    console.log(`[Escalation] Skipping ${incidentId}: alarm is flapping`);
+    return;
+  }
+
+  // A routing rule may have pinned a policy other than the team's
+  const team = await getTeam(incident.team_id);
+  const policy = incident.escalation_policy ?? team?.escalation_policy;
+  const policyLevel = policy?.levels?.[level];
+  if (!team || !policyLevel) {
+    console.log(`[Escalation] No level ${level} in policy for incident ${incidentId}`);
+    return;
+  }
+
+  // Resolve who gets paged at this level
+  let targets: string[];
+  let note: string;
+  if (policyLevel.target === "all_team") {
+    targets = await getTeamMemberIds(team.team_id);
+    note = `Level ${level + 1}: paged all team (${targets.length} members)`;
+  } else {
+    const onCallUserId = (await findOnCallUser(team.team_id)) || incident.assigned_to;
+    // Still a schedule gap: re-page whoever the no-on-call fallback picked
+    targets = onCallUserId ? [onCallUserId] : incident.on_call_fallback ? incident.notify_user_ids || [] : [];
+    note = onCallUserId
+      ? `Level ${level + 1}: paged on-call ${onCallUserId}`
+      : `Level ${level + 1}: no one on call, paged ${targets.length} fallback user(s)`;
+  }
+
+  // Queue the following level before recording this one, so a failed update can roll it back
+  const nextRuleId = await scheduleEscalation({ incident_id: incidentId, escalation_level: level + 1 }, policy, context.invokedFunctionArn);
+
+  const timelineEntry: TimelineEntry = {
+    timestamp: Date.now(),
+    event: "escalated",
+    actor: "system",
+    note,
+  };
+
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: INCIDENTS_TABLE,
+        Key: { incident_id: incidentId },
+        UpdateExpression: nextRuleId
+          ? "SET escalation_level = :next, notify_user_ids = :targets, escalation_rule_id = :rule, timeline = list_append(timeline, :entry)"
+          : "SET escalation_level = :next, notify_user_ids = :targets, timeline = list_append(timeline, :entry) REMOVE escalation_rule_id",
+        ConditionExpression: "#state = :triggered AND escalation_level = :level",
+        ExpressionAttributeNames: { "#state": "state" },
+        ExpressionAttributeValues: {
+          ":next": level + 1,
+          ":level": level,
+          ":triggered": "triggered",
+          ":targets": targets,
+          ":entry": [timelineEntry],
+          ...(nextRuleId ? { ":rule": nextRuleId } : {}),
+        },
+      })
+    );
+  } catch (error) {
+    // Acked or resolved between our read and write
+    if ((error as Error).name === "ConditionalCheckFailedException") {
+      console.log(`[Escalation] ${incidentId} changed during escalation, cancelling next step`);
+      await cancelEscalation(nextRuleId ?? undefined);
+      return;
+    }
+    throw error;
+  }
+
+  console.log(`[Escalation] ${incidentId} escalated to level ${level + 1}, paging ${targets.length} user(s)`);
+
+  // Push notifications are handled by DynamoDB Streams Lambda
+}
@@ -0,0 +1,198 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { DynamoDBStreamEvent } from "aws-lambda";
+import { marshall } from "@aws-sdk/util-dynamodb";
+import type { AttributeValue } from "@aws-sdk/client-dynamodb";
+import type { createDynamoFake } from "../test/dynamo-fake.js";
+import type { Incident, NotificationRule } from "../types/index.js";
+
+// Table names are read at import time
+const { mockSendPush, mockSchedulerSend } = vi.hoisted(() => {
+  process.env.USERS_TABLE = "users";
+  process.env.DEVICES_TABLE = "devices";
+  process.env.INCIDENTS_TABLE = "incidents";
+  process.env.MEMBERSHIPS_TABLE = "memberships";
+  process.env.CONTACT_METHODS_TABLE = "contact-methods";
+  process.env.HELD_NOTIFICATIONS_TABLE = "held-notifications";
+  return { mockSendPush: vi.fn(), mockSchedulerSend: vi.fn() };
+});
+
+vi.mock("../lib/dynamo.js", async () => {
+  const { createDynamoFake, fakeCommands } = await import("../test/dynamo-fake.js");
+  const docClient = createDynamoFake({
+    users: ["user_id"],
+    devices: ["user_id", "device_token"],
+    incidents: ["incident_id"],
+    memberships: ["team_id", "user_id"],
+    "contact-methods": ["user_id", "method_id"],
+    "held-notifications": ["user_id", "held_id"],
+  });
+  return { docClient, ...fakeCommands };
+});
+
+vi.mock("../lib/apns.js", () => ({ sendPushNotification: mockSendPush }));
+
+vi.mock("@aws-sdk/client-scheduler", () => ({
+  SchedulerClient: class {
+    send = mockSchedulerSend;
+  },
+  CreateScheduleCommand: class {
+    constructor(readonly input: Record<string, unknown>) {}
+  },
+}));
+
+import { handler } from "./incident-streams.js";
+import { handler as stepHandler } from "./notification-steps.js";
+import { handler as digestHandler } from "./notification-digest.js";
+import { docClient } from "../lib/dynamo.js";
+
+const db = docClient as unknown as ReturnType<typeof createDynamoFake>;
+
+const ALICE = "user-alice";
+
+const incident: Incident = {
+  incident_id: "inc-1",
+  team_id: "team-a",
+  alarm_name: "api-5xx",
+  state: "triggered",
+  severity: "critical",
+  assigned_to: ALICE,
+  escalation_level: 0,
+  triggered_at: 1,
+  timeline: [],
+};
+
+function inserted(item: Incident): DynamoDBStreamEvent {
+  return {
+    Records: [{ eventName: "INSERT", dynamodb: { NewImage: marshall(item) as Record<string, AttributeValue> } }],
+  } as DynamoDBStreamEvent;
+}
+
+function withRules(rules: NotificationRule[], timeZone?: string) {
+  db.table("users").push({ user_id: ALICE, email: "alice@example.com", name: "Alice", time_zone: timeZone, notification_rules: rules, created_at: 1 });
+}
+
+describe("notification rules", () => {
+  beforeEach(() => {
+    db.reset();
+    mockSendPush.mockReset();
+    mockSendPush.mockResolvedValue({ success: true });
+    mockSchedulerSend.mockReset();
+    mockSchedulerSend.mockResolvedValue({});
+    db.table("devices").push({ user_id: ALICE, device_token: "token-1", platform: "ios", created_at: 1 });
+  });
+
+  it("pushes right away without rules for the severity", async () => {
+    withRules([{ rule_id: "r1", severity: "info", delay_minutes: 0 }]);
+
+    await handler(inserted(incident));
+
+    expect(mockSendPush).toHaveBeenCalledTimes(1);
+    expect(mockSchedulerSend).not.toHaveBeenCalled();
+  });
+
+  it("pushes now and schedules the delayed step", async () => {
+    withRules([
+      { rule_id: "r1", severity: "critical", delay_minutes: 0 },
+      { rule_id: "r2", severity: "critical", contact_method_id: "m1", delay_minutes: 5 },
+    ]);
+
+    await handler(inserted(incident));
+
+    expect(mockSendPush).toHaveBeenCalledTimes(1);
+    expect(mockSchedulerSend).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(mockSchedulerSend.mock.calls[0][0].input.Target.Input)).toEqual({ incident_id: "inc-1", user_id: ALICE, rule_id: "r2" });
+  });
+
+  it("holds working-hours-only rules outside working hours", async () => {
+    vi.useFakeTimers({ now: new Date("2026-10-18T12:00:00Z"), toFake: ["Date"] }); // A Sunday
+    withRules([{ rule_id: "r1", severity: "critical", delay_minutes: 0, working_hours_only: true }], "Europe/Berlin");
+
+    await handler(inserted(incident));
+    vi.useRealTimers();
+
+    expect(mockSendPush).not.toHaveBeenCalled();
+  });
+
+  it("names the acker from their profile", async () => {
+    withRules([]);
+    db.table("users").push({ user_id: "user-bob", email: "bob@example.com", name: "Bob", created_at: 1 });
+    const acked: Incident = { ...incident, state: "acked", acked_by: "user-bob", acked_at: 2 };
+
+    await handler({
+      Records: [
+        {
+          eventName: "MODIFY",
+          dynamodb: {
+            OldImage: marshall(incident) as Record<string, AttributeValue>,
+            NewImage: marshall(acked) as Record<string, AttributeValue>,
+          },
+        },
+      ],
+    } as DynamoDBStreamEvent);
+
+    expect(mockSendPush).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ body: "Acked by Bob" }));
+  });
+
+  it("drops a delayed step once the incident is acked", async () => {
+    withRules([{ rule_id: "r2", severity: "critical", delay_minutes: 5 }]);
+    db.table("incidents").push({ ...incident, state: "acked" });
+
+    await stepHandler({ incident_id: "inc-1", user_id: ALICE, rule_id: "r2" });
+
+    expect(mockSendPush).not.toHaveBeenCalled();
+  });
+});
+
+describe("quiet hours and do-not-disturb", () => {
+  beforeEach(() => {
+    db.reset();
+    mockSendPush.mockReset();
+    mockSendPush.mockResolvedValue({ success: true });
+    mockSchedulerSend.mockReset();
+    mockSchedulerSend.mockResolvedValue({});
+    db.table("devices").push({ user_id: ALICE, device_token: "token-1", platform: "ios", created_at: 1 });
+  });
+
+  it("holds warning pushes during do-not-disturb and schedules the digest", async () => {
+    const dndUntil = Date.now() + 60 * 60 * 1000;
+    db.table("users").push({ user_id: ALICE, email: "alice@example.com", name: "Alice", dnd_until: dndUntil, created_at: 1 });
+
+    await handler(inserted({ ...incident, severity: "warning" }));
+
+    expect(mockSendPush).not.toHaveBeenCalled();
+    expect(db.table("held-notifications")).toHaveLength(1);
+    expect(mockSchedulerSend.mock.calls[0][0].input.Name).toMatch(new RegExp(`-${dndUntil}$`));
+  });
+
+  it("lets critical pages through quiet hours", async () => {
+    vi.useFakeTimers({ now: new Date("2026-10-18T23:30:00Z"), toFake: ["Date"] });
+    db.table("users").push({
+      user_id: ALICE,
+      email: "alice@example.com",
+      name: "Alice",
+      time_zone: "UTC",
+      quiet_hours: { start: "22:00", end: "07:00" },
+      created_at: 1,
+    });
+
+    await handler(inserted(incident));
+    vi.useRealTimers();
+
+    expect(mockSendPush).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ interruptionLevel: "critical" }));
+    expect(db.table("held-notifications")).toHaveLength(0);
+  });
+
+  it("sends held pushes as one digest once the window is over", async () => {
+    db.table("users").push({ user_id: ALICE, email: "alice@example.com", name: "Alice", created_at: 1 });
+    db.table("held-notifications").push(
+      { user_id: ALICE, held_id: "1-a", incident_id: "inc-1", severity: "warning", title: "🟡 WARNING: disk", body: "", held_at: 1, ttl: 1 },
+      { user_id: ALICE, held_id: "2-b", incident_id: "inc-2", severity: "info", title: "🟢 INFO: deploy", body: "", held_at: 2, ttl: 1 }
+    );
+
+    await digestHandler({ user_id: ALICE });
+
+    expect(mockSendPush).toHaveBeenCalledTimes(1);
+    expect(mockSendPush.mock.calls[0][1]).toEqual(expect.objectContaining({ title: "🌙 2 HELD ALERTS", body: "🟡 WARNING: disk\n🟢 INFO: deploy" }));
+    expect(db.table("held-notifications")).toHaveLength(0);
+  });
+});
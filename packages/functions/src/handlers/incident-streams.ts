@@ -1,14 +1,11 @@
 import type { DynamoDBStreamEvent, DynamoDBRecord } from "aws-lambda";
 import { unmarshall } from "@aws-sdk/util-dynamodb";
 import type { AttributeValue } from "@aws-sdk/client-dynamodb";
-import { docClient, QueryCommand, ScanCommand } from "../lib/dynamo.js";
-import { Incident, Device } from "../types/index.js";
-import { sendPushNotification, PushNotification } from "../lib/apns.js";
-
-const DEVICES_TABLE = process.env.DEVICES_TABLE!;
-const INCIDENTS_TABLE = process.env.INCIDENTS_TABLE!;
-
-type IncidentState = "triggered" | "acked" | "resolved";
+import { Incident, IncidentState } from "../types/index.js";
+import { PushNotification } from "../lib/apns.js";
+import { listTeamMemberships } from "../lib/teams.js";
+import { notifyUser, pageUser } from "../lib/notifications.js";
+import { getUserSummaries } from "../lib/users.js";
 
 interface StateChange {
   type: "INSERT" | "MODIFY" | "REMOVE";
@@ -16,6 +13,8 @@ interface StateChange {
   newState?: IncidentState;
   incident: Incident;
   oldIncident?: Incident;
+  escalated?: boolean; // escalation_level advanced while still triggered
+  flapped?: boolean; // The alarm started flapping while the incident was open
 }
 
 export async function handler(event: DynamoDBStreamEvent): Promise<void> {
@@ -27,33 +26,26 @@ export async function handler(event: DynamoDBStreamEvent): Promise<void> {
       console.log(`[Streams] ${change.type}: ${change.incident.incident_id} ${change.oldState || "new"} → ${change.newState}`);
 
       // Determine notification based on state change
-      const notification = buildNotification(change);
+      const notification = await buildNotification(change);
       if (!notification) continue;
 
-      // Get devices to notify
-      const devices = await getDevicesToNotify(change);
-      if (devices.length === 0) {
-        console.log("[Streams] No devices to notify");
-        continue;
+      // Pages follow each recipient's notification rules; updates go to every device
+      const recipients = getRecipients(change);
+      for (const userId of recipients) {
+        if (isPage(change)) {
+          await pageUser(userId, notification, change.incident);
+        } else {
+          await notifyUser(userId, notification, change.incident);
+        }
       }
 
-      // Get badge count (unacked incidents for this user)
-      const badgeCount = await getUnackedIncidentCount(change.incident.assigned_to);
-      console.log(`[Streams] Badge count for ${change.incident.assigned_to}: ${badgeCount}`);
-
-      // Send push to all devices
-      for (const device of devices) {
-        await sendPushNotification(device, {
-          ...notification,
-          badge: badgeCount,
-          data: {
-            incident_id: change.incident.incident_id,
-            severity: change.incident.severity,
-            state: change.incident.state,
-          },
-        });
+      // Observers who opted in hear about new incidents without being paged
+      if (change.type === "INSERT" && change.newState === "triggered") {
+        for (const userId of await getFyiObservers(change.incident.team_id)) {
+          if (recipients.includes(userId)) continue;
+          await notifyUser(userId, buildFyiNotification(change.incident), change.incident);
+        }
       }
-
     } catch (error) {
       console.error("[Streams] Error processing record:", error);
     }
@@ -76,6 +68,7 @@ function parseStateChange(record: DynamoDBRecord): StateChange | null {
     : undefined;
 
   if (eventName === "INSERT" && newImage) {
+    if (newImage.state === "suppressed") return null;
     return {
       type: "INSERT",
       newState: newImage.state,
@@ -84,7 +77,34 @@ function parseStateChange(record: DynamoDBRecord): StateChange | null {
   }
 
   if (eventName === "MODIFY" && newImage && oldImage) {
-    // Only care about state changes
+    // Silenced incidents stay quiet through ack and resolve
+    if (oldImage.state === "suppressed") return null;
+
+    // Escalation steps page again without changing state
+    if (newImage.state === "triggered" && (newImage.escalation_level ?? 0) > (oldImage.escalation_level ?? 0)) {
+      return {
+        type: "MODIFY",
+        oldState: oldImage.state,
+        newState: newImage.state,
+        incident: newImage,
+        oldIncident: oldImage,
+        escalated: true,
+      };
+    }
+
+    // Flapping detected on an open incident: one summary instead of further pages
+    if (newImage.flapping && !oldImage.flapping) {
+      return {
+        type: "MODIFY",
+        oldState: oldImage.state,
+        newState: newImage.state,
+        incident: newImage,
+        oldIncident: oldImage,
+        flapped: true,
+      };
+    }
+
+    // Otherwise only care about state changes
     if (oldImage.state === newImage.state) return null;
 
     return {
@@ -107,10 +127,31 @@ function parseStateChange(record: DynamoDBRecord): StateChange | null {
   return null;
 }
 
-function buildNotification(change: StateChange): PushNotification | null {
+async function buildNotification(change: StateChange): Promise<PushNotification | null> {
   const { incident } = change;
   const severityEmoji = incident.severity === "critical" ? "🔴" : incident.severity === "warning" ? "🟡" : "🟢";
 
+  // Flapping alarm: summarize once rather than page on every toggle
+  if ((change.type === "INSERT" && incident.flapping) || change.flapped) {
+    const flappingEntry = [...incident.timeline].reverse().find((entry) => entry.event === "flapping");
+    return {
+      title: `🔁 FLAPPING: ${incident.alarm_name}`,
+      body: flappingEntry?.note || "Alarm keeps changing state; pages suppressed until it settles",
+      sound: "default",
+      interruptionLevel: "time-sensitive",
+    };
+  }
+
+  // Nobody on call and the team opted out of paging for gaps
+  if (change.type === "INSERT" && incident.on_call_fallback === "unassigned") {
+    return {
+      title: `❔ UNASSIGNED ${incident.severity.toUpperCase()}: ${incident.alarm_name}`,
+      body: "No one is on call - ack to take it",
+      sound: "default",
+      interruptionLevel: "time-sensitive",
+    };
+  }
+
   // New incident triggered
   if (change.type === "INSERT" && change.newState === "triggered") {
     return {
@@ -121,23 +162,36 @@ function buildNotification(change: StateChange): PushNotification | null {
     };
   }
 
+  // Escalation step
+  if (change.escalated) {
+    return {
+      title: `⏫ ESCALATED L${incident.escalation_level}: ${incident.alarm_name}`,
+      body: incident.timeline[incident.timeline.length - 1]?.note || "Incident is still unacknowledged",
+      sound: incident.severity === "critical" ? "critical_alarm.caf" : "default",
+      interruptionLevel: incident.severity === "critical" ? "critical" : "time-sensitive",
+    };
+  }
+
   // State transitions
   if (change.type === "MODIFY") {
     // triggered → acked
     if (change.oldState === "triggered" && change.newState === "acked") {
+      const [acker] = incident.acked_by ? await getUserSummaries([incident.acked_by]) : [];
       return {
         title: `✓ Acknowledged: ${incident.alarm_name}`,
-        body: `Acked by ${incident.acked_by || "teammate"}`,
+        body: `Acked by ${acker?.name || "teammate"}`,
         sound: "default",
         interruptionLevel: "active",
       };
     }
 
-    // acked → resolved
-    if (change.oldState === "acked" && change.newState === "resolved") {
+    // triggered/acked → resolved (by a user or by the alert source)
+    if (change.newState === "resolved") {
+      const source = incident.source ?? "CloudWatch";
+      const autoResolved = incident.timeline[incident.timeline.length - 1]?.actor === source;
       return {
         title: `✓ Resolved: ${incident.alarm_name}`,
-        body: "Incident has been resolved",
+        body: autoResolved ? (source === "CloudWatch" ? "Alarm returned to OK" : `Cleared by ${source}`) : "Incident has been resolved",
         sound: "default",
         interruptionLevel: "passive",
       };
@@ -157,41 +211,47 @@ function buildNotification(change: StateChange): PushNotification | null {
   return null;
 }
 
-async function getDevicesToNotify(change: StateChange): Promise<Device[]> {
+// New incidents, escalation steps and unacks ask someone to act; acks, resolves and flapping summaries don't
+function isPage(change: StateChange): boolean {
+  if (change.flapped || change.incident.flapping) return false;
+  return (
+    (change.type === "INSERT" && change.newState === "triggered") ||
+    !!change.escalated ||
+    (change.oldState === "acked" && change.newState === "triggered")
+  );
+}
+
+function buildFyiNotification(incident: Incident): PushNotification {
+  return {
+    title: `👁 FYI ${incident.severity.toUpperCase()}: ${incident.alarm_name}`,
+    body: incident.timeline[0]?.note || "New alarm triggered",
+    sound: "default",
+    interruptionLevel: "passive",
+  };
+}
+
+function getRecipients(change: StateChange): string[] {
   const { incident } = change;
 
-  // For new incidents, notify the assigned user
-  if (change.type === "INSERT") {
-    return getUserDevices(incident.assigned_to);
+  // Escalation steps page the level's targets
+  if (change.escalated) {
+    return [...new Set(incident.notify_user_ids || [])];
+  }
+
+  // New incidents and flapping summaries also reach whoever a no-on-call fallback picked
+  if (change.type === "INSERT" || change.flapped) {
+    return [...new Set([...(incident.assigned_to ? [incident.assigned_to] : []), ...(incident.notify_user_ids || [])])];
   }
 
   // For state changes, could notify:
   // - All team members (for acks/resolves)
   // - Or just the assigned user
   // For now, notify assigned user
-  return getUserDevices(incident.assigned_to);
+  return incident.assigned_to ? [incident.assigned_to] : [];
 }
 
-async function getUserDevices(userId: string): Promise<Device[]> {
-  const result = await docClient.send(
-    new QueryCommand({
-      TableName: DEVICES_TABLE,
-      KeyConditionExpression: "user_id = :uid",
-      ExpressionAttributeValues: { ":uid": userId },
-    })
-  );
-  return (result.Items as Device[]) || [];
-}
-
-async function getUnackedIncidentCount(userId: string): Promise<number> {
-  const result = await docClient.send(
-    new ScanCommand({
-      TableName: INCIDENTS_TABLE,
-      FilterExpression: "assigned_to = :uid AND #state = :state",
-      ExpressionAttributeNames: { "#state": "state" },
-      ExpressionAttributeValues: { ":uid": userId, ":state": "triggered" },
-      Select: "COUNT",
-    })
-  );
-  return result.Count || 0;
+async function getFyiObservers(teamId: string): Promise<string[]> {
+  return (await listTeamMemberships(teamId))
+    .filter((membership) => membership.role === "observer" && membership.fyi)
+    .map((membership) => membership.user_id);
 }
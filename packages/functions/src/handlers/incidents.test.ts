@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { APIGatewayProxyEventV2, APIGatewayProxyStructuredResultV2 } from "aws-lambda";
+import type { createDynamoFake } from "../test/dynamo-fake.js";
+
+// Table names are read at import time
+const { mockSchedulerSend } = vi.hoisted(() => {
+  process.env.INCIDENTS_TABLE = "incidents";
+  process.env.TEAMS_TABLE = "teams";
+  process.env.SCHEDULES_TABLE = "schedules";
+  process.env.USERS_TABLE = "users";
+  process.env.MEMBERSHIPS_TABLE = "memberships";
+  process.env.ESCALATION_FUNCTION_ARN = "arn:aws:lambda:us-east-1:123456789012:function:escalation";
+  process.env.SCHEDULER_ROLE_ARN = "arn:aws:iam::123456789012:role/scheduler";
+  return { mockSchedulerSend: vi.fn() };
+});
+
+vi.mock("../lib/dynamo.js", async () => {
+  const { createDynamoFake, fakeCommands } = await import("../test/dynamo-fake.js");
+  const docClient = createDynamoFake({
+    incidents: ["incident_id"],
+    teams: ["team_id"],
+    schedules: ["team_id", "slot_id"],
+    users: ["user_id"],
+    memberships: ["team_id", "user_id"],
+  });
+  return { docClient, ...fakeCommands };
+});
+
+vi.mock("@aws-sdk/client-scheduler", () => {
+  const command = (name: string) =>
+    class {
+      readonly name = name;
+      constructor(readonly input: Record<string, unknown>) {}
+    };
+  return {
+    SchedulerClient: class {
+      send = mockSchedulerSend;
+    },
+    CreateScheduleCommand: command("CreateSchedule"),
+    DeleteScheduleCommand: command("DeleteSchedule"),
+  };
+});
+
+import { handler } from "./incidents.js";
+import { docClient } from "../lib/dynamo.js";
+
+const db = docClient as unknown as ReturnType<typeof createDynamoFake>;
+
+const RESPONDER = "user-bob";
+
+function action(name: string, body?: unknown): APIGatewayProxyEventV2 {
+  const rawPath = `/incidents/inc-1/${name}`;
+  return {
+    version: "2.0",
+    routeKey: "$default",
+    rawPath,
+    rawQueryString: "",
+    headers: {},
+    pathParameters: { id: "inc-1" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+    requestContext: {
+      http: { method: "POST", path: rawPath },
+      authorizer: { jwt: { claims: { sub: RESPONDER } } },
+    },
+    isBase64Encoded: false,
+  } as unknown as APIGatewayProxyEventV2;
+}
+
+async function call(event: APIGatewayProxyEventV2) {
+  const response = (await handler(event)) as APIGatewayProxyStructuredResultV2;
+  return { status: response.statusCode, body: JSON.parse(response.body || "{}") };
+}
+
+const incident = () => db.table("incidents")[0] as Record<string, unknown>;
+
+const schedulerCalls = (name: string) =>
+  mockSchedulerSend.mock.calls.map(([command]) => command).filter((command) => command.name === name);
+
+describe("incident state changes", () => {
+  beforeEach(() => {
+    db.reset();
+    mockSchedulerSend.mockReset().mockResolvedValue({});
+    db.table("teams").push({
+      team_id: "team-a",
+      name: "A",
+      aws_account_ids: [],
+      escalation_policy: { levels: [{ delay_minutes: 5, target: "on_call" }, { delay_minutes: 10, target: "all_team" }] },
+      created_at: 1,
+    });
+    db.table("memberships").push({ team_id: "team-a", user_id: RESPONDER, role: "responder", created_at: 1 });
+    db.table("users").push({ user_id: RESPONDER, email: "bob@example.com", name: "Bob", created_at: 1 });
+    db.table("incidents").push({
+      incident_id: "inc-1",
+      team_id: "team-a",
+      alarm_name: "disk",
+      state: "triggered",
+      severity: "critical",
+      triggered_at: 10,
+      escalation_level: 1,
+      escalation_rule_id: "esc-inc-1-1",
+      timeline: [],
+    });
+  });
+
+  it("rejects acking an incident that is not triggered", async () => {
+    await call(action("ack"));
+    const { status } = await call(action("ack"));
+
+    expect(status).toBe(409);
+    expect(incident().timeline).toHaveLength(1);
+  });
+
+  it("rejects unacking an incident that is not acked", async () => {
+    const { status } = await call(action("unack"));
+
+    expect(status).toBe(409);
+    expect(incident().timeline).toEqual([]);
+    expect(schedulerCalls("CreateSchedule")).toHaveLength(0);
+  });
+
+  it("rejects resolving twice", async () => {
+    await call(action("resolve"));
+    const { status } = await call(action("resolve"));
+
+    expect(status).toBe(409);
+    expect(incident().timeline).toHaveLength(1);
+  });
+
+  it("rejects reassigning a resolved incident", async () => {
+    await call(action("resolve"));
+    const { status } = await call(action("reassign", { user_id: RESPONDER }));
+
+    expect(status).toBe(409);
+    expect(incident().assigned_to).toBeUndefined();
+    expect(incident().timeline).toHaveLength(1);
+  });
+
+  it("resumes escalation on unack even when the step is still scheduled", async () => {
+    await call(action("ack"));
+    mockSchedulerSend.mockRejectedValueOnce(Object.assign(new Error("Schedule already exists"), { name: "ConflictException" }));
+
+    const { status, body } = await call(action("unack"));
+
+    expect(status).toBe(200);
+    expect(body.incident).toMatchObject({ state: "triggered", escalation_rule_id: "esc-inc-1-1" });
+  });
+});
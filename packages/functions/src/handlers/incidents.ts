@@ -1,6 +1,11 @@
 import type { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from "aws-lambda";
-import { docClient, GetCommand, PutCommand, QueryCommand, UpdateCommand, ScanCommand } from "../lib/dynamo.js";
-import { jsonResponse, getUserIdFromEvent, Incident, TimelineEntry } from "../types/index.js";
+import { docClient, GetCommand, PutCommand, UpdateCommand } from "../lib/dynamo.js";
+import { jsonResponse, getUserIdFromEvent, Incident, IncidentState, TimelineEntry } from "../types/index.js";
+import { getTeam, getMembership } from "../lib/teams.js";
+import { authorizeTeam, getMemberTeamIds, hasRole } from "../lib/authz.js";
+import { listTeamIncidents, decodeCursor, encodeCursor, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from "../lib/incidents.js";
+import { scheduleEscalation, cancelEscalation } from "../lib/escalation.js";
+import { getUserSummaries } from "../lib/users.js";
 
 const INCIDENTS_TABLE = process.env.INCIDENTS_TABLE!;
 
@@ -14,51 +19,61 @@ export async function handler(event: APIGatewayProxyEventV2): Promise<APIGateway
   const path = event.rawPath;
 
   try {
-    // GET /incidents - List incidents
+    // GET /incidents - List the caller's team incidents, newest first
     if (method === "GET" && path === "/incidents") {
-      const state = event.queryStringParameters?.state;
-      const teamId = event.queryStringParameters?.team_id;
+      const params = event.queryStringParameters || {};
 
-      let result;
-      if (teamId && state) {
-        result = await docClient.send(
-          new QueryCommand({
-            TableName: INCIDENTS_TABLE,
-            IndexName: "team-state-index",
-            KeyConditionExpression: "team_id = :tid AND #state = :state",
-            ExpressionAttributeNames: { "#state": "state" },
-            ExpressionAttributeValues: { ":tid": teamId, ":state": state },
-          })
-        );
-      } else if (teamId) {
-        result = await docClient.send(
-          new QueryCommand({
-            TableName: INCIDENTS_TABLE,
-            IndexName: "team-state-index",
-            KeyConditionExpression: "team_id = :tid",
-            ExpressionAttributeValues: { ":tid": teamId },
-          })
-        );
-      } else if (state) {
-        // Scan with state filter
-        result = await docClient.send(
-          new ScanCommand({
-            TableName: INCIDENTS_TABLE,
-            FilterExpression: "#state = :state",
-            ExpressionAttributeNames: { "#state": "state" },
-            ExpressionAttributeValues: { ":state": state },
-          })
-        );
-      } else {
-        // Scan all incidents (MVP: no team filtering)
-        result = await docClient.send(
-          new ScanCommand({
-            TableName: INCIDENTS_TABLE,
-          })
-        );
+      const limit = params.limit ? Number(params.limit) : DEFAULT_PAGE_SIZE;
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+        return jsonResponse(400, { error: `limit must be between 1 and ${MAX_PAGE_SIZE}` });
+      }
+
+      const cursor = params.cursor ? decodeCursor(params.cursor) : undefined;
+      if (cursor === null) {
+        return jsonResponse(400, { error: "Invalid cursor" });
+      }
+
+      const memberOf = await getMemberTeamIds(userId);
+
+      if (params.team_id && !memberOf.includes(params.team_id)) {
+        return jsonResponse(403, { error: "Not a member of this team" });
+      }
+
+      const page = await listTeamIncidents(params.team_id ? [params.team_id] : memberOf, {
+        state: params.state as IncidentState | undefined,
+        limit,
+        cursor,
+      });
+
+      return jsonResponse(200, {
+        incidents: page.incidents,
+        next_cursor: page.cursor ? encodeCursor(page.cursor) : null,
+      });
+    }
+
+    // Only responders (and up) on the incident's team may update it
+    let incidentTeamId: string | undefined;
+    if (method === "POST" && path.match(/^\/incidents\/[^/]+\/(ack|unack|resolve|reassign)$/)) {
+      const incidentId = event.pathParameters?.id;
+      if (!incidentId) {
+        return jsonResponse(400, { error: "Missing incident ID" });
       }
 
-      return jsonResponse(200, { incidents: result.Items || [] });
+      const existing = await docClient.send(
+        new GetCommand({
+          TableName: INCIDENTS_TABLE,
+          Key: { incident_id: incidentId },
+        })
+      );
+      if (!existing.Item) {
+        return jsonResponse(404, { error: "Incident not found" });
+      }
+
+      incidentTeamId = (existing.Item as Incident).team_id;
+      const denied = await authorizeTeam(userId, incidentTeamId, "responder");
+      if (denied) {
+        return jsonResponse(403, { error: denied });
+      }
     }
 
     // GET /incidents/{id} - Get single incident
@@ -79,6 +94,11 @@ export async function handler(event: APIGatewayProxyEventV2): Promise<APIGateway
         return jsonResponse(404, { error: "Incident not found" });
       }
 
+      const denied = await authorizeTeam(userId, (result.Item as Incident).team_id);
+      if (denied) {
+        return jsonResponse(403, { error: denied });
+      }
+
       return jsonResponse(200, { incident: result.Item });
     }
 
@@ -89,34 +109,44 @@ export async function handler(event: APIGatewayProxyEventV2): Promise<APIGateway
         return jsonResponse(400, { error: "Missing incident ID" });
       }
 
-      const body = JSON.parse(event.body || "{}");
-      // Use display name from request, fallback to userId
-      const ackedByName = body.acked_by_name || userId;
-
       const now = Date.now();
       const timelineEntry: TimelineEntry = {
         timestamp: now,
         event: "acked",
-        actor: ackedByName,
+        actor: userId,
       };
 
-      const result = await docClient.send(
-        new UpdateCommand({
-          TableName: INCIDENTS_TABLE,
-          Key: { incident_id: incidentId },
-          UpdateExpression: "SET #state = :state, acked_at = :acked_at, acked_by = :acked_by, timeline = list_append(timeline, :entry)",
-          ExpressionAttributeNames: { "#state": "state" },
-          ExpressionAttributeValues: {
-            ":state": "acked",
-            ":acked_at": now,
-            ":acked_by": ackedByName,
-            ":entry": [timelineEntry],
-          },
-          ReturnValues: "ALL_NEW",
-        })
-      );
+      let result;
+      try {
+        result = await docClient.send(
+          new UpdateCommand({
+            TableName: INCIDENTS_TABLE,
+            Key: { incident_id: incidentId },
+            // Acking an unassigned incident takes ownership of it
+            UpdateExpression:
+              "SET #state = :state, acked_at = :acked_at, acked_by = :acked_by, assigned_to = if_not_exists(assigned_to, :user), timeline = list_append(timeline, :entry)",
+            ExpressionAttributeNames: { "#state": "state" },
+            ExpressionAttributeValues: {
+              ":state": "acked",
+              ":triggered": "triggered",
+              ":acked_at": now,
+              ":acked_by": userId,
+              ":user": userId,
+              ":entry": [timelineEntry],
+            },
+            ConditionExpression: "#state = :triggered",
+            ReturnValues: "ALL_NEW",
+          })
+        );
+      } catch (error) {
+        if ((error as Error).name === "ConditionalCheckFailedException") {
+          return jsonResponse(409, { error: "Only triggered incidents can be acked" });
+        }
+        throw error;
+      }
 
-      // TODO: Cancel EventBridge escalation rule
+      // Stop paging further escalation levels
+      await cancelEscalation((result.Attributes as Incident | undefined)?.escalation_rule_id);
 
       return jsonResponse(200, { incident: result.Attributes });
     }
@@ -136,19 +166,46 @@ export async function handler(event: APIGatewayProxyEventV2): Promise<APIGateway
         note: "Unacknowledged",
       };
 
-      const result = await docClient.send(
-        new UpdateCommand({
-          TableName: INCIDENTS_TABLE,
-          Key: { incident_id: incidentId },
-          UpdateExpression: "SET #state = :state, timeline = list_append(timeline, :entry) REMOVE acked_at, acked_by",
-          ExpressionAttributeNames: { "#state": "state" },
-          ExpressionAttributeValues: {
-            ":state": "triggered",
-            ":entry": [timelineEntry],
-          },
-          ReturnValues: "ALL_NEW",
-        })
-      );
+      let result;
+      try {
+        result = await docClient.send(
+          new UpdateCommand({
+            TableName: INCIDENTS_TABLE,
+            Key: { incident_id: incidentId },
+            UpdateExpression: "SET #state = :state, timeline = list_append(timeline, :entry) REMOVE acked_at, acked_by",
+            ExpressionAttributeNames: { "#state": "state" },
+            ExpressionAttributeValues: {
+              ":state": "triggered",
+              ":acked": "acked",
+              ":entry": [timelineEntry],
+            },
+            ConditionExpression: "#state = :acked",
+            ReturnValues: "ALL_NEW",
+          })
+        );
+      } catch (error) {
+        if ((error as Error).name === "ConditionalCheckFailedException") {
+          return jsonResponse(409, { error: "Only acked incidents can be unacked" });
+        }
+        throw error;
+      }
+
+      // Resume escalation from the level the incident had reached
+      const incident = result.Attributes as Incident;
+      const policy = incident.escalation_policy ?? (await getTeam(incident.team_id))?.escalation_policy;
+      const ruleId = await scheduleEscalation(incident, policy);
+      if (ruleId) {
+        const updated = await docClient.send(
+          new UpdateCommand({
+            TableName: INCIDENTS_TABLE,
+            Key: { incident_id: incidentId },
+            UpdateExpression: "SET escalation_rule_id = :rule",
+            ExpressionAttributeValues: { ":rule": ruleId },
+            ReturnValues: "ALL_NEW",
+          })
+        );
+        return jsonResponse(200, { incident: updated.Attributes });
+      }
 
       return jsonResponse(200, { incident: result.Attributes });
     }
@@ -169,22 +226,32 @@ export async function handler(event: APIGatewayProxyEventV2): Promise<APIGateway
         note: body.note,
       };
 
-      const result = await docClient.send(
-        new UpdateCommand({
-          TableName: INCIDENTS_TABLE,
-          Key: { incident_id: incidentId },
-          UpdateExpression: "SET #state = :state, resolved_at = :resolved_at, timeline = list_append(timeline, :entry)",
-          ExpressionAttributeNames: { "#state": "state" },
-          ExpressionAttributeValues: {
-            ":state": "resolved",
-            ":resolved_at": now,
-            ":entry": [timelineEntry],
-          },
-          ReturnValues: "ALL_NEW",
-        })
-      );
+      let result;
+      try {
+        result = await docClient.send(
+          new UpdateCommand({
+            TableName: INCIDENTS_TABLE,
+            Key: { incident_id: incidentId },
+            UpdateExpression: "SET #state = :state, resolved_at = :resolved_at, timeline = list_append(timeline, :entry)",
+            ExpressionAttributeNames: { "#state": "state" },
+            ExpressionAttributeValues: {
+              ":state": "resolved",
+              ":resolved_at": now,
+              ":entry": [timelineEntry],
+            },
+            ConditionExpression: "#state <> :state",
+            ReturnValues: "ALL_NEW",
+          })
+        );
+      } catch (error) {
+        if ((error as Error).name === "ConditionalCheckFailedException") {
+          return jsonResponse(409, { error: "Incident is already resolved" });
+        }
+        throw error;
+      }
 
-      // TODO: Cancel EventBridge escalation rule
+      // Stop paging further escalation levels
+      await cancelEscalation((result.Attributes as Incident | undefined)?.escalation_rule_id);
 
       return jsonResponse(200, { incident: result.Attributes });
     }
@@ -201,27 +268,43 @@ export async function handler(event: APIGatewayProxyEventV2): Promise<APIGateway
       if (!newUserId) {
         return jsonResponse(400, { error: "Missing user_id" });
       }
+      const assignee = await getMembership(incidentTeamId!, newUserId);
+      if (!assignee || !hasRole(assignee.role, "responder")) {
+        return jsonResponse(400, { error: "Incidents can only be assigned to responders of the incident's team" });
+      }
 
+      const [assigneeUser] = await getUserSummaries([newUserId]);
       const now = Date.now();
       const timelineEntry: TimelineEntry = {
         timestamp: now,
         event: "reassigned",
         actor: userId,
-        note: `Reassigned to ${newUserId}`,
+        note: `Reassigned to ${assigneeUser?.name ?? newUserId}`,
       };
 
-      const result = await docClient.send(
-        new UpdateCommand({
-          TableName: INCIDENTS_TABLE,
-          Key: { incident_id: incidentId },
-          UpdateExpression: "SET assigned_to = :assigned, timeline = list_append(timeline, :entry)",
-          ExpressionAttributeValues: {
-            ":assigned": newUserId,
-            ":entry": [timelineEntry],
-          },
-          ReturnValues: "ALL_NEW",
-        })
-      );
+      let result;
+      try {
+        result = await docClient.send(
+          new UpdateCommand({
+            TableName: INCIDENTS_TABLE,
+            Key: { incident_id: incidentId },
+            UpdateExpression: "SET assigned_to = :assigned, timeline = list_append(timeline, :entry)",
+            ExpressionAttributeNames: { "#state": "state" },
+            ExpressionAttributeValues: {
+              ":assigned": newUserId,
+              ":resolved": "resolved",
+              ":entry": [timelineEntry],
+            },
+            ConditionExpression: "#state <> :resolved",
+            ReturnValues: "ALL_NEW",
+          })
+        );
+      } catch (error) {
+        if ((error as Error).name === "ConditionalCheckFailedException") {
+          return jsonResponse(409, { error: "Resolved incidents can't be reassigned" });
+        }
+        throw error;
+      }
 
       return jsonResponse(200, { incident: result.Attributes });
     }
@@ -0,0 +1,285 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { APIGatewayProxyEventV2 } from "aws-lambda";
+import type { createDynamoFake } from "../test/dynamo-fake.js";
+
+// Table names are read at import time
+vi.hoisted(() => {
+  process.env.INCIDENTS_TABLE = "incidents";
+  process.env.TEAMS_TABLE = "teams";
+  process.env.SCHEDULES_TABLE = "schedules";
+  process.env.USERS_TABLE = "users";
+  process.env.INTEGRATIONS_TABLE = "integrations";
+  process.env.UNROUTED_ALERTS_TABLE = "unrouted";
+  process.env.SILENCES_TABLE = "silences";
+});
+
+// Local DynamoDB stand-in so the whole pipeline runs against real state
+vi.mock("../lib/dynamo.js", async () => {
+  const { createDynamoFake, fakeCommands } = await import("../test/dynamo-fake.js");
+  const docClient = createDynamoFake({
+    incidents: ["incident_id"],
+    teams: ["team_id"],
+    schedules: ["team_id", "slot_id"],
+    users: ["user_id"],
+    integrations: ["team_id", "integration_id"],
+    unrouted: ["alert_id"],
+    silences: ["team_id", "silence_id"],
+  });
+  return { docClient, ...fakeCommands };
+});
+
+vi.mock("../lib/escalation.js", () => ({
+  scheduleEscalation: vi.fn().mockResolvedValue(null),
+  cancelEscalation: vi.fn().mockResolvedValue(undefined),
+}));
+
+import { handler } from "./integration-events.js";
+import { docClient } from "../lib/dynamo.js";
+
+const db = docClient as unknown as ReturnType<typeof createDynamoFake>;
+
+const INTEGRATION_KEY = "am-key-123";
+
+// Captured from Alertmanager 0.27 webhook_config deliveries
+const firingPayload = {
+  version: "4",
+  groupKey: '{}:{alertname="KubePodCrashLooping"}',
+  truncatedAlerts: 0,
+  status: "firing",
+  receiver: "callout",
+  groupLabels: { alertname: "KubePodCrashLooping" },
+  commonLabels: { alertname: "KubePodCrashLooping", namespace: "payments", severity: "critical" },
+  commonAnnotations: {},
+  externalURL: "http://alertmanager.monitoring:9093",
+  alerts: [
+    {
+      status: "firing",
+      labels: { alertname: "KubePodCrashLooping", namespace: "payments", pod: "api-7d9f", severity: "critical" },
+      annotations: {
+        summary: "Pod payments/api-7d9f is crash looping",
+        description: "Pod payments/api-7d9f (api) is in waiting state (reason: CrashLoopBackOff).",
+      },
+      startsAt: "2025-01-10T08:12:41.123Z",
+      endsAt: "0001-01-01T00:00:00Z",
+      generatorURL: "http://prometheus.monitoring:9090/graph?g0.expr=...",
+      fingerprint: "5f8c1a2b3d4e6f70",
+    },
+  ],
+};
+
+const resolvedPayload = {
+  ...firingPayload,
+  status: "resolved",
+  alerts: [{ ...firingPayload.alerts[0], status: "resolved", endsAt: "2025-01-10T08:31:02.456Z" }],
+};
+
+function createEvent(body: unknown, key = INTEGRATION_KEY): APIGatewayProxyEventV2 {
+  return {
+    version: "2.0",
+    routeKey: "POST /integrations/{integration_key}/events",
+    rawPath: `/integrations/${key}/events`,
+    rawQueryString: "",
+    headers: {},
+    pathParameters: { integration_key: key },
+    requestContext: {
+      http: { method: "POST", path: `/integrations/${key}/events` },
+    },
+    body: JSON.stringify(body),
+    isBase64Encoded: false,
+  } as unknown as APIGatewayProxyEventV2;
+}
+
+async function send(body: unknown, key?: string) {
+  const response = (await handler(createEvent(body, key))) as { statusCode: number; body: string };
+  return { statusCode: response.statusCode, body: JSON.parse(response.body) };
+}
+
+function seed({ onCall = true, severityLabel }: { onCall?: boolean; severityLabel?: string } = {}) {
+  db.reset();
+  db.table("teams").push({
+    team_id: "team-k8s",
+    name: "Platform",
+    aws_account_ids: [],
+    escalation_policy: { levels: [] },
+    created_at: 1,
+  });
+  db.table("integrations").push({
+    team_id: "team-k8s",
+    integration_id: "int-1",
+    name: "Alertmanager",
+    type: "alertmanager",
+    integration_key: INTEGRATION_KEY,
+    ...(severityLabel ? { severity_label: severityLabel } : {}),
+    created_at: 1,
+  });
+  if (onCall) {
+    db.table("schedules").push({
+      team_id: "team-k8s",
+      slot_id: "slot-1",
+      user_id: "user-oncall",
+      start: Date.now() - 60_000,
+      end: Date.now() + 60_000,
+    });
+  }
+}
+
+describe("integration events handler (alertmanager)", () => {
+  beforeEach(() => {
+    seed();
+  });
+
+  it("creates an incident for a firing alert", async () => {
+    const response = await send(firingPayload);
+
+    expect(response.statusCode).toBe(202);
+    expect(response.body.results).toEqual([
+      { dedup_key: "5f8c1a2b3d4e6f70", status: "created", incident_id: expect.any(String) },
+    ]);
+
+    const [incident] = db.table("incidents") as Record<string, any>[];
+    expect(incident).toMatchObject({
+      team_id: "team-k8s",
+      alarm_name: "Pod payments/api-7d9f is crash looping",
+      dedup_key: "int-1:5f8c1a2b3d4e6f70",
+      source: "Alertmanager",
+      state: "triggered",
+      severity: "critical",
+      assigned_to: "user-oncall",
+    });
+    expect(incident.custom_details.labels.pod).toBe("api-7d9f");
+    expect(incident.timeline[0].note).toContain("CrashLoopBackOff");
+  });
+
+  it("folds a repeated firing notification into the open incident", async () => {
+    await send(firingPayload);
+    const response = await send(firingPayload);
+
+    expect(response.body.results[0].status).toBe("deduplicated");
+    const incidents = db.table("incidents") as Record<string, any>[];
+    expect(incidents).toHaveLength(1);
+    expect(incidents[0].alarm_count).toBe(2);
+    expect(incidents[0].timeline.map((entry: { event: string }) => entry.event)).toEqual(["triggered", "retriggered"]);
+  });
+
+  it("resolves the incident when the alert resolves", async () => {
+    await send(firingPayload);
+    const response = await send(resolvedPayload);
+
+    expect(response.body.results[0].status).toBe("cleared");
+    const [incident] = db.table("incidents") as Record<string, any>[];
+    expect(incident.state).toBe("resolved");
+    expect(incident.timeline[incident.timeline.length - 1]).toMatchObject({ event: "resolved", actor: "Alertmanager" });
+  });
+
+  it("handles firing and resolved alerts in one group", async () => {
+    await send(firingPayload);
+    const second = { ...firingPayload.alerts[0], fingerprint: "aa11bb22cc33dd44", labels: { ...firingPayload.alerts[0].labels, pod: "api-8x2k" } };
+    const response = await send({ ...firingPayload, alerts: [resolvedPayload.alerts[0], second] });
+
+    expect(response.body.results.map((result: { status: string }) => result.status)).toEqual(["cleared", "created"]);
+    const states = (db.table("incidents") as Record<string, any>[]).map((incident) => incident.state).sort();
+    expect(states).toEqual(["resolved", "triggered"]);
+  });
+
+  it("reads severity from the configured label", async () => {
+    seed({ severityLabel: "priority" });
+    const alert = { ...firingPayload.alerts[0], labels: { ...firingPayload.alerts[0].labels, severity: "critical", priority: "low" } };
+
+    await send({ ...firingPayload, alerts: [alert] });
+
+    const [incident] = db.table("incidents") as Record<string, any>[];
+    expect(incident.severity).toBe("info");
+  });
+
+  it("defaults unknown severity values to warning", async () => {
+    const alert = { ...firingPayload.alerts[0], labels: { alertname: "KubeJobFailed" }, annotations: {} };
+
+    await send({ ...firingPayload, alerts: [alert] });
+
+    const [incident] = db.table("incidents") as Record<string, any>[];
+    expect(incident).toMatchObject({ severity: "warning", alarm_name: "KubeJobFailed" });
+  });
+
+  it("parks the alert in the unrouted inbox when nobody is on call", async () => {
+    seed({ onCall: false });
+
+    const response = await send(firingPayload);
+
+    expect(response.body.results[0].status).toBe("unrouted");
+    expect(db.table("incidents")).toHaveLength(0);
+    expect(db.table("unrouted")).toEqual([
+      expect.objectContaining({ reason: "no_on_call", source: "integration", integration_id: "int-1", team_id: "team-k8s" }),
+    ]);
+  });
+
+  it("returns 404 for an unknown integration key", async () => {
+    const response = await send(firingPayload, "nope");
+
+    expect(response.statusCode).toBe(404);
+    expect(db.table("incidents")).toHaveLength(0);
+  });
+
+  it("rejects payloads that are not webhook version 4", async () => {
+    const response = await send({ ...firingPayload, version: "3" });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.body.error).toBe("Unsupported Alertmanager webhook version");
+  });
+});
+
+describe("integration events handler (generic)", () => {
+  const GENERIC_KEY = "generic-key-456";
+
+  beforeEach(() => {
+    seed();
+    db.table("integrations").push({
+      team_id: "team-k8s",
+      integration_id: "int-2",
+      name: "Uptime checks",
+      type: "generic",
+      integration_key: GENERIC_KEY,
+      created_at: 1,
+    });
+  });
+
+  it("triggers an incident with the event's severity and details", async () => {
+    const response = await send(
+      { summary: "Checkout is down", severity: "critical", dedup_key: "checkout", source: "Pingdom", details: "3 regions failing", custom_details: { url: "https://shop.example.com" } },
+      GENERIC_KEY
+    );
+
+    expect(response.statusCode).toBe(202);
+    expect(response.body.results).toEqual([{ dedup_key: "checkout", status: "created", incident_id: expect.any(String) }]);
+    const [incident] = db.table("incidents") as Record<string, unknown>[];
+    expect(incident).toMatchObject({
+      team_id: "team-k8s",
+      alarm_name: "Checkout is down",
+      dedup_key: "int-2:checkout",
+      source: "Pingdom",
+      severity: "critical",
+      custom_details: { url: "https://shop.example.com" },
+    });
+  });
+
+  it("returns a generated dedup key that resolves the incident later", async () => {
+    const triggered = await send({ summary: "Checkout is down" }, GENERIC_KEY);
+    const dedupKey = triggered.body.results[0].dedup_key;
+
+    const resolved = await send({ action: "resolve", dedup_key: dedupKey }, GENERIC_KEY);
+
+    expect(resolved.body.results[0].status).toBe("cleared");
+    expect(db.table("incidents")[0]).toMatchObject({ state: "resolved", severity: "critical", source: "Uptime checks" });
+  });
+
+  it.each([
+    ["an unknown action", { action: "ack", dedup_key: "x" }, "action must be trigger or resolve"],
+    ["a trigger without summary", { severity: "critical" }, "Missing summary"],
+    ["a resolve without dedup_key", { action: "resolve" }, "Missing dedup_key"],
+    ["an unknown severity", { summary: "x", severity: "sev1" }, "severity must be critical, warning or info"],
+  ])("rejects %s", async (_, body, error) => {
+    const response = await send(body, GENERIC_KEY);
+
+    expect(response).toEqual({ statusCode: 400, body: { error } });
+    expect(db.table("incidents")).toHaveLength(0);
+  });
+});
@@ -0,0 +1,59 @@
+import type { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from "aws-lambda";
+import { jsonResponse } from "../types/index.js";
+import { recordUnroutedAlert } from "../lib/alarms.js";
+import { getIntegrationByKey, parseIntegrationPayload, processIntegrationAlert } from "../lib/integrations.js";
+
+// Unauthenticated: the integration key in the path is the credential
+export async function handler(event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> {
+  const method = event.requestContext.http.method;
+  const path = event.rawPath;
+
+  try {
+    // POST /integrations/{integration_key}/events - Ingest events from an external monitor
+    if (method === "POST" && path.match(/^\/integrations\/[^/]+\/events$/)) {
+      const integrationKey = event.pathParameters?.integration_key;
+      if (!integrationKey) {
+        return jsonResponse(400, { error: "Missing integration key" });
+      }
+
+      const integration = await getIntegrationByKey(integrationKey);
+      if (!integration) {
+        return jsonResponse(404, { error: "Unknown integration key" });
+      }
+
+      let payload: unknown;
+      try {
+        payload = JSON.parse(event.body || "{}");
+      } catch {
+        return jsonResponse(400, { error: "Invalid JSON" });
+      }
+
+      const parsed = parseIntegrationPayload(integration, payload);
+      if ("error" in parsed) {
+        return jsonResponse(400, { error: parsed.error });
+      }
+
+      const results = [];
+      for (const alert of parsed.alerts) {
+        const outcome = await processIntegrationAlert(integration, alert);
+        if (outcome.status === "unrouted") {
+          const raw = JSON.stringify({ event: alert.event, severity: alert.severity });
+          await recordUnroutedAlert(alert.event, outcome, raw, integration);
+        }
+        results.push({
+          dedup_key: alert.dedup_key,
+          status: outcome.status,
+          ...("incident" in outcome ? { incident_id: outcome.incident.incident_id } : {}),
+        });
+      }
+
+      console.log(`[Integrations] ${integration.integration_id}: processed ${results.length} event(s)`);
+      return jsonResponse(202, { results });
+    }
+
+    return jsonResponse(404, { error: "Not found" });
+  } catch (error) {
+    console.error("Error:", error);
+    return jsonResponse(500, { error: "Internal server error" });
+  }
+}
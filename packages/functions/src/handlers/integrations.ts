@@ -0,0 +1,188 @@
+import type { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from "aws-lambda";
+import { docClient, PutCommand, DeleteCommand, QueryCommand, UpdateCommand } from "../lib/dynamo.js";
+import { jsonResponse, getUserIdFromEvent, Integration, IntegrationType } from "../types/index.js";
+import { generateIntegrationKey, getIntegration, INTEGRATION_TYPES } from "../lib/integrations.js";
+import { getTeam } from "../lib/teams.js";
+import { authorizeTeam } from "../lib/authz.js";
+import { randomUUID } from "crypto";
+
+const INTEGRATIONS_TABLE = process.env.INTEGRATIONS_TABLE!;
+
+export async function handler(event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> {
+  const userId = getUserIdFromEvent(event);
+  if (!userId) {
+    return jsonResponse(401, { error: "Unauthorized" });
+  }
+
+  const method = event.requestContext.http.method;
+  const path = event.rawPath;
+
+  try {
+    // GET /teams/{id}/integrations - List team integrations
+    if (method === "GET" && path.match(/^\/teams\/[^/]+\/integrations$/)) {
+      const teamId = event.pathParameters?.id;
+      if (!teamId) {
+        return jsonResponse(400, { error: "Missing team ID" });
+      }
+
+      const denied = await authorizeTeam(userId, teamId, "admin");
+      if (denied) {
+        return jsonResponse(403, { error: denied });
+      }
+
+      const result = await docClient.send(
+        new QueryCommand({
+          TableName: INTEGRATIONS_TABLE,
+          KeyConditionExpression: "team_id = :tid",
+          ExpressionAttributeValues: { ":tid": teamId },
+        })
+      );
+
+      return jsonResponse(200, { integrations: ((result.Items as Integration[]) || []).map(withoutKey) });
+    }
+
+    // POST /teams/{id}/integrations - Create integration with a fresh key
+    if (method === "POST" && path.match(/^\/teams\/[^/]+\/integrations$/)) {
+      const teamId = event.pathParameters?.id;
+      if (!teamId) {
+        return jsonResponse(400, { error: "Missing team ID" });
+      }
+
+      const denied = await authorizeTeam(userId, teamId, "admin");
+      if (denied) {
+        return jsonResponse(403, { error: denied });
+      }
+
+      const body = JSON.parse(event.body || "{}");
+      const { name, type = "generic", severity_label } = body;
+      if (!name) {
+        return jsonResponse(400, { error: "Missing name" });
+      }
+      if (!INTEGRATION_TYPES.includes(type)) {
+        return jsonResponse(400, { error: "Invalid type" });
+      }
+      if (severity_label !== undefined && (type !== "alertmanager" || typeof severity_label !== "string" || !severity_label)) {
+        return jsonResponse(400, { error: "severity_label only applies to alertmanager integrations" });
+      }
+
+      const team = await getTeam(teamId);
+      if (!team) {
+        return jsonResponse(404, { error: "Team not found" });
+      }
+
+      const integration: Integration = {
+        team_id: teamId,
+        integration_id: randomUUID(),
+        name,
+        type: type as IntegrationType,
+        integration_key: generateIntegrationKey(),
+        ...(severity_label ? { severity_label } : {}),
+        created_at: Date.now(),
+      };
+
+      await docClient.send(
+        new PutCommand({
+          TableName: INTEGRATIONS_TABLE,
+          Item: integration,
+        })
+      );
+
+      return jsonResponse(201, { integration });
+    }
+
+    // PUT /teams/{id}/integrations/{integration_id} - Rename, change severity label or rotate key
+    if (method === "PUT" && path.match(/^\/teams\/[^/]+\/integrations\/[^/]+$/)) {
+      const teamId = event.pathParameters?.id;
+      const integrationId = event.pathParameters?.integration_id;
+      if (!teamId || !integrationId) {
+        return jsonResponse(400, { error: "Missing team ID or integration ID" });
+      }
+
+      const denied = await authorizeTeam(userId, teamId, "admin");
+      if (denied) {
+        return jsonResponse(403, { error: denied });
+      }
+
+      const existing = await getIntegration(teamId, integrationId);
+      if (!existing) {
+        return jsonResponse(404, { error: "Integration not found" });
+      }
+
+      const body = JSON.parse(event.body || "{}");
+      const updates: string[] = [];
+      const exprValues: Record<string, unknown> = {};
+      const exprNames: Record<string, string> = {};
+
+      if (body.name) {
+        updates.push("#name = :name");
+        exprNames["#name"] = "name";
+        exprValues[":name"] = body.name;
+      }
+      if (body.severity_label !== undefined) {
+        if (existing.type !== "alertmanager" || typeof body.severity_label !== "string" || !body.severity_label) {
+          return jsonResponse(400, { error: "severity_label only applies to alertmanager integrations" });
+        }
+        updates.push("severity_label = :severityLabel");
+        exprValues[":severityLabel"] = body.severity_label;
+      }
+      // The old key stops working immediately
+      if (body.rotate_key) {
+        updates.push("integration_key = :key");
+        exprValues[":key"] = generateIntegrationKey();
+      }
+
+      if (updates.length === 0) {
+        return jsonResponse(400, { error: "No updates provided" });
+      }
+
+      const result = await docClient.send(
+        new UpdateCommand({
+          TableName: INTEGRATIONS_TABLE,
+          Key: { team_id: teamId, integration_id: integrationId },
+          UpdateExpression: `SET ${updates.join(", ")}`,
+          ExpressionAttributeNames: Object.keys(exprNames).length > 0 ? exprNames : undefined,
+          ExpressionAttributeValues: exprValues,
+          ReturnValues: "ALL_NEW",
+        })
+      );
+
+      // A rotated key is shown once, like a new integration's; otherwise it stays hidden
+      const integration = result.Attributes as Integration;
+      return jsonResponse(200, { integration: body.rotate_key ? integration : withoutKey(integration) });
+    }
+
+    // DELETE /teams/{id}/integrations/{integration_id} - Delete integration
+    if (method === "DELETE" && path.match(/^\/teams\/[^/]+\/integrations\/[^/]+$/)) {
+      const teamId = event.pathParameters?.id;
+      const integrationId = event.pathParameters?.integration_id;
+      if (!teamId || !integrationId) {
+        return jsonResponse(400, { error: "Missing team ID or integration ID" });
+      }
+
+      const denied = await authorizeTeam(userId, teamId, "admin");
+      if (denied) {
+        return jsonResponse(403, { error: denied });
+      }
+
+      await docClient.send(
+        new DeleteCommand({
+          TableName: INTEGRATIONS_TABLE,
+          Key: { team_id: teamId, integration_id: integrationId },
+        })
+      );
+
+      return jsonResponse(200, { message: "Integration deleted" });
+    }
+
+    return jsonResponse(404, { error: "Not found" });
+  } catch (error) {
+    console.error("Error:", error);
+    return jsonResponse(500, { error: "Internal server error" });
+  }
+}
+
+// The key authorizes posting alerts into the team, so it's only returned when created or rotated
+function withoutKey(integration: Integration): Omit<Integration, "integration_key"> {
+  const { integration_key: _key, ...rest } = integration;
+  return rest;
+}
@@ -0,0 +1,229 @@
+import type { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from "aws-lambda";
+import { docClient, DeleteCommand, GetCommand, PutCommand, QueryCommand, UpdateCommand } from "../lib/dynamo.js";
+import { jsonResponse, getUserIdFromEvent, getProfileFromEvent, Invite, Membership, TeamRole } from "../types/index.js";
+import { getMembership, getTeam } from "../lib/teams.js";
+import { authorizeTeam, TEAM_ROLES } from "../lib/authz.js";
+import { saveUserProfile } from "../lib/users.js";
+import { randomBytes } from "crypto";
+
+const INVITES_TABLE = process.env.INVITES_TABLE!;
+const MEMBERSHIPS_TABLE = process.env.MEMBERSHIPS_TABLE!;
+
+const INVITE_EXPIRY_DAYS = 7;
+const INVITE_RETENTION_SECONDS = 7 * 24 * 60 * 60;
+
+// No 0/O or 1/I, so codes survive being read out or retyped
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 8;
+
+export async function handler(event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> {
+  const userId = getUserIdFromEvent(event);
+  if (!userId) {
+    return jsonResponse(401, { error: "Unauthorized" });
+  }
+
+  const method = event.requestContext.http.method;
+  const path = event.rawPath;
+
+  try {
+    // GET /teams/{id}/invites - List pending invites
+    if (method === "GET" && path.match(/^\/teams\/[^/]+\/invites$/)) {
+      const teamId = event.pathParameters?.id;
+      if (!teamId) {
+        return jsonResponse(400, { error: "Missing team ID" });
+      }
+
+      const denied = await authorizeTeam(userId, teamId, "admin");
+      if (denied) {
+        return jsonResponse(403, { error: denied });
+      }
+
+      const result = await docClient.send(
+        new QueryCommand({
+          TableName: INVITES_TABLE,
+          IndexName: "team-index",
+          KeyConditionExpression: "team_id = :tid",
+          ExpressionAttributeValues: { ":tid": teamId },
+          ScanIndexForward: false,
+        })
+      );
+      const now = Date.now();
+      const invites = ((result.Items as Invite[]) || []).filter((invite) => !invite.accepted_at && invite.expires_at > now);
+
+      return jsonResponse(200, { invites });
+    }
+
+    // POST /teams/{id}/invites - Invite an email address
+    if (method === "POST" && path.match(/^\/teams\/[^/]+\/invites$/)) {
+      const teamId = event.pathParameters?.id;
+      if (!teamId) {
+        return jsonResponse(400, { error: "Missing team ID" });
+      }
+
+      const body = JSON.parse(event.body || "{}");
+      const role: TeamRole = body.role ?? "responder";
+      const validationError = validateInvite(body.email, role);
+      if (validationError) {
+        return jsonResponse(400, { error: validationError });
+      }
+
+      // Handing out the owner role takes an owner, as it does for existing members
+      const denied = await authorizeTeam(userId, teamId, role === "owner" ? "owner" : "admin");
+      if (denied) {
+        return jsonResponse(403, { error: denied });
+      }
+
+      const now = Date.now();
+      const expiresAt = now + INVITE_EXPIRY_DAYS * 24 * 60 * 60 * 1000;
+      const invite: Invite = {
+        code: generateCode(),
+        team_id: teamId,
+        email: body.email.trim().toLowerCase(),
+        role,
+        invited_by: userId,
+        created_at: now,
+        expires_at: expiresAt,
+        ttl: Math.floor(expiresAt / 1000) + INVITE_RETENTION_SECONDS,
+      };
+
+      await docClient.send(
+        new PutCommand({
+          TableName: INVITES_TABLE,
+          Item: invite,
+          ConditionExpression: "attribute_not_exists(code)",
+        })
+      );
+
+      return jsonResponse(201, { invite });
+    }
+
+    // DELETE /teams/{id}/invites/{code} - Revoke an invite
+    if (method === "DELETE" && path.match(/^\/teams\/[^/]+\/invites\/[^/]+$/)) {
+      const teamId = event.pathParameters?.id;
+      const code = event.pathParameters?.code;
+      if (!teamId || !code) {
+        return jsonResponse(400, { error: "Missing team ID or code" });
+      }
+
+      const denied = await authorizeTeam(userId, teamId, "admin");
+      if (denied) {
+        return jsonResponse(403, { error: denied });
+      }
+
+      const invite = await getInvite(code);
+      if (!invite || invite.team_id !== teamId) {
+        return jsonResponse(404, { error: "Invite not found" });
+      }
+
+      await docClient.send(
+        new DeleteCommand({
+          TableName: INVITES_TABLE,
+          Key: { code: invite.code },
+        })
+      );
+
+      return jsonResponse(200, { message: "Invite revoked" });
+    }
+
+    // POST /invites/{code}/accept - Join the team as the invited email
+    if (method === "POST" && path.match(/^\/invites\/[^/]+\/accept$/)) {
+      const code = event.pathParameters?.code;
+      if (!code) {
+        return jsonResponse(400, { error: "Missing code" });
+      }
+
+      const invite = await getInvite(code);
+      if (!invite) {
+        return jsonResponse(404, { error: "Invite not found" });
+      }
+
+      const now = Date.now();
+      if (invite.accepted_at) {
+        return jsonResponse(410, { error: "Invite has already been used" });
+      }
+      if (invite.expires_at <= now) {
+        return jsonResponse(410, { error: "Invite has expired" });
+      }
+
+      // The code alone isn't enough: it has to reach the inbox it was sent to
+      const profile = getProfileFromEvent(event);
+      if (!profile || profile.email.toLowerCase() !== invite.email) {
+        return jsonResponse(403, { error: "This invite was sent to a different email address" });
+      }
+
+      const team = await getTeam(invite.team_id);
+      if (!team) {
+        return jsonResponse(404, { error: "Team not found" });
+      }
+
+      if (await getMembership(invite.team_id, userId)) {
+        return jsonResponse(409, { error: "Already a member" });
+      }
+
+      // Two accepts racing on one code: only the first gets through
+      try {
+        await docClient.send(
+          new UpdateCommand({
+            TableName: INVITES_TABLE,
+            Key: { code: invite.code },
+            UpdateExpression: "SET accepted_by = :uid, accepted_at = :now",
+            ConditionExpression: "attribute_not_exists(accepted_at) AND expires_at > :now",
+            ExpressionAttributeValues: { ":uid": userId, ":now": now },
+          })
+        );
+      } catch (error) {
+        if ((error as Error).name === "ConditionalCheckFailedException") {
+          return jsonResponse(410, { error: "Invite has already been used" });
+        }
+        throw error;
+      }
+
+      const membership: Membership = {
+        team_id: invite.team_id,
+        user_id: userId,
+        role: invite.role,
+        created_at: now,
+      };
+
+      await docClient.send(
+        new PutCommand({
+          TableName: MEMBERSHIPS_TABLE,
+          Item: membership,
+        })
+      );
+      await saveUserProfile(userId, profile.email, profile.name);
+
+      return jsonResponse(200, { team: { ...team, role: membership.role } });
+    }
+
+    return jsonResponse(404, { error: "Not found" });
+  } catch (error) {
+    console.error("[Invites] Error:", error);
+    return jsonResponse(500, { error: "Internal server error" });
+  }
+}
+
+// Codes are entered by hand, so ignore case, spaces and dashes
+async function getInvite(code: string): Promise<Invite | null> {
+  const result = await docClient.send(
+    new GetCommand({
+      TableName: INVITES_TABLE,
+      Key: { code: code.toUpperCase().replace(/[\s-]/g, "") },
+    })
+  );
+  return (result.Item as Invite) || null;
+}
+
+function generateCode(): string {
+  return Array.from(randomBytes(CODE_LENGTH), (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join("");
+}
+
+function validateInvite(email: unknown, role: unknown): string | null {
+  if (typeof email !== "string" || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())) {
+    return "Invalid email";
+  }
+  if (!TEAM_ROLES.includes(role as TeamRole)) {
+    return "Invalid role";
+  }
+  return null;
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { createDynamoFake } from "../test/dynamo-fake.js";
+
+// Table names are read at import time
+vi.hoisted(() => {
+  process.env.USERS_TABLE = "users";
+  process.env.TEAMS_TABLE = "teams";
+  process.env.MEMBERSHIPS_TABLE = "memberships";
+});
+
+vi.mock("../lib/dynamo.js", async () => {
+  const { createDynamoFake, fakeCommands } = await import("../test/dynamo-fake.js");
+  const docClient = createDynamoFake({
+    users: ["user_id"],
+    teams: ["team_id"],
+    memberships: ["team_id", "user_id"],
+  });
+  return { docClient, ...fakeCommands };
+});
+
+import { handler } from "./migrate-memberships.js";
+import { docClient } from "../lib/dynamo.js";
+
+const db = docClient as unknown as ReturnType<typeof createDynamoFake>;
+
+const roles = () =>
+  (db.table("memberships") as Record<string, unknown>[]).map((membership) => `${membership.team_id}/${membership.user_id}=${membership.role}`).sort();
+
+describe("membership migration", () => {
+  beforeEach(() => {
+    db.reset();
+    db.table("teams").push(
+      { team_id: "team-a", name: "A", aws_account_ids: [], escalation_policy: { levels: [] }, owner_user_id: "alice", created_at: 1 },
+      { team_id: "team-b", name: "B", aws_account_ids: [], escalation_policy: { levels: [] }, owner_user_id: "carol", created_at: 2 }
+    );
+    db.table("users").push(
+      { user_id: "alice", email: "alice@example.com", name: "Alice", team_ids: ["team-a", "team-b"], created_at: 1 },
+      { user_id: "bob", email: "bob@example.com", name: "Bob", team_ids: ["team-a", "team-gone"], created_at: 1 },
+      { user_id: "carol", email: "carol@example.com", name: "Carol", created_at: 1 }
+    );
+    // Already migrated by hand, with a narrower role
+    db.table("memberships").push({ team_id: "team-b", user_id: "alice", role: "observer", created_at: 1 });
+  });
+
+  it("turns team_ids into memberships, owners as owners", async () => {
+    const summary = await handler();
+
+    expect(summary).toEqual({ users: 2, memberships_created: 2 });
+    expect(roles()).toEqual(["team-a/alice=owner", "team-a/bob=responder", "team-b/alice=observer"]);
+    expect(db.table("users").every((user) => !("team_ids" in user))).toBe(true);
+  });
+
+  it("makes the first member the owner of a team from before owners", async () => {
+    db.table("teams").push({ team_id: "team-old", name: "Old", aws_account_ids: [], escalation_policy: { levels: [] }, created_at: 3 });
+    db.table("users").push(
+      { user_id: "dave", email: "dave@example.com", name: "Dave", team_ids: ["team-old"], created_at: 1 },
+      { user_id: "erin", email: "erin@example.com", name: "Erin", team_ids: ["team-old"], created_at: 1 }
+    );
+
+    await handler();
+
+    expect(roles()).toEqual(expect.arrayContaining(["team-old/dave=owner", "team-old/erin=responder"]));
+    expect(db.table("teams").find((team) => team.team_id === "team-old")?.owner_user_id).toBe("dave");
+  });
+
+  it("does nothing the second time", async () => {
+    await handler();
+    const summary = await handler();
+
+    expect(summary).toEqual({ users: 0, memberships_created: 0 });
+    expect(roles()).toHaveLength(3);
+  });
+});
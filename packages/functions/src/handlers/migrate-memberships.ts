@@ -0,0 +1,107 @@
+import { docClient, PutCommand, ScanCommand, UpdateCommand } from "../lib/dynamo.js";
+import { Membership, TeamRole } from "../types/index.js";
+import { getTeam } from "../lib/teams.js";
+
+const USERS_TABLE = process.env.USERS_TABLE!;
+const MEMBERSHIPS_TABLE = process.env.MEMBERSHIPS_TABLE!;
+const TEAMS_TABLE = process.env.TEAMS_TABLE!;
+
+// Before team roles, membership lived on the user record
+interface LegacyUser {
+  user_id: string;
+  team_ids?: string[];
+}
+
+export interface MembershipMigrationSummary {
+  users: number;
+  memberships_created: number;
+}
+
+/**
+ * Moves legacy User.team_ids into the memberships table and drops the
+ * attribute. A deploy trigger runs it once, but a retried deploy runs it again,
+ * so it is safe to repeat: existing memberships keep their role and users
+ * without team_ids are skipped. Team owners become owners; everyone else
+ * could ack before roles existed, so they become responders. Teams from
+ * before owner_user_id have no owner to keep, so the first member migrated
+ * becomes theirs; otherwise nobody could manage the team.
+ */
+export async function handler(): Promise<MembershipMigrationSummary> {
+  const summary: MembershipMigrationSummary = { users: 0, memberships_created: 0 };
+
+  let startKey: Record<string, unknown> | undefined;
+  do {
+    const result = await docClient.send(
+      new ScanCommand({
+        TableName: USERS_TABLE,
+        FilterExpression: "attribute_exists(team_ids)",
+        ...(startKey ? { ExclusiveStartKey: startKey } : {}),
+      })
+    );
+
+    for (const user of (result.Items as LegacyUser[]) || []) {
+      for (const teamId of user.team_ids || []) {
+        const team = await getTeam(teamId);
+        if (!team) continue;
+        const claimsOwnership = team.owner_user_id === undefined;
+        const role = claimsOwnership || team.owner_user_id === user.user_id ? "owner" : "responder";
+        if (await createMembership(teamId, user.user_id, role)) {
+          summary.memberships_created++;
+          if (claimsOwnership) {
+            await backfillOwner(teamId, user.user_id);
+          }
+        }
+      }
+
+      await docClient.send(
+        new UpdateCommand({
+          TableName: USERS_TABLE,
+          Key: { user_id: user.user_id },
+          UpdateExpression: "REMOVE team_ids",
+        })
+      );
+      summary.users++;
+    }
+    startKey = result.LastEvaluatedKey;
+  } while (startKey);
+
+  console.log(`[MigrateMemberships] Migrated ${summary.users} users, created ${summary.memberships_created} memberships`);
+  return summary;
+}
+
+// The team's paging contact; another owner set in the meantime is kept
+async function backfillOwner(teamId: string, userId: string): Promise<void> {
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: TEAMS_TABLE,
+        Key: { team_id: teamId },
+        UpdateExpression: "SET owner_user_id = :uid",
+        ConditionExpression: "attribute_not_exists(owner_user_id)",
+        ExpressionAttributeValues: { ":uid": userId },
+      })
+    );
+  } catch (error) {
+    if ((error as Error).name !== "ConditionalCheckFailedException") throw error;
+  }
+}
+
+// False when the user already has a membership, which then wins
+async function createMembership(teamId: string, userId: string, role: TeamRole): Promise<boolean> {
+  const membership: Membership = { team_id: teamId, user_id: userId, role, created_at: Date.now() };
+  try {
+    await docClient.send(
+      new PutCommand({
+        TableName: MEMBERSHIPS_TABLE,
+        Item: membership,
+        ConditionExpression: "attribute_not_exists(user_id)",
+      })
+    );
+    return true;
+  } catch (error) {
+    if ((error as Error).name === "ConditionalCheckFailedException") {
+      return false;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,9 @@
+import type { Context } from "aws-lambda";
+import { sendDigest, NotificationDigest } from "../lib/notifications.js";
+
+// Invoked by EventBridge Scheduler when a user's quiet hours or do-not-disturb end
+export async function handler(event: NotificationDigest, context?: Context): Promise<void> {
+  console.log(`[NotificationDigest] Digest for ${event.user_id}`);
+  // A window extended since scheduling reschedules this same function
+  await sendDigest(event.user_id, context?.invokedFunctionArn);
+}
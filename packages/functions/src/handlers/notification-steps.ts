@@ -0,0 +1,47 @@
+import { docClient, GetCommand } from "../lib/dynamo.js";
+import { Incident } from "../types/index.js";
+import { getUser } from "../lib/users.js";
+import { deliverRule, NotificationStep } from "../lib/notifications.js";
+
+const INCIDENTS_TABLE = process.env.INCIDENTS_TABLE!;
+
+// Invoked by EventBridge Scheduler for notification rules with a delay
+export async function handler(event: NotificationStep): Promise<void> {
+  const { incident_id: incidentId, user_id: userId, rule_id: ruleId } = event;
+  console.log(`[NotificationSteps] Rule ${ruleId} for ${userId} on incident ${incidentId}`);
+
+  const result = await docClient.send(
+    new GetCommand({
+      TableName: INCIDENTS_TABLE,
+      Key: { incident_id: incidentId },
+    })
+  );
+  const incident = result.Item as Incident | undefined;
+
+  // "If not acked": acked, resolved or flapping incidents need no reminder
+  if (!incident || incident.state !== "triggered" || incident.flapping) {
+    console.log(`[NotificationSteps] Skipping ${incidentId}: ${incident ? incident.state : "not found"}`);
+    return;
+  }
+
+  // The user may have changed or removed the rule since it was scheduled
+  const user = await getUser(userId);
+  const rule = user?.notification_rules?.find((candidate) => candidate.rule_id === ruleId);
+  if (!user || !rule) {
+    console.log(`[NotificationSteps] Skipping ${incidentId}: rule ${ruleId} no longer exists`);
+    return;
+  }
+
+  const critical = incident.severity === "critical";
+  await deliverRule(
+    user,
+    rule,
+    {
+      title: `⏰ UNACKED ${incident.severity.toUpperCase()}: ${incident.alarm_name}`,
+      body: `Still unacknowledged after ${rule.delay_minutes} minutes`,
+      sound: critical ? "critical_alarm.caf" : "default",
+      interruptionLevel: critical ? "critical" : "time-sensitive",
+    },
+    incident
+  );
+}
@@ -0,0 +1,133 @@
+import type { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from "aws-lambda";
+import { jsonResponse, getUserIdFromEvent, AwsAccountStatus } from "../types/index.js";
+import { getTeam } from "../lib/teams.js";
+import { authorizeTeam } from "../lib/authz.js";
+import {
+  accountDeliveryStatus,
+  getAccountStatus,
+  issueChallenge,
+  onboardingSnippets,
+  verificationAlarmName,
+  verificationCommands,
+  DeliveryTargets,
+} from "../lib/onboarding.js";
+
+const DELIVERY_TARGETS: DeliveryTargets = {
+  topicArn: process.env.ALARMS_TOPIC_ARN!,
+  busArn: process.env.ALARM_EVENT_BUS_ARN!,
+};
+
+export async function handler(event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> {
+  const userId = getUserIdFromEvent(event);
+  if (!userId) {
+    return jsonResponse(401, { error: "Unauthorized" });
+  }
+
+  const method = event.requestContext.http.method;
+  const path = event.rawPath;
+
+  try {
+    // GET /teams/{id}/onboarding - Delivery status of each team account
+    if (method === "GET" && path.match(/^\/teams\/[^/]+\/onboarding$/)) {
+      const teamId = event.pathParameters?.id;
+      if (!teamId) {
+        return jsonResponse(400, { error: "Missing team ID" });
+      }
+
+      const denied = await authorizeTeam(userId, teamId);
+      if (denied) {
+        return jsonResponse(403, { error: denied });
+      }
+
+      const team = await getTeam(teamId);
+      if (!team) {
+        return jsonResponse(404, { error: "Team not found" });
+      }
+
+      const accounts = await Promise.all(
+        team.aws_account_ids.map(async (accountId) => accountSummary(accountId, teamId, await getAccountStatus(accountId)))
+      );
+      return jsonResponse(200, { accounts });
+    }
+
+    // GET /teams/{id}/onboarding/{account_id} - Setup snippets and status for one account
+    if (method === "GET" && path.match(/^\/teams\/[^/]+\/onboarding\/[^/]+$/)) {
+      const teamId = event.pathParameters?.id;
+      const accountId = event.pathParameters?.account_id;
+      if (!teamId || !accountId) {
+        return jsonResponse(400, { error: "Missing team ID or account ID" });
+      }
+
+      const denied = await authorizeTeam(userId, teamId);
+      if (denied) {
+        return jsonResponse(403, { error: denied });
+      }
+
+      const team = await getTeam(teamId);
+      if (!team) {
+        return jsonResponse(404, { error: "Team not found" });
+      }
+      if (!team.aws_account_ids.includes(accountId)) {
+        return jsonResponse(404, { error: "Account is not listed on the team" });
+      }
+
+      return jsonResponse(200, {
+        ...accountSummary(accountId, teamId, await getAccountStatus(accountId)),
+        ...onboardingSnippets(accountId, DELIVERY_TARGETS),
+      });
+    }
+
+    // POST /teams/{id}/onboarding/{account_id}/verify - Issue a challenge nonce
+    if (method === "POST" && path.match(/^\/teams\/[^/]+\/onboarding\/[^/]+\/verify$/)) {
+      const teamId = event.pathParameters?.id;
+      const accountId = event.pathParameters?.account_id;
+      if (!teamId || !accountId) {
+        return jsonResponse(400, { error: "Missing team ID or account ID" });
+      }
+
+      const denied = await authorizeTeam(userId, teamId, "admin");
+      if (denied) {
+        return jsonResponse(403, { error: denied });
+      }
+
+      const body = JSON.parse(event.body || "{}");
+      const deliveryMethod = body.method ?? "eventbridge";
+      if (deliveryMethod !== "sns" && deliveryMethod !== "eventbridge") {
+        return jsonResponse(400, { error: "method must be sns or eventbridge" });
+      }
+
+      const team = await getTeam(teamId);
+      if (!team) {
+        return jsonResponse(404, { error: "Team not found" });
+      }
+      if (!team.aws_account_ids.includes(accountId)) {
+        return jsonResponse(404, { error: "Account is not listed on the team" });
+      }
+
+      const challenge = await issueChallenge(accountId, teamId);
+      return jsonResponse(201, {
+        nonce: challenge.nonce,
+        alarm_name: verificationAlarmName(challenge.nonce),
+        expires_at: challenge.expires_at,
+        commands: verificationCommands(challenge.nonce, deliveryMethod, DELIVERY_TARGETS),
+      });
+    }
+
+    return jsonResponse(404, { error: "Not found" });
+  } catch (error) {
+    console.error("Error:", error);
+    return jsonResponse(500, { error: "Internal server error" });
+  }
+}
+
+// The challenge nonce is only handed out by the verify call; teams only see their own challenge
+function accountSummary(accountId: string, teamId: string, account: AwsAccountStatus | null) {
+  const challenge = account?.challenges?.[teamId];
+  return {
+    aws_account_id: accountId,
+    status: accountDeliveryStatus(account),
+    ...(account?.verified_at ? { verified_at: account.verified_at } : {}),
+    ...(account?.last_alarm_at ? { last_alarm_at: account.last_alarm_at, last_alarm_name: account.last_alarm_name } : {}),
+    ...(challenge ? { challenge_expires_at: challenge.expires_at } : {}),
+  };
+}
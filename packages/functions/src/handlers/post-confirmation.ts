@@ -0,0 +1,16 @@
+import type { PostConfirmationTriggerEvent } from "aws-lambda";
+import { saveUserProfile } from "../lib/users.js";
+
+// Cognito post-confirmation trigger: gives new sign-ups a directory entry
+export async function handler(event: PostConfirmationTriggerEvent): Promise<PostConfirmationTriggerEvent> {
+  // Also fires for password resets, which don't change the profile
+  if (event.triggerSource !== "PostConfirmation_ConfirmSignUp") {
+    return event;
+  }
+
+  const { sub, email, name } = event.request.userAttributes;
+  console.log(`[PostConfirmation] Saving profile for user: ${sub}`);
+  await saveUserProfile(sub, email, name);
+
+  return event;
+}
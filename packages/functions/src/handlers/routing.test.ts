@@ -0,0 +1,205 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { APIGatewayProxyEventV2, APIGatewayProxyStructuredResultV2 } from "aws-lambda";
+import type { createDynamoFake } from "../test/dynamo-fake.js";
+
+// Table names are read at import time
+vi.hoisted(() => {
+  process.env.TEAMS_TABLE = "teams";
+  process.env.MEMBERSHIPS_TABLE = "memberships";
+  process.env.ROUTING_RULES_TABLE = "routing";
+  process.env.AWS_ACCOUNTS_TABLE = "accounts";
+});
+
+vi.mock("../lib/dynamo.js", async () => {
+  const { createDynamoFake, fakeCommands } = await import("../test/dynamo-fake.js");
+  const docClient = createDynamoFake({
+    teams: ["team_id"],
+    memberships: ["team_id", "user_id"],
+    routing: ["team_id", "rule_id"],
+    accounts: ["aws_account_id"],
+  });
+  return { docClient, ...fakeCommands };
+});
+
+import { handler } from "./routing.js";
+import { docClient } from "../lib/dynamo.js";
+
+const db = docClient as unknown as ReturnType<typeof createDynamoFake>;
+
+const ALICE = "user-alice";
+const ACCOUNT = "123456789012";
+
+function request(method: string, rawPath: string, body?: unknown, pathParameters?: Record<string, string>): APIGatewayProxyEventV2 {
+  return {
+    version: "2.0",
+    routeKey: "$default",
+    rawPath,
+    rawQueryString: "",
+    headers: {},
+    pathParameters,
+    body: body === undefined ? undefined : JSON.stringify(body),
+    requestContext: {
+      http: { method, path: rawPath },
+      authorizer: { jwt: { claims: { sub: ALICE } } },
+    },
+    isBase64Encoded: false,
+  } as unknown as APIGatewayProxyEventV2;
+}
+
+async function call(event: APIGatewayProxyEventV2) {
+  const response = (await handler(event)) as APIGatewayProxyStructuredResultV2;
+  return { status: response.statusCode, body: JSON.parse(response.body || "{}") };
+}
+
+const explain = (alarmName: string, account = ACCOUNT) =>
+  call(request("POST", "/routing/test", { message: { AWSAccountId: account, AlarmName: alarmName, NewStateValue: "ALARM" } }));
+
+const createRule = (rule: Record<string, unknown>) => call(request("POST", "/teams/team-a/routing-rules", rule, { id: "team-a" }));
+
+describe("routing rules", () => {
+  beforeEach(() => {
+    db.reset();
+    db.table("teams").push({
+      team_id: "team-a",
+      name: "Platform",
+      aws_account_ids: [ACCOUNT],
+      escalation_policy: { levels: [{ delay_minutes: 5, target: "on_call" }] },
+      created_at: 1,
+    });
+    db.table("memberships").push({ team_id: "team-a", user_id: ALICE, role: "admin", created_at: 1 });
+  });
+
+  it("routes by the first matching rule in priority order", async () => {
+    await createRule({ name: "Databases", priority: 20, match: { alarm_name: "db-*" }, severity: "info" });
+    await createRule({
+      name: "Primary database",
+      priority: 10,
+      match: { alarm_name: "db-primary-*" },
+      severity: "critical",
+      escalation_policy: { levels: [{ delay_minutes: 1, target: "all_team" }] },
+    });
+
+    const { status, body } = await explain("db-primary-cpu");
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({
+      routed: true,
+      team_id: "team-a",
+      severity: "critical",
+      escalation_policy: { levels: [{ delay_minutes: 1, target: "all_team" }] },
+      reason: 'Matched rule "Primary database" (priority 10) of team "Platform"',
+    });
+    expect(body.evaluated.map((evaluation: { name: string; matched: boolean }) => [evaluation.name, evaluation.matched])).toEqual([
+      ["Primary database", true],
+      ["Databases", true],
+    ]);
+  });
+
+  it("falls back to the account owner and its policy when no rule matches", async () => {
+    await createRule({ name: "Databases", match: { alarm_name: "db-*" }, severity: "info" });
+
+    const { body } = await explain("api-5xx-critical");
+
+    expect(body).toMatchObject({
+      routed: true,
+      rule_id: null,
+      severity: "critical",
+      escalation_policy: { levels: [{ delay_minutes: 5, target: "on_call" }] },
+      reason: 'No rule matched; routed to account owner "Platform"',
+    });
+  });
+
+  it("explains alarms from accounts nobody owns", async () => {
+    const { body } = await explain("disk", "999999999999");
+
+    expect(body).toMatchObject({ routed: false, reason: "No team owns AWS account 999999999999", evaluated: [] });
+  });
+
+  it("matches alarm names against globs", async () => {
+    await createRule({ name: "Databases", match: { alarm_name: "db-?-*-cpu" }, severity: "info" });
+
+    expect((await explain("db-1-primary-cpu")).body.severity).toBe("info");
+    expect((await explain("db-12-primary-cpu")).body.rule_id).toBeNull();
+  });
+
+  it("matches alarm names against whole-name regular expressions", async () => {
+    await createRule({ name: "Databases", match: { alarm_name: "/db-(primary|replica)-\\d+/" }, severity: "info" });
+
+    expect((await explain("db-replica-12")).body.severity).toBe("info");
+    expect((await explain("db-replica-12-cpu")).body.rule_id).toBeNull();
+  });
+
+  it("finds owning teams past the first page of the teams scan", async () => {
+    db.table("teams").unshift(
+      ...Array.from({ length: 3 }, (_, i) => ({ team_id: `team-other-${i}`, name: `Other ${i}`, aws_account_ids: [], escalation_policy: { levels: [] }, created_at: 0 }))
+    );
+    const send = db.send;
+    vi.spyOn(db, "send").mockImplementation((command) => send(command.type === "Scan" ? { ...command, params: { ...command.params, Limit: 1 } } : command));
+
+    const { body } = await explain("disk");
+    vi.mocked(db.send).mockRestore();
+
+    expect(body).toMatchObject({ routed: true, team_id: "team-a" });
+  });
+
+  describe("on an account several teams list", () => {
+    beforeEach(() => {
+      db.table("teams").push({ team_id: "team-b", name: "Newcomer", aws_account_ids: [ACCOUNT], escalation_policy: { levels: [] }, created_at: 2 });
+      db.table("routing").push({ team_id: "team-b", rule_id: "rule-all", name: "Everything", priority: 0, match: {}, created_at: 2 });
+    });
+
+    it("skips every team's rules until one verifies the account", async () => {
+      await createRule({ name: "Databases", priority: 10, match: { alarm_name: "db-*" } });
+
+      const { body } = await explain("db-primary-cpu");
+
+      expect(body).toMatchObject({
+        team_id: "team-a",
+        rule_id: null,
+        reason: `2 teams own account ${ACCOUNT} and none has verified it; rules skipped, routed to the oldest, "Platform"`,
+        evaluated: [],
+      });
+    });
+
+    it("evaluates only the rules of the team that verified it", async () => {
+      db.table("accounts").push({ aws_account_id: ACCOUNT, verified_at: 1, verified_team_id: "team-a" });
+      await createRule({ name: "Databases", priority: 10, match: { alarm_name: "db-*" }, severity: "info" });
+
+      const matched = await explain("db-primary-cpu");
+      const unmatched = await explain("api-5xx");
+
+      expect(matched.body).toMatchObject({ team_id: "team-a", severity: "info" });
+      expect(matched.body.evaluated.map((evaluation: { name: string }) => evaluation.name)).toEqual(["Databases"]);
+      expect(unmatched.body).toMatchObject({
+        team_id: "team-a",
+        rule_id: null,
+        reason: `No rule matched; 2 teams own account ${ACCOUNT}, routed to "Platform", which verified it`,
+      });
+    });
+  });
+
+  it.each([
+    ["an unknown match field", { name: "x", match: { metric: "CPU" } }],
+    ["an invalid regular expression", { name: "x", match: { alarm_name: "/db-(/" } }],
+    ["a regular expression repeating a quantified group", { name: "x", match: { alarm_name: "/(db-.*)+/" } }],
+    ["a regular expression repeating alternatives", { name: "x", match: { alarm_name: "/(a|ab)*c/" } }],
+    ["a regular expression with a backreference", { name: "x", match: { alarm_name: "/(db)-\\1/" } }],
+    ["a regular expression with too many quantifiers", { name: "x", match: { alarm_name: "/a.*b.*c.*d.*/" } }],
+    ["an alarm_name pattern longer than any alarm name", { name: "x", match: { alarm_name: "*".repeat(256) } }],
+    ["an unknown severity", { name: "x", match: {}, severity: "urgent" }],
+  ])("rejects a rule with %s", async (_, rule) => {
+    const { status } = await createRule(rule);
+
+    expect(status).toBe(400);
+    expect(db.table("routing")).toHaveLength(0);
+  });
+
+  it("lists rules in evaluation order", async () => {
+    await createRule({ name: "Late", priority: 50, match: {} });
+    await createRule({ name: "Early", priority: 5, match: {} });
+
+    const { body } = await call(request("GET", "/teams/team-a/routing-rules", undefined, { id: "team-a" }));
+
+    expect(body.rules.map((rule: { name: string }) => rule.name)).toEqual(["Early", "Late"]);
+  });
+});
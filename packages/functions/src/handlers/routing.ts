@@ -0,0 +1,250 @@
+import type { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from "aws-lambda";
+import { docClient, GetCommand, PutCommand, DeleteCommand } from "../lib/dynamo.js";
+import { jsonResponse, getUserIdFromEvent, CloudWatchAlarmMessage, RoutingRule } from "../types/index.js";
+import { routeAlarm, listRoutingRules, alarmNamePatternError, ROUTING_MATCH_FIELDS } from "../lib/routing.js";
+import { parseAlarmAnnotations } from "../lib/annotations.js";
+import { getTeam, validateEscalationPolicy } from "../lib/teams.js";
+import { authorizeTeam, getMemberTeamIds } from "../lib/authz.js";
+import { randomUUID } from "crypto";
+
+const ROUTING_RULES_TABLE = process.env.ROUTING_RULES_TABLE!;
+
+const DEFAULT_PRIORITY = 100;
+
+export async function handler(event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> {
+  const userId = getUserIdFromEvent(event);
+  if (!userId) {
+    return jsonResponse(401, { error: "Unauthorized" });
+  }
+
+  const method = event.requestContext.http.method;
+  const path = event.rawPath;
+
+  try {
+    // POST /routing/test - Explain how a sample alarm would be routed
+    if (method === "POST" && path === "/routing/test") {
+      const body = JSON.parse(event.body || "{}");
+      const message = (body.message ?? body) as CloudWatchAlarmMessage;
+
+      if (!message.AWSAccountId || !message.AlarmName) {
+        return jsonResponse(400, { error: "Missing AWSAccountId or AlarmName" });
+      }
+
+      const routing = await routeAlarm(message);
+      const annotations = parseAlarmAnnotations(message.AlarmDescription);
+      if (!routing) {
+        return jsonResponse(200, {
+          routed: false,
+          reason: `No team owns AWS account ${message.AWSAccountId}`,
+          annotations,
+          evaluated: [],
+        });
+      }
+
+      // Explaining a route shows the team's rules, so it takes membership of that team
+      const denied = await authorizeTeam(userId, routing.team.team_id);
+      if (denied) {
+        return jsonResponse(403, { error: denied });
+      }
+      // Other teams sharing the account keep their rules to themselves
+      const memberOf = await getMemberTeamIds(userId);
+
+      return jsonResponse(200, {
+        routed: true,
+        team_id: routing.team.team_id,
+        team_name: routing.team.name,
+        rule_id: routing.rule?.rule_id ?? null,
+        severity: routing.severity,
+        escalation_policy: routing.escalation_policy,
+        reason: routing.reason,
+        annotations,
+        evaluated: routing.evaluated.filter((evaluation) => memberOf.includes(evaluation.team_id)),
+      });
+    }
+
+    // GET /teams/{id}/routing-rules - List rules in evaluation order
+    if (method === "GET" && path.match(/^\/teams\/[^/]+\/routing-rules$/)) {
+      const teamId = event.pathParameters?.id;
+      if (!teamId) {
+        return jsonResponse(400, { error: "Missing team ID" });
+      }
+
+      const denied = await authorizeTeam(userId, teamId);
+      if (denied) {
+        return jsonResponse(403, { error: denied });
+      }
+
+      const rules = await listRoutingRules(teamId);
+      return jsonResponse(200, { rules });
+    }
+
+    // POST /teams/{id}/routing-rules - Create rule
+    if (method === "POST" && path.match(/^\/teams\/[^/]+\/routing-rules$/)) {
+      const teamId = event.pathParameters?.id;
+      if (!teamId) {
+        return jsonResponse(400, { error: "Missing team ID" });
+      }
+
+      const denied = await authorizeTeam(userId, teamId, "admin");
+      if (denied) {
+        return jsonResponse(403, { error: denied });
+      }
+
+      const team = await getTeam(teamId);
+      if (!team) {
+        return jsonResponse(404, { error: "Team not found" });
+      }
+
+      const body = JSON.parse(event.body || "{}");
+      const rule: RoutingRule = {
+        team_id: teamId,
+        rule_id: randomUUID(),
+        name: body.name,
+        priority: body.priority ?? DEFAULT_PRIORITY,
+        match: body.match || {},
+        ...(body.severity ? { severity: body.severity } : {}),
+        ...(body.escalation_policy ? { escalation_policy: body.escalation_policy } : {}),
+        ...(body.group ? { group: body.group } : {}),
+        created_at: Date.now(),
+      };
+
+      const validationError = validateRule(rule);
+      if (validationError) {
+        return jsonResponse(400, { error: validationError });
+      }
+
+      await docClient.send(
+        new PutCommand({
+          TableName: ROUTING_RULES_TABLE,
+          Item: rule,
+        })
+      );
+
+      return jsonResponse(201, { rule });
+    }
+
+    // PUT /teams/{id}/routing-rules/{rule_id} - Update rule
+    if (method === "PUT" && path.match(/^\/teams\/[^/]+\/routing-rules\/[^/]+$/)) {
+      const teamId = event.pathParameters?.id;
+      const ruleId = event.pathParameters?.rule_id;
+      if (!teamId || !ruleId) {
+        return jsonResponse(400, { error: "Missing team ID or rule ID" });
+      }
+
+      const denied = await authorizeTeam(userId, teamId, "admin");
+      if (denied) {
+        return jsonResponse(403, { error: denied });
+      }
+
+      const existing = await docClient.send(
+        new GetCommand({
+          TableName: ROUTING_RULES_TABLE,
+          Key: { team_id: teamId, rule_id: ruleId },
+        })
+      );
+      if (!existing.Item) {
+        return jsonResponse(404, { error: "Routing rule not found" });
+      }
+
+      // Fields set to null are cleared; omitted fields are kept
+      const body = JSON.parse(event.body || "{}");
+      const rule = { ...(existing.Item as RoutingRule) };
+      if (body.name !== undefined) rule.name = body.name;
+      if (body.priority !== undefined) rule.priority = body.priority;
+      if (body.match !== undefined) rule.match = body.match || {};
+      if (body.severity === null) delete rule.severity;
+      else if (body.severity !== undefined) rule.severity = body.severity;
+      if (body.escalation_policy === null) delete rule.escalation_policy;
+      else if (body.escalation_policy !== undefined) rule.escalation_policy = body.escalation_policy;
+      if (body.group === null) delete rule.group;
+      else if (body.group !== undefined) rule.group = body.group;
+
+      const validationError = validateRule(rule);
+      if (validationError) {
+        return jsonResponse(400, { error: validationError });
+      }
+
+      await docClient.send(
+        new PutCommand({
+          TableName: ROUTING_RULES_TABLE,
+          Item: rule,
+        })
+      );
+
+      return jsonResponse(200, { rule });
+    }
+
+    // DELETE /teams/{id}/routing-rules/{rule_id} - Delete rule
+    if (method === "DELETE" && path.match(/^\/teams\/[^/]+\/routing-rules\/[^/]+$/)) {
+      const teamId = event.pathParameters?.id;
+      const ruleId = event.pathParameters?.rule_id;
+      if (!teamId || !ruleId) {
+        return jsonResponse(400, { error: "Missing team ID or rule ID" });
+      }
+
+      const denied = await authorizeTeam(userId, teamId, "admin");
+      if (denied) {
+        return jsonResponse(403, { error: denied });
+      }
+
+      await docClient.send(
+        new DeleteCommand({
+          TableName: ROUTING_RULES_TABLE,
+          Key: { team_id: teamId, rule_id: ruleId },
+        })
+      );
+
+      return jsonResponse(200, { message: "Routing rule deleted" });
+    }
+
+    return jsonResponse(404, { error: "Not found" });
+  } catch (error) {
+    console.error("Error:", error);
+    return jsonResponse(500, { error: "Internal server error" });
+  }
+}
+
+function validateRule(rule: RoutingRule): string | null {
+  if (!rule.name || typeof rule.name !== "string") {
+    return "Missing name";
+  }
+  if (typeof rule.priority !== "number" || !Number.isFinite(rule.priority)) {
+    return "priority must be a number";
+  }
+  if (typeof rule.match !== "object" || Array.isArray(rule.match)) {
+    return "match must be an object";
+  }
+
+  for (const [field, value] of Object.entries(rule.match)) {
+    if (!ROUTING_MATCH_FIELDS.includes(field as keyof RoutingRule["match"])) {
+      return `Unknown match field: ${field}`;
+    }
+    if (typeof value !== "string") {
+      return `match.${field} must be a string`;
+    }
+  }
+
+  if (rule.match.alarm_name) {
+    const patternError = alarmNamePatternError(rule.match.alarm_name);
+    if (patternError) {
+      return patternError;
+    }
+  }
+
+  if (rule.severity !== undefined && !["critical", "warning", "info"].includes(rule.severity)) {
+    return "Invalid severity";
+  }
+
+  if (rule.group !== undefined && (typeof rule.group !== "string" || !rule.group)) {
+    return "group must be a non-empty string";
+  }
+
+  if (rule.escalation_policy !== undefined) {
+    const policyError = validateEscalationPolicy(rule.escalation_policy);
+    if (policyError) {
+      return policyError;
+    }
+  }
+
+  return null;
+}
@@ -1,11 +1,12 @@
 import type { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from "aws-lambda";
-import { docClient, GetCommand, PutCommand, DeleteCommand, QueryCommand, ScanCommand } from "../lib/dynamo.js";
-import { jsonResponse, getUserIdFromEvent, Schedule, User } from "../types/index.js";
+import { docClient, PutCommand, DeleteCommand, QueryCommand, ScanCommand } from "../lib/dynamo.js";
+import { jsonResponse, getUserIdFromEvent, Schedule } from "../types/index.js";
+import { getMembership } from "../lib/teams.js";
+import { authorizeTeam, getMemberTeamIds, hasRole } from "../lib/authz.js";
 import { randomUUID } from "crypto";
 
 const SCHEDULES_TABLE = process.env.SCHEDULES_TABLE!;
 const TEAMS_TABLE = process.env.TEAMS_TABLE!;
-const USERS_TABLE = process.env.USERS_TABLE!;
 
 export async function handler(event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> {
   const userId = getUserIdFromEvent(event);
@@ -19,16 +20,7 @@ export async function handler(event: APIGatewayProxyEventV2): Promise<APIGateway
   try {
     // GET /schedules/current - Who's on-call per team
     if (method === "GET" && path === "/schedules/current") {
-      // Get user's teams first
-      const userResult = await docClient.send(
-        new GetCommand({
-          TableName: USERS_TABLE,
-          Key: { user_id: userId },
-        })
-      );
-
-      const user = userResult.Item as User | undefined;
-      const teamIds = user?.team_ids || [];
+      const teamIds = await getMemberTeamIds(userId);
 
       const now = Date.now();
       const onCallByTeam: Record<string, { user_id: string; slot: Schedule } | null> = {};
@@ -66,6 +58,11 @@ export async function handler(event: APIGatewayProxyEventV2): Promise<APIGateway
         return jsonResponse(400, { error: "Missing team ID" });
       }
 
+      const denied = await authorizeTeam(userId, teamId);
+      if (denied) {
+        return jsonResponse(403, { error: denied });
+      }
+
       const result = await docClient.send(
         new QueryCommand({
           TableName: SCHEDULES_TABLE,
@@ -95,6 +92,16 @@ export async function handler(event: APIGatewayProxyEventV2): Promise<APIGateway
         return jsonResponse(400, { error: "start must be before end" });
       }
 
+      const denied = await authorizeTeam(userId, teamId, "admin");
+      if (denied) {
+        return jsonResponse(403, { error: denied });
+      }
+      // Observers can't ack, so they can't be on call
+      const slotMember = await getMembership(teamId, slotUserId);
+      if (!slotMember || !hasRole(slotMember.role, "responder")) {
+        return jsonResponse(400, { error: "user_id must be a responder of this team" });
+      }
+
       const schedule: Schedule = {
         team_id: teamId,
         slot_id: randomUUID(),
@@ -121,6 +128,11 @@ export async function handler(event: APIGatewayProxyEventV2): Promise<APIGateway
         return jsonResponse(400, { error: "Missing team ID or slot ID" });
       }
 
+      const denied = await authorizeTeam(userId, teamId, "admin");
+      if (denied) {
+        return jsonResponse(403, { error: denied });
+      }
+
       await docClient.send(
         new DeleteCommand({
           TableName: SCHEDULES_TABLE,
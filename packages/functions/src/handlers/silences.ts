@@ -0,0 +1,235 @@
+import type { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from "aws-lambda";
+import { docClient, GetCommand, PutCommand } from "../lib/dynamo.js";
+import { jsonResponse, getUserIdFromEvent, Silence, SilenceMatch } from "../types/index.js";
+import { listSilences, MAX_SILENCE_DAYS, SILENCE_RETENTION_SECONDS } from "../lib/silences.js";
+import { alarmNamePatternError } from "../lib/routing.js";
+import { getTeam } from "../lib/teams.js";
+import { authorizeTeam } from "../lib/authz.js";
+import { randomUUID } from "crypto";
+
+const SILENCES_TABLE = process.env.SILENCES_TABLE!;
+
+const SILENCE_MATCH_FIELDS: (keyof SilenceMatch)[] = ["aws_account_id", "alarm_name", "severity"];
+
+export async function handler(event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> {
+  const userId = getUserIdFromEvent(event);
+  if (!userId) {
+    return jsonResponse(401, { error: "Unauthorized" });
+  }
+
+  const method = event.requestContext.http.method;
+  const path = event.rawPath;
+
+  try {
+    // GET /teams/{id}/silences - List silences, latest first
+    if (method === "GET" && path.match(/^\/teams\/[^/]+\/silences$/)) {
+      const teamId = event.pathParameters?.id;
+      if (!teamId) {
+        return jsonResponse(400, { error: "Missing team ID" });
+      }
+
+      const denied = await authorizeTeam(userId, teamId);
+      if (denied) {
+        return jsonResponse(403, { error: denied });
+      }
+
+      const silences = (await listSilences(teamId)).sort((a, b) => b.starts_at - a.starts_at);
+      return jsonResponse(200, { silences });
+    }
+
+    // POST /teams/{id}/silences - Create silence
+    if (method === "POST" && path.match(/^\/teams\/[^/]+\/silences$/)) {
+      const teamId = event.pathParameters?.id;
+      if (!teamId) {
+        return jsonResponse(400, { error: "Missing team ID" });
+      }
+
+      const denied = await authorizeTeam(userId, teamId, "admin");
+      if (denied) {
+        return jsonResponse(403, { error: denied });
+      }
+
+      const team = await getTeam(teamId);
+      if (!team) {
+        return jsonResponse(404, { error: "Team not found" });
+      }
+
+      const body = JSON.parse(event.body || "{}");
+      const now = Date.now();
+      const silence: Silence = {
+        team_id: teamId,
+        silence_id: randomUUID(),
+        starts_at: body.starts_at ?? now,
+        ends_at: body.ends_at,
+        match: body.match || {},
+        mode: body.mode ?? "suppress",
+        ...(body.comment ? { comment: body.comment } : {}),
+        created_by: userId,
+        created_at: now,
+      };
+
+      const validationError = validateSilence(silence, now);
+      if (validationError) {
+        return jsonResponse(400, { error: validationError });
+      }
+      silence.ttl = Math.floor(silence.ends_at / 1000) + SILENCE_RETENTION_SECONDS;
+
+      await docClient.send(
+        new PutCommand({
+          TableName: SILENCES_TABLE,
+          Item: silence,
+        })
+      );
+
+      return jsonResponse(201, { silence });
+    }
+
+    // PUT /teams/{id}/silences/{silence_id} - Update silence, e.g. extend ends_at
+    if (method === "PUT" && path.match(/^\/teams\/[^/]+\/silences\/[^/]+$/)) {
+      const teamId = event.pathParameters?.id;
+      const silenceId = event.pathParameters?.silence_id;
+      if (!teamId || !silenceId) {
+        return jsonResponse(400, { error: "Missing team ID or silence ID" });
+      }
+
+      const denied = await authorizeTeam(userId, teamId, "admin");
+      if (denied) {
+        return jsonResponse(403, { error: denied });
+      }
+
+      const existing = await getSilence(teamId, silenceId);
+      if (!existing) {
+        return jsonResponse(404, { error: "Silence not found" });
+      }
+
+      // Fields set to null are cleared; omitted fields are kept
+      const body = JSON.parse(event.body || "{}");
+      const silence = { ...existing };
+      if (body.starts_at !== undefined) silence.starts_at = body.starts_at;
+      if (body.ends_at !== undefined) silence.ends_at = body.ends_at;
+      if (body.match !== undefined) silence.match = body.match || {};
+      if (body.mode !== undefined) silence.mode = body.mode;
+      if (body.comment === null) delete silence.comment;
+      else if (body.comment !== undefined) silence.comment = body.comment;
+
+      const validationError = validateSilence(silence, Date.now());
+      if (validationError) {
+        return jsonResponse(400, { error: validationError });
+      }
+      silence.ttl = Math.floor(silence.ends_at / 1000) + SILENCE_RETENTION_SECONDS;
+
+      await docClient.send(
+        new PutCommand({
+          TableName: SILENCES_TABLE,
+          Item: silence,
+        })
+      );
+
+      return jsonResponse(200, { silence });
+    }
+
+    // POST /teams/{id}/silences/{silence_id}/expire - End silence now, keeping it listed
+    if (method === "POST" && path.match(/^\/teams\/[^/]+\/silences\/[^/]+\/expire$/)) {
+      const teamId = event.pathParameters?.id;
+      const silenceId = event.pathParameters?.silence_id;
+      if (!teamId || !silenceId) {
+        return jsonResponse(400, { error: "Missing team ID or silence ID" });
+      }
+
+      const denied = await authorizeTeam(userId, teamId, "admin");
+      if (denied) {
+        return jsonResponse(403, { error: denied });
+      }
+
+      const existing = await getSilence(teamId, silenceId);
+      if (!existing) {
+        return jsonResponse(404, { error: "Silence not found" });
+      }
+
+      const now = Date.now();
+      if (existing.ends_at <= now) {
+        return jsonResponse(200, { silence: existing });
+      }
+
+      // A window that has not started yet is cancelled outright
+      const silence: Silence = {
+        ...existing,
+        starts_at: Math.min(existing.starts_at, now),
+        ends_at: now,
+        ttl: Math.floor(now / 1000) + SILENCE_RETENTION_SECONDS,
+      };
+
+      await docClient.send(
+        new PutCommand({
+          TableName: SILENCES_TABLE,
+          Item: silence,
+        })
+      );
+
+      return jsonResponse(200, { silence });
+    }
+
+    return jsonResponse(404, { error: "Not found" });
+  } catch (error) {
+    console.error("Error:", error);
+    return jsonResponse(500, { error: "Internal server error" });
+  }
+}
+
+async function getSilence(teamId: string, silenceId: string): Promise<Silence | null> {
+  const result = await docClient.send(
+    new GetCommand({
+      TableName: SILENCES_TABLE,
+      Key: { team_id: teamId, silence_id: silenceId },
+    })
+  );
+  return (result.Item as Silence) ?? null;
+}
+
+function validateSilence(silence: Silence, now: number): string | null {
+  if (typeof silence.starts_at !== "number" || !Number.isFinite(silence.starts_at)) {
+    return "starts_at must be a timestamp in milliseconds";
+  }
+  if (typeof silence.ends_at !== "number" || !Number.isFinite(silence.ends_at)) {
+    return "ends_at must be a timestamp in milliseconds";
+  }
+  if (silence.ends_at <= silence.starts_at) {
+    return "ends_at must be after starts_at";
+  }
+  if (silence.ends_at <= now) {
+    return "ends_at must be in the future";
+  }
+  if (silence.ends_at > now + MAX_SILENCE_DAYS * 24 * 60 * 60 * 1000) {
+    return `Silences can end at most ${MAX_SILENCE_DAYS} days from now`;
+  }
+  if (!["skip", "suppress"].includes(silence.mode)) {
+    return "mode must be skip or suppress";
+  }
+  if (silence.comment !== undefined && typeof silence.comment !== "string") {
+    return "comment must be a string";
+  }
+  if (typeof silence.match !== "object" || Array.isArray(silence.match)) {
+    return "match must be an object";
+  }
+
+  for (const [field, value] of Object.entries(silence.match)) {
+    if (!SILENCE_MATCH_FIELDS.includes(field as keyof SilenceMatch)) {
+      return `Unknown match field: ${field}`;
+    }
+    if (typeof value !== "string" || !value) {
+      return `match.${field} must be a non-empty string`;
+    }
+  }
+
+  if (silence.match.alarm_name) {
+    const patternError = alarmNamePatternError(silence.match.alarm_name);
+    if (patternError) {
+      return patternError;
+    }
+  }
+
+  if (silence.match.severity !== undefined && !["critical", "warning", "info"].includes(silence.match.severity)) {
+    return "Invalid severity";
+  }
+  return null;
+}
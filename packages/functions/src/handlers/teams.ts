@@ -1,10 +1,15 @@
 import type { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from "aws-lambda";
-import { docClient, GetCommand, PutCommand, UpdateCommand, QueryCommand, ScanCommand } from "../lib/dynamo.js";
-import { jsonResponse, getUserIdFromEvent, Team, User } from "../types/index.js";
+import { docClient, GetCommand, PutCommand, UpdateCommand, DeleteCommand } from "../lib/dynamo.js";
+import { jsonResponse, getUserIdFromEvent, AlertGrouping, EscalationPolicy, FlapDetection, Membership, Team, TeamRole } from "../types/index.js";
+import { GROUPING_KEYS, MAX_GROUPING_WINDOW_MINUTES } from "../lib/grouping.js";
+import { MAX_FLAP_WINDOW_MINUTES } from "../lib/flapping.js";
+import { getMembership, handOverOwnerContact, isLastOwner, listTeamMemberships, listUserMemberships, validateEscalationPolicy } from "../lib/teams.js";
+import { authorizeTeam, TEAM_ROLES } from "../lib/authz.js";
+import { getUserSummaries } from "../lib/users.js";
 import { randomUUID } from "crypto";
 
 const TEAMS_TABLE = process.env.TEAMS_TABLE!;
-const USERS_TABLE = process.env.USERS_TABLE!;
+const MEMBERSHIPS_TABLE = process.env.MEMBERSHIPS_TABLE!;
 
 export async function handler(event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> {
   const userId = getUserIdFromEvent(event);
@@ -16,33 +21,24 @@ export async function handler(event: APIGatewayProxyEventV2): Promise<APIGateway
   const path = event.rawPath;
 
   try {
-    // GET /teams - List user's teams
+    // GET /teams - List user's teams, each with the user's role
     if (method === "GET" && path === "/teams") {
-      // First get the user to find their team_ids
-      const userResult = await docClient.send(
-        new GetCommand({
-          TableName: USERS_TABLE,
-          Key: { user_id: userId },
-        })
-      );
-
-      const user = userResult.Item as User | undefined;
-      const teamIds = user?.team_ids || [];
+      const memberships = await listUserMemberships(userId);
 
-      if (teamIds.length === 0) {
+      if (memberships.length === 0) {
         return jsonResponse(200, { teams: [] });
       }
 
       // Fetch each team (could optimize with BatchGetItem)
       const teams = await Promise.all(
-        teamIds.map(async (teamId) => {
+        memberships.map(async (membership) => {
           const result = await docClient.send(
             new GetCommand({
               TableName: TEAMS_TABLE,
-              Key: { team_id: teamId },
+              Key: { team_id: membership.team_id },
             })
           );
-          return result.Item;
+          return result.Item ? { ...result.Item, role: membership.role } : null;
         })
       );
 
@@ -68,6 +64,8 @@ export async function handler(event: APIGatewayProxyEventV2): Promise<APIGateway
             { delay_minutes: 15, target: "all_team" },
           ],
         },
+        ok_action: "resolve",
+        owner_user_id: userId,
         created_at: Date.now(),
       };
 
@@ -78,20 +76,21 @@ export async function handler(event: APIGatewayProxyEventV2): Promise<APIGateway
         })
       );
 
-      // Add creator to the team
+      // The creator owns the team
+      const membership: Membership = {
+        team_id: team.team_id,
+        user_id: userId,
+        role: "owner",
+        created_at: team.created_at,
+      };
       await docClient.send(
-        new UpdateCommand({
-          TableName: USERS_TABLE,
-          Key: { user_id: userId },
-          UpdateExpression: "SET team_ids = list_append(if_not_exists(team_ids, :empty), :team)",
-          ExpressionAttributeValues: {
-            ":empty": [],
-            ":team": [team.team_id],
-          },
+        new PutCommand({
+          TableName: MEMBERSHIPS_TABLE,
+          Item: membership,
         })
       );
 
-      return jsonResponse(201, { team });
+      return jsonResponse(201, { team: { ...team, role: membership.role } });
     }
 
     // GET /teams/{id} - Get team details
@@ -101,6 +100,11 @@ export async function handler(event: APIGatewayProxyEventV2): Promise<APIGateway
         return jsonResponse(400, { error: "Missing team ID" });
       }
 
+      const denied = await authorizeTeam(userId, teamId);
+      if (denied) {
+        return jsonResponse(403, { error: denied });
+      }
+
       const result = await docClient.send(
         new GetCommand({
           TableName: TEAMS_TABLE,
@@ -122,6 +126,11 @@ export async function handler(event: APIGatewayProxyEventV2): Promise<APIGateway
         return jsonResponse(400, { error: "Missing team ID" });
       }
 
+      const denied = await authorizeTeam(userId, teamId, "admin");
+      if (denied) {
+        return jsonResponse(403, { error: denied });
+      }
+
       const body = JSON.parse(event.body || "{}");
       const updates: string[] = [];
       const exprValues: Record<string, unknown> = {};
@@ -136,22 +145,95 @@ export async function handler(event: APIGatewayProxyEventV2): Promise<APIGateway
         updates.push("aws_account_ids = :accounts");
         exprValues[":accounts"] = body.aws_account_ids;
       }
-      if (body.escalation_policy) {
+      if (body.escalation_policy !== undefined) {
+        const policyError = validateEscalationPolicy(body.escalation_policy);
+        if (policyError) {
+          return jsonResponse(400, { error: policyError });
+        }
+        const levels = (body.escalation_policy as EscalationPolicy).levels;
+        const policy: EscalationPolicy = {
+          levels: levels.map((level) => ({ delay_minutes: level.delay_minutes, target: level.target })),
+        };
         updates.push("escalation_policy = :policy");
-        exprValues[":policy"] = body.escalation_policy;
+        exprValues[":policy"] = policy;
+      }
+      if (body.ok_action) {
+        if (!["resolve", "annotate"].includes(body.ok_action)) {
+          return jsonResponse(400, { error: "Invalid ok_action" });
+        }
+        updates.push("ok_action = :okAction");
+        exprValues[":okAction"] = body.ok_action;
       }
 
-      if (updates.length === 0) {
+      if (body.owner_user_id) {
+        const ownerDenied = await authorizeTeam(userId, teamId, "owner");
+        if (ownerDenied) {
+          return jsonResponse(403, { error: ownerDenied });
+        }
+        if ((await getMembership(teamId, body.owner_user_id))?.role !== "owner") {
+          return jsonResponse(400, { error: "owner_user_id must have the owner role" });
+        }
+        updates.push("owner_user_id = :owner");
+        exprValues[":owner"] = body.owner_user_id;
+      }
+      // null turns the fallback off (schedule gaps go to the unrouted inbox)
+      const removes: string[] = [];
+      if (body.no_on_call_fallback === null) {
+        removes.push("no_on_call_fallback");
+      } else if (body.no_on_call_fallback !== undefined) {
+        if (!["all_members", "owner", "unassigned"].includes(body.no_on_call_fallback)) {
+          return jsonResponse(400, { error: "Invalid no_on_call_fallback" });
+        }
+        updates.push("no_on_call_fallback = :fallback");
+        exprValues[":fallback"] = body.no_on_call_fallback;
+      }
+      // null turns grouping off (every alarm gets its own incident)
+      if (body.grouping === null) {
+        removes.push("grouping");
+      } else if (body.grouping !== undefined) {
+        const groupingError = validateGrouping(body.grouping);
+        if (groupingError) {
+          return jsonResponse(400, { error: groupingError });
+        }
+        const grouping: AlertGrouping = {
+          key: body.grouping.key,
+          ...(body.grouping.key === "dimension" ? { dimension: body.grouping.dimension } : {}),
+          window_minutes: body.grouping.window_minutes,
+        };
+        updates.push("grouping = :grouping");
+        exprValues[":grouping"] = grouping;
+      }
+      // null goes back to the default thresholds
+      if (body.flap_detection === null) {
+        removes.push("flap_detection");
+      } else if (body.flap_detection !== undefined) {
+        const flapError = validateFlapDetection(body.flap_detection);
+        if (flapError) {
+          return jsonResponse(400, { error: flapError });
+        }
+        updates.push("flap_detection = :flapDetection");
+        exprValues[":flapDetection"] = {
+          transitions: body.flap_detection.transitions,
+          window_minutes: body.flap_detection.window_minutes,
+        };
+      }
+
+      if (updates.length === 0 && removes.length === 0) {
         return jsonResponse(400, { error: "No updates provided" });
       }
 
+      const updateExpression = [
+        updates.length > 0 ? `SET ${updates.join(", ")}` : "",
+        removes.length > 0 ? `REMOVE ${removes.join(", ")}` : "",
+      ].filter(Boolean).join(" ");
+
       const result = await docClient.send(
         new UpdateCommand({
           TableName: TEAMS_TABLE,
           Key: { team_id: teamId },
-          UpdateExpression: `SET ${updates.join(", ")}`,
+          UpdateExpression: updateExpression,
           ExpressionAttributeNames: Object.keys(exprNames).length > 0 ? exprNames : undefined,
-          ExpressionAttributeValues: exprValues,
+          ExpressionAttributeValues: Object.keys(exprValues).length > 0 ? exprValues : undefined,
           ReturnValues: "ALL_NEW",
         })
       );
@@ -159,6 +241,29 @@ export async function handler(event: APIGatewayProxyEventV2): Promise<APIGateway
       return jsonResponse(200, { team: result.Attributes });
     }
 
+    // GET /teams/{id}/members - List members with their roles, names and emails
+    if (method === "GET" && path.match(/^\/teams\/[^/]+\/members$/)) {
+      const teamId = event.pathParameters?.id;
+      if (!teamId) {
+        return jsonResponse(400, { error: "Missing team ID" });
+      }
+
+      const denied = await authorizeTeam(userId, teamId);
+      if (denied) {
+        return jsonResponse(403, { error: denied });
+      }
+
+      const memberships = await listTeamMemberships(teamId);
+      const summaries = await getUserSummaries(memberships.map((membership) => membership.user_id));
+      const users = new Map(summaries.map((user) => [user.user_id, user]));
+      const members = memberships.map((membership) => {
+        const user = users.get(membership.user_id);
+        return user ? { ...membership, name: user.name, email: user.email } : membership;
+      });
+
+      return jsonResponse(200, { members });
+    }
+
     // POST /teams/{id}/members - Add member
     if (method === "POST" && path.match(/^\/teams\/[^/]+\/members$/)) {
       const teamId = event.pathParameters?.id;
@@ -167,24 +272,113 @@ export async function handler(event: APIGatewayProxyEventV2): Promise<APIGateway
       }
 
       const body = JSON.parse(event.body || "{}");
-      const { user_id: memberUserId } = body;
+      const { user_id: memberUserId, role = "responder" } = body;
       if (!memberUserId) {
         return jsonResponse(400, { error: "Missing user_id" });
       }
+      if (!TEAM_ROLES.includes(role)) {
+        return jsonResponse(400, { error: "Invalid role" });
+      }
 
-      await docClient.send(
+      // Only owners make other owners
+      const denied = await authorizeTeam(userId, teamId, role === "owner" ? "owner" : "admin");
+      if (denied) {
+        return jsonResponse(403, { error: denied });
+      }
+
+      const membership: Membership = {
+        team_id: teamId,
+        user_id: memberUserId,
+        role,
+        created_at: Date.now(),
+      };
+      try {
+        await docClient.send(
+          new PutCommand({
+            TableName: MEMBERSHIPS_TABLE,
+            Item: membership,
+            ConditionExpression: "attribute_not_exists(user_id)",
+          })
+        );
+      } catch (error) {
+        if ((error as Error).name === "ConditionalCheckFailedException") {
+          return jsonResponse(409, { error: "Already a member" });
+        }
+        throw error;
+      }
+
+      return jsonResponse(200, { message: "Member added", member: membership });
+    }
+
+    // PUT /teams/{id}/members/{uid} - Change a member's role or FYI notifications
+    if (method === "PUT" && path.match(/^\/teams\/[^/]+\/members\/[^/]+$/)) {
+      const teamId = event.pathParameters?.id;
+      const memberUserId = event.pathParameters?.uid;
+      if (!teamId || !memberUserId) {
+        return jsonResponse(400, { error: "Missing team ID or user ID" });
+      }
+
+      const body = JSON.parse(event.body || "{}");
+      if (body.role === undefined && body.fyi === undefined) {
+        return jsonResponse(400, { error: "No updates provided" });
+      }
+      if (body.role !== undefined && !TEAM_ROLES.includes(body.role)) {
+        return jsonResponse(400, { error: "Invalid role" });
+      }
+      if (body.fyi !== undefined && typeof body.fyi !== "boolean") {
+        return jsonResponse(400, { error: "fyi must be a boolean" });
+      }
+
+      const denied = await authorizeTeam(userId, teamId);
+      if (denied) {
+        return jsonResponse(403, { error: denied });
+      }
+
+      const membership = await getMembership(teamId, memberUserId);
+      if (!membership) {
+        return jsonResponse(404, { error: "Member not found" });
+      }
+
+      // Members may switch their own FYI pushes; roles take an admin, and an owner when owners are involved
+      let required: TeamRole = memberUserId === userId ? "observer" : "admin";
+      if (body.role !== undefined) {
+        required = body.role === "owner" || membership.role === "owner" ? "owner" : "admin";
+      }
+      const roleDenied = await authorizeTeam(userId, teamId, required);
+      if (roleDenied) {
+        return jsonResponse(403, { error: roleDenied });
+      }
+
+      if (membership.role === "owner" && body.role !== undefined && body.role !== "owner") {
+        if (await isLastOwner(teamId, memberUserId)) {
+          return jsonResponse(400, { error: "A team needs at least one owner" });
+        }
+        await handOverOwnerContact(teamId, memberUserId);
+      }
+
+      const updates: string[] = [];
+      const exprValues: Record<string, unknown> = {};
+      if (body.role !== undefined) {
+        updates.push("#role = :role");
+        exprValues[":role"] = body.role;
+      }
+      if (body.fyi !== undefined) {
+        updates.push("fyi = :fyi");
+        exprValues[":fyi"] = body.fyi;
+      }
+
+      const result = await docClient.send(
         new UpdateCommand({
-          TableName: USERS_TABLE,
-          Key: { user_id: memberUserId },
-          UpdateExpression: "SET team_ids = list_append(if_not_exists(team_ids, :empty), :team)",
-          ExpressionAttributeValues: {
-            ":empty": [],
-            ":team": [teamId],
-          },
+          TableName: MEMBERSHIPS_TABLE,
+          Key: { team_id: teamId, user_id: memberUserId },
+          UpdateExpression: `SET ${updates.join(", ")}`,
+          ExpressionAttributeNames: body.role !== undefined ? { "#role": "role" } : undefined,
+          ExpressionAttributeValues: exprValues,
+          ReturnValues: "ALL_NEW",
         })
       );
 
-      return jsonResponse(200, { message: "Member added" });
+      return jsonResponse(200, { member: result.Attributes });
     }
 
     // DELETE /teams/{id}/members/{uid} - Remove member
@@ -195,27 +389,38 @@ export async function handler(event: APIGatewayProxyEventV2): Promise<APIGateway
         return jsonResponse(400, { error: "Missing team ID or user ID" });
       }
 
-      // Get user's current teams
-      const userResult = await docClient.send(
-        new GetCommand({
-          TableName: USERS_TABLE,
-          Key: { user_id: memberUserId },
-        })
-      );
+      const denied = await authorizeTeam(userId, teamId);
+      if (denied) {
+        return jsonResponse(403, { error: denied });
+      }
 
-      const user = userResult.Item as User | undefined;
-      if (user && user.team_ids) {
-        const newTeamIds = user.team_ids.filter((id) => id !== teamId);
-        await docClient.send(
-          new UpdateCommand({
-            TableName: USERS_TABLE,
-            Key: { user_id: memberUserId },
-            UpdateExpression: "SET team_ids = :teams",
-            ExpressionAttributeValues: { ":teams": newTeamIds },
-          })
-        );
+      const membership = await getMembership(teamId, memberUserId);
+      if (!membership) {
+        return jsonResponse(404, { error: "Member not found" });
+      }
+
+      // Members may leave on their own; removing someone else takes an admin (an owner for owners)
+      if (memberUserId !== userId) {
+        const removeDenied = await authorizeTeam(userId, teamId, membership.role === "owner" ? "owner" : "admin");
+        if (removeDenied) {
+          return jsonResponse(403, { error: removeDenied });
+        }
+      }
+
+      if (membership.role === "owner") {
+        if (await isLastOwner(teamId, memberUserId)) {
+          return jsonResponse(400, { error: "A team needs at least one owner" });
+        }
+        await handOverOwnerContact(teamId, memberUserId);
       }
 
+      await docClient.send(
+        new DeleteCommand({
+          TableName: MEMBERSHIPS_TABLE,
+          Key: { team_id: teamId, user_id: memberUserId },
+        })
+      );
+
       return jsonResponse(200, { message: "Member removed" });
     }
 
@@ -225,3 +430,34 @@ export async function handler(event: APIGatewayProxyEventV2): Promise<APIGateway
     return jsonResponse(500, { error: "Internal server error" });
   }
 }
+
+function validateGrouping(grouping: AlertGrouping): string | null {
+  if (typeof grouping !== "object" || Array.isArray(grouping)) {
+    return "grouping must be an object";
+  }
+  if (!GROUPING_KEYS.includes(grouping.key)) {
+    return "Invalid grouping key";
+  }
+  if (grouping.key === "dimension" && (typeof grouping.dimension !== "string" || !grouping.dimension)) {
+    return "grouping.dimension is required for dimension grouping";
+  }
+  const window = grouping.window_minutes;
+  if (typeof window !== "number" || !Number.isInteger(window) || window < 1 || window > MAX_GROUPING_WINDOW_MINUTES) {
+    return `grouping.window_minutes must be between 1 and ${MAX_GROUPING_WINDOW_MINUTES}`;
+  }
+  return null;
+}
+
+function validateFlapDetection(config: FlapDetection): string | null {
+  if (typeof config !== "object" || Array.isArray(config)) {
+    return "flap_detection must be an object";
+  }
+  if (!Number.isInteger(config.transitions) || config.transitions < 2) {
+    return "flap_detection.transitions must be an integer of at least 2";
+  }
+  const window = config.window_minutes;
+  if (!Number.isInteger(window) || window < 1 || window > MAX_FLAP_WINDOW_MINUTES) {
+    return `flap_detection.window_minutes must be between 1 and ${MAX_FLAP_WINDOW_MINUTES}`;
+  }
+  return null;
+}
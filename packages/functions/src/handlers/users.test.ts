@@ -0,0 +1,389 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { APIGatewayProxyEventV2, APIGatewayProxyStructuredResultV2 } from "aws-lambda";
+import type { createDynamoFake } from "../test/dynamo-fake.js";
+
+// Table names are read at import time
+const { mockSnsSend, mockCognitoSend, mockSendPush, mockLookup } = vi.hoisted(() => {
+  process.env.USERS_TABLE = "users";
+  process.env.DEVICES_TABLE = "devices";
+  process.env.INCIDENTS_TABLE = "incidents";
+  process.env.MEMBERSHIPS_TABLE = "memberships";
+  process.env.CONTACT_METHODS_TABLE = "contact-methods";
+  process.env.CONTACT_EMAIL_TOPIC_ARN = "arn:aws:sns:us-east-1:123456789012:contact-email";
+  process.env.TEAMS_TABLE = "teams";
+  process.env.SCHEDULES_TABLE = "schedules";
+  process.env.HELD_NOTIFICATIONS_TABLE = "held-notifications";
+  process.env.SCORES_TABLE = "scores";
+  process.env.ROUTING_RULES_TABLE = "routing";
+  process.env.SILENCES_TABLE = "silences";
+  process.env.INTEGRATIONS_TABLE = "integrations";
+  process.env.INVITES_TABLE = "invites";
+  return { mockSnsSend: vi.fn(), mockCognitoSend: vi.fn(), mockSendPush: vi.fn(), mockLookup: vi.fn() };
+});
+
+vi.mock("../lib/dynamo.js", async () => {
+  const { createDynamoFake, fakeCommands } = await import("../test/dynamo-fake.js");
+  const docClient = createDynamoFake({
+    users: ["user_id"],
+    devices: ["user_id", "device_token"],
+    incidents: ["incident_id"],
+    "contact-methods": ["user_id", "method_id"],
+    memberships: ["team_id", "user_id"],
+    teams: ["team_id"],
+    schedules: ["team_id", "slot_id"],
+    "held-notifications": ["user_id", "held_id"],
+    scores: ["user_id"],
+    routing: ["team_id", "rule_id"],
+    silences: ["team_id", "silence_id"],
+    integrations: ["team_id", "integration_id"],
+    invites: ["code"],
+  });
+  return { docClient, ...fakeCommands };
+});
+
+vi.mock("@aws-sdk/client-sns", () => {
+  const command = (name: string) =>
+    class {
+      readonly name = name;
+      constructor(readonly input: Record<string, unknown>) {}
+    };
+  return {
+    SNSClient: class {
+      send = mockSnsSend;
+    },
+    PublishCommand: command("Publish"),
+    SubscribeCommand: command("Subscribe"),
+    UnsubscribeCommand: command("Unsubscribe"),
+    GetSubscriptionAttributesCommand: command("GetSubscriptionAttributes"),
+  };
+});
+
+vi.mock("@aws-sdk/client-cognito-identity-provider", () => ({
+  CognitoIdentityProviderClient: class {
+    send = mockCognitoSend;
+  },
+  AdminDeleteUserCommand: class {
+    constructor(readonly input: Record<string, unknown>) {}
+  },
+}));
+
+vi.mock("../lib/apns.js", () => ({ sendPushNotification: mockSendPush }));
+
+// Webhook hosts resolve to whatever a test says, never over the network
+vi.mock("dns", () => ({ lookup: mockLookup }));
+
+// Digests reuse the real schedule expression helper
+vi.mock("../lib/escalation.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../lib/escalation.js")>()),
+  scheduleEscalation: vi.fn().mockResolvedValue(null),
+  cancelEscalation: vi.fn().mockResolvedValue(undefined),
+}));
+
+import { handler as usersHandler } from "./users.js";
+import { handler as incidentsHandler } from "./incidents.js";
+import { docClient } from "../lib/dynamo.js";
+import { cancelEscalation } from "../lib/escalation.js";
+
+const db = docClient as unknown as ReturnType<typeof createDynamoFake>;
+
+const ALICE = "user-alice";
+
+function request(method: string, rawPath: string, options: { pathParameters?: Record<string, string>; body?: unknown } = {}) {
+  return {
+    version: "2.0",
+    routeKey: "$default",
+    rawPath,
+    rawQueryString: "",
+    headers: {},
+    pathParameters: options.pathParameters,
+    body: options.body === undefined ? undefined : JSON.stringify(options.body),
+    requestContext: {
+      http: { method, path: rawPath },
+      authorizer: { jwt: { claims: { sub: ALICE, email: "alice@example.com" } } },
+    },
+    isBase64Encoded: false,
+  } as unknown as APIGatewayProxyEventV2;
+}
+
+async function call(handler: (event: APIGatewayProxyEventV2) => Promise<unknown>, event: APIGatewayProxyEventV2) {
+  const response = (await handler(event)) as APIGatewayProxyStructuredResultV2;
+  return { status: response.statusCode, body: JSON.parse(response.body || "{}") };
+}
+
+// The code is only ever sent out, so read it back from the SMS
+function sentCode(): string {
+  const publish = mockSnsSend.mock.calls.map(([command]) => command).find((command) => command.name === "Publish");
+  return publish.input.Message.match(/\d{6}/)[0];
+}
+
+const wrongCode = () => (sentCode() === "000000" ? "111111" : "000000");
+
+describe("profile", () => {
+  beforeEach(() => {
+    db.reset();
+    mockSnsSend.mockReset();
+    mockSnsSend.mockResolvedValue({});
+    mockLookup.mockReset();
+    db.table("users").push({ user_id: ALICE, email: "alice@example.com", name: "alice", created_at: 1 });
+    db.table("devices").push({ user_id: ALICE, device_token: "token-1", platform: "ios", created_at: 2 });
+  });
+
+  it("updates and clears profile fields", async () => {
+    await call(usersHandler, request("PUT", "/users/me", { body: { name: "Alice A.", time_zone: "Europe/Berlin", locale: "en-gb" } }));
+    const { status, body } = await call(usersHandler, request("PUT", "/users/me", { body: { locale: null } }));
+
+    expect(status).toBe(200);
+    expect(body.user).toEqual(expect.objectContaining({ name: "Alice A.", time_zone: "Europe/Berlin" }));
+    expect(body.user.locale).toBeUndefined();
+  });
+
+  it.each([
+    [{ time_zone: "Mars/Olympus" }, "Invalid time zone"],
+    [{ phone_number: "0151 1234567" }, "Invalid phone number"],
+    [{ name: " " }, "Invalid name"],
+  ])("rejects %j", async (update, error) => {
+    const { status, body } = await call(usersHandler, request("PUT", "/users/me", { body: update }));
+
+    expect(status).toBe(400);
+    expect(body.error).toBe(error);
+  });
+
+  it("lists push devices as verified contact methods", async () => {
+    const { body } = await call(usersHandler, request("GET", "/users/me"));
+
+    expect(body.contact_methods).toEqual([
+      { method_id: "token-1", type: "push", address: "ios", verified: true, created_at: 2 },
+    ]);
+  });
+
+  it("verifies an SMS contact method with the texted code", async () => {
+    const created = await call(usersHandler, request("POST", "/users/me/contact-methods", { body: { type: "sms", address: "+4915112345678" } }));
+    const methodId = created.body.contact_method.method_id;
+    const verify = (code: string) =>
+      call(
+        usersHandler,
+        request("POST", `/users/me/contact-methods/${methodId}/verify`, { pathParameters: { id: methodId }, body: { code } })
+      );
+
+    expect(created.status).toBe(201);
+    expect(created.body.contact_method.verified).toBe(false);
+    expect((await verify(wrongCode())).status).toBe(400);
+
+    const { status, body } = await verify(sentCode());
+    expect(status).toBe(200);
+    expect(body.contact_method.verified).toBe(true);
+  });
+
+  it("locks a code after too many wrong guesses", async () => {
+    const created = await call(usersHandler, request("POST", "/users/me/contact-methods", { body: { type: "sms", address: "+4915112345678" } }));
+    const methodId = created.body.contact_method.method_id;
+    for (let i = 0; i < 5; i++) {
+      await call(usersHandler, request("POST", `/users/me/contact-methods/${methodId}/verify`, { pathParameters: { id: methodId }, body: { code: wrongCode() } }));
+    }
+
+    const { status } = await call(
+      usersHandler,
+      request("POST", `/users/me/contact-methods/${methodId}/verify`, { pathParameters: { id: methodId }, body: { code: sentCode() } })
+    );
+
+    expect(status).toBe(429);
+  });
+
+  it("rejects plain http webhooks", async () => {
+    const { status } = await call(
+      usersHandler,
+      request("POST", "/users/me/contact-methods", { body: { type: "webhook", address: "http://example.com/hook" } })
+    );
+
+    expect(status).toBe(400);
+  });
+
+  it("waits between resends and caps them per day", async () => {
+    vi.useFakeTimers({ now: new Date("2026-10-18T12:00:00Z"), toFake: ["Date"] });
+    const created = await call(usersHandler, request("POST", "/users/me/contact-methods", { body: { type: "sms", address: "+4915112345678" } }));
+    const methodId = created.body.contact_method.method_id;
+    const resend = () =>
+      call(usersHandler, request("POST", `/users/me/contact-methods/${methodId}/resend`, { pathParameters: { id: methodId } }));
+
+    const tooSoon = await resend();
+    expect(tooSoon.status).toBe(429);
+    expect(tooSoon.body.retry_after).toBe(60);
+
+    for (let i = 0; i < 4; i++) {
+      vi.setSystemTime(Date.now() + 61 * 1000);
+      expect((await resend()).status).toBe(200);
+    }
+    vi.setSystemTime(Date.now() + 61 * 1000);
+    expect((await resend()).status).toBe(429);
+    expect(mockSnsSend.mock.calls.filter(([command]) => command.name === "Publish")).toHaveLength(5);
+    vi.useRealTimers();
+  });
+
+  it("caps verifications per user, not only per method", async () => {
+    const now = Date.now();
+    db.table("users")[0].verification_sends = Array.from({ length: 20 }, (_, i) => now - i * 1000);
+    db.table("users")[0].verification_sent_at = now;
+
+    const { status } = await call(usersHandler, request("POST", "/users/me/contact-methods", { body: { type: "sms", address: "+4915112345678" } }));
+
+    expect(status).toBe(429);
+    expect(mockSnsSend).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    "https://169.254.169.254/latest/meta-data/",
+    "https://10.0.0.1/hook",
+    "https://127.0.0.1:8443/hook",
+    "https://[::1]/hook",
+    "https://[::ffff:192.168.1.1]/hook",
+    "https://localhost/hook",
+  ])("rejects the private webhook %s", async (address) => {
+    const { status, body } = await call(usersHandler, request("POST", "/users/me/contact-methods", { body: { type: "webhook", address } }));
+
+    expect(status).toBe(400);
+    expect(body.error).toBe("Webhook must point at a public host");
+  });
+
+  it("does not call webhooks whose name resolves to a private address", async () => {
+    mockLookup.mockImplementation((_hostname, _options, callback) => callback(null, [{ address: "10.1.2.3", family: 4 }]));
+
+    const { status } = await call(
+      usersHandler,
+      request("POST", "/users/me/contact-methods", { body: { type: "webhook", address: "https://hooks.example.com/hook" } })
+    );
+
+    expect(status).toBe(502);
+    expect(mockLookup).toHaveBeenCalledWith("hooks.example.com", expect.objectContaining({ all: true }), expect.any(Function));
+    expect(db.table("contact-methods")).toHaveLength(0);
+  });
+
+  it("exports the user's data with device tokens redacted", async () => {
+    db.table("memberships").push({ team_id: "team-a", user_id: ALICE, role: "responder", created_at: 1 });
+    db.table("schedules").push(
+      { team_id: "team-a", slot_id: "s1", user_id: ALICE, start: 1, end: 2 },
+      { team_id: "team-a", slot_id: "s2", user_id: "user-bob", start: 2, end: 3 }
+    );
+    db.table("incidents").push(
+      { incident_id: "inc-1", team_id: "team-a", alarm_name: "a", state: "acked", severity: "critical", triggered_at: 1, timeline: [{ timestamp: 2, event: "acked", actor: ALICE }] },
+      { incident_id: "inc-2", team_id: "team-a", alarm_name: "b", state: "acked", severity: "critical", triggered_at: 2, timeline: [{ timestamp: 3, event: "acked", actor: "user-bob" }] },
+      { incident_id: "inc-3", team_id: "team-b", alarm_name: "c", state: "acked", severity: "critical", triggered_at: 3, timeline: [{ timestamp: 4, event: "acked", actor: ALICE }] }
+    );
+    db.table("scores").push({ user_id: ALICE, display_name: "alice", high_score: 7, total_points: 12 });
+
+    const { status, body } = await call(usersHandler, request("GET", "/users/me/export"));
+
+    expect(status).toBe(200);
+    expect(body.devices[0].device_token).toBe("…en-1");
+    expect(body.schedule_slots.map((slot: { slot_id: string }) => slot.slot_id)).toEqual(["s1"]);
+    // Bob acked inc-2, and inc-3 belongs to a team Alice isn't on
+    expect(body.incidents.map((incident: { incident_id: string }) => incident.incident_id)).toEqual(["inc-1"]);
+    expect(body.game_score).toEqual(expect.objectContaining({ high_score: 7 }));
+  });
+
+  it("records the acker by user ID, whatever name the request gives", async () => {
+    await call(usersHandler, request("PUT", "/users/me", { body: { name: "Alice A." } }));
+    db.table("memberships").push({ team_id: "team-a", user_id: ALICE, role: "responder", created_at: 1 });
+    db.table("incidents").push({ incident_id: "inc-1", team_id: "team-a", alarm_name: "a", state: "triggered", severity: "critical", triggered_at: 1, timeline: [] });
+
+    const { body } = await call(
+      incidentsHandler,
+      request("POST", "/incidents/inc-1/ack", { pathParameters: { id: "inc-1" }, body: { acked_by_name: "Someone Else" } })
+    );
+
+    expect(body.incident.acked_by).toBe(ALICE);
+    expect(body.incident.timeline[0].actor).toBe(ALICE);
+  });
+});
+
+describe("account deletion", () => {
+  const HOUR = 60 * 60 * 1000;
+  const BOB = "user-bob";
+  const CAROL = "user-carol";
+
+  beforeEach(() => {
+    db.reset();
+    mockCognitoSend.mockReset();
+    mockCognitoSend.mockResolvedValue({});
+    mockSendPush.mockReset();
+    mockSendPush.mockResolvedValue({ success: true });
+    db.table("users").push({ user_id: ALICE, email: "alice@example.com", name: "Alice", created_at: 1 });
+    db.table("teams").push({ team_id: "team-a", name: "Platform", aws_account_ids: [], escalation_policy: { levels: [] }, created_at: 1 });
+    db.table("memberships").push(
+      { team_id: "team-a", user_id: BOB, role: "admin", created_at: 1 },
+      { team_id: "team-a", user_id: CAROL, role: "responder", created_at: 1 }
+    );
+    db.table("devices").push({ user_id: BOB, device_token: "token-bob", platform: "ios", created_at: 1 });
+  });
+
+  it("refuses while the user is a team's last owner", async () => {
+    db.table("memberships").push({ team_id: "team-a", user_id: ALICE, role: "owner", created_at: 1 });
+
+    const { status, body } = await call(usersHandler, request("DELETE", "/users/me"));
+
+    expect(status).toBe(409);
+    expect(body.teams).toEqual([{ team_id: "team-a", name: "Platform" }]);
+    expect(db.table("users")).toHaveLength(1);
+    expect(mockCognitoSend).not.toHaveBeenCalled();
+  });
+
+  it("deletes a team the user is the only member of", async () => {
+    db.table("teams").push({ team_id: "team-solo", name: "Solo", aws_account_ids: [], escalation_policy: { levels: [] }, owner_user_id: ALICE, created_at: 1 });
+    db.table("memberships").push({ team_id: "team-solo", user_id: ALICE, role: "owner", created_at: 1 });
+    db.table("schedules").push({ team_id: "team-solo", slot_id: "s1", user_id: ALICE, start: Date.now() + HOUR, end: Date.now() + 2 * HOUR });
+    db.table("routing").push({ team_id: "team-solo", rule_id: "r1", name: "all", priority: 1, match: {}, created_at: 1 });
+    db.table("invites").push({ code: "abc", team_id: "team-solo", email: "x@example.com", role: "responder", created_by: ALICE, created_at: 1, expires_at: Date.now() + HOUR });
+
+    const { status, body } = await call(usersHandler, request("DELETE", "/users/me"));
+
+    expect(status).toBe(200);
+    expect(body.summary).toEqual(expect.objectContaining({ teams_left: [], teams_deleted: ["team-solo"], coverage_gaps: [] }));
+    expect(db.table("teams").map((team) => team.team_id)).toEqual(["team-a"]);
+    expect(db.table("schedules")).toHaveLength(0);
+    expect(db.table("routing")).toHaveLength(0);
+    expect(db.table("invites")).toHaveLength(0);
+    expect(db.table("memberships").map((membership) => membership.user_id)).toEqual([BOB, CAROL]);
+  });
+
+  it("resolves the open incidents of a team it deletes", async () => {
+    db.table("teams").push({ team_id: "team-solo", name: "Solo", aws_account_ids: [], escalation_policy: { levels: [] }, owner_user_id: ALICE, created_at: 1 });
+    db.table("memberships").push({ team_id: "team-solo", user_id: ALICE, role: "owner", created_at: 1 });
+    db.table("incidents").push(
+      { incident_id: "inc-1", team_id: "team-solo", alarm_name: "a", state: "triggered", severity: "critical", triggered_at: 1, assigned_to: ALICE, escalation_rule_id: "esc-inc-1-1", timeline: [] },
+      { incident_id: "inc-2", team_id: "team-solo", alarm_name: "b", state: "acked", severity: "warning", triggered_at: 2, assigned_to: ALICE, timeline: [] },
+      { incident_id: "inc-3", team_id: "team-solo", alarm_name: "c", state: "resolved", severity: "info", triggered_at: 3, resolved_at: 4, timeline: [] }
+    );
+
+    const { body } = await call(usersHandler, request("DELETE", "/users/me"));
+
+    expect(body.summary.incidents_resolved).toEqual(["inc-1", "inc-2"]);
+    const [first, second] = db.table("incidents");
+    expect(first).toEqual(expect.objectContaining({ state: "resolved", resolved_at: expect.any(Number) }));
+    expect(first.assigned_to).toBeUndefined();
+    expect(first.escalation_rule_id).toBeUndefined();
+    expect(first.timeline).toEqual([expect.objectContaining({ event: "resolved", actor: "system" })]);
+    expect(second.state).toBe("resolved");
+    expect(cancelEscalation).toHaveBeenCalledWith("esc-inc-1-1");
+  });
+
+  it("clears the user's slots, reassigns their incidents and reports the gaps", async () => {
+    const now = Date.now();
+    db.table("memberships").push({ team_id: "team-a", user_id: ALICE, role: "responder", created_at: 1 });
+    db.table("schedules").push(
+      { team_id: "team-a", slot_id: "running", user_id: ALICE, start: now - HOUR, end: now + HOUR },
+      { team_id: "team-a", slot_id: "future", user_id: ALICE, start: now + 2 * HOUR, end: now + 4 * HOUR },
+      { team_id: "team-a", slot_id: "carol", user_id: CAROL, start: now - HOUR / 2, end: now + 3 * HOUR }
+    );
+    db.table("incidents").push({ incident_id: "inc-1", team_id: "team-a", alarm_name: "a", state: "acked", severity: "critical", assigned_to: ALICE, triggered_at: 1, timeline: [] });
+
+    const { status, body } = await call(usersHandler, request("DELETE", "/users/me"));
+
+    expect(status).toBe(200);
+    expect(db.table("schedules").map((slot) => slot.slot_id)).toEqual(["running", "carol"]);
+    expect(db.table("schedules")[0].end).toBeLessThanOrEqual(Date.now());
+    expect(body.summary.coverage_gaps).toEqual([{ team_id: "team-a", start: now + 3 * HOUR, end: now + 4 * HOUR }]);
+    expect(body.summary.incidents_reassigned).toEqual([{ incident_id: "inc-1", team_id: "team-a", assigned_to: CAROL }]);
+    expect(db.table("incidents")[0]).toEqual(expect.objectContaining({ assigned_to: CAROL, timeline: [expect.objectContaining({ event: "reassigned", actor: "system" })] }));
+    expect(mockSendPush).toHaveBeenCalledWith(expect.objectContaining({ device_token: "token-bob" }), expect.objectContaining({ title: "📅 ON-CALL GAP: Platform" }));
+    expect(db.table("memberships").map((membership) => membership.user_id)).toEqual([BOB, CAROL]);
+  });
+});
@@ -1,14 +1,131 @@
 import type { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from "aws-lambda";
 import { CognitoIdentityProviderClient, AdminDeleteUserCommand } from "@aws-sdk/client-cognito-identity-provider";
-import { docClient, DeleteCommand, QueryCommand } from "../lib/dynamo.js";
-import { jsonResponse, getUserIdFromEvent, Device } from "../types/index.js";
+import { docClient, DeleteCommand, GetCommand, QueryCommand, UpdateCommand } from "../lib/dynamo.js";
+import {
+  jsonResponse,
+  getUserIdFromEvent,
+  getProfileFromEvent,
+  ContactMethod,
+  ContactMethodType,
+  Device,
+  HeldNotification,
+  Incident,
+  IncidentState,
+  Invite,
+  Membership,
+  NotificationRule,
+  Schedule,
+  Severity,
+  TimelineEntry,
+  User,
+} from "../types/index.js";
+import { claimVerificationSend, getUser, getUserSummaries, getVisibleUserIds, saveUserProfile } from "../lib/users.js";
+import { findOnCallUser, getTeam, handOverOwnerContact, isLastOwner, listTeamMemberships, listUserMemberships } from "../lib/teams.js";
+import { hasRole } from "../lib/authz.js";
+import {
+  CONTACT_METHOD_TYPES,
+  checkVerification,
+  deleteContactMethod,
+  getContactMethod,
+  listContactMethods,
+  saveContactMethod,
+  sendVerification,
+  summarizeContactMethod,
+  verificationRetryAfter,
+  webhookHostError,
+  ContactMethodSummary,
+} from "../lib/contact-methods.js";
+import { pushToDevices, quietUntil, scheduleDigest } from "../lib/notifications.js";
+import { listTeamIncidents, IncidentCursor, MAX_PAGE_SIZE } from "../lib/incidents.js";
+import { cancelEscalation } from "../lib/escalation.js";
+import { randomUUID } from "crypto";
 
 const USERS_TABLE = process.env.USERS_TABLE!;
 const DEVICES_TABLE = process.env.DEVICES_TABLE!;
 const USER_POOL_ID = process.env.USER_POOL_ID!;
+const MEMBERSHIPS_TABLE = process.env.MEMBERSHIPS_TABLE!;
+const SCHEDULES_TABLE = process.env.SCHEDULES_TABLE!;
+const INCIDENTS_TABLE = process.env.INCIDENTS_TABLE!;
+const HELD_NOTIFICATIONS_TABLE = process.env.HELD_NOTIFICATIONS_TABLE!;
+const SCORES_TABLE = process.env.SCORES_TABLE!;
+const TEAMS_TABLE = process.env.TEAMS_TABLE!;
+const ROUTING_RULES_TABLE = process.env.ROUTING_RULES_TABLE!;
+const SILENCES_TABLE = process.env.SILENCES_TABLE!;
+const INTEGRATIONS_TABLE = process.env.INTEGRATIONS_TABLE!;
+const INVITES_TABLE = process.env.INVITES_TABLE!;
 
 const cognitoClient = new CognitoIdentityProviderClient({});
 
+// Enough for every member of the caller's teams on one screen
+const MAX_LOOKUP_IDS = 100;
+
+const MAX_NAME_LENGTH = 100;
+const MAX_CONTACT_METHODS = 10;
+const MAX_NOTIFICATION_RULES = 20;
+const MAX_RULE_DELAY_MINUTES = 24 * 60;
+const MAX_DND_MS = 7 * 24 * 60 * 60 * 1000;
+// Schedules need a moment in the future
+const DIGEST_DELAY_MS = 60 * 1000;
+
+// Profile fields PUT /users/me accepts; null clears the optional ones
+const PROFILE_FIELDS = ["name", "time_zone", "phone_number", "locale"] as const;
+
+// Incidents someone can still be working on
+const OPEN_STATES: IncidentState[] = ["triggered", "acked"];
+
+// What DELETE /users/me changed besides removing the account itself
+interface AccountDeletionSummary {
+  teams_left: string[];
+  teams_deleted: string[]; // Teams the user was the only member of
+  slots_removed: RemovedSlot[];
+  coverage_gaps: CoverageGap[];
+  incidents_reassigned: ReassignedIncident[];
+  incidents_resolved: string[]; // Open incidents of the deleted teams
+  devices_removed: number;
+  contact_methods_removed: number;
+}
+
+interface RemovedSlot {
+  team_id: string;
+  slot_id: string;
+  start: number;
+  end: number; // As scheduled
+  ended_early?: boolean; // The slot was running; it now ends at deletion instead of being deleted
+}
+
+interface CoverageGap {
+  team_id: string;
+  start: number;
+  end: number;
+}
+
+// What GET /users/me/export returns
+interface DataExport {
+  exported_at: string; // ISO 8601
+  profile: User;
+  contact_methods: ContactMethodSummary[];
+  devices: Device[]; // device_token keeps only its last 4 characters
+  memberships: (Membership & { team_name: string | null })[];
+  schedule_slots: Schedule[]; // Past and future, on the user's current teams
+  incidents: {
+    incident_id: string;
+    team_id: string;
+    alarm_name: string;
+    severity: Severity;
+    state: IncidentState;
+    triggered_at: number;
+    assigned_to_me: boolean;
+    actions: TimelineEntry[]; // The user's own timeline entries
+  }[];
+  game_score: Record<string, unknown> | null;
+}
+
+interface ReassignedIncident {
+  incident_id: string;
+  team_id: string;
+  assigned_to: string | null; // The current on-call, or null when nobody is
+}
+
 export async function handler(event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> {
   const userId = getUserIdFromEvent(event);
   if (!userId) {
@@ -19,11 +136,315 @@ export async function handler(event: APIGatewayProxyEventV2): Promise<APIGateway
   const path = event.rawPath;
 
   try {
-    // DELETE /users/me - Delete current user's account
+    // GET /users?ids=a,b - Names and emails of the caller's teammates
+    if (method === "GET" && path === "/users") {
+      const ids = (event.queryStringParameters?.ids || "").split(",").filter(Boolean);
+      if (ids.length === 0) {
+        return jsonResponse(400, { error: "Missing ids" });
+      }
+      if (ids.length > MAX_LOOKUP_IDS) {
+        return jsonResponse(400, { error: `At most ${MAX_LOOKUP_IDS} ids per lookup` });
+      }
+
+      // Users outside the caller's teams are left out, as are users without a directory entry
+      const visible = await getVisibleUserIds(userId);
+      return jsonResponse(200, { users: await getUserSummaries(ids.filter((id) => visible.has(id))) });
+    }
+
+    // GET /users/me - Profile and contact methods
+    if (method === "GET" && path === "/users/me") {
+      const user = await getOrCreateUser(userId, event);
+      if (!user) {
+        return jsonResponse(404, { error: "User not found" });
+      }
+
+      return jsonResponse(200, { user, contact_methods: await listContactMethodSummaries(userId) });
+    }
+
+    // GET /users/me/export - Everything stored about the caller, for privacy requests
+    if (method === "GET" && path === "/users/me/export") {
+      const user = await getUser(userId);
+      if (!user) {
+        return jsonResponse(404, { error: "User not found" });
+      }
+
+      return jsonResponse(200, await buildDataExport(user));
+    }
+
+    // PUT /users/me - Update profile
+    if (method === "PUT" && path === "/users/me") {
+      const user = await getOrCreateUser(userId, event);
+      if (!user) {
+        return jsonResponse(404, { error: "User not found" });
+      }
+
+      const body = JSON.parse(event.body || "{}");
+      const validationError =
+        validateProfile(body) ??
+        (Array.isArray(body.notification_rules)
+          ? validateNotificationRules(body.notification_rules, (await listContactMethods(userId)).map((m) => m.method_id))
+          : null);
+      if (validationError) {
+        return jsonResponse(400, { error: validationError });
+      }
+
+      const sets: string[] = [];
+      const removes: string[] = [];
+      const names: Record<string, string> = {};
+      const values: Record<string, unknown> = {};
+      for (const field of PROFILE_FIELDS) {
+        if (body[field] === undefined) continue;
+        names[`#${field}`] = field;
+        if (body[field] === null) {
+          removes.push(`#${field}`);
+        } else {
+          sets.push(`#${field} = :${field}`);
+          values[`:${field}`] = field === "locale" ? Intl.getCanonicalLocales(body[field])[0] : body[field].trim();
+        }
+      }
+      if (Array.isArray(body.notification_rules)) {
+        const rules: NotificationRule[] = body.notification_rules.map((rule: NotificationRule) => ({
+          rule_id: rule.rule_id || randomUUID(),
+          severity: rule.severity,
+          delay_minutes: rule.delay_minutes,
+          ...(rule.contact_method_id && { contact_method_id: rule.contact_method_id }),
+          ...(rule.working_hours_only && { working_hours_only: true }),
+        }));
+        sets.push("notification_rules = :rules");
+        values[":rules"] = rules;
+      } else if (body.notification_rules === null) {
+        removes.push("notification_rules");
+      }
+      for (const field of ["quiet_hours", "dnd_until"] as const) {
+        if (body[field] === null) {
+          removes.push(field);
+        } else if (body[field] !== undefined) {
+          sets.push(`${field} = :${field}`);
+          values[`:${field}`] = field === "quiet_hours" ? { start: body.quiet_hours.start, end: body.quiet_hours.end } : body.dnd_until;
+        }
+      }
+      if (sets.length === 0 && removes.length === 0) {
+        return jsonResponse(200, { user });
+      }
+
+      const result = await docClient.send(
+        new UpdateCommand({
+          TableName: USERS_TABLE,
+          Key: { user_id: userId },
+          UpdateExpression: [sets.length ? `SET ${sets.join(", ")}` : "", removes.length ? `REMOVE ${removes.join(", ")}` : ""]
+            .filter(Boolean)
+            .join(" "),
+          ...(Object.keys(names).length > 0 && { ExpressionAttributeNames: names }),
+          ...(Object.keys(values).length > 0 && { ExpressionAttributeValues: values }),
+          ReturnValues: "ALL_NEW",
+        })
+      );
+      const updated = result.Attributes as User;
+
+      // Held pushes go out when the window ends; if it now ends sooner, so does the digest
+      const now = Date.now();
+      const quietBefore = quietUntil(user, now);
+      const quietAfter = quietUntil(updated, now);
+      if (quietBefore !== null && (quietAfter === null || quietAfter < quietBefore)) {
+        await scheduleDigest(userId, quietAfter ?? now + DIGEST_DELAY_MS);
+      }
+
+      return jsonResponse(200, { user: updated });
+    }
+
+    // POST /users/me/contact-methods - Add a contact method and send its verification
+    if (method === "POST" && path === "/users/me/contact-methods") {
+      const body = JSON.parse(event.body || "{}");
+      const validationError = validateContactMethod(body.type, body.address);
+      if (validationError) {
+        return jsonResponse(400, { error: validationError });
+      }
+
+      const type: ContactMethodType = body.type;
+      const address: string = type === "email" ? body.address.trim().toLowerCase() : body.address.trim();
+      const existing = await listContactMethods(userId);
+      if (existing.some((m) => m.type === type && m.address === address)) {
+        return jsonResponse(409, { error: "Contact method already exists" });
+      }
+      if (existing.length >= MAX_CONTACT_METHODS) {
+        return jsonResponse(400, { error: `At most ${MAX_CONTACT_METHODS} contact methods` });
+      }
+      if (!(await claimVerificationSend(userId, Date.now()))) {
+        return jsonResponse(429, { error: "Too many verification messages today; try again later" });
+      }
+
+      const contactMethod = await trySendVerification({
+        user_id: userId,
+        method_id: randomUUID(),
+        type,
+        address,
+        created_at: Date.now(),
+      });
+      if (!contactMethod) {
+        return jsonResponse(502, { error: `Could not reach ${address}` });
+      }
+
+      await saveContactMethod(contactMethod);
+      return jsonResponse(201, { contact_method: summarizeContactMethod(contactMethod) });
+    }
+
+    // POST /users/me/contact-methods/{id}/verify - Confirm a contact method
+    if (method === "POST" && path.match(/^\/users\/me\/contact-methods\/[^/]+\/verify$/)) {
+      const contactMethod = await getContactMethod(userId, event.pathParameters?.id || "");
+      if (!contactMethod) {
+        return jsonResponse(404, { error: "Contact method not found" });
+      }
+
+      const body = JSON.parse(event.body || "{}");
+      const { result, method: checked } = await checkVerification(
+        contactMethod,
+        typeof body.code === "string" ? body.code : undefined
+      );
+      if (checked !== contactMethod) {
+        await saveContactMethod(checked);
+      }
+
+      switch (result) {
+        case "verified":
+          return jsonResponse(200, { contact_method: summarizeContactMethod(checked) });
+        case "pending":
+          return jsonResponse(409, { error: "Confirm the subscription from the link in the email first" });
+        case "invalid":
+          return jsonResponse(400, { error: "Invalid code" });
+        case "expired":
+          return jsonResponse(410, { error: "Code has expired; request a new one" });
+        case "locked":
+          return jsonResponse(429, { error: "Too many attempts; request a new code" });
+      }
+    }
+
+    // POST /users/me/contact-methods/{id}/resend - Send a fresh verification
+    if (method === "POST" && path.match(/^\/users\/me\/contact-methods\/[^/]+\/resend$/)) {
+      const contactMethod = await getContactMethod(userId, event.pathParameters?.id || "");
+      if (!contactMethod) {
+        return jsonResponse(404, { error: "Contact method not found" });
+      }
+      if (contactMethod.verified_at !== undefined) {
+        return jsonResponse(409, { error: "Contact method is already verified" });
+      }
+      const retryAfter = verificationRetryAfter(contactMethod, Date.now());
+      if (retryAfter > 0) {
+        return jsonResponse(429, { error: "Verification was sent recently; try again later", retry_after: retryAfter });
+      }
+      if (!(await claimVerificationSend(userId, Date.now()))) {
+        return jsonResponse(429, { error: "Too many verification messages today; try again later" });
+      }
+
+      const resent = await trySendVerification(contactMethod);
+      if (!resent) {
+        return jsonResponse(502, { error: `Could not reach ${contactMethod.address}` });
+      }
+
+      await saveContactMethod(resent);
+      return jsonResponse(200, { contact_method: summarizeContactMethod(resent) });
+    }
+
+    // DELETE /users/me/contact-methods/{id} - Remove a contact method
+    if (method === "DELETE" && path.match(/^\/users\/me\/contact-methods\/[^/]+$/)) {
+      const contactMethod = await getContactMethod(userId, event.pathParameters?.id || "");
+      if (!contactMethod) {
+        return jsonResponse(404, { error: "Contact method not found" });
+      }
+
+      await deleteContactMethod(contactMethod);
+
+      // Rules can't page through a method that's gone
+      const rules = (await getUser(userId))?.notification_rules;
+      if (rules?.some((rule) => rule.contact_method_id === contactMethod.method_id)) {
+        await docClient.send(
+          new UpdateCommand({
+            TableName: USERS_TABLE,
+            Key: { user_id: userId },
+            UpdateExpression: "SET notification_rules = :rules",
+            ExpressionAttributeValues: { ":rules": rules.filter((rule) => rule.contact_method_id !== contactMethod.method_id) },
+          })
+        );
+      }
+
+      return jsonResponse(200, { message: "Contact method removed" });
+    }
+
+    // DELETE /users/me - Delete current user's account, cascading to their teams, schedules and incidents
     if (method === "DELETE" && path === "/users/me") {
       console.log(`[Users] Deleting account for user: ${userId}`);
 
-      // 1. Delete all user's devices
+      // A team can't be left without an owner, so the user has to hand those teams over first.
+      // Teams with nobody else in them go with the account.
+      const memberships = await listUserMemberships(userId);
+      const lastOwnerOf: { team_id: string; name: string }[] = [];
+      const soleMemberOf: string[] = [];
+      for (const membership of memberships) {
+        if (membership.role === "owner" && (await isLastOwner(membership.team_id, userId))) {
+          if ((await listTeamMemberships(membership.team_id)).length === 1) {
+            soleMemberOf.push(membership.team_id);
+            continue;
+          }
+          const team = await getTeam(membership.team_id);
+          lastOwnerOf.push({ team_id: membership.team_id, name: team?.name ?? membership.team_id });
+        }
+      }
+      if (lastOwnerOf.length > 0) {
+        return jsonResponse(409, {
+          error: `Make someone else an owner of ${lastOwnerOf.map((team) => team.name).join(", ")} first`,
+          teams: lastOwnerOf,
+        });
+      }
+
+      const user = await getUser(userId);
+      const displayName = user?.name || userId;
+      const now = Date.now();
+      const summary: AccountDeletionSummary = {
+        teams_left: [],
+        teams_deleted: [],
+        slots_removed: [],
+        coverage_gaps: [],
+        incidents_reassigned: [],
+        incidents_resolved: [],
+        devices_removed: 0,
+        contact_methods_removed: 0,
+      };
+
+      // 1. Take the user off each team's schedule, then out of the team, deleting the teams nobody else is in
+      for (const membership of memberships) {
+        if (soleMemberOf.includes(membership.team_id)) {
+          summary.incidents_resolved.push(...(await resolveOpenIncidents(membership.team_id, displayName)));
+          await deleteTeam(membership.team_id);
+          summary.teams_deleted.push(membership.team_id);
+          continue;
+        }
+
+        const { slots, gaps } = await removeFutureSlots(membership.team_id, userId, now);
+        summary.slots_removed.push(...slots);
+        summary.coverage_gaps.push(...gaps);
+
+        if (membership.role === "owner") {
+          await handOverOwnerContact(membership.team_id, userId);
+        }
+        await docClient.send(
+          new DeleteCommand({
+            TableName: MEMBERSHIPS_TABLE,
+            Key: { team_id: membership.team_id, user_id: userId },
+          })
+        );
+        summary.teams_left.push(membership.team_id);
+      }
+      console.log(
+        `[Users] Left ${summary.teams_left.length} teams, deleted ${summary.teams_deleted.length} (resolving ${summary.incidents_resolved.length} open incidents), removed ${summary.slots_removed.length} schedule slots`
+      );
+
+      // 2. Hand open incidents to whoever is on call now that the user's slots are gone
+      summary.incidents_reassigned = await reassignOpenIncidents(userId, summary.teams_left, displayName);
+      console.log(`[Users] Reassigned ${summary.incidents_reassigned.length} open incidents`);
+
+      // 3. Tell each team's admins about the on-call gaps left behind
+      await reportCoverageGaps(summary.coverage_gaps, displayName);
+
+      // 4. Delete all user's devices
       const devicesResult = await docClient.send(
         new QueryCommand({
           TableName: DEVICES_TABLE,
@@ -42,9 +463,17 @@ export async function handler(event: APIGatewayProxyEventV2): Promise<APIGateway
             })
           );
         }
+        summary.devices_removed = devicesResult.Items.length;
       }
 
-      // 2. Delete user from users table
+      // 5. Delete contact methods, unsubscribing confirmed emails, and anything held for the digest
+      for (const contactMethod of await listContactMethods(userId)) {
+        await deleteContactMethod(contactMethod);
+        summary.contact_methods_removed++;
+      }
+      await deleteHeldNotifications(userId);
+
+      // 6. Delete user from users table
       console.log(`[Users] Deleting user record from DynamoDB`);
       await docClient.send(
         new DeleteCommand({
@@ -53,7 +482,7 @@ export async function handler(event: APIGatewayProxyEventV2): Promise<APIGateway
         })
       );
 
-      // 3. Delete Cognito user
+      // 7. Delete Cognito user
       console.log(`[Users] Deleting Cognito user`);
       await cognitoClient.send(
         new AdminDeleteUserCommand({
@@ -63,7 +492,7 @@ export async function handler(event: APIGatewayProxyEventV2): Promise<APIGateway
       );
 
       console.log(`[Users] Account deleted successfully`);
-      return jsonResponse(200, { message: "Account deleted successfully" });
+      return jsonResponse(200, { message: "Account deleted successfully", summary });
     }
 
     return jsonResponse(404, { error: "Not found" });
@@ -72,3 +501,505 @@ export async function handler(event: APIGatewayProxyEventV2): Promise<APIGateway
     return jsonResponse(500, { error: "Internal server error" });
   }
 }
+
+// Accounts from before the directory existed get their entry on first visit
+async function getOrCreateUser(userId: string, event: APIGatewayProxyEventV2): Promise<User | null> {
+  const existing = await getUser(userId);
+  if (existing) {
+    return existing;
+  }
+
+  const profile = getProfileFromEvent(event);
+  if (!profile) {
+    return null;
+  }
+  await saveUserProfile(userId, profile.email, profile.name);
+  return getUser(userId);
+}
+
+// Push devices are verified by registering, so they're listed alongside the rest
+async function listContactMethodSummaries(userId: string): Promise<ContactMethodSummary[]> {
+  const [methods, devicesResult] = await Promise.all([
+    listContactMethods(userId),
+    docClient.send(
+      new QueryCommand({
+        TableName: DEVICES_TABLE,
+        KeyConditionExpression: "user_id = :uid",
+        ExpressionAttributeValues: { ":uid": userId },
+      })
+    ),
+  ]);
+
+  const devices = ((devicesResult.Items as Device[]) || []).map(
+    (device): ContactMethodSummary => ({
+      method_id: device.device_token,
+      type: "push",
+      address: device.platform,
+      verified: true,
+      created_at: device.created_at,
+    })
+  );
+  return [...devices, ...methods.map(summarizeContactMethod)];
+}
+
+async function trySendVerification(contactMethod: ContactMethod): Promise<ContactMethod | null> {
+  try {
+    return await sendVerification(contactMethod);
+  } catch (error) {
+    console.error(`[Users] Verification for ${contactMethod.type} contact method failed:`, error);
+    return null;
+  }
+}
+
+/**
+ * The caller's personal data as one JSON document. Device tokens are
+ * redacted and contact methods leave out their verification state.
+ * Incidents are read from the user's current teams and kept when they are
+ * assigned to the user or have timeline entries whose actor is the user's
+ * ID (acks, resolves and reassignments); those entries are exported with
+ * the incident. Incidents of teams the user has left aren't included.
+ */
+async function buildDataExport(user: User): Promise<DataExport> {
+  const userId = user.user_id;
+  const [memberships, devicesResult, contactMethods, scoreResult] = await Promise.all([
+    listUserMemberships(userId),
+    docClient.send(
+      new QueryCommand({
+        TableName: DEVICES_TABLE,
+        KeyConditionExpression: "user_id = :uid",
+        ExpressionAttributeValues: { ":uid": userId },
+      })
+    ),
+    listContactMethods(userId),
+    docClient.send(new GetCommand({ TableName: SCORES_TABLE, Key: { user_id: userId } })),
+  ]);
+  const teamIds = memberships.map((membership) => membership.team_id);
+
+  const teams = await Promise.all(teamIds.map(getTeam));
+  const schedules = await Promise.all(
+    teamIds.map((teamId) =>
+      docClient.send(
+        new QueryCommand({
+          TableName: SCHEDULES_TABLE,
+          KeyConditionExpression: "team_id = :tid",
+          ExpressionAttributeValues: { ":tid": teamId },
+        })
+      )
+    )
+  );
+
+  const incidents: DataExport["incidents"] = [];
+  let cursor: IncidentCursor | undefined;
+  do {
+    const page = await listTeamIncidents(teamIds, { limit: MAX_PAGE_SIZE, cursor });
+    for (const incident of page.incidents) {
+      const actions = (incident.timeline || []).filter((entry) => entry.actor === userId);
+      if (incident.assigned_to !== userId && actions.length === 0) continue;
+      incidents.push({
+        incident_id: incident.incident_id,
+        team_id: incident.team_id,
+        alarm_name: incident.alarm_name,
+        severity: incident.severity,
+        state: incident.state,
+        triggered_at: incident.triggered_at,
+        assigned_to_me: incident.assigned_to === userId,
+        actions,
+      });
+    }
+    cursor = page.cursor ?? undefined;
+  } while (cursor);
+
+  return {
+    exported_at: new Date().toISOString(),
+    profile: user,
+    contact_methods: contactMethods.map(summarizeContactMethod),
+    devices: ((devicesResult.Items as Device[]) || []).map((device) => ({
+      ...device,
+      device_token: redactToken(device.device_token),
+    })),
+    memberships: memberships.map((membership, i) => ({ ...membership, team_name: teams[i]?.name ?? null })),
+    schedule_slots: schedules.flatMap((result) => ((result.Items as Schedule[]) || []).filter((slot) => slot.user_id === userId)),
+    incidents,
+    game_score: (scoreResult.Item as Record<string, unknown>) || null,
+  };
+}
+
+// Enough to tell devices apart, not enough to push to them
+function redactToken(token: string): string {
+  return `…${token.slice(-4)}`;
+}
+
+/**
+ * Delete the user's future slots on a team and end a running one now. The
+ * parts of those slots nobody else covers are returned as coverage gaps.
+ */
+async function removeFutureSlots(
+  teamId: string,
+  userId: string,
+  now: number
+): Promise<{ slots: RemovedSlot[]; gaps: CoverageGap[] }> {
+  const result = await docClient.send(
+    new QueryCommand({
+      TableName: SCHEDULES_TABLE,
+      KeyConditionExpression: "team_id = :tid",
+      ExpressionAttributeValues: { ":tid": teamId },
+    })
+  );
+  const schedule = (result.Items as Schedule[]) || [];
+  const otherSlots = schedule.filter((slot) => slot.user_id !== userId);
+
+  const slots: RemovedSlot[] = [];
+  const gaps: CoverageGap[] = [];
+  for (const slot of schedule.filter((candidate) => candidate.user_id === userId && candidate.end > now)) {
+    const running = slot.start < now;
+    if (running) {
+      await docClient.send(
+        new UpdateCommand({
+          TableName: SCHEDULES_TABLE,
+          Key: { team_id: teamId, slot_id: slot.slot_id },
+          UpdateExpression: "SET #end = :now",
+          ExpressionAttributeNames: { "#end": "end" },
+          ExpressionAttributeValues: { ":now": now },
+        })
+      );
+    } else {
+      await docClient.send(
+        new DeleteCommand({
+          TableName: SCHEDULES_TABLE,
+          Key: { team_id: teamId, slot_id: slot.slot_id },
+        })
+      );
+    }
+
+    slots.push({ team_id: teamId, slot_id: slot.slot_id, start: slot.start, end: slot.end, ...(running ? { ended_early: true } : {}) });
+    for (const range of uncoveredRanges(Math.max(slot.start, now), slot.end, otherSlots)) {
+      gaps.push({ team_id: teamId, ...range });
+    }
+  }
+  return { slots, gaps };
+}
+
+// The parts of [start, end) that none of the slots cover
+function uncoveredRanges(start: number, end: number, slots: Schedule[]): { start: number; end: number }[] {
+  const ranges: { start: number; end: number }[] = [];
+  let cursor = start;
+  for (const slot of [...slots].sort((a, b) => a.start - b.start)) {
+    if (slot.end <= cursor || slot.start >= end) continue;
+    if (slot.start > cursor) {
+      ranges.push({ start: cursor, end: slot.start });
+    }
+    cursor = slot.end;
+    if (cursor >= end) break;
+  }
+  if (cursor < end) {
+    ranges.push({ start: cursor, end });
+  }
+  return ranges;
+}
+
+// The team's triggered and acked incidents, optionally only those assigned to `assignedTo`
+async function listOpenIncidents(teamId: string, assignedTo?: string): Promise<Incident[]> {
+  const incidents: Incident[] = [];
+  for (const state of OPEN_STATES) {
+    let startKey: Record<string, unknown> | undefined;
+    do {
+      const result = await docClient.send(
+        new QueryCommand({
+          TableName: INCIDENTS_TABLE,
+          IndexName: "team-state-index",
+          KeyConditionExpression: "team_id = :tid AND #state = :state",
+          ...(assignedTo ? { FilterExpression: "assigned_to = :uid" } : {}),
+          ExpressionAttributeNames: { "#state": "state" },
+          ExpressionAttributeValues: { ":tid": teamId, ":state": state, ...(assignedTo ? { ":uid": assignedTo } : {}) },
+          ...(startKey ? { ExclusiveStartKey: startKey } : {}),
+        })
+      );
+      incidents.push(...((result.Items as Incident[]) || []));
+      startKey = result.LastEvaluatedKey;
+    } while (startKey);
+  }
+  return incidents;
+}
+
+// Open incidents go to their team's current on-call, or are left unassigned when nobody is
+async function reassignOpenIncidents(userId: string, teamIds: string[], displayName: string): Promise<ReassignedIncident[]> {
+  const incidents: Incident[] = [];
+  for (const teamId of teamIds) {
+    incidents.push(...(await listOpenIncidents(teamId, userId)));
+  }
+
+  const onCallByTeam = new Map<string, string | null>();
+  const reassigned: ReassignedIncident[] = [];
+  for (const incident of incidents) {
+    if (!onCallByTeam.has(incident.team_id)) {
+      const onCall = await findOnCallUser(incident.team_id);
+      onCallByTeam.set(incident.team_id, onCall === userId ? null : onCall);
+    }
+    const assignee = onCallByTeam.get(incident.team_id)!;
+    const [assigneeUser] = assignee ? await getUserSummaries([assignee]) : [];
+
+    const timelineEntry: TimelineEntry = {
+      timestamp: Date.now(),
+      event: "reassigned",
+      actor: "system",
+      note: assignee
+        ? `Reassigned to ${assigneeUser?.name ?? assignee} (on call): ${displayName} deleted their account`
+        : `Unassigned: ${displayName} deleted their account and nobody is on call`,
+    };
+
+    await docClient.send(
+      new UpdateCommand({
+        TableName: INCIDENTS_TABLE,
+        Key: { incident_id: incident.incident_id },
+        UpdateExpression: assignee
+          ? "SET assigned_to = :assigned, timeline = list_append(timeline, :entry)"
+          : "SET timeline = list_append(timeline, :entry) REMOVE assigned_to",
+        ExpressionAttributeValues: {
+          ...(assignee ? { ":assigned": assignee } : {}),
+          ":entry": [timelineEntry],
+        },
+      })
+    );
+    reassigned.push({ incident_id: incident.incident_id, team_id: incident.team_id, assigned_to: assignee });
+  }
+  return reassigned;
+}
+
+/**
+ * Resolve the open incidents of a team that is about to be deleted: nobody
+ * is left to work them, and their pending escalation would page nobody.
+ * Returns the IDs of the incidents resolved.
+ */
+async function resolveOpenIncidents(teamId: string, displayName: string): Promise<string[]> {
+  const resolved: string[] = [];
+  for (const incident of await listOpenIncidents(teamId)) {
+    const now = Date.now();
+    const timelineEntry: TimelineEntry = {
+      timestamp: now,
+      event: "resolved",
+      actor: "system",
+      note: `Resolved: ${displayName} deleted their account and the team with it`,
+    };
+
+    try {
+      await docClient.send(
+        new UpdateCommand({
+          TableName: INCIDENTS_TABLE,
+          Key: { incident_id: incident.incident_id },
+          UpdateExpression:
+            "SET #state = :state, resolved_at = :resolved_at, timeline = list_append(timeline, :entry) REMOVE assigned_to, escalation_rule_id",
+          ConditionExpression: "#state <> :state",
+          ExpressionAttributeNames: { "#state": "state" },
+          ExpressionAttributeValues: {
+            ":state": "resolved",
+            ":resolved_at": now,
+            ":entry": [timelineEntry],
+          },
+        })
+      );
+    } catch (error) {
+      // Resolved by its alert source in the meantime
+      if ((error as Error).name === "ConditionalCheckFailedException") continue;
+      throw error;
+    }
+
+    await cancelEscalation(incident.escalation_rule_id);
+    resolved.push(incident.incident_id);
+  }
+  return resolved;
+}
+
+/**
+ * Delete a team along with its membership, schedule, routing rules,
+ * silences, integrations and pending invites. Its incidents stay as history,
+ * so resolve the open ones first; alarms from its accounts show up as
+ * unrouted until another team claims them.
+ */
+async function deleteTeam(teamId: string): Promise<void> {
+  await deleteTeamItems(MEMBERSHIPS_TABLE, "user_id", teamId);
+  await deleteTeamItems(SCHEDULES_TABLE, "slot_id", teamId);
+  await deleteTeamItems(ROUTING_RULES_TABLE, "rule_id", teamId);
+  await deleteTeamItems(SILENCES_TABLE, "silence_id", teamId);
+  await deleteTeamItems(INTEGRATIONS_TABLE, "integration_id", teamId);
+
+  const invites = await docClient.send(
+    new QueryCommand({
+      TableName: INVITES_TABLE,
+      IndexName: "team-index",
+      KeyConditionExpression: "team_id = :tid",
+      ExpressionAttributeValues: { ":tid": teamId },
+    })
+  );
+  for (const invite of (invites.Items as Invite[]) || []) {
+    await docClient.send(new DeleteCommand({ TableName: INVITES_TABLE, Key: { code: invite.code } }));
+  }
+
+  await docClient.send(new DeleteCommand({ TableName: TEAMS_TABLE, Key: { team_id: teamId } }));
+  console.log(`[Users] Deleted team ${teamId}`);
+}
+
+// Items of a table keyed by team_id and `sortKey`
+async function deleteTeamItems(tableName: string, sortKey: string, teamId: string): Promise<void> {
+  let startKey: Record<string, unknown> | undefined;
+  do {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: tableName,
+        KeyConditionExpression: "team_id = :tid",
+        ExpressionAttributeValues: { ":tid": teamId },
+        ...(startKey ? { ExclusiveStartKey: startKey } : {}),
+      })
+    );
+    for (const item of result.Items || []) {
+      await docClient.send(new DeleteCommand({ TableName: tableName, Key: { team_id: teamId, [sortKey]: item[sortKey] } }));
+    }
+    startKey = result.LastEvaluatedKey;
+  } while (startKey);
+}
+
+// One push per team to its admins and owners; schedule gaps aren't incidents, so quiet hours don't hold it
+async function reportCoverageGaps(gaps: CoverageGap[], displayName: string): Promise<void> {
+  const teamIds = [...new Set(gaps.map((gap) => gap.team_id))];
+  for (const teamId of teamIds) {
+    const teamGaps = gaps.filter((gap) => gap.team_id === teamId);
+    const firstGap = Math.min(...teamGaps.map((gap) => gap.start));
+    const team = await getTeam(teamId);
+    const admins = (await listTeamMemberships(teamId)).filter((membership) => hasRole(membership.role, "admin"));
+
+    for (const admin of admins) {
+      try {
+        await pushToDevices(
+          admin.user_id,
+          {
+            title: `📅 ON-CALL GAP: ${team?.name ?? teamId}`,
+            body: `${displayName} deleted their account. ${teamGaps.length === 1 ? "1 gap" : `${teamGaps.length} gaps`} in the schedule, the first from ${formatUtc(firstGap)}`,
+            sound: "default",
+            interruptionLevel: "time-sensitive",
+          },
+          { type: "schedule_gap", team_id: teamId }
+        );
+      } catch (error) {
+        console.error(`[Users] Could not tell ${admin.user_id} about gaps on ${teamId}:`, error);
+      }
+    }
+  }
+}
+
+async function deleteHeldNotifications(userId: string): Promise<void> {
+  const result = await docClient.send(
+    new QueryCommand({
+      TableName: HELD_NOTIFICATIONS_TABLE,
+      KeyConditionExpression: "user_id = :uid",
+      ExpressionAttributeValues: { ":uid": userId },
+    })
+  );
+  for (const held of (result.Items as HeldNotification[]) || []) {
+    await docClient.send(
+      new DeleteCommand({
+        TableName: HELD_NOTIFICATIONS_TABLE,
+        Key: { user_id: userId, held_id: held.held_id },
+      })
+    );
+  }
+}
+
+function formatUtc(timestamp: number): string {
+  return `${new Date(timestamp).toISOString().slice(0, 16).replace("T", " ")} UTC`;
+}
+
+function validateProfile(body: Record<string, unknown>): string | null {
+  const { name, time_zone, phone_number, locale } = body;
+  if (name !== undefined && (typeof name !== "string" || !name.trim() || name.trim().length > MAX_NAME_LENGTH)) {
+    return "Invalid name";
+  }
+  if (time_zone !== undefined && time_zone !== null && !isTimeZone(time_zone)) {
+    return "Invalid time zone";
+  }
+  if (phone_number !== undefined && phone_number !== null && !isPhoneNumber(phone_number)) {
+    return "Invalid phone number";
+  }
+  if (locale !== undefined && locale !== null && !isLocale(locale)) {
+    return "Invalid locale";
+  }
+  if (body.notification_rules !== undefined && body.notification_rules !== null && !Array.isArray(body.notification_rules)) {
+    return "Invalid notification rules";
+  }
+  if (body.quiet_hours !== undefined && body.quiet_hours !== null && !isQuietHours(body.quiet_hours)) {
+    return "Invalid quiet hours";
+  }
+  const dndUntil = body.dnd_until;
+  if (dndUntil !== undefined && dndUntil !== null && (typeof dndUntil !== "number" || dndUntil <= Date.now() || dndUntil > Date.now() + MAX_DND_MS)) {
+    return "dnd_until must be a future timestamp within 7 days";
+  }
+  return null;
+}
+
+function validateNotificationRules(rules: unknown[], contactMethodIds: string[]): string | null {
+  if (rules.length > MAX_NOTIFICATION_RULES) {
+    return `At most ${MAX_NOTIFICATION_RULES} notification rules`;
+  }
+  for (const rule of rules as Partial<NotificationRule>[]) {
+    if (typeof rule !== "object" || rule === null) {
+      return "Invalid notification rule";
+    }
+    if (!["critical", "warning", "info"].includes(rule.severity as Severity)) {
+      return "Invalid severity";
+    }
+    if (!Number.isInteger(rule.delay_minutes) || rule.delay_minutes! < 0 || rule.delay_minutes! > MAX_RULE_DELAY_MINUTES) {
+      return `delay_minutes must be a whole number from 0 to ${MAX_RULE_DELAY_MINUTES}`;
+    }
+    if (rule.contact_method_id !== undefined && !contactMethodIds.includes(rule.contact_method_id)) {
+      return "Unknown contact method";
+    }
+  }
+  return null;
+}
+
+function validateContactMethod(type: unknown, address: unknown): string | null {
+  if (!CONTACT_METHOD_TYPES.includes(type as ContactMethodType)) {
+    return "Invalid contact method type";
+  }
+  if (typeof address !== "string") {
+    return "Invalid address";
+  }
+  if (type === "email" && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(address.trim())) {
+    return "Invalid email";
+  }
+  if (type === "sms" && !isPhoneNumber(address)) {
+    return "Invalid phone number";
+  }
+  if (type === "webhook") {
+    return webhookHostError(address);
+  }
+  return null;
+}
+
+function isQuietHours(value: unknown): boolean {
+  const time = /^([01]\d|2[0-3]):[0-5]\d$/;
+  if (typeof value !== "object" || value === null) return false;
+  const { start, end } = value as Record<string, unknown>;
+  return typeof start === "string" && typeof end === "string" && time.test(start) && time.test(end) && start !== end;
+}
+
+function isTimeZone(value: unknown): boolean {
+  if (typeof value !== "string") return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isPhoneNumber(value: unknown): boolean {
+  return typeof value === "string" && /^\+[1-9]\d{1,14}$/.test(value.trim());
+}
+
+function isLocale(value: unknown): boolean {
+  if (typeof value !== "string") return false;
+  try {
+    return Intl.getCanonicalLocales(value).length === 1;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,77 @@
+import type { EventBridgeEvent } from "aws-lambda";
+import { AlarmStateChangeMetric, AlarmTriggerMetric, CloudWatchAlarmMessage, CloudWatchAlarmStateChange } from "../types/index.js";
+
+export const ALARM_STATE_CHANGE = "CloudWatch Alarm State Change";
+
+// Anything else (p99, tm90, ...) is an extended statistic
+const STANDARD_STATISTICS = ["SampleCount", "Average", "Sum", "Minimum", "Maximum"];
+
+export type AlarmStateChangeEvent = EventBridgeEvent<typeof ALARM_STATE_CHANGE, CloudWatchAlarmStateChange>;
+
+/**
+ * Convert an EventBridge alarm state change into the SNS message shape, so
+ * both ingestion paths share routing, dedup and the unrouted inbox (replay
+ * re-processes the converted message). Single-metric alarms fill Trigger
+ * like SNS does; metric math alarms keep their metrics under
+ * Trigger.Metrics; composite alarms only carry their rule.
+ */
+export function alarmStateChangeMessage(event: AlarmStateChangeEvent): CloudWatchAlarmMessage {
+  const { detail } = event;
+  const metrics = detail.configuration.metrics || [];
+
+  return {
+    AlarmName: detail.alarmName,
+    // Events list the alarm as their only resource
+    AlarmArn: event.resources[0] ?? `arn:aws:cloudwatch:${event.region}:${event.account}:alarm:${detail.alarmName}`,
+    AlarmDescription: detail.configuration.description ?? null,
+    NewStateValue: detail.state.value,
+    NewStateReason: detail.state.reason,
+    StateChangeTime: detail.state.timestamp,
+    Region: event.region,
+    AWSAccountId: event.account,
+    ...(detail.previousState ? { OldStateValue: detail.previousState.value } : {}),
+    ...(detail.configuration.alarmRule ? { AlarmRule: detail.configuration.alarmRule } : {}),
+    ...(metrics.length > 0 ? { Trigger: alarmTrigger(metrics) } : {}),
+  };
+}
+
+function alarmTrigger(metrics: AlarmStateChangeMetric[]): CloudWatchAlarmMessage["Trigger"] {
+  const [metric] = metrics;
+  const stat = metric.metricStat;
+  if (metrics.length === 1 && stat) {
+    const extended = !STANDARD_STATISTICS.includes(stat.stat);
+    return {
+      MetricName: stat.metric.name,
+      Namespace: stat.metric.namespace,
+      ...(extended ? { ExtendedStatistic: stat.stat } : { Statistic: stat.stat }),
+      ...(stat.unit ? { Unit: stat.unit } : {}),
+      Dimensions: dimensionList(stat.metric.dimensions),
+      Period: stat.period,
+    };
+  }
+  return { Metrics: metrics.map(triggerMetric) };
+}
+
+function triggerMetric(metric: AlarmStateChangeMetric): AlarmTriggerMetric {
+  const stat = metric.metricStat;
+  return {
+    Id: metric.id,
+    ...(metric.expression ? { Expression: metric.expression } : {}),
+    ...(metric.label ? { Label: metric.label } : {}),
+    ...(metric.returnData !== undefined ? { ReturnData: metric.returnData } : {}),
+    ...(stat
+      ? {
+          MetricStat: {
+            Metric: { MetricName: stat.metric.name, Namespace: stat.metric.namespace, Dimensions: dimensionList(stat.metric.dimensions) },
+            Period: stat.period,
+            Stat: stat.stat,
+            ...(stat.unit ? { Unit: stat.unit } : {}),
+          },
+        }
+      : {}),
+  };
+}
+
+function dimensionList(dimensions: Record<string, string> | undefined): { name: string; value: string }[] {
+  return Object.entries(dimensions || {}).map(([name, value]) => ({ name, value }));
+}
@@ -0,0 +1,495 @@
+import { docClient, PutCommand, QueryCommand, UpdateCommand } from "./dynamo.js";
+import { AlarmContext, AlarmHistory, AlertEvent, CloudWatchAlarmMessage, Incident, Integration, NoOnCallFallback, Team, TimelineEntry, UnroutedAlert, UnroutedReason } from "../types/index.js";
+import { getTeam, findOnCallUser, getTeamMemberIds } from "./teams.js";
+import { scheduleEscalation, cancelEscalation } from "./escalation.js";
+import { routeAlarm, alarmRegion, RoutingDecision } from "./routing.js";
+import { parseAlarmAnnotations } from "./annotations.js";
+import { checkFlapping, flagIncident, flappingTimelineEntry, recordTransition, setFlappingIncident } from "./flapping.js";
+import { findActiveSilence } from "./silences.js";
+import { recordAccountAlarm } from "./onboarding.js";
+import { alertGroupKey, appendGroupedAlert, clearGroupedAlert, clearedAlertIndex, findOpenGroupIncidents, groupedAlert, pickGroupIncident } from "./grouping.js";
+import { randomUUID } from "crypto";
+
+const INCIDENTS_TABLE = process.env.INCIDENTS_TABLE!;
+const UNROUTED_ALERTS_TABLE = process.env.UNROUTED_ALERTS_TABLE!;
+
+// Unrouted alerts are kept a week for someone to notice and replay them
+const UNROUTED_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export type AlarmOutcome =
+  | { status: "created"; incident: Incident }
+  | { status: "deduplicated"; incident: Incident }
+  | { status: "grouped"; incident: Incident }
+  | { status: "flapping" }
+  | { status: "silenced"; silence_id: string }
+  | { status: "verification"; verified: boolean }
+  | { status: "cleared" }
+  | { status: "ignored" }
+  | { status: "unrouted"; reason: UnroutedReason; detail: string; team_id?: string };
+
+/**
+ * Turn a CloudWatch alarm state change into incident updates. Used for live
+ * SNS deliveries and for replaying alerts from the unrouted inbox.
+ */
+export async function processAlarm(message: CloudWatchAlarmMessage): Promise<AlarmOutcome> {
+  // ALARM triggers, OK closes out the open incident; INSUFFICIENT_DATA is not actionable
+  if (message.NewStateValue !== "OK" && message.NewStateValue !== "ALARM") {
+    console.log(`Ignoring alarm state: ${message.NewStateValue}`);
+    return { status: "ignored" };
+  }
+
+  console.log(`Processing alarm: ${message.AlarmName} (${message.NewStateValue}) from account ${message.AWSAccountId}`);
+
+  // Onboarding: track that the account delivers; verification alarms stop here
+  const verification = await recordAccountAlarm(message);
+  if (verification) {
+    return { status: "verification", verified: verification.verified };
+  }
+
+  // Pick the team, severity and escalation policy from routing rules
+  return processAlertEvent(cloudWatchAlertEvent(message), () => routeAlarm(message));
+}
+
+export function cloudWatchAlertEvent(message: CloudWatchAlarmMessage): AlertEvent {
+  const { runbook } = parseAlarmAnnotations(message.AlarmDescription);
+  return {
+    source: "CloudWatch",
+    action: message.NewStateValue === "OK" ? "resolve" : "trigger",
+    dedup_key: message.AlarmArn,
+    summary: message.AlarmName,
+    details: message.NewStateReason,
+    alarm_arn: message.AlarmArn,
+    aws_account_id: message.AWSAccountId,
+    alarm_context: cloudWatchAlarmContext(message),
+    ...(runbook ? { runbook_url: runbook } : {}),
+  };
+}
+
+// Keep the alarm configuration the SNS message carries, minus empty fields
+export function cloudWatchAlarmContext(message: CloudWatchAlarmMessage): AlarmContext {
+  const region = alarmRegion(message);
+  const trigger = message.Trigger || {};
+  const annotations = parseAlarmAnnotations(message.AlarmDescription);
+  // Percentile alarms leave Statistic empty and set ExtendedStatistic, e.g. "p99"
+  const statistic = trigger.ExtendedStatistic || trigger.Statistic;
+  const expression = trigger.Metrics?.find((metric) => metric.ReturnData && metric.Expression)?.Expression;
+  return {
+    region,
+    ...(message.AlarmDescription ? { description: message.AlarmDescription } : {}),
+    ...(message.OldStateValue ? { old_state: message.OldStateValue } : {}),
+    state_change_time: message.StateChangeTime,
+    ...(trigger.MetricName ? { metric_name: trigger.MetricName } : {}),
+    ...(trigger.Namespace ? { namespace: trigger.Namespace } : {}),
+    ...(trigger.Dimensions?.length ? { dimensions: trigger.Dimensions.map(({ name, value }) => ({ name, value })) } : {}),
+    ...(statistic ? { statistic } : {}),
+    ...(trigger.Unit ? { unit: trigger.Unit } : {}),
+    ...(trigger.Threshold !== undefined ? { threshold: trigger.Threshold } : {}),
+    ...(trigger.ComparisonOperator ? { comparison_operator: trigger.ComparisonOperator } : {}),
+    ...(trigger.Period !== undefined ? { period: trigger.Period } : {}),
+    ...(trigger.EvaluationPeriods !== undefined ? { evaluation_periods: trigger.EvaluationPeriods } : {}),
+    ...(trigger.DatapointsToAlarm !== undefined ? { datapoints_to_alarm: trigger.DatapointsToAlarm } : {}),
+    ...(trigger.TreatMissingData ? { treat_missing_data: trigger.TreatMissingData } : {}),
+    ...(expression ? { expression } : {}),
+    ...(message.AlarmRule ? { alarm_rule: message.AlarmRule } : {}),
+    ...(Object.keys(annotations).length > 0 ? { annotations } : {}),
+    console_url: `https://${region}.console.aws.amazon.com/cloudwatch/home?region=${region}#alarmsV2:alarm/${encodeURIComponent(message.AlarmName)}`,
+  };
+}
+
+/**
+ * Shared incident pipeline for every alert source. `route` is only called
+ * when a trigger needs a new incident.
+ */
+export async function processAlertEvent(event: AlertEvent, route: () => Promise<RoutingDecision | null>): Promise<AlarmOutcome> {
+  // CloudWatch alarms keep a state change history for flap detection
+  const history = event.alarm_arn ? await recordTransition(event) : null;
+
+  if (event.action === "resolve") {
+    await handleResolve(event, route, history);
+    return { status: "cleared" };
+  }
+
+  // Repeated triggers (re-publishes, flaps) fold into the open incident
+  const openIncident = await findRepeatTarget(event);
+  if (openIncident) {
+    await appendRepeatedAlert(openIncident, event);
+    const team = history ? await getTeam(openIncident.team_id) : null;
+    if (history && team) {
+      const flap = await checkFlapping(history, team);
+      if (flap.flapping && !flap.announced) await flagIncident(openIncident, history, flap);
+    }
+    return { status: "deduplicated", incident: openIncident };
+  }
+
+  const routing = await route();
+  if (!routing) {
+    const detail = event.aws_account_id ? `No team found for AWS account: ${event.aws_account_id}` : `No team found for ${event.source} alert`;
+    return { status: "unrouted", reason: "no_team", detail };
+  }
+  const { team } = routing;
+  console.log(`Routing: ${routing.reason}`);
+
+  // Maintenance windows: drop the alert, or record it without paging anyone
+  const silence = await findActiveSilence(team.team_id, event, routing.severity);
+  if (silence?.mode === "skip") {
+    console.log(`Skipped alert ${event.summary}: silenced by ${silence.silence_id}`);
+    return { status: "silenced", silence_id: silence.silence_id };
+  }
+
+  // A flapping alarm pages once per episode: the incident that announced it
+  const flap = history && !silence ? await checkFlapping(history, team) : null;
+  if (flap?.announced) {
+    console.log(`Suppressed flapping alarm ${event.summary} (${flap.transitions} changes in ${flap.window_minutes} min)`);
+    return { status: "flapping" };
+  }
+
+  // Alarm storms: join the team's open incident for the same group instead of paging again
+  // Suppressed alerts stay on their own so they never join an incident that pages
+  const groupKey = silence ? null : alertGroupKey(team, event, routing);
+  if (groupKey) {
+    const groupIncidents = await findOpenGroupIncidents(groupKey);
+    const repeated = groupIncidents.find((incident) => incident.alerts?.some((alert) => alert.dedup_key === event.dedup_key));
+    if (repeated) {
+      await appendRepeatedAlert(repeated, event);
+      return { status: "deduplicated", incident: repeated };
+    }
+    const target = pickGroupIncident(groupIncidents, team.grouping!, Date.now());
+    if (target && (await appendGroupedAlert(target, event))) {
+      return { status: "grouped", incident: target };
+    }
+  }
+
+  // Find on-call user, or apply the team's fallback for schedule gaps.
+  // A suppressed incident is recorded even when nobody is on call.
+  const assignment = (await resolveAssignment(team)) ?? (silence ? {} : null);
+  if (!assignment) {
+    return { status: "unrouted", reason: "no_on_call", detail: `No on-call user for team: ${team.name}`, team_id: team.team_id };
+  }
+
+  // Create incident with 24h TTL
+  const now = Date.now();
+  const ttlSeconds = Math.floor(now / 1000) + 24 * 60 * 60;
+  const incident: Incident = {
+    incident_id: randomUUID(),
+    team_id: team.team_id,
+    ...(event.alarm_arn ? { alarm_arn: event.alarm_arn } : {}),
+    alarm_name: event.summary,
+    dedup_key: event.dedup_key,
+    source: event.source,
+    state: silence ? "suppressed" : "triggered",
+    severity: routing.severity,
+    ...(assignment.assigned_to ? { assigned_to: assignment.assigned_to } : {}),
+    escalation_level: 0,
+    alarm_count: 1,
+    triggered_at: now,
+    ttl: ttlSeconds,
+    timeline: [
+      {
+        timestamp: now,
+        event: "triggered",
+        actor: event.source,
+        ...(event.details ? { note: event.details } : {}),
+      },
+    ],
+  };
+
+  if (event.custom_details) {
+    incident.custom_details = event.custom_details;
+  }
+  if (event.alarm_context) {
+    incident.alarm_context = event.alarm_context;
+  }
+  if (event.runbook_url) {
+    incident.runbook_url = event.runbook_url;
+  }
+  if (groupKey) {
+    incident.group_key = groupKey;
+    incident.alerts = [groupedAlert(event, now)];
+  }
+
+  if (silence) {
+    incident.silence_id = silence.silence_id;
+    incident.timeline.push({
+      timestamp: now,
+      event: "suppressed",
+      actor: "system",
+      note: silence.comment ? `Silenced: ${silence.comment}` : "Silenced by a maintenance window",
+    });
+  }
+
+  // Streams send a flapping summary instead of a page, and nothing escalates
+  if (flap?.flapping) {
+    incident.flapping = true;
+    incident.timeline.push(flappingTimelineEntry(flap));
+  }
+
+  if (assignment.fallback) {
+    incident.on_call_fallback = assignment.fallback;
+    if (assignment.notify_user_ids) incident.notify_user_ids = assignment.notify_user_ids;
+    incident.timeline.push({
+      timestamp: now,
+      event: "fallback",
+      actor: "system",
+      note: assignment.note,
+    });
+  }
+
+  if (routing.rule) {
+    incident.routing_rule_id = routing.rule.rule_id;
+    if (routing.rule.escalation_policy) incident.escalation_policy = routing.rule.escalation_policy;
+  }
+
+  // Start the escalation policy; ack/resolve cancels it
+  if (!incident.flapping && !silence) {
+    try {
+      const ruleId = await scheduleEscalation(incident, routing.escalation_policy);
+      if (ruleId) incident.escalation_rule_id = ruleId;
+    } catch (error) {
+      console.error(`Failed to schedule escalation for ${incident.incident_id}:`, error);
+    }
+  }
+
+  await docClient.send(
+    new PutCommand({
+      TableName: INCIDENTS_TABLE,
+      Item: incident,
+    })
+  );
+
+  if (history && incident.flapping) {
+    await setFlappingIncident(history, incident.incident_id);
+  }
+
+  console.log(`Created incident: ${incident.incident_id} (push handled by streams)`);
+
+  // Push notifications are handled by DynamoDB Streams Lambda
+  return { status: "created", incident };
+}
+
+/**
+ * Park an alert that could not be routed so it can be replayed once the
+ * team or schedule is fixed. `rawMessage` is what replay re-processes: the
+ * SNS message for CloudWatch, the normalized alert for integrations.
+ */
+export async function recordUnroutedAlert(
+  event: AlertEvent,
+  outcome: Extract<AlarmOutcome, { status: "unrouted" }>,
+  rawMessage: string,
+  integration?: Pick<Integration, "team_id" | "integration_id">
+): Promise<UnroutedAlert> {
+  const now = Date.now();
+  const teamId = outcome.team_id ?? integration?.team_id;
+  const alert: UnroutedAlert = {
+    alert_id: randomUUID(),
+    reason: outcome.reason,
+    detail: outcome.detail,
+    source: integration ? "integration" : "cloudwatch",
+    ...(integration ? { integration_id: integration.integration_id } : {}),
+    ...(event.aws_account_id ? { aws_account_id: event.aws_account_id } : {}),
+    alarm_name: event.summary,
+    ...(teamId ? { team_id: teamId } : {}),
+    raw_message: rawMessage,
+    received_at: now,
+    ttl: Math.floor(now / 1000) + UNROUTED_TTL_SECONDS,
+  };
+
+  await docClient.send(
+    new PutCommand({
+      TableName: UNROUTED_ALERTS_TABLE,
+      Item: alert,
+    })
+  );
+
+  console.error(`Unrouted alert ${alert.alert_id}: ${outcome.detail}`);
+  return alert;
+}
+
+interface Assignment {
+  assigned_to?: string;
+  fallback?: NoOnCallFallback;
+  notify_user_ids?: string[];
+  note?: string;
+}
+
+// Null means nobody can be paged and the alarm belongs in the unrouted inbox
+async function resolveAssignment(team: Team): Promise<Assignment | null> {
+  const onCallUserId = await findOnCallUser(team.team_id);
+  if (onCallUserId) return { assigned_to: onCallUserId };
+
+  switch (team.no_on_call_fallback) {
+    case "owner":
+      if (!team.owner_user_id) return null;
+      return {
+        assigned_to: team.owner_user_id,
+        fallback: "owner",
+        note: "No one on call: assigned to team owner",
+      };
+    case "all_members": {
+      const memberIds = await getTeamMemberIds(team.team_id);
+      if (memberIds.length === 0) return null;
+      return {
+        fallback: "all_members",
+        notify_user_ids: memberIds,
+        note: `No one on call: paged all ${memberIds.length} team members`,
+      };
+    }
+    case "unassigned": {
+      const memberIds = await getTeamMemberIds(team.team_id);
+      return {
+        fallback: "unassigned",
+        notify_user_ids: memberIds,
+        note: "No one on call: created unassigned, team notified",
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+async function appendRepeatedAlert(incident: Incident, event: AlertEvent): Promise<void> {
+  const timelineEntry: TimelineEntry = {
+    timestamp: Date.now(),
+    event: "retriggered",
+    actor: event.source,
+    ...(event.details ? { note: event.details } : {}),
+  };
+
+  // A grouped alert that cleared and fired again counts as firing once more
+  const clearedIndex = clearedAlertIndex(incident, event.dedup_key);
+  const reopen = clearedIndex >= 0 ? ` REMOVE alerts[${clearedIndex}].resolved_at` : "";
+
+  await docClient.send(
+    new UpdateCommand({
+      TableName: INCIDENTS_TABLE,
+      Key: { incident_id: incident.incident_id },
+      UpdateExpression: `SET timeline = list_append(timeline, :entry) ADD alarm_count :one${reopen}`,
+      ExpressionAttributeValues: {
+        ":entry": [timelineEntry],
+        ":one": 1,
+      },
+    })
+  );
+
+  console.log(`Deduplicated alert ${event.summary} into incident ${incident.incident_id}`);
+}
+
+// The source reports recovery (CloudWatch OK, integration resolve)
+async function handleResolve(event: AlertEvent, route: () => Promise<RoutingDecision | null>, history: AlarmHistory | null): Promise<void> {
+  let openIncidents = await findOpenIncidents(event.dedup_key);
+  if (openIncidents.length === 0) {
+    openIncidents = await findGroupedIncidents(event, route);
+  }
+  if (openIncidents.length === 0) {
+    console.log(`No open incident for alert: ${event.summary}`);
+    return;
+  }
+
+  for (const incident of openIncidents) {
+    // Grouped incidents resolve once every alert in them has cleared
+    if (incident.alerts && incident.alerts.length > 1 && (await clearGroupedAlert(incident, event)) > 0) {
+      console.log(`Cleared ${event.summary} in grouped incident ${incident.incident_id}`);
+      continue;
+    }
+
+    const team = await getTeam(incident.team_id);
+    const okAction = team?.ok_action ?? "resolve";
+    const now = Date.now();
+
+    if (history && team) {
+      const flap = await checkFlapping(history, team);
+      if (flap.flapping && !flap.announced) await flagIncident(incident, history, flap);
+    }
+
+    // Annotate-only teams resolve by hand
+    if (okAction === "annotate") {
+      const timelineEntry: TimelineEntry = {
+        timestamp: now,
+        event: "annotated",
+        actor: event.source,
+        note: event.source === "CloudWatch" ? `Alarm returned to OK: ${event.details}` : `Cleared by source${event.details ? `: ${event.details}` : ""}`,
+      };
+      await docClient.send(
+        new UpdateCommand({
+          TableName: INCIDENTS_TABLE,
+          Key: { incident_id: incident.incident_id },
+          UpdateExpression: "SET timeline = list_append(timeline, :entry)",
+          ExpressionAttributeValues: { ":entry": [timelineEntry] },
+        })
+      );
+      console.log(`Annotated incident ${incident.incident_id} with recovery`);
+      continue;
+    }
+
+    const timelineEntry: TimelineEntry = {
+      timestamp: now,
+      event: "resolved",
+      actor: event.source,
+      ...(event.details ? { note: event.details } : {}),
+    };
+
+    try {
+      await docClient.send(
+        new UpdateCommand({
+          TableName: INCIDENTS_TABLE,
+          Key: { incident_id: incident.incident_id },
+          UpdateExpression: "SET #state = :state, resolved_at = :resolved_at, timeline = list_append(timeline, :entry)",
+          ConditionExpression: "#state <> :state",
+          ExpressionAttributeNames: { "#state": "state" },
+          ExpressionAttributeValues: {
+            ":state": "resolved",
+            ":resolved_at": now,
+            ":entry": [timelineEntry],
+          },
+        })
+      );
+    } catch (error) {
+      // Someone resolved it by hand in the meantime
+      if ((error as Error).name === "ConditionalCheckFailedException") continue;
+      throw error;
+    }
+
+    await cancelEscalation(incident.escalation_rule_id);
+    console.log(`Auto-resolved incident ${incident.incident_id}`);
+  }
+}
+
+// Attached alerts are not on the dedup index; find them through their group
+async function findGroupedIncidents(event: AlertEvent, route: () => Promise<RoutingDecision | null>): Promise<Incident[]> {
+  const routing = await route();
+  const groupKey = routing ? alertGroupKey(routing.team, event, routing) : null;
+  if (!groupKey) return [];
+
+  const incidents = await findOpenGroupIncidents(groupKey);
+  return incidents.filter((incident) => incident.alert_dedup_keys?.includes(event.dedup_key));
+}
+
+/**
+ * The open incident a repeated trigger folds into. A suppressed incident
+ * only takes repeats while a silence still covers the alert; once it has
+ * ended the alert pages as a new incident, and the suppressed one stays
+ * until the alarm clears.
+ */
+async function findRepeatTarget(event: AlertEvent): Promise<Incident | null> {
+  const incidents = await findOpenIncidents(event.dedup_key);
+  const paging = incidents.find((incident) => incident.state !== "suppressed");
+  if (paging) return paging;
+
+  for (const incident of incidents) {
+    if (await findActiveSilence(incident.team_id, event, incident.severity)) return incident;
+  }
+  return null;
+}
+
+async function findOpenIncidents(dedupKey: string): Promise<Incident[]> {
+  const result = await docClient.send(
+    new QueryCommand({
+      TableName: INCIDENTS_TABLE,
+      IndexName: "dedup-key-index",
+      KeyConditionExpression: "dedup_key = :key",
+      FilterExpression: "#state <> :resolved",
+      ExpressionAttributeNames: { "#state": "state" },
+      ExpressionAttributeValues: { ":key": dedupKey, ":resolved": "resolved" },
+    })
+  );
+  return (result.Items as Incident[]) || [];
+}
@@ -0,0 +1,88 @@
+import { AlarmAnnotations, Severity } from "../types/index.js";
+
+const ANNOTATION_KEYS: (keyof AlarmAnnotations)[] = ["severity", "runbook", "team", "service", "urgency"];
+
+/**
+ * Read paging metadata that alarm authors put in AlarmDescription. Either a
+ * JSON object (the whole description or an embedded {...} block) or
+ * `key: value` lines; unknown keys and free text are ignored, so existing
+ * prose descriptions parse to nothing.
+ *
+ *   severity: critical
+ *   runbook: https://wiki.example.com/runbooks/api-latency
+ */
+export function parseAlarmAnnotations(description: string | null | undefined): AlarmAnnotations {
+  if (!description) return {};
+
+  const raw = parseJsonBlock(description) ?? parseKeyValueLines(description);
+  const annotations: AlarmAnnotations = {};
+  for (const key of ANNOTATION_KEYS) {
+    const value = raw[key];
+    if (typeof value === "string" && value.trim()) {
+      annotations[key] = value.trim();
+    }
+  }
+
+  // Only http(s) links become a button in the app
+  if (annotations.runbook && !/^https?:\/\//i.test(annotations.runbook)) {
+    delete annotations.runbook;
+  }
+  return annotations;
+}
+
+function parseJsonBlock(description: string): Record<string, unknown> | null {
+  const start = description.indexOf("{");
+  const end = description.lastIndexOf("}");
+  if (start < 0 || end <= start) return null;
+
+  try {
+    const parsed = JSON.parse(description.slice(start, end + 1));
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? lowerCaseKeys(parsed) : null;
+  } catch {
+    return null;
+  }
+}
+
+function parseKeyValueLines(description: string): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const line of description.split(/\r?\n/)) {
+    const match = line.match(/^\s*([A-Za-z_]+)\s*[:=]\s*(.+?)\s*$/);
+    if (match) {
+      values[match[1].toLowerCase()] = match[2];
+    }
+  }
+  return values;
+}
+
+function lowerCaseKeys(value: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(value).map(([key, v]) => [key.toLowerCase(), v]));
+}
+
+/**
+ * Severity declared by the alarm author: `severity` wins, otherwise
+ * `urgency` (high pages, low does not). Null when neither is usable.
+ */
+export function annotatedSeverity(annotations: AlarmAnnotations): Severity | null {
+  return normalizeSeverity(annotations.severity) ?? normalizeSeverity(annotations.urgency);
+}
+
+// Common spellings across CloudWatch, Prometheus and PagerDuty conventions
+export function normalizeSeverity(value: string | undefined): Severity | null {
+  switch (value?.toLowerCase()) {
+    case "critical":
+    case "page":
+    case "error":
+    case "high":
+      return "critical";
+    case "warning":
+    case "warn":
+    case "medium":
+      return "warning";
+    case "info":
+    case "none":
+    case "low":
+      return "info";
+    default:
+      return null;
+  }
+}
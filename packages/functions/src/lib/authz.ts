@@ -0,0 +1,39 @@
+import { TeamRole } from "../types/index.js";
+import { getMembership, listUserMemberships } from "./teams.js";
+
+const ROLE_RANK: Record<TeamRole, number> = {
+  observer: 0,
+  responder: 1,
+  admin: 2,
+  owner: 3,
+};
+
+export const TEAM_ROLES = Object.keys(ROLE_RANK) as TeamRole[];
+
+export function hasRole(role: TeamRole, required: TeamRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+export async function getMemberTeamIds(userId: string): Promise<string[]> {
+  return (await listUserMemberships(userId)).map((membership) => membership.team_id);
+}
+
+export async function isTeamMember(userId: string, teamId: string): Promise<boolean> {
+  return (await getMembership(teamId, userId)) !== null;
+}
+
+/**
+ * Why the user may not act on the team, or null when they may. Handlers
+ * answer a denial with 403. Observers can read, responders work incidents,
+ * admins change the team's setup and owners also manage other owners.
+ */
+export async function authorizeTeam(userId: string, teamId: string, required: TeamRole = "observer"): Promise<string | null> {
+  const membership = await getMembership(teamId, userId);
+  if (!membership) {
+    return "Not a member of this team";
+  }
+  if (!hasRole(membership.role, required)) {
+    return `Requires the ${required} role`;
+  }
+  return null;
+}
@@ -0,0 +1,326 @@
+import { SNSClient, PublishCommand, SubscribeCommand, UnsubscribeCommand, GetSubscriptionAttributesCommand } from "@aws-sdk/client-sns";
+import { docClient, DeleteCommand, GetCommand, PutCommand, QueryCommand } from "./dynamo.js";
+import { ContactMethod, ContactMethodType } from "../types/index.js";
+import { createHash, randomInt } from "crypto";
+import { lookup } from "dns";
+import { BlockList, isIP, LookupFunction } from "net";
+import { request } from "https";
+
+const CONTACT_METHODS_TABLE = process.env.CONTACT_METHODS_TABLE!;
+const CONTACT_EMAIL_TOPIC_ARN = process.env.CONTACT_EMAIL_TOPIC_ARN!;
+
+const snsClient = new SNSClient({});
+
+export const CONTACT_METHOD_TYPES: ContactMethodType[] = ["email", "sms", "webhook"];
+
+export const VERIFICATION_CODE_MINUTES = 15;
+export const MAX_VERIFICATION_ATTEMPTS = 5;
+export const RESEND_INTERVAL_SECONDS = 60;
+export const MAX_VERIFICATIONS_PER_DAY = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+// Webhooks must reach the internet, not loopback, private networks or link-local metadata endpoints
+const BLOCKED_WEBHOOK_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  BLOCKED_WEBHOOK_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED_WEBHOOK_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+export type VerificationResult = "verified" | "pending" | "invalid" | "expired" | "locked";
+
+// What the API shows; codes and subscription ARNs stay server-side
+export interface ContactMethodSummary {
+  method_id: string;
+  type: ContactMethodType | "push";
+  address: string;
+  verified: boolean;
+  created_at: number;
+}
+
+export function summarizeContactMethod(method: ContactMethod): ContactMethodSummary {
+  return {
+    method_id: method.method_id,
+    type: method.type,
+    address: method.address,
+    verified: method.verified_at !== undefined,
+    created_at: method.created_at,
+  };
+}
+
+// Send times within the last day, oldest first
+export function recentVerificationSends(sends: number[] | undefined, now: number): number[] {
+  return (sends ?? []).filter((sentAt) => sentAt > now - DAY_MS);
+}
+
+/**
+ * Seconds until the method may be sent another verification: sends are at
+ * least RESEND_INTERVAL_SECONDS apart and at most MAX_VERIFICATIONS_PER_DAY
+ * a day. Zero when a send is allowed now.
+ */
+export function verificationRetryAfter(method: ContactMethod, now: number): number {
+  const sends = recentVerificationSends(method.verification_sends, now);
+  if (sends.length === 0) return 0;
+
+  let allowedAt = sends[sends.length - 1] + RESEND_INTERVAL_SECONDS * 1000;
+  if (sends.length >= MAX_VERIFICATIONS_PER_DAY) {
+    allowedAt = Math.max(allowedAt, sends[sends.length - MAX_VERIFICATIONS_PER_DAY] + DAY_MS);
+  }
+  return Math.max(0, Math.ceil((allowedAt - now) / 1000));
+}
+
+/**
+ * Why a webhook URL can't be used, or null. Only catches hosts written as
+ * a private address or localhost; names are checked as they resolve, when
+ * the request connects.
+ */
+export function webhookHostError(address: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(address.trim());
+  } catch {
+    return "Webhook must be an https URL";
+  }
+  if (url.protocol !== "https:") {
+    return "Webhook must be an https URL";
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (host === "localhost" || host.endsWith(".localhost") || (isIP(host) && isBlockedAddress(host))) {
+    return "Webhook must point at a public host";
+  }
+  return null;
+}
+
+function isBlockedAddress(address: string): boolean {
+  // IPv4-mapped IPv6 reaches the IPv4 host
+  const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return BLOCKED_WEBHOOK_ADDRESSES.check(mapped[1], "ipv4");
+  return BLOCKED_WEBHOOK_ADDRESSES.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+}
+
+// Resolves like the default lookup but refuses names that point at a blocked address
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, "");
+    if (addresses.some((entry) => isBlockedAddress(entry.address))) {
+      return callback(new Error(`Webhook host ${hostname} resolves to a private address`), "");
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/**
+ * POST JSON to a webhook. The address is checked as resolved when the
+ * connection opens, so a name can't be repointed at a private address
+ * between a check and the request. Redirects are not followed. Throws
+ * unless the webhook answers 2xx.
+ */
+function postWebhook(address: string, payload: Record<string, unknown>): Promise<void> {
+  const hostError = webhookHostError(address);
+  if (hostError) {
+    return Promise.reject(new Error(hostError));
+  }
+
+  const body = JSON.stringify(payload);
+  return new Promise((resolve, reject) => {
+    const req = request(
+      address.trim(),
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "Content-Length": Buffer.byteLength(body) },
+        lookup: publicLookup,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      },
+      (response) => {
+        response.resume();
+        const status = response.statusCode ?? 0;
+        if (status >= 200 && status < 300) resolve();
+        else reject(new Error(`Webhook answered ${status}`));
+      }
+    );
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+export async function listContactMethods(userId: string): Promise<ContactMethod[]> {
+  const result = await docClient.send(
+    new QueryCommand({
+      TableName: CONTACT_METHODS_TABLE,
+      KeyConditionExpression: "user_id = :uid",
+      ExpressionAttributeValues: { ":uid": userId },
+    })
+  );
+  return (result.Items as ContactMethod[]) || [];
+}
+
+export async function getContactMethod(userId: string, methodId: string): Promise<ContactMethod | null> {
+  const result = await docClient.send(
+    new GetCommand({
+      TableName: CONTACT_METHODS_TABLE,
+      Key: { user_id: userId, method_id: methodId },
+    })
+  );
+  return (result.Item as ContactMethod) || null;
+}
+
+export async function saveContactMethod(method: ContactMethod): Promise<void> {
+  await docClient.send(
+    new PutCommand({
+      TableName: CONTACT_METHODS_TABLE,
+      Item: method,
+    })
+  );
+}
+
+export async function deleteContactMethod(method: ContactMethod): Promise<void> {
+  // Pending subscriptions can't be unsubscribed; AWS drops them after three days
+  if (method.subscription_arn && method.verified_at !== undefined) {
+    await snsClient.send(new UnsubscribeCommand({ SubscriptionArn: method.subscription_arn }));
+  }
+  await docClient.send(
+    new DeleteCommand({
+      TableName: CONTACT_METHODS_TABLE,
+      Key: { user_id: method.user_id, method_id: method.method_id },
+    })
+  );
+}
+
+/**
+ * Send the address something only its owner can act on. Email gets an SNS
+ * subscription confirmation link (email notifications are later published
+ * to that subscription); SMS and webhooks get a one-time code. Returns the
+ * method to save, with the send recorded for the resend limits; throws
+ * when the address can't be reached.
+ */
+export async function sendVerification(method: ContactMethod): Promise<ContactMethod> {
+  const now = Date.now();
+  const verificationSends = [...recentVerificationSends(method.verification_sends, now), now];
+
+  if (method.type === "email") {
+    const result = await snsClient.send(
+      new SubscribeCommand({
+        TopicArn: CONTACT_EMAIL_TOPIC_ARN,
+        Protocol: "email",
+        Endpoint: method.address,
+        Attributes: { FilterPolicy: JSON.stringify({ method_id: [method.method_id] }) },
+        ReturnSubscriptionArn: true,
+      })
+    );
+    return { ...method, subscription_arn: result.SubscriptionArn, verification_sends: verificationSends };
+  }
+
+  const code = String(randomInt(0, 1_000_000)).padStart(6, "0");
+  const message = `Your PIP-ALERT verification code is ${code}. It expires in ${VERIFICATION_CODE_MINUTES} minutes.`;
+
+  if (method.type === "sms") {
+    await snsClient.send(new PublishCommand({ PhoneNumber: method.address, Message: message }));
+  } else {
+    await postWebhook(method.address, { type: "verification", code, message });
+  }
+
+  return {
+    ...method,
+    verification: {
+      code_hash: hashCode(code),
+      expires_at: now + VERIFICATION_CODE_MINUTES * 60 * 1000,
+      attempts: 0,
+    },
+    verification_sends: verificationSends,
+  };
+}
+
+/**
+ * Check a verification attempt and return the method to save with the
+ * outcome. Email is verified once AWS reports the subscription confirmed;
+ * codes allow MAX_VERIFICATION_ATTEMPTS tries.
+ */
+export async function checkVerification(
+  method: ContactMethod,
+  code: string | undefined
+): Promise<{ result: VerificationResult; method: ContactMethod }> {
+  if (method.verified_at !== undefined) {
+    return { result: "verified", method };
+  }
+
+  if (method.type === "email") {
+    if (!method.subscription_arn || method.subscription_arn === "pending confirmation") {
+      return { result: "pending", method };
+    }
+    const result = await snsClient.send(new GetSubscriptionAttributesCommand({ SubscriptionArn: method.subscription_arn }));
+    if (result.Attributes?.PendingConfirmation !== "false") {
+      return { result: "pending", method };
+    }
+    return { result: "verified", method: { ...method, verified_at: Date.now() } };
+  }
+
+  const verification = method.verification;
+  if (!verification || verification.expires_at <= Date.now()) {
+    return { result: "expired", method };
+  }
+  if (verification.attempts >= MAX_VERIFICATION_ATTEMPTS) {
+    return { result: "locked", method };
+  }
+  if (!code || hashCode(code.trim()) !== verification.code_hash) {
+    return { result: "invalid", method: { ...method, verification: { ...verification, attempts: verification.attempts + 1 } } };
+  }
+
+  const verified: ContactMethod = { ...method, verified_at: Date.now() };
+  delete verified.verification;
+  return { result: "verified", method: verified };
+}
+
+/**
+ * Send a notification to a verified contact method. Email goes through the
+ * contact email topic, whose filter policy routes it to this method's
+ * subscription. Throws when the address can't be reached.
+ */
+export async function deliverToContactMethod(
+  method: ContactMethod,
+  message: { title: string; body: string; data?: Record<string, unknown> }
+): Promise<void> {
+  if (method.type === "email") {
+    await snsClient.send(
+      new PublishCommand({
+        TopicArn: CONTACT_EMAIL_TOPIC_ARN,
+        // SNS subjects are plain ASCII under 100 characters
+        Subject: message.title.replace(/[^\x20-\x7E]/g, "").trim().slice(0, 99) || "PIP-ALERT",
+        Message: message.body,
+        MessageAttributes: { method_id: { DataType: "String", StringValue: method.method_id } },
+      })
+    );
+    return;
+  }
+
+  if (method.type === "sms") {
+    await snsClient.send(new PublishCommand({ PhoneNumber: method.address, Message: `${message.title}: ${message.body}` }));
+    return;
+  }
+
+  await postWebhook(method.address, { type: "notification", title: message.title, body: message.body, ...message.data });
+}
+
+function hashCode(code: string): string {
+  return createHash("sha256").update(code).digest("hex");
+}
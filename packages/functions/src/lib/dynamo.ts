@@ -1,7 +1,7 @@
 import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
-import { DynamoDBDocumentClient, GetCommand, PutCommand, DeleteCommand, QueryCommand, ScanCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import { DynamoDBDocumentClient, BatchGetCommand, GetCommand, PutCommand, DeleteCommand, QueryCommand, ScanCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb";
 
 const client = new DynamoDBClient({});
 export const docClient = DynamoDBDocumentClient.from(client);
 
-export { GetCommand, PutCommand, DeleteCommand, QueryCommand, ScanCommand, UpdateCommand };
+export { BatchGetCommand, GetCommand, PutCommand, DeleteCommand, QueryCommand, ScanCommand, UpdateCommand };
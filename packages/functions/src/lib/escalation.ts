@@ -0,0 +1,82 @@
+import { SchedulerClient, CreateScheduleCommand, DeleteScheduleCommand } from "@aws-sdk/client-scheduler";
+import { Incident, EscalationPolicy } from "../types/index.js";
+
+const ESCALATION_FUNCTION_ARN = process.env.ESCALATION_FUNCTION_ARN!;
+const SCHEDULER_ROLE_ARN = process.env.SCHEDULER_ROLE_ARN!;
+
+const schedulerClient = new SchedulerClient({});
+
+// Payload delivered to the escalation handler by EventBridge Scheduler
+export interface EscalationStep {
+  incident_id: string;
+  level: number; // Index into escalation_policy.levels
+}
+
+function scheduleName(incidentId: string, level: number): string {
+  return `esc-${incidentId}-${level}`;
+}
+
+// EventBridge Scheduler one-time expressions take UTC without a zone suffix
+export function atExpression(timestamp: number): string {
+  return `at(${new Date(timestamp).toISOString().slice(0, 19)})`;
+}
+
+/**
+ * Schedule the next escalation level for an incident.
+ * Returns the schedule name (stored as escalation_rule_id) or null when
+ * the policy has no more levels. A step that is already scheduled keeps its
+ * existing schedule.
+ */
+export async function scheduleEscalation(
+  incident: Pick<Incident, "incident_id" | "escalation_level">,
+  policy: EscalationPolicy | undefined,
+  targetArn: string = ESCALATION_FUNCTION_ARN
+): Promise<string | null> {
+  const level = incident.escalation_level;
+  const next = policy?.levels?.[level];
+  if (!next) return null;
+
+  const name = scheduleName(incident.incident_id, level);
+  const step: EscalationStep = { incident_id: incident.incident_id, level };
+
+  try {
+    await schedulerClient.send(
+      new CreateScheduleCommand({
+        Name: name,
+        ScheduleExpression: atExpression(Date.now() + next.delay_minutes * 60 * 1000),
+        FlexibleTimeWindow: { Mode: "OFF" },
+        ActionAfterCompletion: "DELETE",
+        Target: {
+          Arn: targetArn,
+          RoleArn: SCHEDULER_ROLE_ARN,
+          Input: JSON.stringify(step),
+        },
+      })
+    );
+  } catch (error) {
+    // A schedule for this step already exists, e.g. from a retried unack
+    if ((error as Error).name === "ConflictException") {
+      console.log(`[Escalation] Level ${level} for ${incident.incident_id} already scheduled`);
+      return name;
+    }
+    throw error;
+  }
+
+  console.log(`[Escalation] Scheduled level ${level} for ${incident.incident_id} in ${next.delay_minutes}m`);
+  return name;
+}
+
+/**
+ * Cancel a pending escalation step. Already-fired or missing schedules are ignored.
+ */
+export async function cancelEscalation(ruleId: string | undefined): Promise<void> {
+  if (!ruleId) return;
+
+  try {
+    await schedulerClient.send(new DeleteScheduleCommand({ Name: ruleId }));
+    console.log(`[Escalation] Cancelled ${ruleId}`);
+  } catch (error) {
+    if ((error as Error).name === "ResourceNotFoundException") return;
+    throw error;
+  }
+}
@@ -0,0 +1,162 @@
+import { docClient, GetCommand, PutCommand, UpdateCommand } from "./dynamo.js";
+import { AlarmHistory, AlertEvent, FlapDetection, Incident, Team, TimelineEntry } from "../types/index.js";
+import { cancelEscalation } from "./escalation.js";
+
+const ALARM_HISTORY_TABLE = process.env.ALARM_HISTORY_TABLE!;
+const INCIDENTS_TABLE = process.env.INCIDENTS_TABLE!;
+
+// Three ALARM/OK round trips in half an hour
+export const DEFAULT_FLAP_DETECTION: FlapDetection = { transitions: 6, window_minutes: 30 };
+
+// History is trimmed to the longest window a team can configure
+export const MAX_FLAP_WINDOW_MINUTES = 120;
+
+const MAX_RECORD_ATTEMPTS = 3;
+
+export interface FlapStatus {
+  flapping: boolean;
+  announced: boolean; // An incident has already been flagged for the episode
+  transitions: number; // State changes within the team's window
+  window_minutes: number;
+}
+
+export function flapDetection(team: Team): FlapDetection {
+  return team.flap_detection ?? DEFAULT_FLAP_DETECTION;
+}
+
+export function transitionsInWindow(history: AlarmHistory, config: FlapDetection, now: number): number {
+  const since = now - config.window_minutes * 60 * 1000;
+  return history.transitions.filter((transition) => transition.at >= since).length;
+}
+
+/**
+ * Append a state change to the alarm's history. Concurrent deliveries for the
+ * same alarm are serialized with a condition on the previous transition.
+ */
+export async function recordTransition(event: AlertEvent): Promise<AlarmHistory> {
+  const alarmArn = event.alarm_arn!;
+
+  for (let attempt = 1; ; attempt++) {
+    const existing = await docClient.send(
+      new GetCommand({
+        TableName: ALARM_HISTORY_TABLE,
+        Key: { alarm_arn: alarmArn },
+      })
+    );
+    const previous = existing.Item as AlarmHistory | undefined;
+
+    const now = Date.now();
+    const since = now - MAX_FLAP_WINDOW_MINUTES * 60 * 1000;
+    const history: AlarmHistory = {
+      ...previous,
+      alarm_arn: alarmArn,
+      alarm_name: event.summary,
+      ...(event.aws_account_id ? { aws_account_id: event.aws_account_id } : {}),
+      transitions: [...(previous?.transitions || []).filter((t) => t.at >= since), { state: event.action === "trigger" ? "ALARM" : "OK", at: now }],
+      last_transition_at: now,
+      flapping: previous?.flapping ?? false,
+      ttl: Math.floor(now / 1000) + MAX_FLAP_WINDOW_MINUTES * 60,
+    };
+
+    try {
+      await docClient.send(
+        new PutCommand({
+          TableName: ALARM_HISTORY_TABLE,
+          Item: history,
+          ConditionExpression: previous ? "last_transition_at = :previous" : "attribute_not_exists(alarm_arn)",
+          ExpressionAttributeValues: previous ? { ":previous": previous.last_transition_at } : undefined,
+        })
+      );
+      return history;
+    } catch (error) {
+      if ((error as Error).name !== "ConditionalCheckFailedException" || attempt >= MAX_RECORD_ATTEMPTS) throw error;
+    }
+  }
+}
+
+/**
+ * Evaluate the alarm against the team's thresholds and store the result, so
+ * the start of an episode is seen exactly once.
+ */
+export async function checkFlapping(history: AlarmHistory, team: Team): Promise<FlapStatus> {
+  const config = flapDetection(team);
+  const transitions = transitionsInWindow(history, config, Date.now());
+  const flapping = transitions >= config.transitions;
+
+  if (flapping !== history.flapping || history.team_id !== team.team_id) {
+    // Ending an episode forgets its incident, so the next episode is announced again
+    const result = await docClient.send(
+      new UpdateCommand({
+        TableName: ALARM_HISTORY_TABLE,
+        Key: { alarm_arn: history.alarm_arn },
+        UpdateExpression: flapping
+          ? "SET flapping = :flapping, team_id = :tid, flapping_since = if_not_exists(flapping_since, :now)"
+          : "SET flapping = :flapping, team_id = :tid REMOVE flapping_since, flapping_incident_id",
+        ExpressionAttributeValues: {
+          ":flapping": flapping,
+          ":tid": team.team_id,
+          ...(flapping ? { ":now": Date.now() } : {}),
+        },
+        ReturnValues: "ALL_NEW",
+      })
+    );
+    Object.assign(history, result.Attributes);
+  }
+
+  return {
+    flapping,
+    announced: flapping && !!history.flapping_incident_id,
+    transitions,
+    window_minutes: config.window_minutes,
+  };
+}
+
+export function flappingTimelineEntry(status: FlapStatus): TimelineEntry {
+  return {
+    timestamp: Date.now(),
+    event: "flapping",
+    actor: "system",
+    note: `${status.transitions} state changes in ${status.window_minutes} min; pages suppressed until it settles`,
+  };
+}
+
+/**
+ * Flag an open incident as flapping: stops its escalation and records it as
+ * the incident announcing the episode. The flag change triggers the single
+ * summary push.
+ */
+export async function flagIncident(incident: Incident, history: AlarmHistory, status: FlapStatus): Promise<void> {
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: INCIDENTS_TABLE,
+        Key: { incident_id: incident.incident_id },
+        UpdateExpression: "SET flapping = :true, timeline = list_append(timeline, :entry) REMOVE escalation_rule_id",
+        ConditionExpression: "attribute_not_exists(flapping)",
+        ExpressionAttributeValues: {
+          ":true": true,
+          ":entry": [flappingTimelineEntry(status)],
+        },
+      })
+    );
+  } catch (error) {
+    // Already flagged in an earlier episode; still counts as announced
+    if ((error as Error).name !== "ConditionalCheckFailedException") throw error;
+  }
+
+  await cancelEscalation(incident.escalation_rule_id);
+  await setFlappingIncident(history, incident.incident_id);
+  console.log(`Alarm ${history.alarm_name} is flapping; flagged incident ${incident.incident_id}`);
+}
+
+export async function setFlappingIncident(history: AlarmHistory, incidentId: string): Promise<void> {
+  await docClient.send(
+    new UpdateCommand({
+      TableName: ALARM_HISTORY_TABLE,
+      Key: { alarm_arn: history.alarm_arn },
+      UpdateExpression: "SET flapping_incident_id = :id",
+      ExpressionAttributeValues: { ":id": incidentId },
+    })
+  );
+  history.flapping_incident_id = incidentId;
+}
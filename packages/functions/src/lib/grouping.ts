@@ -0,0 +1,153 @@
+import { docClient, QueryCommand, UpdateCommand } from "./dynamo.js";
+import { AlertEvent, AlertGrouping, GroupedAlert, Incident, Team, TimelineEntry } from "../types/index.js";
+import { RoutingDecision } from "./routing.js";
+
+const INCIDENTS_TABLE = process.env.INCIDENTS_TABLE!;
+
+export const GROUPING_KEYS: AlertGrouping["key"][] = ["account_region", "dimension", "routing_rule"];
+
+export const MAX_GROUPING_WINDOW_MINUTES = 60;
+
+/**
+ * Grouping key for an alert under the team's grouping config, or null when
+ * the alert lacks the attribute (e.g. integration events have no region) and
+ * should get its own incident. Keys are prefixed with the team so groups
+ * never span teams.
+ */
+export function alertGroupKey(team: Team, event: AlertEvent, routing: RoutingDecision): string | null {
+  const grouping = team.grouping;
+  if (!grouping) return null;
+
+  switch (grouping.key) {
+    case "account_region": {
+      const region = event.alarm_context?.region;
+      return event.aws_account_id && region ? `${team.team_id}#account_region#${event.aws_account_id}:${region}` : null;
+    }
+    case "dimension": {
+      const dimension = event.alarm_context?.dimensions?.find((d) => d.name === grouping.dimension);
+      return dimension ? `${team.team_id}#dimension#${dimension.name}=${dimension.value}` : null;
+    }
+    case "routing_rule":
+      return routing.rule ? `${team.team_id}#routing_rule#${routing.rule.group ?? routing.rule.rule_id}` : null;
+  }
+}
+
+export function groupedAlert(event: AlertEvent, now: number): GroupedAlert {
+  return {
+    dedup_key: event.dedup_key,
+    summary: event.summary,
+    ...(event.alarm_arn ? { alarm_arn: event.alarm_arn } : {}),
+    triggered_at: now,
+  };
+}
+
+export async function findOpenGroupIncidents(groupKey: string): Promise<Incident[]> {
+  const result = await docClient.send(
+    new QueryCommand({
+      TableName: INCIDENTS_TABLE,
+      IndexName: "group-key-index",
+      KeyConditionExpression: "group_key = :key",
+      FilterExpression: "#state <> :resolved",
+      ExpressionAttributeNames: { "#state": "state" },
+      ExpressionAttributeValues: { ":key": groupKey, ":resolved": "resolved" },
+    })
+  );
+  return (result.Items as Incident[]) || [];
+}
+
+/**
+ * Open incident of the group that the alert should join: the newest one
+ * whose first alert is within the window. The window is not extended by
+ * later alerts, so a long storm still opens a fresh incident now and then.
+ */
+export function pickGroupIncident(incidents: Incident[], grouping: AlertGrouping, now: number): Incident | null {
+  const since = now - grouping.window_minutes * 60 * 1000;
+  const candidates = incidents.filter((incident) => incident.triggered_at >= since).sort((a, b) => b.triggered_at - a.triggered_at);
+  return candidates[0] ?? null;
+}
+
+/**
+ * Attach a new alert to a grouped incident without paging. Returns false
+ * when the incident was resolved in the meantime.
+ */
+export async function appendGroupedAlert(incident: Incident, event: AlertEvent): Promise<boolean> {
+  const now = Date.now();
+  const timelineEntry: TimelineEntry = {
+    timestamp: now,
+    event: "grouped",
+    actor: event.source,
+    note: event.details ? `${event.summary}: ${event.details}` : event.summary,
+  };
+
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: INCIDENTS_TABLE,
+        Key: { incident_id: incident.incident_id },
+        UpdateExpression:
+          "SET alerts = list_append(alerts, :alert), alert_dedup_keys = list_append(if_not_exists(alert_dedup_keys, :empty), :key), timeline = list_append(timeline, :entry) ADD alarm_count :one",
+        ConditionExpression: "#state <> :resolved",
+        ExpressionAttributeNames: { "#state": "state" },
+        ExpressionAttributeValues: {
+          ":alert": [groupedAlert(event, now)],
+          ":empty": [],
+          ":key": [event.dedup_key],
+          ":entry": [timelineEntry],
+          ":one": 1,
+          ":resolved": "resolved",
+        },
+      })
+    );
+  } catch (error) {
+    if ((error as Error).name === "ConditionalCheckFailedException") return false;
+    throw error;
+  }
+
+  console.log(`Grouped alert ${event.summary} into incident ${incident.incident_id}`);
+  return true;
+}
+
+/**
+ * Mark one alert of a grouped incident as cleared. Returns how many alerts
+ * are still firing, read back from the update so concurrent clears agree on
+ * which one was last.
+ */
+export async function clearGroupedAlert(incident: Incident, event: AlertEvent): Promise<number> {
+  const index = incident.alerts?.findIndex((alert) => alert.dedup_key === event.dedup_key) ?? -1;
+  if (index < 0) return 0;
+
+  const result = await docClient.send(
+    new UpdateCommand({
+      TableName: INCIDENTS_TABLE,
+      Key: { incident_id: incident.incident_id },
+      UpdateExpression: `SET alerts[${index}].resolved_at = :now`,
+      ExpressionAttributeValues: { ":now": Date.now() },
+      ReturnValues: "ALL_NEW",
+    })
+  );
+
+  const alerts = ((result.Attributes as Incident | undefined)?.alerts) || [];
+  const firing = alerts.filter((alert) => !alert.resolved_at).length;
+  if (firing === 0) return 0;
+
+  const timelineEntry: TimelineEntry = {
+    timestamp: Date.now(),
+    event: "annotated",
+    actor: event.source,
+    note: `${event.summary} cleared; ${firing} of ${alerts.length} alerts still firing`,
+  };
+  await docClient.send(
+    new UpdateCommand({
+      TableName: INCIDENTS_TABLE,
+      Key: { incident_id: incident.incident_id },
+      UpdateExpression: "SET timeline = list_append(timeline, :entry)",
+      ExpressionAttributeValues: { ":entry": [timelineEntry] },
+    })
+  );
+  return firing;
+}
+
+// Index of an alert in the group that the source has cleared, if any
+export function clearedAlertIndex(incident: Incident, dedupKey: string): number {
+  return incident.alerts?.findIndex((alert) => alert.dedup_key === dedupKey && alert.resolved_at !== undefined) ?? -1;
+}
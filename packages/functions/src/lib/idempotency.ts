@@ -0,0 +1,42 @@
+import { docClient, PutCommand, DeleteCommand } from "./dynamo.js";
+
+const PROCESSED_MESSAGES_TABLE = process.env.PROCESSED_MESSAGES_TABLE!;
+
+// Long enough to cover SNS redelivery and Lambda retry windows
+const CLAIM_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * Claim a message for processing. Returns false when the message was
+ * already claimed (a redelivery or retry), in which case it must be skipped.
+ */
+export async function claimMessage(messageId: string): Promise<boolean> {
+  try {
+    await docClient.send(
+      new PutCommand({
+        TableName: PROCESSED_MESSAGES_TABLE,
+        Item: {
+          message_id: messageId,
+          processed_at: Date.now(),
+          ttl: Math.floor(Date.now() / 1000) + CLAIM_TTL_SECONDS,
+        },
+        ConditionExpression: "attribute_not_exists(message_id)",
+      })
+    );
+    return true;
+  } catch (error) {
+    if ((error as Error).name === "ConditionalCheckFailedException") return false;
+    throw error;
+  }
+}
+
+/**
+ * Release a claim after a failed attempt so a retry can process the message.
+ */
+export async function releaseMessage(messageId: string): Promise<void> {
+  await docClient.send(
+    new DeleteCommand({
+      TableName: PROCESSED_MESSAGES_TABLE,
+      Key: { message_id: messageId },
+    })
+  );
+}
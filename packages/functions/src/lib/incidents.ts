@@ -0,0 +1,115 @@
+import { docClient, QueryCommand } from "./dynamo.js";
+import { Incident, IncidentState } from "../types/index.js";
+
+const INCIDENTS_TABLE = process.env.INCIDENTS_TABLE!;
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 100;
+
+type IncidentKey = Pick<Incident, "incident_id" | "team_id" | "triggered_at">;
+
+/**
+ * Where each team's listing resumes. Teams missing from `after` start at
+ * their newest incident; teams in `done` have nothing left to list.
+ */
+export interface IncidentCursor {
+  after: Record<string, IncidentKey>;
+  done: string[];
+}
+
+export function encodeCursor(cursor: IncidentCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+export function decodeCursor(value: string): IncidentCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    if (typeof cursor?.after !== "object" || cursor.after === null || !Array.isArray(cursor.done)) {
+      return null;
+    }
+    return cursor as IncidentCursor;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * One page of the teams' incidents, newest first. Each team is queried on
+ * team-triggered-index and the results are merged by triggered_at; the
+ * cursor keeps each team's position, so a busy team never pushes a quiet
+ * team's incidents out of the listing.
+ */
+export async function listTeamIncidents(
+  teamIds: string[],
+  options: { state?: IncidentState; limit: number; cursor?: IncidentCursor }
+): Promise<{ incidents: Incident[]; cursor: IncidentCursor | null }> {
+  const { state, limit } = options;
+  const cursor = options.cursor ?? { after: {}, done: [] };
+
+  const pages = await Promise.all(
+    teamIds
+      .filter((teamId) => !cursor.done.includes(teamId))
+      .map(async (teamId) => ({ teamId, ...(await queryTeamIncidents(teamId, state, limit, cursor.after[teamId])) }))
+  );
+
+  // The sort is stable, so each team's incidents keep their query order
+  const incidents = pages
+    .flatMap((page) => page.items)
+    .sort((a, b) => b.triggered_at - a.triggered_at)
+    .slice(0, limit);
+
+  const after = { ...cursor.after };
+  const done = [...cursor.done];
+  for (const page of pages) {
+    const taken = incidents.filter((incident) => incident.team_id === page.teamId);
+    if (page.exhausted && taken.length === page.items.length) {
+      delete after[page.teamId];
+      done.push(page.teamId);
+    } else if (taken.length > 0) {
+      after[page.teamId] = incidentKey(taken[taken.length - 1]);
+    }
+  }
+
+  const more = teamIds.some((teamId) => !done.includes(teamId));
+  return { incidents, cursor: more ? { after, done } : null };
+}
+
+// Up to `limit` incidents after the given one; the state filter may need several queries to fill a page
+async function queryTeamIncidents(
+  teamId: string,
+  state: IncidentState | undefined,
+  limit: number,
+  after: IncidentKey | undefined
+): Promise<{ items: Incident[]; exhausted: boolean }> {
+  const items: Incident[] = [];
+  let startKey: Record<string, unknown> | undefined = after;
+
+  do {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: INCIDENTS_TABLE,
+        IndexName: "team-triggered-index",
+        KeyConditionExpression: "team_id = :tid",
+        ...(state
+          ? {
+              FilterExpression: "#state = :state",
+              ExpressionAttributeNames: { "#state": "state" },
+              ExpressionAttributeValues: { ":tid": teamId, ":state": state },
+            }
+          : { ExpressionAttributeValues: { ":tid": teamId } }),
+        ScanIndexForward: false,
+        Limit: limit,
+        ...(startKey ? { ExclusiveStartKey: startKey } : {}),
+      })
+    );
+    items.push(...((result.Items as Incident[]) || []));
+    startKey = result.LastEvaluatedKey;
+  } while (startKey && items.length < limit);
+
+  return { items: items.slice(0, limit), exhausted: !startKey && items.length <= limit };
+}
+
+// Table key plus index key, as ExclusiveStartKey on the GSI expects
+function incidentKey(incident: Incident): IncidentKey {
+  return { incident_id: incident.incident_id, team_id: incident.team_id, triggered_at: incident.triggered_at };
+}
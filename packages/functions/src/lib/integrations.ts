@@ -0,0 +1,203 @@
+import { docClient, GetCommand, QueryCommand } from "./dynamo.js";
+import { AlertEvent, Integration, IntegrationType, Severity } from "../types/index.js";
+import { processAlertEvent, AlarmOutcome } from "./alarms.js";
+import { getTeam } from "./teams.js";
+import { normalizeSeverity } from "./annotations.js";
+import { randomBytes, randomUUID } from "crypto";
+
+const INTEGRATIONS_TABLE = process.env.INTEGRATIONS_TABLE!;
+
+export const INTEGRATION_TYPES: IntegrationType[] = ["generic", "alertmanager"];
+
+export const DEFAULT_SEVERITY_LABEL = "severity";
+
+const SEVERITIES: Severity[] = ["critical", "warning", "info"];
+
+// A non-AWS monitor that does not say how bad it is most likely wants a page
+const DEFAULT_SEVERITY: Severity = "critical";
+
+// One alert extracted from an inbound payload
+export interface IntegrationAlert {
+  event: AlertEvent;
+  severity: Severity;
+  dedup_key: string; // As sent by the caller, without the integration prefix
+}
+
+export function generateIntegrationKey(): string {
+  return randomBytes(20).toString("hex");
+}
+
+export async function getIntegration(teamId: string, integrationId: string): Promise<Integration | null> {
+  const result = await docClient.send(
+    new GetCommand({
+      TableName: INTEGRATIONS_TABLE,
+      Key: { team_id: teamId, integration_id: integrationId },
+    })
+  );
+  return (result.Item as Integration) || null;
+}
+
+export async function getIntegrationByKey(integrationKey: string): Promise<Integration | null> {
+  const result = await docClient.send(
+    new QueryCommand({
+      TableName: INTEGRATIONS_TABLE,
+      IndexName: "integration-key-index",
+      KeyConditionExpression: "integration_key = :key",
+      ExpressionAttributeValues: { ":key": integrationKey },
+    })
+  );
+  return (result.Items?.[0] as Integration) || null;
+}
+
+/**
+ * Normalize an inbound payload into alerts according to the integration type.
+ * Returns an error message for payloads that do not match the format.
+ */
+export function parseIntegrationPayload(integration: Integration, payload: unknown): { alerts: IntegrationAlert[] } | { error: string } {
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+    return { error: "Body must be a JSON object" };
+  }
+
+  if (integration.type === "alertmanager") {
+    return parseAlertmanagerWebhook(integration, payload as AlertmanagerWebhook);
+  }
+
+  const result = parseGenericEvent(integration, payload as Record<string, unknown>);
+  return "error" in result ? result : { alerts: [result] };
+}
+
+/**
+ * Generic event format:
+ *   { action: "trigger" | "resolve", summary, severity?, dedup_key?, source?, details?, custom_details? }
+ * A trigger without dedup_key gets a generated one, returned to the caller so
+ * it can resolve the incident later.
+ */
+function parseGenericEvent(integration: Integration, body: Record<string, unknown>): IntegrationAlert | { error: string } {
+  const action = body.action ?? "trigger";
+  if (action !== "trigger" && action !== "resolve") {
+    return { error: "action must be trigger or resolve" };
+  }
+
+  if (body.dedup_key !== undefined && (typeof body.dedup_key !== "string" || !body.dedup_key)) {
+    return { error: "dedup_key must be a non-empty string" };
+  }
+  if (action === "resolve" && !body.dedup_key) {
+    return { error: "Missing dedup_key" };
+  }
+  if (action === "trigger" && (typeof body.summary !== "string" || !body.summary)) {
+    return { error: "Missing summary" };
+  }
+
+  const severity = body.severity ?? DEFAULT_SEVERITY;
+  if (!SEVERITIES.includes(severity as Severity)) {
+    return { error: "severity must be critical, warning or info" };
+  }
+  if (body.details !== undefined && typeof body.details !== "string") {
+    return { error: "details must be a string" };
+  }
+  if (body.custom_details !== undefined && (typeof body.custom_details !== "object" || body.custom_details === null || Array.isArray(body.custom_details))) {
+    return { error: "custom_details must be an object" };
+  }
+
+  const dedupKey = (body.dedup_key as string | undefined) ?? randomUUID();
+  const source = typeof body.source === "string" && body.source ? body.source : integration.name;
+
+  return {
+    event: {
+      source,
+      action,
+      // Scoped per integration so two teams can use the same keys
+      dedup_key: `${integration.integration_id}:${dedupKey}`,
+      summary: (body.summary as string | undefined) ?? dedupKey,
+      ...(body.details ? { details: body.details as string } : {}),
+      ...(body.custom_details ? { custom_details: body.custom_details as Record<string, unknown> } : {}),
+    },
+    severity: severity as Severity,
+    dedup_key: dedupKey,
+  };
+}
+
+// Alertmanager webhook_config payload (version 4)
+interface AlertmanagerWebhook {
+  version?: string;
+  status?: "firing" | "resolved";
+  externalURL?: string;
+  alerts?: AlertmanagerAlert[];
+}
+
+interface AlertmanagerAlert {
+  status: "firing" | "resolved";
+  labels?: Record<string, string>;
+  annotations?: Record<string, string>;
+  startsAt?: string;
+  endsAt?: string;
+  generatorURL?: string;
+  fingerprint: string;
+}
+
+/**
+ * Each alert in the group becomes its own event: firing triggers and
+ * resolved resolves, keyed by the alert fingerprint.
+ */
+function parseAlertmanagerWebhook(integration: Integration, body: AlertmanagerWebhook): { alerts: IntegrationAlert[] } | { error: string } {
+  if (body.version !== "4") {
+    return { error: "Unsupported Alertmanager webhook version" };
+  }
+  if (!Array.isArray(body.alerts)) {
+    return { error: "Missing alerts" };
+  }
+
+  const severityLabel = integration.severity_label || DEFAULT_SEVERITY_LABEL;
+  const alerts: IntegrationAlert[] = [];
+  for (const alert of body.alerts) {
+    if (!alert?.fingerprint || (alert.status !== "firing" && alert.status !== "resolved")) {
+      return { error: "Each alert needs a fingerprint and a firing or resolved status" };
+    }
+
+    const labels = alert.labels || {};
+    const annotations = alert.annotations || {};
+    const details = annotations.description || annotations.message;
+    alerts.push({
+      event: {
+        source: integration.name,
+        action: alert.status === "firing" ? "trigger" : "resolve",
+        dedup_key: `${integration.integration_id}:${alert.fingerprint}`,
+        summary: annotations.summary || labels.alertname || alert.fingerprint,
+        ...(details ? { details } : {}),
+        custom_details: {
+          labels,
+          ...(alert.generatorURL ? { generator_url: alert.generatorURL } : {}),
+          ...(alert.startsAt ? { starts_at: alert.startsAt } : {}),
+        },
+      },
+      severity: mapSeverityLabel(labels[severityLabel]),
+      dedup_key: alert.fingerprint,
+    });
+  }
+
+  return { alerts };
+}
+
+// Prometheus rules use free-form severities; map the common spellings
+export function mapSeverityLabel(value: string | undefined): Severity {
+  return normalizeSeverity(value) ?? "warning";
+}
+
+/**
+ * Run an integration alert through the incident pipeline. Integrations belong
+ * to one team, so routing rules are skipped.
+ */
+export async function processIntegrationAlert(integration: Integration, alert: Pick<IntegrationAlert, "event" | "severity">): Promise<AlarmOutcome> {
+  return processAlertEvent(alert.event, async () => {
+    const team = await getTeam(integration.team_id);
+    if (!team) return null;
+    return {
+      team,
+      rule: null,
+      severity: alert.severity,
+      escalation_policy: team.escalation_policy,
+      reason: `Integration "${integration.name}" of team "${team.name}"`,
+      evaluated: [],
+    };
+  });
+}
@@ -0,0 +1,345 @@
+import { SchedulerClient, CreateScheduleCommand } from "@aws-sdk/client-scheduler";
+import { docClient, DeleteCommand, PutCommand, QueryCommand, ScanCommand } from "./dynamo.js";
+import { Device, HeldNotification, Incident, NotificationRule, QuietHours, User } from "../types/index.js";
+import { sendPushNotification, PushNotification } from "./apns.js";
+import { getContactMethod, deliverToContactMethod } from "./contact-methods.js";
+import { getUser } from "./users.js";
+import { atExpression } from "./escalation.js";
+import { createHash, randomUUID } from "crypto";
+
+const DEVICES_TABLE = process.env.DEVICES_TABLE!;
+const INCIDENTS_TABLE = process.env.INCIDENTS_TABLE!;
+const HELD_NOTIFICATIONS_TABLE = process.env.HELD_NOTIFICATIONS_TABLE!;
+const NOTIFICATION_STEP_FUNCTION_ARN = process.env.NOTIFICATION_STEP_FUNCTION_ARN!;
+const NOTIFICATION_DIGEST_FUNCTION_ARN = process.env.NOTIFICATION_DIGEST_FUNCTION_ARN!;
+const SCHEDULER_ROLE_ARN = process.env.SCHEDULER_ROLE_ARN!;
+
+const schedulerClient = new SchedulerClient({});
+
+// Mon-Fri 09:00-17:00 in the user's time zone (UTC when unset)
+const WORKING_DAYS = [1, 2, 3, 4, 5];
+const WORKING_HOURS_START = 9 * 60;
+const WORKING_HOURS_END = 17 * 60;
+
+const MINUTES_PER_DAY = 24 * 60;
+const HELD_RETENTION_SECONDS = 7 * 24 * 60 * 60;
+const DIGEST_PREVIEW_COUNT = 5;
+
+// Payload delivered to the notification step handler by EventBridge Scheduler
+export interface NotificationStep {
+  incident_id: string;
+  user_id: string;
+  rule_id: string;
+}
+
+// Payload delivered to the notification digest handler by EventBridge Scheduler
+export interface NotificationDigest {
+  user_id: string;
+}
+
+/**
+ * Page a user about an incident the way their notification rules say.
+ * Without a rule for the incident's severity every device gets a push
+ * right away; delayed rules are scheduled and re-checked when they fire.
+ */
+export async function pageUser(userId: string, notification: PushNotification, incident: Incident): Promise<void> {
+  const user = await getUser(userId);
+  const rules = (user?.notification_rules || []).filter((rule) => rule.severity === incident.severity);
+  if (!user || rules.length === 0) {
+    await notifyUser(userId, notification, incident, user);
+    return;
+  }
+
+  for (const rule of rules) {
+    if (rule.delay_minutes > 0) {
+      await scheduleNotificationStep({ incident_id: incident.incident_id, user_id: userId, rule_id: rule.rule_id }, rule.delay_minutes);
+    } else {
+      await deliverRule(user, rule, notification, incident);
+    }
+  }
+}
+
+// Contact method failures are logged, not thrown, so one bad webhook doesn't stop the other pages
+export async function deliverRule(user: User, rule: NotificationRule, notification: PushNotification, incident: Incident): Promise<void> {
+  if (rule.working_hours_only && !isWorkingHours(Date.now(), user.time_zone)) {
+    console.log(`[Notifications] Skipping rule ${rule.rule_id} for ${user.user_id}: outside working hours`);
+    return;
+  }
+
+  if (!rule.contact_method_id) {
+    await notifyUser(user.user_id, notification, incident, user);
+    return;
+  }
+
+  const method = await getContactMethod(user.user_id, rule.contact_method_id);
+  if (!method || method.verified_at === undefined) {
+    console.log(`[Notifications] Skipping rule ${rule.rule_id} for ${user.user_id}: contact method missing or unverified`);
+    return;
+  }
+
+  try {
+    await deliverToContactMethod(method, {
+      title: notification.title,
+      body: notification.body,
+      data: { incident_id: incident.incident_id, severity: incident.severity, state: incident.state },
+    });
+  } catch (error) {
+    console.error(`[Notifications] ${method.type} delivery for ${user.user_id} failed:`, error);
+  }
+}
+
+/**
+ * Push to every device of the user. During quiet hours or do-not-disturb,
+ * warning and info pushes are held for the digest sent when the window
+ * ends; critical ones break through at the critical interruption level.
+ * Pass the user when it's already loaded.
+ */
+export async function notifyUser(
+  userId: string,
+  notification: PushNotification,
+  incident: Incident,
+  user?: User | null
+): Promise<void> {
+  const recipient = user === undefined ? await getUser(userId) : user;
+  const quietEnd = recipient ? quietUntil(recipient, Date.now()) : null;
+  if (quietEnd !== null) {
+    if (incident.severity !== "critical") {
+      await holdNotification(userId, notification, incident, quietEnd);
+      return;
+    }
+    if (notification.interruptionLevel === "time-sensitive") {
+      notification = { ...notification, interruptionLevel: "critical" };
+    }
+  }
+
+  await pushToDevices(userId, notification, {
+    incident_id: incident.incident_id,
+    severity: incident.severity,
+    state: incident.state,
+  });
+}
+
+/**
+ * Send the user one push for everything held while they were quiet. If the
+ * window was extended since the digest was scheduled, it's rescheduled.
+ */
+export async function sendDigest(userId: string, digestFunctionArn?: string): Promise<void> {
+  const user = await getUser(userId);
+  if (!user) return;
+
+  const quietEnd = quietUntil(user, Date.now());
+  if (quietEnd !== null) {
+    await scheduleDigest(userId, quietEnd, digestFunctionArn);
+    return;
+  }
+
+  const result = await docClient.send(
+    new QueryCommand({
+      TableName: HELD_NOTIFICATIONS_TABLE,
+      KeyConditionExpression: "user_id = :uid",
+      ExpressionAttributeValues: { ":uid": userId },
+    })
+  );
+  const held = (result.Items as HeldNotification[]) || [];
+  if (held.length === 0) return;
+
+  const preview = held.slice(0, DIGEST_PREVIEW_COUNT).map((item) => item.title);
+  if (held.length > DIGEST_PREVIEW_COUNT) {
+    preview.push(`+${held.length - DIGEST_PREVIEW_COUNT} more`);
+  }
+  await pushToDevices(
+    userId,
+    {
+      title: `🌙 ${held.length} HELD ALERT${held.length === 1 ? "" : "S"}`,
+      body: preview.join("\n"),
+      sound: "default",
+      interruptionLevel: "active",
+    },
+    { digest: true }
+  );
+
+  // Only what was sent; anything held meanwhile waits for the next digest
+  for (const item of held) {
+    await docClient.send(
+      new DeleteCommand({
+        TableName: HELD_NOTIFICATIONS_TABLE,
+        Key: { user_id: userId, held_id: item.held_id },
+      })
+    );
+  }
+}
+
+/**
+ * Schedule the user's digest. One schedule per window end: scheduling the
+ * same end again is a no-op.
+ */
+export async function scheduleDigest(
+  userId: string,
+  at: number,
+  targetArn: string = NOTIFICATION_DIGEST_FUNCTION_ARN
+): Promise<void> {
+  const userHash = createHash("sha256").update(userId).digest("hex").slice(0, 32);
+  const digest: NotificationDigest = { user_id: userId };
+
+  try {
+    await schedulerClient.send(
+      new CreateScheduleCommand({
+        Name: `dig-${userHash}-${at}`,
+        ScheduleExpression: atExpression(at),
+        FlexibleTimeWindow: { Mode: "OFF" },
+        ActionAfterCompletion: "DELETE",
+        Target: {
+          Arn: targetArn,
+          RoleArn: SCHEDULER_ROLE_ARN,
+          Input: JSON.stringify(digest),
+        },
+      })
+    );
+    console.log(`[Notifications] Scheduled digest for ${userId} at ${new Date(at).toISOString()}`);
+  } catch (error) {
+    if ((error as Error).name === "ConflictException") return;
+    throw error;
+  }
+}
+
+/**
+ * When the user's quiet hours or do-not-disturb end, or null when neither
+ * applies now. Back-to-back windows (DND running into quiet hours) count as one.
+ */
+export function quietUntil(user: Pick<User, "quiet_hours" | "dnd_until" | "time_zone">, now: number): number | null {
+  let until = now;
+  for (let i = 0; i < 3; i++) {
+    const dndEnd = user.dnd_until && user.dnd_until > until ? user.dnd_until : until;
+    const quietEnd = user.quiet_hours ? quietHoursEnd(user.quiet_hours, until, user.time_zone) ?? until : until;
+    const next = Math.max(dndEnd, quietEnd);
+    if (next === until) break;
+    until = next;
+  }
+  return until > now ? until : null;
+}
+
+function quietHoursEnd(hours: QuietHours, timestamp: number, timeZone: string | undefined): number | null {
+  const { minutes } = localTime(timestamp, timeZone);
+  const start = toMinutes(hours.start);
+  const end = toMinutes(hours.end);
+  const inside = start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+  if (!inside) return null;
+
+  const remaining = (end - minutes + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return timestamp - (timestamp % 60000) + remaining * 60000;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+async function holdNotification(userId: string, notification: PushNotification, incident: Incident, quietEnd: number): Promise<void> {
+  const now = Date.now();
+  const held: HeldNotification = {
+    user_id: userId,
+    held_id: `${now}-${randomUUID()}`,
+    incident_id: incident.incident_id,
+    severity: incident.severity,
+    title: notification.title,
+    body: notification.body,
+    held_at: now,
+    ttl: Math.floor(now / 1000) + HELD_RETENTION_SECONDS,
+  };
+
+  await docClient.send(
+    new PutCommand({
+      TableName: HELD_NOTIFICATIONS_TABLE,
+      Item: held,
+    })
+  );
+  await scheduleDigest(userId, quietEnd);
+  console.log(`[Notifications] Held ${incident.severity} push for ${userId} until ${new Date(quietEnd).toISOString()}`);
+}
+
+// Also used directly for notices that aren't incident pages, which quiet hours don't hold
+export async function pushToDevices(userId: string, notification: PushNotification, data: Record<string, unknown>): Promise<void> {
+  const devices = await getUserDevices(userId);
+  if (devices.length === 0) {
+    console.log(`[Notifications] No devices to notify for ${userId}`);
+    return;
+  }
+
+  // Get badge count (unacked incidents for this user)
+  const badgeCount = await getUnackedIncidentCount(userId);
+  console.log(`[Notifications] Badge count for ${userId}: ${badgeCount}`);
+
+  for (const device of devices) {
+    await sendPushNotification(device, { ...notification, badge: badgeCount, data });
+  }
+}
+
+/**
+ * Day of the week (0 = Sunday) and minutes since midnight in a time zone.
+ */
+export function localTime(timestamp: number, timeZone: string | undefined): { weekday: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timeZone || "UTC",
+    weekday: "short",
+    hour: "numeric",
+    minute: "numeric",
+    hourCycle: "h23",
+  }).formatToParts(new Date(timestamp));
+  const part = (type: string) => parts.find((p) => p.type === type)?.value || "";
+  return {
+    weekday: ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].indexOf(part("weekday")),
+    minutes: Number(part("hour")) * 60 + Number(part("minute")),
+  };
+}
+
+export function isWorkingHours(timestamp: number, timeZone: string | undefined): boolean {
+  const { weekday, minutes } = localTime(timestamp, timeZone);
+  return WORKING_DAYS.includes(weekday) && minutes >= WORKING_HOURS_START && minutes < WORKING_HOURS_END;
+}
+
+// Steps aren't cancelled on ack; the step handler drops them once the incident is no longer triggered
+async function scheduleNotificationStep(step: NotificationStep, delayMinutes: number): Promise<void> {
+  // Schedule names max out at 64 characters; the same rule may fire again on a later page
+  const hash = createHash("sha256").update(`${step.incident_id}:${step.user_id}:${step.rule_id}:${Date.now()}`).digest("hex");
+  const name = `ntf-${hash.slice(0, 40)}`;
+
+  await schedulerClient.send(
+    new CreateScheduleCommand({
+      Name: name,
+      ScheduleExpression: atExpression(Date.now() + delayMinutes * 60 * 1000),
+      FlexibleTimeWindow: { Mode: "OFF" },
+      ActionAfterCompletion: "DELETE",
+      Target: {
+        Arn: NOTIFICATION_STEP_FUNCTION_ARN,
+        RoleArn: SCHEDULER_ROLE_ARN,
+        Input: JSON.stringify(step),
+      },
+    })
+  );
+
+  console.log(`[Notifications] Scheduled rule ${step.rule_id} for ${step.user_id} on ${step.incident_id} in ${delayMinutes}m`);
+}
+
+async function getUserDevices(userId: string): Promise<Device[]> {
+  const result = await docClient.send(
+    new QueryCommand({
+      TableName: DEVICES_TABLE,
+      KeyConditionExpression: "user_id = :uid",
+      ExpressionAttributeValues: { ":uid": userId },
+    })
+  );
+  return (result.Items as Device[]) || [];
+}
+
+async function getUnackedIncidentCount(userId: string): Promise<number> {
+  const result = await docClient.send(
+    new ScanCommand({
+      TableName: INCIDENTS_TABLE,
+      FilterExpression: "assigned_to = :uid AND #state = :state",
+      ExpressionAttributeNames: { "#state": "state" },
+      ExpressionAttributeValues: { ":uid": userId, ":state": "triggered" },
+      Select: "COUNT",
+    })
+  );
+  return result.Count || 0;
+}
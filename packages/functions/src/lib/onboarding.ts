@@ -0,0 +1,221 @@
+import { docClient, GetCommand, UpdateCommand } from "./dynamo.js";
+import { AccountChallenge, AwsAccountStatus, CloudWatchAlarmMessage } from "../types/index.js";
+import { randomBytes } from "crypto";
+
+const AWS_ACCOUNTS_TABLE = process.env.AWS_ACCOUNTS_TABLE!;
+
+export const CHALLENGE_TTL_MINUTES = 60;
+
+// Verification alarms are named after the nonce; a state reason carrying it works too
+const VERIFICATION_PATTERN = /cw-alarms-verify-([0-9a-f]{16})/;
+
+export type AccountDeliveryStatus = "pending" | "verified";
+
+export interface DeliveryTargets {
+  topicArn: string;
+  busArn: string;
+}
+
+export function verificationAlarmName(nonce: string): string {
+  return `cw-alarms-verify-${nonce}`;
+}
+
+export function accountDeliveryStatus(account: AwsAccountStatus | null): AccountDeliveryStatus {
+  return account?.verified_at ? "verified" : "pending";
+}
+
+export async function getAccountStatus(accountId: string): Promise<AwsAccountStatus | null> {
+  const result = await docClient.send(
+    new GetCommand({
+      TableName: AWS_ACCOUNTS_TABLE,
+      Key: { aws_account_id: accountId },
+    })
+  );
+  return (result.Item as AwsAccountStatus) || null;
+}
+
+/**
+ * Start a verification for the team. Each team has its own pending
+ * challenge, so another team listing the account can't replace it; a new
+ * challenge replaces the team's earlier one, so only its latest nonce counts.
+ */
+export async function issueChallenge(accountId: string, teamId: string): Promise<AccountChallenge> {
+  const now = Date.now();
+  const challenge: AccountChallenge = {
+    nonce: randomBytes(8).toString("hex"),
+    team_id: teamId,
+    issued_at: now,
+    expires_at: now + CHALLENGE_TTL_MINUTES * 60 * 1000,
+  };
+
+  // A nested attribute can only be set once its map exists
+  await docClient.send(
+    new UpdateCommand({
+      TableName: AWS_ACCOUNTS_TABLE,
+      Key: { aws_account_id: accountId },
+      UpdateExpression: "SET challenges = if_not_exists(challenges, :empty)",
+      ExpressionAttributeValues: { ":empty": {} },
+    })
+  );
+  await docClient.send(
+    new UpdateCommand({
+      TableName: AWS_ACCOUNTS_TABLE,
+      Key: { aws_account_id: accountId },
+      UpdateExpression: "SET challenges.#team = :challenge",
+      ExpressionAttributeNames: { "#team": teamId },
+      ExpressionAttributeValues: { ":challenge": challenge },
+    })
+  );
+  return challenge;
+}
+
+/**
+ * Note that the account delivered an alarm. Returns null for regular alarms;
+ * for verification alarms, whether the nonce matched an open challenge.
+ * Verification alarms never become incidents either way.
+ */
+export async function recordAccountAlarm(message: CloudWatchAlarmMessage): Promise<{ verified: boolean } | null> {
+  const now = Date.now();
+  const nonce = (message.AlarmName.match(VERIFICATION_PATTERN) || message.NewStateReason?.match(VERIFICATION_PATTERN))?.[1];
+  const lastSeen = {
+    ":now": now,
+    ":name": message.AlarmName,
+  };
+
+  // The nonce says which team's challenge the alarm answers
+  const account = nonce ? await getAccountStatus(message.AWSAccountId) : null;
+  const challenge = Object.values(account?.challenges ?? {}).find((pending) => pending.nonce === nonce);
+  if (challenge) {
+    try {
+      await docClient.send(
+        new UpdateCommand({
+          TableName: AWS_ACCOUNTS_TABLE,
+          Key: { aws_account_id: message.AWSAccountId },
+          UpdateExpression:
+            "SET last_alarm_at = :now, last_alarm_name = :name, verified_at = :now, verified_team_id = :team REMOVE challenges.#team",
+          ConditionExpression: "challenges.#team.nonce = :nonce AND challenges.#team.expires_at > :now",
+          ExpressionAttributeNames: { "#team": challenge.team_id },
+          ExpressionAttributeValues: { ...lastSeen, ":nonce": nonce, ":team": challenge.team_id },
+        })
+      );
+      console.log(`Verified alarm delivery from account ${message.AWSAccountId} for team ${challenge.team_id}`);
+      return { verified: true };
+    } catch (error) {
+      if ((error as Error).name !== "ConditionalCheckFailedException") throw error;
+    }
+  }
+  if (nonce) {
+    console.log(`Verification alarm from ${message.AWSAccountId} has an unknown or expired nonce`);
+  }
+
+  await docClient.send(
+    new UpdateCommand({
+      TableName: AWS_ACCOUNTS_TABLE,
+      Key: { aws_account_id: message.AWSAccountId },
+      UpdateExpression: "SET last_alarm_at = :now, last_alarm_name = :name",
+      ExpressionAttributeValues: lastSeen,
+    })
+  );
+  return nonce ? { verified: false } : null;
+}
+
+/**
+ * Snippets that make a member account deliver alarms: forward every alarm
+ * state change to the alarm event bus (one rule per region), or point
+ * alarm actions at the central SNS topic, whose policy must list the
+ * account.
+ */
+export function onboardingSnippets(accountId: string, targets: DeliveryTargets) {
+  const { topicArn, busArn } = targets;
+
+  const topicPolicyStatement = {
+    Sid: `AllowAlarmsFrom${accountId}`,
+    Effect: "Allow",
+    Principal: { Service: "cloudwatch.amazonaws.com" },
+    Action: "sns:Publish",
+    Resource: topicArn,
+    Condition: { ArnLike: { "aws:SourceArn": `arn:aws:cloudwatch:*:${accountId}:alarm:*` } },
+  };
+
+  return {
+    eventbridge: {
+      cloudformation: `AWSTemplateFormatVersion: "2010-09-09"
+Description: Forward CloudWatch alarm state changes to the on-call app (deploy in every region with alarms)
+Resources:
+  AlarmForwardingRole:
+    Type: AWS::IAM::Role
+    Properties:
+      AssumeRolePolicyDocument:
+        Version: "2012-10-17"
+        Statement:
+          - Effect: Allow
+            Principal:
+              Service: events.amazonaws.com
+            Action: sts:AssumeRole
+      Policies:
+        - PolicyName: PutAlarmEvents
+          PolicyDocument:
+            Version: "2012-10-17"
+            Statement:
+              - Effect: Allow
+                Action: events:PutEvents
+                Resource: ${busArn}
+  AlarmForwardingRule:
+    Type: AWS::Events::Rule
+    Properties:
+      EventPattern:
+        source:
+          - aws.cloudwatch
+        detail-type:
+          - CloudWatch Alarm State Change
+      Targets:
+        - Id: OnCallAlarmBus
+          Arn: ${busArn}
+          RoleArn: !GetAtt AlarmForwardingRole.Arn
+`,
+      cdk: `import * as events from "aws-cdk-lib/aws-events";
+import * as targets from "aws-cdk-lib/aws-events-targets";
+
+// Forward CloudWatch alarm state changes to the on-call app
+new events.Rule(this, "ForwardAlarmStateChanges", {
+  eventPattern: {
+    source: ["aws.cloudwatch"],
+    detailType: ["CloudWatch Alarm State Change"],
+  },
+  targets: [new targets.EventBus(events.EventBus.fromEventBusArn(this, "OnCallAlarmBus", "${busArn}"))],
+});
+`,
+    },
+    sns: {
+      // Added by deploying the app stack with the account in alarmSourceAccountIds
+      topic_policy_statement: topicPolicyStatement,
+      cloudformation: `# Add to each alarm that should page
+      AlarmActions:
+        - ${topicArn}
+      OKActions:
+        - ${topicArn}
+`,
+      cdk: `import * as sns from "aws-cdk-lib/aws-sns";
+import * as cwActions from "aws-cdk-lib/aws-cloudwatch-actions";
+
+const onCallTopic = sns.Topic.fromTopicArn(this, "OnCallAlarms", "${topicArn}");
+// For each alarm that should page
+alarm.addAlarmAction(new cwActions.SnsAction(onCallTopic));
+alarm.addOkAction(new cwActions.SnsAction(onCallTopic));
+`,
+    },
+  };
+}
+
+/**
+ * CLI steps that raise a throwaway alarm carrying the nonce. The SNS path
+ * needs the alarm action; EventBridge forwarding picks up any alarm.
+ */
+export function verificationCommands(nonce: string, method: "sns" | "eventbridge", targets: DeliveryTargets): string[] {
+  const alarmName = verificationAlarmName(nonce);
+  return [
+    `aws cloudwatch put-metric-alarm --alarm-name ${alarmName} --namespace CwAlarms/Onboarding --metric-name Verification --statistic Sum --period 60 --evaluation-periods 1 --threshold 1 --comparison-operator GreaterThanOrEqualToThreshold${method === "sns" ? ` --alarm-actions ${targets.topicArn}` : ""}`,
+    `aws cloudwatch set-alarm-state --alarm-name ${alarmName} --state-value ALARM --state-reason "On-call onboarding verification"`,
+    `aws cloudwatch delete-alarms --alarm-names ${alarmName}`,
+  ];
+}
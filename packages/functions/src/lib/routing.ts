@@ -0,0 +1,332 @@
+import { docClient, QueryCommand, ScanCommand } from "./dynamo.js";
+import { parseAlarmAnnotations, annotatedSeverity } from "./annotations.js";
+import { getAccountStatus } from "./onboarding.js";
+import { CloudWatchAlarmMessage, EscalationPolicy, RoutingMatch, RoutingRule, Severity, Team } from "../types/index.js";
+
+const TEAMS_TABLE = process.env.TEAMS_TABLE!;
+const ROUTING_RULES_TABLE = process.env.ROUTING_RULES_TABLE!;
+
+export const ROUTING_MATCH_FIELDS: (keyof RoutingMatch)[] = ["aws_account_id", "region", "alarm_name", "namespace", "metric_name", "service"];
+
+export interface RuleCheck {
+  field: keyof RoutingMatch;
+  pattern: string;
+  value: string | null;
+  matched: boolean;
+}
+
+export interface RuleEvaluation {
+  rule_id: string;
+  team_id: string;
+  name: string;
+  priority: number;
+  matched: boolean;
+  checks: RuleCheck[];
+}
+
+export interface RoutingDecision {
+  team: Team;
+  rule: RoutingRule | null;
+  severity: Severity;
+  escalation_policy: EscalationPolicy;
+  reason: string;
+  evaluated: RuleEvaluation[];
+}
+
+/**
+ * Route an alarm to a team. Only teams that own the alarm's AWS account are
+ * considered; a `team` annotation in the alarm description narrows them to
+ * that team. Listing an account needs no proof of control, so when several
+ * teams list it only the team that verified the account gets its rules
+ * evaluated and its unmatched alarms; otherwise rules are skipped and the
+ * oldest owning team gets the alarm. Rules are evaluated in priority order
+ * and the first match wins.
+ */
+export async function routeAlarm(message: CloudWatchAlarmMessage): Promise<RoutingDecision | null> {
+  const owners = await findTeamsByAwsAccount(message.AWSAccountId);
+  if (owners.length === 0) return null;
+
+  const annotations = parseAlarmAnnotations(message.AlarmDescription);
+  const annotatedTeam = annotations.team ? findAnnotatedTeam(owners, annotations.team) : null;
+  const severity = annotatedSeverity(annotations) ?? determineSeverity(message.AlarmName);
+
+  // The annotation is written inside the account, so it is as good as verification
+  let teams: Team[];
+  let verifiedTeam: Team | null = null;
+  if (annotatedTeam) {
+    teams = [annotatedTeam];
+  } else if (owners.length === 1) {
+    teams = owners;
+  } else {
+    const account = await getAccountStatus(message.AWSAccountId);
+    verifiedTeam = owners.find((team) => team.team_id === account?.verified_team_id) ?? null;
+    teams = verifiedTeam ? [verifiedTeam] : [];
+  }
+
+  const rules = (await Promise.all(teams.map((team) => listRoutingRules(team.team_id)))).flat().sort(compareRules);
+  const evaluated = rules.map((rule) => evaluateRule(rule, message));
+
+  const matchedIndex = evaluated.findIndex((evaluation) => evaluation.matched);
+  if (matchedIndex >= 0) {
+    const rule = rules[matchedIndex];
+    const team = teams.find((t) => t.team_id === rule.team_id)!;
+    return {
+      team,
+      rule,
+      severity: rule.severity ?? severity,
+      escalation_policy: rule.escalation_policy ?? team.escalation_policy,
+      reason: `Matched rule "${rule.name}" (priority ${rule.priority}) of team "${team.name}"`,
+      evaluated,
+    };
+  }
+
+  const team = teams[0] ?? owners[0];
+  let reason: string;
+  if (annotatedTeam) {
+    reason = `No rule matched; routed to annotated team "${team.name}"`;
+  } else if (verifiedTeam) {
+    reason = `No rule matched; ${owners.length} teams own account ${message.AWSAccountId}, routed to "${team.name}", which verified it`;
+  } else if (owners.length > 1) {
+    reason = `${owners.length} teams own account ${message.AWSAccountId} and none has verified it; rules skipped, routed to the oldest, "${team.name}"`;
+  } else {
+    reason = `No rule matched; routed to account owner "${team.name}"`;
+  }
+  if (annotations.team && !annotatedTeam) {
+    reason += ` (annotated team "${annotations.team}" does not own the account)`;
+  }
+
+  return {
+    team,
+    rule: null,
+    severity,
+    escalation_policy: team.escalation_policy,
+    reason,
+    evaluated,
+  };
+}
+
+// Annotations name a team by ID or, more commonly in CDK code, by name
+function findAnnotatedTeam(teams: Team[], value: string): Team | null {
+  const lower = value.toLowerCase();
+  return teams.find((team) => team.team_id === value) ?? teams.find((team) => team.name.toLowerCase() === lower) ?? null;
+}
+
+export function evaluateRule(rule: RoutingRule, message: CloudWatchAlarmMessage): RuleEvaluation {
+  const checks: RuleCheck[] = [];
+  for (const field of ROUTING_MATCH_FIELDS) {
+    const pattern = rule.match?.[field];
+    if (!pattern) continue;
+
+    const value = alarmValue(field, message);
+    const matched = value !== null && (field === "alarm_name" ? matchAlarmName(pattern, value) : value === pattern);
+    checks.push({ field, pattern, value, matched });
+  }
+
+  return {
+    rule_id: rule.rule_id,
+    team_id: rule.team_id,
+    name: rule.name,
+    priority: rule.priority,
+    matched: checks.every((check) => check.matched),
+    checks,
+  };
+}
+
+// CloudWatch caps alarm names at 255 characters, so longer patterns can never match
+const MAX_ALARM_NAME_PATTERN_LENGTH = 255;
+// With names capped at 255 characters, a few unbounded quantifiers keep
+// backtracking polynomial and small
+const MAX_REGEX_UNBOUNDED_QUANTIFIERS = 3;
+const MAX_REGEX_QUANTIFIERS = 6;
+
+const QUANTIFIER = /^(?:[*+?]|\{\d+(?:,\d*)?\})\??/;
+const GROUP_MODIFIER = /^\?(?:<[^>]*>|<=|<!|[:=!])/;
+
+/**
+ * Check an alarm name pattern before a rule or silence is saved. Patterns
+ * are globs (* and ?), or regular expressions written as /…/ that must
+ * match the whole name. Regular expressions run in the shared alarm
+ * pipeline, so backreferences, quantified groups that contain quantifiers
+ * or alternatives, and more than a few quantifiers are rejected: those are
+ * what lets a short pattern backtrack for seconds. Returns an error
+ * message or null.
+ */
+export function alarmNamePatternError(pattern: string): string | null {
+  if (pattern.length > MAX_ALARM_NAME_PATTERN_LENGTH) {
+    return `alarm_name pattern must be at most ${MAX_ALARM_NAME_PATTERN_LENGTH} characters`;
+  }
+  const source = regexSource(pattern);
+  if (source === null) return null;
+
+  try {
+    new RegExp(source);
+  } catch {
+    return "alarm_name is not a valid regular expression";
+  }
+  return regexComplexityError(source);
+}
+
+// The body of a /…/ pattern, or null for a glob
+function regexSource(pattern: string): string | null {
+  return pattern.length > 2 && pattern.startsWith("/") && pattern.endsWith("/") ? pattern.slice(1, -1) : null;
+}
+
+function regexComplexityError(source: string): string | null {
+  let quantifiers = 0;
+  let unbounded = 0;
+  // Per open group: whether it holds a quantifier or an alternative
+  const groups: boolean[] = [];
+  const markGroup = () => {
+    if (groups.length > 0) groups[groups.length - 1] = true;
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    let branchingAtom = false;
+    if (source[i] === "\\") {
+      if (/[1-9k]/.test(source[i + 1] ?? "")) {
+        return "alarm_name regular expressions can't use backreferences";
+      }
+      i++;
+    } else if (source[i] === "[") {
+      for (i++; i < source.length && source[i] !== "]"; i++) {
+        if (source[i] === "\\") i++;
+      }
+    } else if (source[i] === "(") {
+      groups.push(false);
+      i += source.slice(i + 1).match(GROUP_MODIFIER)?.[0].length ?? 0;
+      continue;
+    } else if (source[i] === ")") {
+      branchingAtom = groups.pop() ?? false;
+      if (branchingAtom) markGroup();
+    } else if (source[i] === "|") {
+      markGroup();
+      continue;
+    }
+
+    const quantifier = source.slice(i + 1).match(QUANTIFIER)?.[0];
+    if (!quantifier) continue;
+    i += quantifier.length;
+    quantifiers++;
+    markGroup();
+    if (!quantifier.startsWith("?")) {
+      unbounded++;
+      if (branchingAtom) {
+        return "alarm_name regular expressions can't repeat a group that holds quantifiers or alternatives";
+      }
+    }
+  }
+
+  if (unbounded > MAX_REGEX_UNBOUNDED_QUANTIFIERS || quantifiers > MAX_REGEX_QUANTIFIERS) {
+    return `alarm_name regular expressions can have at most ${MAX_REGEX_QUANTIFIERS} quantifiers, ${MAX_REGEX_UNBOUNDED_QUANTIFIERS} of them *, + or {}`;
+  }
+  return null;
+}
+
+/**
+ * Match an alarm name against a pattern that passed alarmNamePatternError.
+ * Regular expressions are anchored to the whole name.
+ */
+export function matchAlarmName(pattern: string, name: string): boolean {
+  const source = regexSource(pattern);
+  return source === null ? matchGlob(pattern, name) : new RegExp(`^(?:${source})$`).test(name);
+}
+
+/**
+ * Match an alarm name against a glob. Backtracks only to the last *, so
+ * the work stays within pattern length times name length.
+ */
+function matchGlob(pattern: string, name: string): boolean {
+  let p = 0;
+  let n = 0;
+  let star = -1;
+  let starName = 0;
+  while (n < name.length) {
+    if (p < pattern.length && (pattern[p] === "?" || pattern[p] === name[n])) {
+      p++;
+      n++;
+    } else if (p < pattern.length && pattern[p] === "*") {
+      star = p++;
+      starName = n;
+    } else if (star >= 0) {
+      p = star + 1;
+      n = ++starName;
+    } else {
+      return false;
+    }
+  }
+  while (pattern[p] === "*") p++;
+  return p === pattern.length;
+}
+
+// The SNS message only has the region display name; the ARN carries the code
+export function alarmRegion(message: CloudWatchAlarmMessage): string {
+  return message.AlarmArn?.split(":")[3] || message.Region;
+}
+
+function alarmValue(field: keyof RoutingMatch, message: CloudWatchAlarmMessage): string | null {
+  switch (field) {
+    case "aws_account_id":
+      return message.AWSAccountId;
+    case "region":
+      return alarmRegion(message);
+    case "alarm_name":
+      return message.AlarmName;
+    case "namespace":
+      return message.Trigger?.Namespace ?? firstMetricStat(message)?.Metric.Namespace ?? null;
+    case "metric_name":
+      return message.Trigger?.MetricName ?? firstMetricStat(message)?.Metric.MetricName ?? null;
+    case "service":
+      return parseAlarmAnnotations(message.AlarmDescription).service ?? null;
+  }
+}
+
+// Metric math alarms match rules on the first metric their expression reads
+function firstMetricStat(message: CloudWatchAlarmMessage) {
+  return message.Trigger?.Metrics?.find((metric) => metric.MetricStat)?.MetricStat;
+}
+
+function compareRules(a: RoutingRule, b: RoutingRule): number {
+  return a.priority - b.priority || a.created_at - b.created_at || a.rule_id.localeCompare(b.rule_id);
+}
+
+export async function listRoutingRules(teamId: string): Promise<RoutingRule[]> {
+  const result = await docClient.send(
+    new QueryCommand({
+      TableName: ROUTING_RULES_TABLE,
+      KeyConditionExpression: "team_id = :tid",
+      ExpressionAttributeValues: { ":tid": teamId },
+    })
+  );
+  return ((result.Items as RoutingRule[]) || []).sort(compareRules);
+}
+
+// Every page of the scan: teams past the first 1 MB must still be found
+async function findTeamsByAwsAccount(accountId: string): Promise<Team[]> {
+  const teams: Team[] = [];
+  let startKey: Record<string, unknown> | undefined;
+  do {
+    const result = await docClient.send(
+      new ScanCommand({
+        TableName: TEAMS_TABLE,
+        FilterExpression: "contains(aws_account_ids, :accountId)",
+        ExpressionAttributeValues: { ":accountId": accountId },
+        ...(startKey ? { ExclusiveStartKey: startKey } : {}),
+      })
+    );
+    teams.push(...((result.Items as Team[]) || []));
+    startKey = result.LastEvaluatedKey;
+  } while (startKey);
+  return teams.sort((a, b) => a.created_at - b.created_at || a.team_id.localeCompare(b.team_id));
+}
+
+// Last resort when neither a routing rule nor the alarm's annotations set a severity
+export function determineSeverity(alarmName: string): Severity {
+  const lowerName = alarmName.toLowerCase();
+  if (lowerName.includes("critical") || lowerName.includes("error")) {
+    return "critical";
+  }
+  if (lowerName.includes("warning") || lowerName.includes("warn")) {
+    return "warning";
+  }
+  return "info";
+}
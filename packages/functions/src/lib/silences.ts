@@ -0,0 +1,44 @@
+import { docClient, QueryCommand } from "./dynamo.js";
+import { matchAlarmName } from "./routing.js";
+import { AlertEvent, Severity, Silence } from "../types/index.js";
+
+const SILENCES_TABLE = process.env.SILENCES_TABLE!;
+
+// Silences are for maintenance windows, not for muting an alarm indefinitely
+export const MAX_SILENCE_DAYS = 7;
+
+// Expired silences stay listed a week, then DynamoDB drops them
+export const SILENCE_RETENTION_SECONDS = 7 * 24 * 60 * 60;
+
+export async function listSilences(teamId: string): Promise<Silence[]> {
+  const result = await docClient.send(
+    new QueryCommand({
+      TableName: SILENCES_TABLE,
+      KeyConditionExpression: "team_id = :tid",
+      ExpressionAttributeValues: { ":tid": teamId },
+    })
+  );
+  return (result.Items as Silence[]) || [];
+}
+
+export function isSilenceActive(silence: Silence, now: number): boolean {
+  return silence.starts_at <= now && now < silence.ends_at;
+}
+
+export function silenceMatches(silence: Silence, event: AlertEvent, severity: Severity): boolean {
+  const { aws_account_id, alarm_name, severity: matchSeverity } = silence.match;
+  if (aws_account_id && aws_account_id !== event.aws_account_id) return false;
+  if (alarm_name && !matchAlarmName(alarm_name, event.summary)) return false;
+  if (matchSeverity && matchSeverity !== severity) return false;
+  return true;
+}
+
+/**
+ * Active silence of the team covering the alert. When several match, a
+ * skip silence wins over a suppress one, so the stricter window applies.
+ */
+export async function findActiveSilence(teamId: string, event: AlertEvent, severity: Severity): Promise<Silence | null> {
+  const now = Date.now();
+  const matching = (await listSilences(teamId)).filter((silence) => isSilenceActive(silence, now) && silenceMatches(silence, event, severity));
+  return matching.find((silence) => silence.mode === "skip") ?? matching[0] ?? null;
+}
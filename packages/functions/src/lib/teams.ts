@@ -0,0 +1,123 @@
+import { docClient, GetCommand, QueryCommand, UpdateCommand } from "./dynamo.js";
+import { Team, Schedule, Membership, EscalationLevel, EscalationPolicy } from "../types/index.js";
+
+const TEAMS_TABLE = process.env.TEAMS_TABLE!;
+const SCHEDULES_TABLE = process.env.SCHEDULES_TABLE!;
+const MEMBERSHIPS_TABLE = process.env.MEMBERSHIPS_TABLE!;
+
+const ESCALATION_TARGETS: EscalationLevel["target"][] = ["on_call", "all_team"];
+
+export async function getTeam(teamId: string): Promise<Team | null> {
+  const result = await docClient.send(
+    new GetCommand({
+      TableName: TEAMS_TABLE,
+      Key: { team_id: teamId },
+    })
+  );
+  return (result.Item as Team) || null;
+}
+
+export async function findOnCallUser(teamId: string): Promise<string | null> {
+  const now = Date.now();
+  const result = await docClient.send(
+    new QueryCommand({
+      TableName: SCHEDULES_TABLE,
+      KeyConditionExpression: "team_id = :tid",
+      FilterExpression: "#start <= :now AND #end > :now",
+      ExpressionAttributeNames: {
+        "#start": "start",
+        "#end": "end",
+      },
+      ExpressionAttributeValues: {
+        ":tid": teamId,
+        ":now": now,
+      },
+    })
+  );
+  const slot = result.Items?.[0] as Schedule | undefined;
+  return slot?.user_id || null;
+}
+
+// Who gets paged when the whole team is; observers only read along
+export async function getTeamMemberIds(teamId: string): Promise<string[]> {
+  return (await listTeamMemberships(teamId))
+    .filter((membership) => membership.role !== "observer")
+    .map((membership) => membership.user_id);
+}
+
+export async function getMembership(teamId: string, userId: string): Promise<Membership | null> {
+  const result = await docClient.send(
+    new GetCommand({
+      TableName: MEMBERSHIPS_TABLE,
+      Key: { team_id: teamId, user_id: userId },
+    })
+  );
+  return (result.Item as Membership) || null;
+}
+
+export async function listTeamMemberships(teamId: string): Promise<Membership[]> {
+  const result = await docClient.send(
+    new QueryCommand({
+      TableName: MEMBERSHIPS_TABLE,
+      KeyConditionExpression: "team_id = :tid",
+      ExpressionAttributeValues: { ":tid": teamId },
+    })
+  );
+  return (result.Items as Membership[]) || [];
+}
+
+export async function listUserMemberships(userId: string): Promise<Membership[]> {
+  const result = await docClient.send(
+    new QueryCommand({
+      TableName: MEMBERSHIPS_TABLE,
+      IndexName: "user-index",
+      KeyConditionExpression: "user_id = :uid",
+      ExpressionAttributeValues: { ":uid": userId },
+    })
+  );
+  return (result.Items as Membership[]) || [];
+}
+
+export async function isLastOwner(teamId: string, userId: string): Promise<boolean> {
+  const owners = (await listTeamMemberships(teamId)).filter((membership) => membership.role === "owner");
+  return owners.length === 1 && owners[0].user_id === userId;
+}
+
+// owner_user_id must stay on an owner when its owner steps down or leaves
+export async function handOverOwnerContact(teamId: string, leavingUserId: string): Promise<void> {
+  const team = await getTeam(teamId);
+  if (team?.owner_user_id !== leavingUserId) return;
+
+  const successor = (await listTeamMemberships(teamId)).find(
+    (membership) => membership.role === "owner" && membership.user_id !== leavingUserId
+  );
+  if (!successor) return;
+
+  await docClient.send(
+    new UpdateCommand({
+      TableName: TEAMS_TABLE,
+      Key: { team_id: teamId },
+      UpdateExpression: "SET owner_user_id = :owner",
+      ExpressionAttributeValues: { ":owner": successor.user_id },
+    })
+  );
+}
+
+// Shared by team settings and routing rule overrides
+export function validateEscalationPolicy(policy: EscalationPolicy): string | null {
+  if (typeof policy !== "object" || policy === null || !Array.isArray(policy.levels)) {
+    return "escalation_policy.levels must be a list";
+  }
+  for (const level of policy.levels) {
+    if (typeof level !== "object" || level === null) {
+      return "Each escalation level must be an object";
+    }
+    if (typeof level.delay_minutes !== "number" || !Number.isFinite(level.delay_minutes) || level.delay_minutes < 0) {
+      return "Escalation delay_minutes must be a non-negative number";
+    }
+    if (!ESCALATION_TARGETS.includes(level.target)) {
+      return `Escalation target must be one of ${ESCALATION_TARGETS.join(", ")}`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,123 @@
+import { docClient, BatchGetCommand, GetCommand, UpdateCommand } from "./dynamo.js";
+import { User } from "../types/index.js";
+import { listTeamMemberships, listUserMemberships } from "./teams.js";
+
+const USERS_TABLE = process.env.USERS_TABLE!;
+
+// Verification messages a user may trigger a day across all their contact
+// methods, so removing and re-adding a method doesn't reset its limit
+export const MAX_USER_VERIFICATIONS_PER_DAY = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// BatchGetItem takes at most 100 keys per call
+const BATCH_GET_LIMIT = 100;
+const MAX_BATCH_GET_ATTEMPTS = 5;
+
+export type UserSummary = Pick<User, "user_id" | "name" | "email">;
+
+/**
+ * Create or refresh the user's directory entry, which is what teammates see
+ * instead of the raw `sub`. Email follows Cognito; the name is only seeded
+ * from it, after that the user edits it through `PUT /users/me`.
+ */
+export async function saveUserProfile(userId: string, email: string, name?: string): Promise<void> {
+  await docClient.send(
+    new UpdateCommand({
+      TableName: USERS_TABLE,
+      Key: { user_id: userId },
+      UpdateExpression: "SET email = :email, #name = if_not_exists(#name, :name), created_at = if_not_exists(created_at, :now)",
+      ExpressionAttributeNames: { "#name": "name" },
+      ExpressionAttributeValues: {
+        ":email": email,
+        ":name": name || email.split("@")[0],
+        ":now": Date.now(),
+      },
+    })
+  );
+}
+
+export async function getUser(userId: string): Promise<User | null> {
+  const result = await docClient.send(
+    new GetCommand({
+      TableName: USERS_TABLE,
+      Key: { user_id: userId },
+    })
+  );
+  return (result.Item as User) || null;
+}
+
+/**
+ * Count a verification send against the user's daily allowance. False when
+ * the allowance is used up, or when another send claimed it first.
+ */
+export async function claimVerificationSend(userId: string, now: number): Promise<boolean> {
+  const user = await getUser(userId);
+  const sends = (user?.verification_sends ?? []).filter((sentAt) => sentAt > now - DAY_MS);
+  if (!user || sends.length >= MAX_USER_VERIFICATIONS_PER_DAY) return false;
+
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: USERS_TABLE,
+        Key: { user_id: userId },
+        UpdateExpression: "SET verification_sends = :sends, verification_sent_at = :now",
+        ConditionExpression:
+          user.verification_sent_at === undefined ? "attribute_not_exists(verification_sent_at)" : "verification_sent_at = :previous",
+        ExpressionAttributeValues: {
+          ":sends": [...sends, now],
+          ":now": now,
+          ...(user.verification_sent_at === undefined ? {} : { ":previous": user.verification_sent_at }),
+        },
+      })
+    );
+    return true;
+  } catch (error) {
+    if ((error as Error).name === "ConditionalCheckFailedException") return false;
+    throw error;
+  }
+}
+
+/**
+ * Names and emails in the order asked for; users without a directory entry
+ * are left out. Reads 100 users per BatchGet, asking again for keys
+ * DynamoDB returns unprocessed.
+ */
+export async function getUserSummaries(userIds: string[]): Promise<UserSummary[]> {
+  const ids = [...new Set(userIds)];
+  const found = new Map<string, UserSummary>();
+  for (let start = 0; start < ids.length; start += BATCH_GET_LIMIT) {
+    let keys: Record<string, unknown>[] = ids.slice(start, start + BATCH_GET_LIMIT).map((userId) => ({ user_id: userId }));
+    for (let attempt = 1; keys.length > 0; attempt++) {
+      if (attempt > MAX_BATCH_GET_ATTEMPTS) {
+        throw new Error(`Could not read ${keys.length} users after ${MAX_BATCH_GET_ATTEMPTS} attempts`);
+      }
+      if (attempt > 1) {
+        await new Promise((resolve) => setTimeout(resolve, 50 * 2 ** attempt));
+      }
+
+      const result = await docClient.send(
+        new BatchGetCommand({
+          RequestItems: {
+            [USERS_TABLE]: {
+              Keys: keys,
+              ProjectionExpression: "user_id, #name, email",
+              ExpressionAttributeNames: { "#name": "name" },
+            },
+          },
+        })
+      );
+      for (const user of (result.Responses?.[USERS_TABLE] as User[] | undefined) || []) {
+        found.set(user.user_id, { user_id: user.user_id, name: user.name, email: user.email });
+      }
+      keys = result.UnprocessedKeys?.[USERS_TABLE]?.Keys || [];
+    }
+  }
+  return ids.flatMap((userId) => found.get(userId) ?? []);
+}
+
+// The user plus everyone sharing a team with them: whose names and emails they may look up
+export async function getVisibleUserIds(userId: string): Promise<Set<string>> {
+  const memberships = await listUserMemberships(userId);
+  const teammates = await Promise.all(memberships.map((membership) => listTeamMemberships(membership.team_id)));
+  return new Set([userId, ...teammates.flat().map((membership) => membership.user_id)]);
+}
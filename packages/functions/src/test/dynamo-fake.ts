@@ -0,0 +1,289 @@
+/**
+ * In-memory stand-in for the DynamoDB document client, for handler tests that
+ * need real read-after-write behaviour. Supports the expression subset the
+ * handlers use: SET (list_append, if_not_exists), ADD, REMOVE, comparisons,
+ * AND, attribute_(not_)exists and contains, on top-level attributes or
+ * nested paths such as #alerts[2].resolved_at. GSIs are emulated by filtering on
+ * the key condition, so queries ignore IndexName. Scans page by Limit.
+ * BatchGet answers every key at once.
+ */
+
+import type {
+  BatchGetCommandInput,
+  DeleteCommandInput,
+  GetCommandInput,
+  PutCommandInput,
+  QueryCommandInput,
+  ScanCommandInput,
+  UpdateCommandInput,
+} from "@aws-sdk/lib-dynamodb";
+
+type Item = Record<string, unknown>;
+
+type Command =
+  | { type: "BatchGet"; params: BatchGetCommandInput }
+  | { type: "Get"; params: GetCommandInput }
+  | { type: "Put"; params: PutCommandInput }
+  | { type: "Delete"; params: DeleteCommandInput }
+  | { type: "Query"; params: QueryCommandInput }
+  | { type: "Scan"; params: ScanCommandInput }
+  | { type: "Update"; params: UpdateCommandInput };
+
+interface ExpressionContext {
+  names?: Record<string, string>;
+  values?: Record<string, unknown>;
+}
+
+function conditionalCheckFailed(): Error {
+  const error = new Error("The conditional request failed");
+  error.name = "ConditionalCheckFailedException";
+  return error;
+}
+
+// Split on a separator that is not inside parentheses
+function splitTopLevel(expression: string, separator: RegExp): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (let i = 0; i < expression.length; i++) {
+    const char = expression[i];
+    if (char === "(") depth++;
+    if (char === ")") depth--;
+    const rest = expression.slice(i);
+    const match = depth === 0 ? rest.match(separator) : null;
+    if (match && match.index === 0) {
+      parts.push(current.trim());
+      current = "";
+      i += match[0].length - 1;
+      continue;
+    }
+    current += char;
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+function resolveName(token: string, ctx: ExpressionContext): string {
+  return token.startsWith("#") ? ctx.names![token] : token;
+}
+
+// "#alerts[2].resolved_at" -> ["alerts", 2, "resolved_at"]
+function parsePath(token: string, ctx: ExpressionContext): (string | number)[] {
+  return token
+    .trim()
+    .split(".")
+    .flatMap((part) => {
+      const [name, ...indexes] = part.split("[");
+      return [resolveName(name, ctx), ...indexes.map((index) => Number(index.replace("]", "")))];
+    });
+}
+
+function getPath(item: Item, path: (string | number)[]): unknown {
+  return path.reduce<unknown>((value, key) => (value === undefined || value === null ? undefined : (value as Item)[key]), item);
+}
+
+// Returns a copy of `item` with the path set (or removed when value is undefined)
+function setPath(item: Item, path: (string | number)[], value: unknown): Item {
+  const next = (Array.isArray(item) ? [...item] : { ...item }) as Item;
+  const [key, ...rest] = path;
+  if (rest.length === 0) {
+    if (value === undefined) delete next[key];
+    else next[key] = value;
+  } else {
+    next[key] = setPath((next[key] ?? {}) as Item, rest, value);
+  }
+  return next;
+}
+
+function resolveOperand(token: string, item: Item, ctx: ExpressionContext): unknown {
+  token = token.trim();
+  if (token.startsWith(":")) return ctx.values![token];
+  const fn = token.match(/^(\w+)\((.*)\)$/);
+  if (fn) {
+    const [a, b] = splitTopLevel(fn[2], /^,/);
+    if (fn[1] === "list_append") {
+      return [...((resolveOperand(a, item, ctx) as unknown[]) || []), ...((resolveOperand(b, item, ctx) as unknown[]) || [])];
+    }
+    if (fn[1] === "if_not_exists") {
+      const existing = resolveOperand(a, item, ctx);
+      return existing !== undefined ? existing : resolveOperand(b, item, ctx);
+    }
+    throw new Error(`Unsupported function: ${fn[1]}`);
+  }
+  return getPath(item, parsePath(token, ctx));
+}
+
+export function evaluateCondition(expression: string | undefined, item: Item, ctx: ExpressionContext): boolean {
+  if (!expression) return true;
+  return splitTopLevel(expression, /^\s+AND\s+/).every((clause) => {
+    const fn = clause.match(/^(attribute_exists|attribute_not_exists|contains)\((.*)\)$/);
+    if (fn) {
+      const [a, b] = splitTopLevel(fn[2], /^,/);
+      const value = resolveOperand(a, item, ctx);
+      if (fn[1] === "attribute_exists") return value !== undefined;
+      if (fn[1] === "attribute_not_exists") return value === undefined;
+      const needle = resolveOperand(b, item, ctx);
+      return Array.isArray(value) || typeof value === "string" ? (value as unknown[]).includes(needle as never) : false;
+    }
+
+    const comparison = clause.match(/^(.+?)\s*(<>|<=|>=|=|<|>)\s*(.+)$/);
+    if (!comparison) throw new Error(`Unsupported condition: ${clause}`);
+    // Strings order the same way at runtime; the cast only satisfies the compiler
+    const left = resolveOperand(comparison[1], item, ctx) as number;
+    const right = resolveOperand(comparison[3], item, ctx) as number;
+    switch (comparison[2]) {
+      case "=":
+        return left === right;
+      case "<>":
+        return left !== right;
+      case "<":
+        return left < right;
+      case "<=":
+        return left <= right;
+      case ">":
+        return left > right;
+      default:
+        return left >= right;
+    }
+  });
+}
+
+function applyUpdate(expression: string, item: Item, ctx: ExpressionContext): Item {
+  let next = { ...item };
+  const sections = expression.split(/\s*\b(SET|ADD|REMOVE)\s+/).filter(Boolean);
+  for (let i = 0; i < sections.length; i += 2) {
+    const action = sections[i];
+    for (const clause of splitTopLevel(sections[i + 1], /^,/)) {
+      if (action === "SET") {
+        const [path, value] = clause.split(/\s*=\s*(.*)/s);
+        next = setPath(next, parsePath(path, ctx), resolveOperand(value, item, ctx));
+      } else if (action === "ADD") {
+        const [path, value] = clause.split(/\s+/);
+        const name = resolveName(path, ctx);
+        next[name] = ((next[name] as number) || 0) + (resolveOperand(value, item, ctx) as number);
+      } else {
+        next = setPath(next, parsePath(clause, ctx), undefined);
+      }
+    }
+  }
+  return next;
+}
+
+/**
+ * Create a fake client. `keys` maps table names to their key attributes
+ * (partition key first). Returns the client plus direct table access for
+ * seeding and assertions.
+ */
+export function createDynamoFake(keys: Record<string, string[]>) {
+  const tables = new Map<string, Item[]>();
+  const table = (name: string) => {
+    if (!keys[name]) throw new Error(`Unknown table: ${name}`);
+    if (!tables.has(name)) tables.set(name, []);
+    return tables.get(name)!;
+  };
+  const sameKey = (name: string, a: Item, b: Item) => keys[name].every((k) => a[k] === b[k]);
+  const clone = <T>(value: T): T => (value === undefined ? value : structuredClone(value));
+
+  async function send(command: Command): Promise<Record<string, unknown>> {
+    // Every key is processed; projections are ignored
+    if (command.type === "BatchGet") {
+      const responses = Object.entries(command.params.RequestItems!).map(([name, request]) => [
+        name,
+        request.Keys!.map((key) => table(name).find((item) => sameKey(name, item, key))).filter(Boolean).map(clone),
+      ]);
+      return { Responses: Object.fromEntries(responses), UnprocessedKeys: {} };
+    }
+
+    const tableName = command.params.TableName!;
+    const ctx: ExpressionContext = {
+      names: command.params.ExpressionAttributeNames,
+      values: "ExpressionAttributeValues" in command.params ? command.params.ExpressionAttributeValues : undefined,
+    };
+    const items = table(tableName);
+
+    switch (command.type) {
+      case "Get": {
+        const { Key } = command.params;
+        return { Item: clone(items.find((item) => sameKey(tableName, item, Key!))) };
+      }
+
+      case "Put": {
+        const { Item, ConditionExpression } = command.params;
+        const index = items.findIndex((item) => sameKey(tableName, item, Item!));
+        if (!evaluateCondition(ConditionExpression, index >= 0 ? items[index] : {}, ctx)) throw conditionalCheckFailed();
+        if (index >= 0) items[index] = clone(Item!);
+        else items.push(clone(Item!));
+        return {};
+      }
+
+      case "Delete": {
+        const { Key } = command.params;
+        const index = items.findIndex((item) => sameKey(tableName, item, Key!));
+        if (index >= 0) items.splice(index, 1);
+        return {};
+      }
+
+      case "Update": {
+        const { Key, ConditionExpression, UpdateExpression } = command.params;
+        const index = items.findIndex((item) => sameKey(tableName, item, Key!));
+        const existing = index >= 0 ? items[index] : { ...Key };
+        if (!evaluateCondition(ConditionExpression, index >= 0 ? existing : {}, ctx)) throw conditionalCheckFailed();
+        const updated = applyUpdate(UpdateExpression!, existing, ctx);
+        if (index >= 0) items[index] = updated;
+        else items.push(updated);
+        return { Attributes: clone(updated) };
+      }
+
+      case "Query": {
+        const { KeyConditionExpression, FilterExpression, Select } = command.params;
+        const matches = items.filter(
+          (item) => evaluateCondition(KeyConditionExpression, item, ctx) && evaluateCondition(FilterExpression, item, ctx)
+        );
+        return Select === "COUNT" ? { Count: matches.length } : { Items: clone(matches), Count: matches.length };
+      }
+
+      case "Scan": {
+        const { FilterExpression, Select, Limit, ExclusiveStartKey } = command.params;
+        // Limit caps the items evaluated, before the filter, like DynamoDB's 1 MB pages
+        const start = ExclusiveStartKey ? items.findIndex((item) => sameKey(tableName, item, ExclusiveStartKey)) + 1 : 0;
+        const evaluated = items.slice(start, Limit === undefined ? undefined : start + Limit);
+        const more = start + evaluated.length < items.length;
+        const lastKey = more ? Object.fromEntries(keys[tableName].map((k) => [k, evaluated[evaluated.length - 1][k]])) : undefined;
+        const matches = evaluated.filter((item) => evaluateCondition(FilterExpression, item, ctx));
+        const page = Select === "COUNT" ? { Count: matches.length } : { Items: clone(matches), Count: matches.length };
+        return lastKey ? { ...page, LastEvaluatedKey: lastKey } : page;
+      }
+    }
+  }
+
+  return {
+    send,
+    table,
+    reset: () => tables.clear(),
+  };
+}
+
+// Command constructors matching the shape the fake's send() expects
+export const fakeCommands = {
+  BatchGetCommand: function (params: Record<string, unknown>) {
+    return { type: "BatchGet", params };
+  },
+  GetCommand: function (params: Record<string, unknown>) {
+    return { type: "Get", params };
+  },
+  PutCommand: function (params: Record<string, unknown>) {
+    return { type: "Put", params };
+  },
+  DeleteCommand: function (params: Record<string, unknown>) {
+    return { type: "Delete", params };
+  },
+  QueryCommand: function (params: Record<string, unknown>) {
+    return { type: "Query", params };
+  },
+  ScanCommand: function (params: Record<string, unknown>) {
+    return { type: "Scan", params };
+  },
+  UpdateCommand: function (params: Record<string, unknown>) {
+    return { type: "Update", params };
+  },
+};
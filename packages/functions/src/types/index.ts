@@ -3,19 +3,133 @@ import type { APIGatewayProxyEventV2 } from "aws-lambda";
 export interface User {
   user_id: string;
   email: string;
-  name: string;
-  team_ids: string[];
+  name: string; // Display name; shown as the acker and on the on-call card
+  time_zone?: string; // IANA, e.g. "Europe/Berlin"
+  phone_number?: string; // E.164
+  locale?: string; // BCP 47, e.g. "en-GB"
+  notification_rules?: NotificationRule[]; // Unset or no rule for a severity: push right away
+  quiet_hours?: QuietHours;
+  dnd_until?: number; // Do-not-disturb until this timestamp
+  verification_sends?: number[]; // Contact verification send times within the last day, across all methods
+  verification_sent_at?: number; // Latest of verification_sends; guards concurrent sends
   created_at: number;
 }
 
+// Daily window in the user's time zone; may cross midnight ("22:00" to "07:00")
+export interface QuietHours {
+  start: string; // "HH:MM"
+  end: string;
+}
+
+// A warning or info push held during quiet hours or do-not-disturb, sent in the digest
+export interface HeldNotification {
+  user_id: string;
+  held_id: string; // `${held_at}-${uuid}`, so items sort by time
+  incident_id: string;
+  severity: Severity;
+  title: string;
+  body: string;
+  held_at: number;
+  ttl: number; // DynamoDB TTL - dropped if the digest never goes out
+}
+
+/**
+ * One way to page the user for incidents of a severity. Several rules per
+ * severity make a sequence, e.g. push at once and email after 5 minutes;
+ * delayed rules only fire while the incident is still unacknowledged.
+ */
+export interface NotificationRule {
+  rule_id: string;
+  severity: Severity;
+  contact_method_id?: string; // Verified contact method; unset for push to every device
+  delay_minutes: number; // 0 for immediately
+  working_hours_only?: boolean; // Mon-Fri 09:00-17:00 in the user's time zone
+}
+
+export type ContactMethodType = "email" | "sms" | "webhook";
+
+// Where notifications can reach a user besides their push devices; unusable until verified
+export interface ContactMethod {
+  user_id: string;
+  method_id: string;
+  type: ContactMethodType;
+  address: string; // Email address, E.164 phone number or https URL
+  verified_at?: number;
+  subscription_arn?: string; // email: SNS subscription, confirmed via the link AWS sends
+  verification?: ContactVerification; // sms and webhook
+  verification_sends?: number[]; // Verification send times within the last day
+  created_at: number;
+}
+
+// A one-time code sent to the address; only its hash is stored
+export interface ContactVerification {
+  code_hash: string;
+  expires_at: number;
+  attempts: number;
+}
+
+// owner > admin > responder > observer; each role can do what the ones below it can
+export type TeamRole = "owner" | "admin" | "responder" | "observer";
+
+export interface Membership {
+  team_id: string;
+  user_id: string;
+  role: TeamRole;
+  fyi?: boolean; // Observers only: push a heads-up when an incident triggers
+  created_at: number;
+}
+
+// One-time code that adds whoever signs in with `email` to the team
+export interface Invite {
+  code: string;
+  team_id: string;
+  email: string; // Lowercased
+  role: TeamRole;
+  invited_by: string;
+  created_at: number;
+  expires_at: number;
+  accepted_by?: string;
+  accepted_at?: number;
+  ttl: number; // DynamoDB TTL - a week after expires_at
+}
+
 export interface Team {
   team_id: string;
   name: string;
   aws_account_ids: string[];
   escalation_policy: EscalationPolicy;
+  ok_action?: OkAction; // What a CloudWatch OK transition does (default "resolve")
+  owner_user_id?: string; // An owner; paged by the "owner" no-on-call fallback
+  no_on_call_fallback?: NoOnCallFallback; // Unset: alarms during schedule gaps go to the unrouted inbox
+  grouping?: AlertGrouping; // Unset: every alarm gets its own incident
+  flap_detection?: FlapDetection; // Unset: DEFAULT_FLAP_DETECTION
   created_at: number;
 }
 
+// An alarm flaps when it changes state at least `transitions` times within the window
+export interface FlapDetection {
+  transitions: number;
+  window_minutes: number;
+}
+
+// Alarms sharing a grouping key within the window attach to the first
+// incident instead of paging again
+export interface AlertGrouping {
+  key: GroupingKey;
+  dimension?: string; // Dimension name for key "dimension", e.g. "DBInstanceIdentifier"
+  window_minutes: number;
+}
+
+// account_region: same AWS account and region; dimension: same value of one
+// CloudWatch dimension; routing_rule: same routing rule `group` (or rule)
+export type GroupingKey = "account_region" | "dimension" | "routing_rule";
+
+export type OkAction = "resolve" | "annotate";
+
+// all_members pages everyone, owner assigns the team owner, unassigned
+// creates the incident for anyone to ack and notifies members without paging
+export type NoOnCallFallback = "all_members" | "owner" | "unassigned";
+
 export interface EscalationPolicy {
   levels: EscalationLevel[];
 }
@@ -25,6 +139,40 @@ export interface EscalationLevel {
   target: "on_call" | "all_team";
 }
 
+// Evaluated in priority order (lowest first) against alarms from the team's accounts
+export interface RoutingRule {
+  team_id: string;
+  rule_id: string;
+  name: string;
+  priority: number;
+  match: RoutingMatch;
+  severity?: Severity; // Falls back to guessing from the alarm name
+  escalation_policy?: EscalationPolicy; // Overrides the team policy for matched incidents
+  group?: string; // Rules sharing a group bundle their alarms under "routing_rule" grouping
+  created_at: number;
+}
+
+// Every present field must match; alarm_name is a glob (* and ?)
+export interface RoutingMatch {
+  aws_account_id?: string;
+  region?: string;
+  alarm_name?: string;
+  namespace?: string;
+  metric_name?: string;
+  service?: string; // From the alarm's `service` annotation
+}
+
+// Paging metadata declared in a CloudWatch AlarmDescription
+export interface AlarmAnnotations {
+  severity?: string;
+  runbook?: string; // http(s) URL
+  team?: string; // Team ID or name; must own the alarm's account
+  service?: string;
+  urgency?: string; // high / low; used when severity is absent
+}
+
+export type Severity = "critical" | "warning" | "info";
+
 export interface Schedule {
   team_id: string;
   slot_id: string;
@@ -36,13 +184,28 @@ export interface Schedule {
 export interface Incident {
   incident_id: string;
   team_id: string;
-  alarm_arn: string;
+  alarm_arn?: string; // CloudWatch alarms only
   alarm_name: string;
-  state: "triggered" | "acked" | "resolved";
-  severity: "critical" | "warning" | "info";
-  assigned_to: string;
-  escalation_level: number;
-  escalation_rule_id?: string;
+  dedup_key?: string; // Identifies the alarm across state changes (CloudWatch: alarm ARN)
+  source?: string; // "CloudWatch" or the integration name; timeline actor for source events
+  state: IncidentState;
+  severity: Severity;
+  assigned_to?: string; // Unset for unassigned or all-members fallback incidents
+  escalation_level: number; // Number of escalation levels already executed
+  escalation_rule_id?: string; // Pending EventBridge Scheduler schedule name
+  escalation_policy?: EscalationPolicy; // Set by a routing rule; overrides the team policy
+  routing_rule_id?: string; // Routing rule that matched, if any
+  notify_user_ids?: string[]; // Users paged by the latest escalation step or on-call fallback
+  on_call_fallback?: NoOnCallFallback; // Set when nobody was on call at trigger time
+  alarm_count?: number; // ALARM notifications folded into this incident
+  custom_details?: Record<string, unknown>; // Free-form payload from integration events
+  alarm_context?: AlarmContext; // CloudWatch alarms only
+  runbook_url?: string;
+  group_key?: string; // Set when the team groups alerts
+  alerts?: GroupedAlert[]; // Every alert in the group, the paging one first
+  alert_dedup_keys?: string[]; // Dedup keys of the attached alerts (not the first)
+  flapping?: boolean; // The alarm started flapping while this incident was open; pages are suppressed
+  silence_id?: string; // Silence that suppressed the incident
   triggered_at: number;
   acked_at?: number;
   acked_by?: string;
@@ -51,13 +214,230 @@ export interface Incident {
   timeline: TimelineEntry[];
 }
 
+// CloudWatch alarm configuration and state at trigger time
+export interface AlarmContext {
+  region: string; // Region code, e.g. "us-east-1"
+  description?: string;
+  old_state?: string;
+  state_change_time: string;
+  metric_name?: string;
+  namespace?: string;
+  dimensions?: { name: string; value: string }[];
+  statistic?: string;
+  unit?: string;
+  threshold?: number;
+  comparison_operator?: string;
+  period?: number; // Seconds
+  evaluation_periods?: number;
+  datapoints_to_alarm?: number;
+  treat_missing_data?: string;
+  expression?: string; // Metric math alarms: the expression the alarm evaluates
+  alarm_rule?: string; // Composite alarms, e.g. "ALARM(api-5xx) AND ALARM(api-latency)"
+  annotations?: AlarmAnnotations;
+  console_url: string;
+}
+
+// suppressed: created during a silence; never pages or escalates
+export type IncidentState = "triggered" | "acked" | "resolved" | "suppressed";
+
+// One alert bundled into a grouped incident
+export interface GroupedAlert {
+  dedup_key: string;
+  summary: string;
+  alarm_arn?: string;
+  triggered_at: number;
+  resolved_at?: number; // The source cleared it; the incident resolves once all have
+}
+
 export interface TimelineEntry {
   timestamp: number;
-  event: "triggered" | "acked" | "resolved" | "escalated" | "reassigned";
+  event: "triggered" | "acked" | "resolved" | "escalated" | "reassigned" | "annotated" | "retriggered" | "fallback" | "grouped" | "flapping" | "suppressed";
   actor: string;
   note?: string;
 }
 
+// Source-independent alert; CloudWatch alarms and integration events are
+// normalized into this before entering the incident pipeline
+export interface AlertEvent {
+  source: string;
+  action: "trigger" | "resolve";
+  dedup_key: string;
+  summary: string;
+  details?: string;
+  alarm_arn?: string;
+  aws_account_id?: string;
+  custom_details?: Record<string, unknown>;
+  alarm_context?: AlarmContext;
+  runbook_url?: string;
+}
+
+// Inbound webhook owned by a team; the key is the only credential
+export interface Integration {
+  team_id: string;
+  integration_id: string;
+  name: string;
+  type: IntegrationType;
+  integration_key: string;
+  severity_label?: string; // alertmanager: label holding the severity (default "severity")
+  created_at: number;
+}
+
+export type IntegrationType = "generic" | "alertmanager";
+
+// CloudWatch alarm state change as delivered through SNS
+export interface CloudWatchAlarmMessage {
+  AlarmName: string;
+  AlarmArn: string;
+  AlarmDescription?: string | null;
+  NewStateValue: "ALARM" | "OK" | "INSUFFICIENT_DATA";
+  NewStateReason: string;
+  StateChangeTime: string;
+  Region: string; // Display name, e.g. "US East (N. Virginia)"
+  AWSAccountId: string;
+  OldStateValue?: "ALARM" | "OK" | "INSUFFICIENT_DATA";
+  AlarmRule?: string; // Composite alarms only; they have no Trigger
+  Trigger?: {
+    MetricName?: string;
+    Namespace?: string;
+    Statistic?: string;
+    ExtendedStatistic?: string | null;
+    Unit?: string | null;
+    Dimensions?: { name: string; value: string }[];
+    Period?: number;
+    EvaluationPeriods?: number;
+    DatapointsToAlarm?: number;
+    ComparisonOperator?: string;
+    Threshold?: number;
+    TreatMissingData?: string;
+    Metrics?: AlarmTriggerMetric[]; // Metric math alarms, instead of MetricName/Namespace
+  };
+}
+
+export interface AlarmTriggerMetric {
+  Id: string;
+  Expression?: string;
+  Label?: string;
+  ReturnData?: boolean;
+  MetricStat?: {
+    Metric: { MetricName: string; Namespace: string; Dimensions?: { name: string; value: string }[] };
+    Period: number;
+    Stat: string;
+    Unit?: string;
+  };
+}
+
+// EventBridge "CloudWatch Alarm State Change" detail, for metric, metric math and composite alarms
+export interface CloudWatchAlarmStateChange {
+  alarmName: string;
+  state: AlarmStateDetail;
+  previousState?: AlarmStateDetail;
+  configuration: {
+    description?: string;
+    metrics?: AlarmStateChangeMetric[];
+    alarmRule?: string; // Composite alarms
+  };
+}
+
+export interface AlarmStateDetail {
+  value: "ALARM" | "OK" | "INSUFFICIENT_DATA";
+  reason: string;
+  reasonData?: string;
+  timestamp: string;
+  actionsSuppressedBy?: string; // Composite alarms whose actions are held back by a suppressor
+  actionsSuppressedReason?: string;
+}
+
+export interface AlarmStateChangeMetric {
+  id: string;
+  expression?: string;
+  label?: string;
+  returnData?: boolean;
+  metricStat?: {
+    metric: { namespace: string; name: string; dimensions?: Record<string, string> };
+    period: number;
+    stat: string;
+    unit?: string;
+  };
+}
+
+// Delivery status of a member AWS account, shared by every team that lists it
+export interface AwsAccountStatus {
+  aws_account_id: string;
+  verified_at?: number;
+  verified_team_id?: string; // Team whose challenge verified it
+  challenges?: Record<string, AccountChallenge>; // Pending challenges by team_id, so teams can't replace each other's
+  last_alarm_at?: number;
+  last_alarm_name?: string;
+}
+
+// Nonce that a verification alarm must carry in its name or state reason
+export interface AccountChallenge {
+  nonce: string;
+  team_id: string;
+  issued_at: number;
+  expires_at: number;
+}
+
+// Maintenance window: matching alerts are dropped (skip) or recorded without paging (suppress)
+export interface Silence {
+  team_id: string;
+  silence_id: string;
+  starts_at: number;
+  ends_at: number;
+  match: SilenceMatch; // Empty matches every alert of the team
+  mode: SilenceMode;
+  comment?: string;
+  created_by: string;
+  created_at: number;
+  ttl?: number; // DynamoDB TTL - a week after ends_at
+}
+
+// Every present field must match; alarm_name is a glob (* and ?)
+export interface SilenceMatch {
+  aws_account_id?: string;
+  alarm_name?: string;
+  severity?: Severity;
+}
+
+export type SilenceMode = "skip" | "suppress";
+
+// Recent state changes of one CloudWatch alarm, for flap detection
+export interface AlarmHistory {
+  alarm_arn: string;
+  alarm_name: string;
+  aws_account_id?: string;
+  team_id?: string; // Team the alarm last routed to
+  transitions: AlarmTransition[]; // Oldest first, trimmed to MAX_FLAP_WINDOW_MINUTES
+  last_transition_at: number;
+  flapping: boolean; // As of the last transition
+  flapping_since?: number;
+  flapping_incident_id?: string; // Incident flagged for the current flapping episode
+  ttl?: number;
+}
+
+export interface AlarmTransition {
+  state: "ALARM" | "OK";
+  at: number;
+}
+
+// Alarm that reached no one; kept with the raw payload for replay
+export interface UnroutedAlert {
+  alert_id: string;
+  reason: UnroutedReason;
+  detail: string;
+  source?: "cloudwatch" | "integration"; // Unset on alerts recorded before integrations
+  integration_id?: string;
+  aws_account_id?: string;
+  alarm_name: string;
+  team_id?: string; // Set when routing found a team but nobody was on call
+  raw_message: string;
+  received_at: number;
+  last_replayed_at?: number;
+  ttl?: number; // DynamoDB TTL - auto-delete after 7 days
+}
+
+export type UnroutedReason = "no_team" | "no_on_call";
+
 export interface Device {
   user_id: string;
   device_token: string;
@@ -100,3 +480,12 @@ export function getUserIdFromEvent(event: APIGatewayProxyEventV2WithJWT | APIGat
   const authorizer = (event.requestContext as APIGatewayProxyEventV2WithJWT["requestContext"]).authorizer;
   return authorizer?.jwt?.claims?.sub ?? null;
 }
+
+// Email and name from the ID token the app sends; access tokens carry neither
+export function getProfileFromEvent(event: APIGatewayProxyEventV2WithJWT | APIGatewayProxyEventV2): { email: string; name?: string } | null {
+  const claims = (event.requestContext as APIGatewayProxyEventV2WithJWT["requestContext"]).authorizer?.jwt?.claims;
+  if (typeof claims?.email !== "string") {
+    return null;
+  }
+  return { email: claims.email, ...(typeof claims.name === "string" ? { name: claims.name } : {}) };
+}